@@ -0,0 +1,59 @@
+'use client';
+
+import type { RuleResult } from '@/lib/compat/types';
+import { formatMessage, type Locale } from '@/lib/compat/messages';
+
+interface BalanceIndicatorProps {
+  results: RuleResult[];
+  locale: Locale;
+}
+
+// Pill color per balance verdict: balanced, leaning to one side, bottlenecked
+function getPillClass(result: RuleResult): string {
+  if (result.status === 'warn') return 'bg-red-50 border-red-200 text-red-700';
+  if (result.message.code === 'BALANCE_OK') return 'bg-green-50 border-green-200 text-green-700';
+  return 'bg-yellow-50 border-yellow-200 text-yellow-700';
+}
+
+function getPillLabel(result: RuleResult): string {
+  switch (result.message.code) {
+    case 'BALANCE_CPU_BOUND':
+    case 'BALANCE_CPU_BOTTLENECK':
+      return 'CPU';
+    case 'BALANCE_GPU_BOUND':
+    case 'BALANCE_GPU_BOTTLENECK':
+      return 'GPU';
+    default:
+      return 'OK';
+  }
+}
+
+export function BalanceIndicator({ results, locale }: BalanceIndicatorProps) {
+  // Explain the worst verdict: a bottleneck first, else the first resolution that leans to one side
+  const detail =
+    results.find((result) => result.status === 'warn') ?? results.find((result) => result.message.code !== 'BALANCE_OK');
+
+  return (
+    <div className="p-2 md:p-3 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] md:text-xs font-medium text-gray-700">⚖️ Balance CPU/GPU</span>
+        <div className="flex gap-1">
+          {results.map((result) => (
+            <span
+              key={result.ruleId}
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-medium ${getPillClass(result)}`}
+              title={formatMessage(result.message, locale)}
+            >
+              {result.ruleId.replace('balance-', '')}: {getPillLabel(result)}
+            </span>
+          ))}
+        </div>
+      </div>
+      {detail && (
+        <p className="mt-1.5 text-[10px] md:text-xs text-gray-600 leading-relaxed">
+          {formatMessage(detail.message, locale)}
+        </p>
+      )}
+    </div>
+  );
+}
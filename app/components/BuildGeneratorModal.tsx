@@ -0,0 +1,268 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CATEGORIES, type CategoryKey } from '@/lib/catalog/categories';
+import { searchCatalog } from '@/lib/catalog/search';
+import type { Product } from '@/lib/mallweb/normalize';
+import {
+  generateBuildAsync,
+  GENERATION_ORDER,
+  USE_CASE_PROFILES,
+  USE_CASES,
+  type CpuPlatform,
+  type GeneratedBuild,
+  type UseCase,
+} from '@/lib/compat/generator';
+import { getOwnedBuild } from '@/lib/compat/upgrade';
+import { useBuildStore, USE_INCLUDED_COOLER_ID, USE_INCLUDED_PSU_ID } from '@/store/buildStore';
+
+type Catalog = Partial<Record<CategoryKey, Product[]>>;
+
+const DEFAULT_BUDGET = 1_500_000;
+
+/**
+ * Resolves once the browser has painted pending updates, so a loading state shows
+ * before synchronous work (the upgrade planner's search) blocks the page
+ */
+export function waitForPaint(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 0)));
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString('es-AR', { minimumFractionDigits: 2 })}`;
+}
+
+interface BuildGeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function BuildGeneratorModal({ isOpen, onClose }: BuildGeneratorModalProps) {
+  const [budget, setBudget] = useState(DEFAULT_BUDGET);
+  const [useCase, setUseCase] = useState<UseCase>('gaming-1080p');
+  const [platform, setPlatform] = useState<CpuPlatform | ''>('');
+  const [brands, setBrands] = useState('');
+  const [keep, setKeep] = useState<CategoryKey[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<GeneratedBuild | null>(null);
+  // The catalog is loaded once per session; later requests only re-run the search
+  const catalogRef = useRef<Catalog | null>(null);
+
+  useBuildStore((state) => state.parts); // Re-render when the build changes
+  const getBuild = useBuildStore((state) => state.getBuild);
+  const loadBuild = useBuildStore((state) => state.loadBuild);
+  const powerOptions = useBuildStore((state) => state.powerOptions);
+
+  if (!isOpen) return null;
+
+  // Owned parts stay and cost nothing; other parts can be kept, except placeholders for included parts
+  const build = getBuild();
+  const owned = getOwnedBuild(build);
+  const keepable = GENERATION_ORDER.flatMap((category) => {
+    const part = build.get(category);
+    if (!part || owned.has(category)) return [];
+    if (part.product.id === USE_INCLUDED_COOLER_ID || part.product.id === USE_INCLUDED_PSU_ID) return [];
+    return [{ category, product: part.product }];
+  });
+
+  const toggleKeep = (category: CategoryKey) => {
+    setKeep((current) => (current.includes(category) ? current.filter((key) => key !== category) : [...current, category]));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      catalogRef.current ??= await searchCatalog(GENERATION_ORDER);
+      // The search yields between beam steps, so the page stays responsive while it runs
+      const generated = await generateBuildAsync(catalogRef.current, {
+        budget,
+        useCase,
+        platform: platform || undefined,
+        brands: brands.split(',').map((brand) => brand.trim()).filter(Boolean),
+        keep: Object.fromEntries(
+          keepable.filter(({ category }) => keep.includes(category)).map(({ category, product }) => [category, product])
+        ),
+        owned,
+        power: powerOptions,
+      });
+
+      if (generated) {
+        setResult(generated);
+      } else {
+        setError('No encontramos un build compatible para ese presupuesto. Probá subirlo o mantener menos componentes.');
+      }
+    } catch (err) {
+      console.error('Error generating build:', err);
+      setError(err instanceof Error ? err.message : 'Error al buscar componentes');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleLoad = () => {
+    if (!result) return;
+    loadBuild(result.parts);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-red-50 to-red-100/50 shrink-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                Armá tu build por presupuesto
+              </h2>
+              <p className="text-sm text-gray-600 mt-0.5">
+                Elegimos componentes compatibles del catálogo según el uso
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-white/50 transition-colors"
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="font-medium text-gray-700">Presupuesto (ARS)</span>
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={budget}
+                onChange={(e) => setBudget(Number(e.target.value))}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              />
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Uso</span>
+              <select
+                value={useCase}
+                onChange={(e) => setUseCase(e.target.value as UseCase)}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              >
+                {USE_CASES.map((key) => (
+                  <option key={key} value={key}>{USE_CASE_PROFILES[key].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Plataforma</span>
+              <select
+                value={platform}
+                onChange={(e) => setPlatform(e.target.value as CpuPlatform | '')}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              >
+                <option value="">Cualquiera</option>
+                <option value="AMD">AMD</option>
+                <option value="Intel">Intel</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Marcas preferidas</span>
+              <input
+                type="text"
+                placeholder="ASUS, Corsair"
+                value={brands}
+                onChange={(e) => setBrands(e.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              />
+            </label>
+          </div>
+
+          {keepable.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-700 mb-1">Mantener de tu build actual</p>
+              <div className="space-y-1">
+                {keepable.map(({ category, product }) => (
+                  <label key={category} className="flex items-center gap-2 text-gray-700">
+                    <input type="checkbox" checked={keep.includes(category)} onChange={() => toggleKeep(category)} />
+                    <span className="font-medium">{CATEGORIES[category].shortName}:</span>
+                    <span className="line-clamp-1">{product.title}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || budget <= 0}
+            className="w-full py-3 px-4 rounded-lg font-bold bg-red-600 text-white hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isGenerating ? 'Buscando componentes…' : 'Generar build'}
+          </button>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-red-700">
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {GENERATION_ORDER.filter((category) => result.parts[category]).map((category) => (
+                  <li key={category} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <span className="text-gray-800">
+                      <span className="font-medium">{CATEGORIES[category].shortName}:</span>{' '}
+                      {result.parts[category]!.title}
+                    </span>
+                    <span className="shrink-0 text-gray-600">{formatPrice(result.parts[category]!.price)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center justify-between font-bold text-gray-900">
+                <span>Total</span>
+                <span>{formatPrice(result.totalPrice)}</span>
+              </div>
+              {result.warnings.map((warning, i) => (
+                <div key={i} className="p-2 rounded-lg bg-yellow-50 border border-yellow-200 text-xs text-yellow-700">
+                  ⚠️ {warning}
+                </div>
+              ))}
+              <button
+                onClick={handleLoad}
+                className="w-full py-3 px-4 rounded-lg font-bold bg-green-600 text-white hover:bg-green-700 transition-colors"
+              >
+                Cargar build
+              </button>
+              <p className="text-xs text-gray-500 text-center">Reemplaza los componentes de tu build actual, salvo los que ya tenés</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,48 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import Image from 'next/image';
-import { useBuildStore, useTotalQuantity, useMaxRamSlots, USE_INCLUDED_COOLER_ID } from '@/store/buildStore';
-import { getCategoriesArray, getRequiredCategories, isGpuRequired, isCoolerRequired } from '@/lib/catalog/categories';
+import { useBuildStore, useBuild, useCompatibilitySummary, useTotalQuantity, useMaxRamSlots, OWNED_PRODUCT_ID_PREFIX, USE_INCLUDED_COOLER_ID, USE_INCLUDED_PSU_ID } from '@/store/buildStore';
+import { CATEGORIES, getCategoriesArray, isMultiSelectCategory } from '@/lib/catalog/categories';
 import { getCategoryIcon } from '@/lib/catalog/icons';
 import type { ProductWithQuantity } from '@/store/buildStore';
 import { CheckoutModal, type CheckoutFormData } from './CheckoutModal';
 import { BuildAnalysisModal } from './BuildAnalysisModal';
+import { BuildGeneratorModal } from './BuildGeneratorModal';
+import { UpgradePlannerModal } from './UpgradePlannerModal';
+import { PowerBudgetBar } from './PowerBudgetBar';
+import { BalanceIndicator } from './BalanceIndicator';
+import { FixSuggestions } from './FixSuggestions';
+import { computePowerBudget } from '@/lib/compat/power';
+import { getAddUnitFailure } from '@/lib/compat/buildRules';
+import { formatMessage, getMessageKey } from '@/lib/compat/messages';
+import { getFixCategories } from '@/lib/compat/resolver';
+import { assignM2Slots, getM2SlotLabels } from '@/lib/compat/m2';
+import { hasVideoOutputs } from '@/lib/compat/display';
+import { getBuildItems } from '@/lib/compat/build';
+
+// Included cooler/PSU placeholders come with another part, so they can't be owned on their own
+function isIncludedPart(productId: string): boolean {
+  return productId === USE_INCLUDED_COOLER_ID || productId === USE_INCLUDED_PSU_ID;
+}
+
+// Parts declared by description aren't catalog products: always owned, never sent to the cart
+function isDeclaredPart(productId: string): boolean {
+  return productId.startsWith(OWNED_PRODUCT_ID_PREFIX);
+}
+
+function OwnedToggle({ owned, onChange }: { owned: boolean; onChange: (owned: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-1 text-[10px] text-gray-600 cursor-pointer whitespace-nowrap" title="Las partes que ya tenés no se cobran">
+      <input
+        type="checkbox"
+        checked={owned}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-3 h-3 accent-red-600"
+      />
+      Ya lo tengo
+    </label>
+  );
+}
 
 export function BuildSummary() {
   const [isClient, setIsClient] = useState(false);
@@ -15,14 +51,25 @@ export function BuildSummary() {
   const [checkoutError, setCheckoutError] = useState<string | null>(null);
   const [showCheckoutModal, setShowCheckoutModal] = useState(false);
   const [showAnalysisModal, setShowAnalysisModal] = useState(false);
+  const [showGeneratorModal, setShowGeneratorModal] = useState(false);
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [cachedAnalysis, setCachedAnalysis] = useState<string | null>(null);
   const [componentsHash, setComponentsHash] = useState<string>('');
+  // Failure whose "fix it" suggestions are open, by message key
+  const [openFixKey, setOpenFixKey] = useState<string | null>(null);
   
   const parts = useBuildStore((state) => state.parts);
   const getTotalPrice = useBuildStore((state) => state.getTotalPrice);
   const getPartCount = useBuildStore((state) => state.getPartCount);
-  const getCompatibilitySummary = useBuildStore((state) => state.getCompatibilitySummary);
+  // Subscribed so compatibility messages re-render when the language changes
+  const locale = useBuildStore((state) => state.locale);
+  const powerOptions = useBuildStore((state) => state.powerOptions);
+  const setPsuHeadroom = useBuildStore((state) => state.setPsuHeadroom);
   const removePart = useBuildStore((state) => state.removePart);
+  const setPart = useBuildStore((state) => state.setPart);
+  const addPart = useBuildStore((state) => state.addPart);
+  const replaceItem = useBuildStore((state) => state.replaceItem);
+  const setPartOwned = useBuildStore((state) => state.setPartOwned);
   const incrementQuantity = useBuildStore((state) => state.incrementQuantity);
   const decrementQuantity = useBuildStore((state) => state.decrementQuantity);
   const clearBuild = useBuildStore((state) => state.clearBuild);
@@ -80,7 +127,8 @@ export function BuildSummary() {
   const categories = getCategoriesArray();
   const totalPrice = getTotalPrice();
   const partCount = getPartCount();
-  const summary = getCompatibilitySummary();
+  // Kept while the parts and language stay the same, so the fix suggestions don't recompute on every render
+  const summary = useCompatibilitySummary();
 
   const selectedParts = categories.filter((cat) => {
     const part = parts[cat.key];
@@ -94,53 +142,56 @@ export function BuildSummary() {
   // Check if CPU has integrated graphics
   const cpuPart = parts.cpu;
   const cpuHasGraphics = !Array.isArray(cpuPart) && cpuPart?.spec.integratedGraphics;
+  const moboPart = parts.motherboard;
+  const boardHasNoOutputs = !Array.isArray(moboPart) && moboPart !== null && hasVideoOutputs(moboPart.spec) === false;
   const gpuPart = parts.gpu;
   const hasGpu = Array.isArray(gpuPart) ? gpuPart.length > 0 : gpuPart !== null;
 
+  // Power budget (shown once there's a CPU or GPU to power)
+  const build = useBuild();
+  const powerBudget = computePowerBudget(build, powerOptions);
+  const psuPart = parts.psu;
+  const psuWattage = psuPart && !Array.isArray(psuPart) ? psuPart.spec.psuWattage : undefined;
+  const showPowerBudget = (cpuPart !== null && !Array.isArray(cpuPart)) || hasGpu;
+
   // Get RAM slot limits
   const totalRamQuantity = useTotalQuantity('ram');
   const maxRamSlots = useMaxRamSlots();
 
-  // Check if all required components are present
-  const checkRequiredComponents = (): { complete: boolean; missing: string[] } => {
-    const missing: string[] = [];
-    const requiredCategories = getRequiredCategories();
-    
-    for (const category of requiredCategories) {
-      const part = parts[category.key];
-      const hasPart = Array.isArray(part) ? part.length > 0 : part !== null;
-      
-      if (!hasPart) {
-        missing.push(category.shortName);
-      }
+  // Whole-build limits (slots, lane sharing, drive bays) that one more unit would break, by product id
+  const addUnitFailures = new Map<string, string>();
+  for (const items of Object.values(build.items ?? {})) {
+    for (const item of items) {
+      const failure = getAddUnitFailure(build, item.product);
+      if (failure) addUnitFailures.set(item.product.product.id, formatMessage(failure.message, locale));
     }
-    
-    // Check GPU requirement based on CPU
-    const cpuPart = parts.cpu;
-    const cpuHasGraphics = !Array.isArray(cpuPart) && cpuPart?.spec.integratedGraphics;
-    if (isGpuRequired(cpuHasGraphics)) {
-      const gpuPart = parts.gpu;
-      const hasGpu = Array.isArray(gpuPart) ? gpuPart.length > 0 : gpuPart !== null;
-      if (!hasGpu) {
-        missing.push('GPU');
-      }
-    }
-    
-    // Check Cooler requirement based on CPU
-    const cpuIncludesCooler = !Array.isArray(cpuPart) && cpuPart?.spec.includesCooler;
-    if (isCoolerRequired(cpuIncludesCooler)) {
-      const coolerPart = parts.cooler;
-      const hasCooler = Array.isArray(coolerPart) ? coolerPart.length > 0 : coolerPart !== null;
-      if (!hasCooler) {
-        missing.push('Cooler');
-      }
-    }
-    
+  }
+
+  // M.2 slot each drive goes in, when the motherboard describes its slots
+  const m2SlotLabels = getM2SlotLabels(
+    assignM2Slots(build.get('motherboard')?.spec ?? {}, getBuildItems(build, 'storage'))
+  );
+
+  // Required components come from the engine (GPU/cooler depend on the CPU)
+  const checkRequiredComponents = (): { complete: boolean; missing: string[] } => {
+    const missing = summary.requiredCategories
+      .filter((key) => {
+        const part = parts[key];
+        return Array.isArray(part) ? part.length === 0 : part === null;
+      })
+      .map((key) => CATEGORIES[key].shortName);
+
     return { complete: missing.length === 0, missing };
   };
 
   const requiredComponentsStatus = checkRequiredComponents();
-  const canCheckout = requiredComponentsStatus.complete && summary.isCompatible;
+  // Owned parts don't go to checkout, so there has to be something left to buy
+  const hasPartsToBuy = Object.values(parts).some((part) =>
+    Array.isArray(part)
+      ? part.some((item) => !item.product.owned && !isDeclaredPart(item.product.product.id))
+      : part !== null && !part.owned && !isDeclaredPart(part.product.id)
+  );
+  const canCheckout = requiredComponentsStatus.complete && summary.isCompatible && hasPartsToBuy;
 
   // Open checkout modal
   const handleOpenCheckout = () => {
@@ -158,12 +209,13 @@ export function BuildSummary() {
       if (Array.isArray(part) && part.length > 0) {
         // Multi-select categories (RAM, Storage)
         for (const item of part) {
+          if (item.product.owned || isDeclaredPart(item.product.product.id)) continue;
           const weight = item.product.product.dimensions?.weight || 0;
           totalWeight += weight * item.quantity;
         }
       } else if (part !== null && !Array.isArray(part)) {
         // Single-select categories
-        if (part.product.id !== USE_INCLUDED_COOLER_ID) {
+        if (part.product.id !== USE_INCLUDED_COOLER_ID && !part.owned && !isDeclaredPart(part.product.id)) {
           const weight = part.product.dimensions?.weight || 0;
           totalWeight += weight;
         }
@@ -222,11 +274,12 @@ export function BuildSummary() {
       // Prepare cart items
       const cartItems: Array<{ productId: string; quantity: number }> = [];
       
-      // Iterate through all parts
+      // Iterate through all parts; owned ones are already in the customer's PC
       for (const [categoryKey, part] of Object.entries(parts)) {
         if (Array.isArray(part) && part.length > 0) {
           // Multi-select categories (RAM, Storage)
           for (const item of part) {
+            if (item.product.owned || isDeclaredPart(item.product.product.id)) continue;
             cartItems.push({
               productId: item.product.product.id,
               quantity: item.quantity,
@@ -235,7 +288,7 @@ export function BuildSummary() {
         } else if (part !== null && !Array.isArray(part)) {
           // Single-select categories
           // Skip the "use included cooler" virtual product
-          if (part.product.id !== USE_INCLUDED_COOLER_ID) {
+          if (part.product.id !== USE_INCLUDED_COOLER_ID && !part.owned && !isDeclaredPart(part.product.id)) {
             cartItems.push({
               productId: part.product.id,
               quantity: 1,
@@ -330,7 +383,7 @@ export function BuildSummary() {
         ) : (
           selectedParts.map((category) => {
             const part = parts[category.key];
-            const isMultiSelect = category.key === 'ram' || category.key === 'storage';
+            const isMultiSelect = isMultiSelectCategory(category.key);
             
             // Safety check: skip if part is null or undefined
             if (!part) return null;
@@ -343,7 +396,7 @@ export function BuildSummary() {
                 <div key={category.key} className="space-y-2">
                   {part.map((item: ProductWithQuantity, index: number) => (
                     <div
-                      key={`${category.key}-${item.product.product.id}`}
+                      key={`${category.key}-${item.product.product.id}${item.product.owned ? '-owned' : ''}`}
                       className="p-2 md:p-3 rounded-lg md:rounded-xl bg-gray-50 border border-gray-200"
                     >
                       {/* Top row: Image + Title */}
@@ -380,6 +433,11 @@ export function BuildSummary() {
                           <div className="text-xs font-medium text-gray-900 leading-tight">
                             {item.product.product.title}
                           </div>
+                          {m2SlotLabels.has(item.product.product.id) && (
+                            <div className="text-[10px] text-gray-500 mt-1">
+                              Slot: {m2SlotLabels.get(item.product.product.id)!.join(', ')}
+                            </div>
+                          )}
                         </div>
                       </div>
 
@@ -388,7 +446,7 @@ export function BuildSummary() {
                         {/* Quantity controls */}
                         <div className="flex items-center gap-2">
                           <button
-                            onClick={() => decrementQuantity(category.key, item.product.product.id)}
+                            onClick={() => decrementQuantity(category.key, item.product.product.id, item.product.owned)}
                             className="w-6 h-6 rounded flex items-center justify-center text-gray-600 hover:text-white hover:bg-red-500 transition-colors"
                             title="Decrementar"
                           >
@@ -400,16 +458,17 @@ export function BuildSummary() {
                             {item.quantity}
                           </span>
                           <button
-                            onClick={() => incrementQuantity(category.key, item.product.product.id)}
+                            onClick={() => incrementQuantity(category.key, item.product.product.id, item.product.owned)}
                             disabled={
                               item.product.product.stock <= item.quantity ||
-                              (category.key === 'ram' && totalRamQuantity >= maxRamSlots)
+                              (category.key === 'ram' && totalRamQuantity >= maxRamSlots) ||
+                              addUnitFailures.has(item.product.product.id)
                             }
                             className="w-6 h-6 rounded flex items-center justify-center text-gray-600 hover:text-white hover:bg-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                             title={
                               category.key === 'ram' && totalRamQuantity >= maxRamSlots
                                 ? `Máximo ${maxRamSlots} módulos`
-                                : "Incrementar"
+                                : addUnitFailures.get(item.product.product.id) ?? "Incrementar"
                             }
                           >
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -418,15 +477,21 @@ export function BuildSummary() {
                           </button>
                         </div>
 
-                        {/* Price and Remove button */}
+                        {/* Owned toggle, Price and Remove button */}
                         <div className="flex items-center gap-3">
+                          {!isDeclaredPart(item.product.product.id) && (
+                            <OwnedToggle
+                              owned={!!item.product.owned}
+                              onChange={(owned) => setPartOwned(category.key, owned, item.product.product.id)}
+                            />
+                          )}
                           <div className="text-right">
-                            <div className="text-sm font-semibold text-gray-900 whitespace-nowrap">
+                            <div className={`text-sm font-semibold whitespace-nowrap ${item.product.owned ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
                               ${(item.product.product.price * item.quantity).toLocaleString('es-AR', { minimumFractionDigits: 2 })}
                             </div>
                           </div>
                           <button
-                            onClick={() => removePart(category.key, item.product.product.id)}
+                            onClick={() => removePart(category.key, item.product.product.id, item.product.owned)}
                             className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 transition-colors shrink-0"
                             title="Quitar"
                           >
@@ -483,10 +548,13 @@ export function BuildSummary() {
                     </div>
                   </div>
 
-                  {/* Bottom row: Price + Remove button */}
+                  {/* Bottom row: Owned toggle + Price + Remove button */}
                   <div className="flex items-center justify-end gap-3 mt-2 pt-2 border-t border-gray-200">
+                    {!isIncludedPart(part.product.id) && !isDeclaredPart(part.product.id) && (
+                      <OwnedToggle owned={!!part.owned} onChange={(owned) => setPartOwned(category.key, owned)} />
+                    )}
                     <div className="text-right">
-                      <div className="text-sm font-semibold text-gray-900 whitespace-nowrap">
+                      <div className={`text-sm font-semibold whitespace-nowrap ${part.owned ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
                         ${part.product.price.toLocaleString('es-AR', { minimumFractionDigits: 2 })}
                       </div>
                     </div>
@@ -512,11 +580,16 @@ export function BuildSummary() {
       {/* GPU requirement info */}
       {isClient && cpuPart && !Array.isArray(cpuPart) && (
         <div className="px-3 md:px-4 pb-2">
-          {cpuHasGraphics && !hasGpu && (
+          {cpuHasGraphics && !boardHasNoOutputs && !hasGpu && (
             <div className="p-2 md:p-3 rounded-lg bg-blue-50 border border-blue-200 text-[10px] md:text-xs text-blue-700 leading-relaxed">
               💡 Tu CPU tiene gráficos integrados. La GPU es opcional.
             </div>
           )}
+          {cpuHasGraphics && boardHasNoOutputs && !hasGpu && (
+            <div className="p-2 md:p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-[10px] md:text-xs text-yellow-700 leading-relaxed">
+              ⚠️ Tu motherboard no tiene salidas de video para los gráficos integrados. Necesitás una GPU dedicada.
+            </div>
+          )}
           {!cpuHasGraphics && !hasGpu && (
             <div className="p-2 md:p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-[10px] md:text-xs text-yellow-700 leading-relaxed">
               ⚠️ Tu CPU no tiene gráficos integrados. Necesitás una GPU dedicada.
@@ -525,14 +598,64 @@ export function BuildSummary() {
         </div>
       )}
 
+      {/* Power budget */}
+      {isClient && showPowerBudget && (
+        <div className="px-3 md:px-4 pb-2">
+          <PowerBudgetBar
+            budget={powerBudget}
+            psuWattage={psuWattage}
+            headroom={powerOptions.headroom}
+            onHeadroomChange={setPsuHeadroom}
+          />
+        </div>
+      )}
+
+      {/* CPU/GPU balance (shown once both are selected and known to the tier table) */}
+      {isClient && summary.balanceResults.length > 0 && (
+        <div className="px-3 md:px-4 pb-2">
+          <BalanceIndicator results={summary.balanceResults} locale={locale} />
+        </div>
+      )}
+
       {/* Compatibility summary */}
       {isClient && partCount > 1 && (summary.warnings.length > 0 || summary.failures.length > 0) && (
         <div className="px-3 md:px-4 pb-3 md:pb-4 space-y-2">
-          {summary.failures.map((failure, i) => (
-            <div key={i} className="p-2 md:p-3 rounded-lg bg-red-50 border border-red-200 text-[10px] md:text-xs text-red-700 leading-relaxed">
-              ❌ {failure}
-            </div>
-          ))}
+          {summary.failures.map((failure, i) => {
+            const failureResult = summary.failureResults[i];
+            const fixKey = getMessageKey(failureResult.message);
+            const canFix = getFixCategories(failureResult).length > 0;
+            return (
+              <div key={i} className="p-2 md:p-3 rounded-lg bg-red-50 border border-red-200 text-[10px] md:text-xs text-red-700 leading-relaxed">
+                ❌ {failure}
+                {canFix && (
+                  <button
+                    onClick={() => setOpenFixKey(openFixKey === fixKey ? null : fixKey)}
+                    className="ml-1 underline font-medium hover:text-red-900"
+                  >
+                    {openFixKey === fixKey ? 'Ocultar' : 'Arreglalo'}
+                  </button>
+                )}
+                {openFixKey === fixKey && (
+                  <FixSuggestions
+                    failure={failureResult}
+                    build={build}
+                    locale={locale}
+                    power={powerOptions}
+                    onSelect={(category, product, replaces) => {
+                      if (replaces) {
+                        replaceItem(category, replaces.id, product);
+                      } else if (isMultiSelectCategory(category)) {
+                        addPart(category, product);
+                      } else {
+                        setPart(category, product);
+                      }
+                      setOpenFixKey(null);
+                    }}
+                  />
+                )}
+              </div>
+            );
+          })}
           {summary.warnings.map((warning, i) => (
             <div key={i} className="p-2 md:p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-[10px] md:text-xs text-yellow-700 leading-relaxed">
               ⚠️ {warning}
@@ -597,6 +720,22 @@ export function BuildSummary() {
             </div>
           )}
 
+          {/* Build generator and upgrade planner buttons */}
+          <div className="flex gap-2 mb-3 md:mb-4">
+            <button
+              onClick={() => setShowGeneratorModal(true)}
+              className="flex-1 py-2 md:py-3 px-3 md:px-4 rounded-lg md:rounded-xl font-semibold text-xs md:text-sm transition-colors border border-red-300 text-red-700 bg-white hover:bg-red-50"
+            >
+              Armar por presupuesto
+            </button>
+            <button
+              onClick={() => setShowUpgradeModal(true)}
+              className="flex-1 py-2 md:py-3 px-3 md:px-4 rounded-lg md:rounded-xl font-semibold text-xs md:text-sm transition-colors border border-red-300 text-red-700 bg-white hover:bg-red-50"
+            >
+              Mejorar mi PC
+            </button>
+          </div>
+
           {/* Analysis button */}
           {partCount > 0 && canCheckout && (
             <button
@@ -628,6 +767,8 @@ export function BuildSummary() {
           >
             {partCount === 0 ? (
               'Agregá componentes'
+            ) : !hasPartsToBuy ? (
+              'Ya tenés todos los componentes'
             ) : !canCheckout ? (
               'Completá tu Build'
             ) : (
@@ -658,6 +799,18 @@ export function BuildSummary() {
         cachedAnalysis={cachedAnalysis}
         onAnalysisGenerated={setCachedAnalysis}
       />
+
+      {/* Build Generator Modal */}
+      <BuildGeneratorModal
+        isOpen={showGeneratorModal}
+        onClose={() => setShowGeneratorModal(false)}
+      />
+
+      {/* Upgrade Planner Modal */}
+      <UpgradePlannerModal
+        isOpen={showUpgradeModal}
+        onClose={() => setShowUpgradeModal(false)}
+      />
     </div>
   );
 }
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { CATEGORIES, getMainCategories, getSubCategories, hasSubCategories, isGpuRequired, isCoolerRequired, type CategoryKey } from '@/lib/catalog/categories';
+import { CATEGORIES, getMainCategories, getSubCategories, hasSubCategories, isGpuRequired, isCoolerRequired, isMultiSelectCategory, type CategoryKey } from '@/lib/catalog/categories';
 import { getCategoryIcon } from '@/lib/catalog/icons';
 import { usePart, useBuildStore } from '@/store/buildStore';
+import { hasVideoOutputs } from '@/lib/compat/display';
 
 interface CategorySelectorProps {
   activeCategory: CategoryKey;
@@ -104,11 +105,12 @@ function CategoryItem({
 }) {
   const part = usePart(categoryKey);
   const cpuPart = usePart('cpu');
+  const moboPart = usePart('motherboard');
   const category = CATEGORIES[categoryKey];
   const IconComponent = getCategoryIcon(categoryKey);
   const [imageError, setImageError] = useState(false);
   
-  const isMultiSelect = categoryKey === 'ram' || categoryKey === 'storage';
+  const isMultiSelect = isMultiSelectCategory(categoryKey);
   const hasPart = isMultiSelect 
     ? (Array.isArray(part) && part.length > 0)
     : part !== null;
@@ -120,9 +122,10 @@ function CategoryItem({
   // Determine if this category is dynamically required
   let isDynamicallyRequired = category.required;
   if (categoryKey === 'gpu') {
-    // GPU is required only if CPU doesn't have integrated graphics
+    // GPU is required only if CPU doesn't have integrated graphics (or the board has no outputs for it)
     const cpuHasGraphics = !Array.isArray(cpuPart) && cpuPart?.spec.integratedGraphics;
-    isDynamicallyRequired = isGpuRequired(cpuHasGraphics);
+    const boardHasOutputs = !Array.isArray(moboPart) && moboPart ? hasVideoOutputs(moboPart.spec) : undefined;
+    isDynamicallyRequired = isGpuRequired(cpuHasGraphics, boardHasOutputs);
   } else if (categoryKey === 'cooler') {
     // Cooler is required only if CPU doesn't include one
     const cpuHasCooler = !Array.isArray(cpuPart) && cpuPart?.spec.includesCooler;
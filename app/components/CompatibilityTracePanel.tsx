@@ -0,0 +1,85 @@
+'use client';
+
+import type { Product } from '@/lib/mallweb/normalize';
+import type { CategoryKey } from '@/lib/catalog/categories';
+import type { CompatStatus, RuleSkipReason, SpecReading } from '@/lib/compat/types';
+import { evaluateCompatibility } from '@/lib/compat/engine';
+import { formatMessage } from '@/lib/compat/messages';
+import { useBuildStore } from '@/store/buildStore';
+
+// Developer-only: the panel shows up when the page URL has ?debug=compat
+const TRACE_QUERY_PARAM = 'debug';
+const TRACE_QUERY_VALUE = 'compat';
+
+export function isTraceEnabled(): boolean {
+  if (typeof window === 'undefined') return false;
+  return new URLSearchParams(window.location.search).get(TRACE_QUERY_PARAM) === TRACE_QUERY_VALUE;
+}
+
+const STATUS_CLASSES: Record<CompatStatus, string> = {
+  pass: 'bg-green-50 border-green-200 text-green-700',
+  warn: 'bg-yellow-50 border-yellow-200 text-yellow-700',
+  fail: 'bg-red-50 border-red-200 text-red-700',
+  unknown: 'bg-gray-50 border-gray-200 text-gray-600',
+};
+
+const SKIP_LABELS: Record<RuleSkipReason, string> = {
+  'category-not-in-build': 'sin parte para comparar',
+  'spec-missing': 'falta un spec',
+  'not-applicable': 'no aplica',
+};
+
+function formatReading({ category, field, value }: SpecReading): string {
+  const formatted = value === undefined ? '(falta)' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `${category}.${field} = ${formatted}`;
+}
+
+interface CompatibilityTracePanelProps {
+  product: Product;
+  categoryKey: CategoryKey;
+}
+
+export function CompatibilityTracePanel({ product, categoryKey }: CompatibilityTracePanelProps) {
+  useBuildStore((state) => state.parts); // Re-render when the build changes
+  const getBuild = useBuildStore((state) => state.getBuild);
+  const locale = useBuildStore((state) => state.locale);
+  const powerOptions = useBuildStore((state) => state.powerOptions);
+
+  // Traced evaluations skip the cache, which is fine for a single product
+  const result = evaluateCompatibility(product, categoryKey, getBuild(), locale, { trace: true, power: powerOptions });
+
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-3">
+        Traza de compatibilidad <span className="text-xs font-normal text-gray-400">(debug)</span>
+      </h4>
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 text-xs">
+        {result.trace?.map((entry) => (
+          <div key={entry.ruleId} className={`px-4 py-2 ${entry.skipped ? 'opacity-60' : ''}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-mono text-gray-800">
+                {entry.ruleId}
+                <span className="ml-2 text-gray-400">{entry.kind}</span>
+              </span>
+              <span className={`px-1.5 py-0.5 rounded border font-medium ${STATUS_CLASSES[entry.result.status]}`}>
+                {entry.skipped ? `omitida: ${SKIP_LABELS[entry.skipped]}` : entry.result.status}
+              </span>
+            </div>
+            {entry.result.message.code !== 'NOT_APPLICABLE' && (
+              <p className="mt-1 text-gray-600">
+                {entry.result.message.code}: {formatMessage(entry.result.message, locale)}
+              </p>
+            )}
+            {entry.specs.length > 0 && (
+              <ul className="mt-1 font-mono text-gray-500">
+                {entry.specs.map((reading) => (
+                  <li key={`${reading.productId}:${reading.field}`}>{formatReading(reading)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
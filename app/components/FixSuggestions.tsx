@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CATEGORIES, type CategoryKey } from '@/lib/catalog/categories';
+import { searchCatalog } from '@/lib/catalog/search';
+import type { Product } from '@/lib/mallweb/normalize';
+import type { PCBuild, RuleResult } from '@/lib/compat/types';
+import type { Locale } from '@/lib/compat/messages';
+import type { PowerBudgetOptions } from '@/lib/compat/power';
+import { findFixSuggestions, getFixCategories } from '@/lib/compat/resolver';
+
+interface FixSuggestionsProps {
+  failure: RuleResult;
+  build: PCBuild;
+  locale: Locale;
+  power: PowerBudgetOptions;
+  onSelect: (category: CategoryKey, product: Product, replaces?: Product) => void;
+}
+
+function formatPrice(price: number): string {
+  return `$${Math.abs(price).toLocaleString('es-AR', { minimumFractionDigits: 2 })}`;
+}
+
+function formatPriceDelta(priceDelta: number): string {
+  if (priceDelta === 0) return 'mismo precio';
+  return priceDelta > 0 ? `+${formatPrice(priceDelta)}` : `-${formatPrice(priceDelta)}`;
+}
+
+export function FixSuggestions({ failure, build, locale, power, onSelect }: FixSuggestionsProps) {
+  const [catalogs, setCatalogs] = useState<Partial<Record<CategoryKey, Product[]>> | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const categoriesKey = getFixCategories(failure).join(',');
+
+  // Load the catalog of each category involved; the suggestions follow the build as it changes
+  useEffect(() => {
+    const controller = new AbortController();
+    const categories = (categoriesKey ? categoriesKey.split(',') : []) as CategoryKey[];
+    setCatalogs(null);
+    setError(undefined);
+
+    searchCatalog(categories, controller.signal)
+      .then((results) => {
+        if (!controller.signal.aborted) {
+          setCatalogs(results);
+        }
+      })
+      .catch((err) => {
+        if (controller.signal.aborted || (err instanceof Error && err.name === 'AbortError')) return;
+        setError(err instanceof Error ? err.message : 'Error desconocido');
+      });
+
+    return () => controller.abort();
+  }, [categoriesKey]);
+
+  // Each suggestion filters the catalog and re-checks the failing rule, so only recompute when the inputs change
+  const fixes = useMemo(() => {
+    if (!catalogs) return [];
+    return getFixCategories(failure)
+      .map((category) => ({
+        category,
+        isReplacement: build.has(category),
+        suggestions: findFixSuggestions(failure, category, catalogs[category] ?? [], build, undefined, locale, { power }),
+      }))
+      .filter((fix) => fix.suggestions.length > 0);
+  }, [failure, build, catalogs, locale, power]);
+
+  if (error) {
+    return <p className="mt-2 text-red-600">No pudimos buscar alternativas: {error}</p>;
+  }
+  if (!catalogs) {
+    return <p className="mt-2 text-gray-500">Buscando alternativas…</p>;
+  }
+
+  if (fixes.length === 0) {
+    return <p className="mt-2 text-gray-500">No encontramos alternativas en el catálogo.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {fixes.map(({ category, isReplacement, suggestions }) => (
+        <div key={category}>
+          <p className="font-medium text-gray-700">
+            {isReplacement ? `Cambiá ${CATEGORIES[category].shortName} por:` : `Agregá ${CATEGORIES[category].shortName}:`}
+          </p>
+          <ul className="mt-1 space-y-1">
+            {suggestions.map(({ product, priceDelta, replaces }) => (
+              <li
+                key={`${replaces?.id ?? ''}:${product.id}`}
+                className="flex items-center justify-between gap-2 p-1.5 rounded bg-white border border-gray-200"
+              >
+                <span className="text-gray-800 line-clamp-2">
+                  {product.title}
+                  {replaces && <span className="block text-gray-500">en lugar de {replaces.title}</span>}
+                </span>
+                <span className={`shrink-0 ${priceDelta > 0 ? 'text-gray-600' : 'text-green-700'}`}>
+                  {formatPriceDelta(priceDelta)}
+                </span>
+                <button
+                  onClick={() => onSelect(category, product, replaces)}
+                  className="shrink-0 px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700 transition-colors"
+                >
+                  {isReplacement ? 'Reemplazar' : 'Agregar'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
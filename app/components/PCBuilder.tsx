@@ -8,12 +8,14 @@ import { ProductList } from './ProductList';
 import { SubCategoryTabs } from './SubCategoryTabs';
 import { BuildSummary } from './BuildSummary';
 import { useBuildStore, useMaxRamSlots, useMaxStorageSlots, useCpuIncludesCooler, createIncludedCoolerProduct } from '@/store/buildStore';
-import { CATEGORIES, hasSubCategories, getMainCategories, getSubCategories, isGpuRequired, isCoolerRequired, type CategoryKey } from '@/lib/catalog/categories';
+import { CATEGORIES, hasSubCategories, getMainCategories, getSubCategories, isGpuRequired, isCoolerRequired, isMultiSelectCategory, type CategoryKey } from '@/lib/catalog/categories';
 import { getCategoryIcon } from '@/lib/catalog/icons';
-import { filterProductsByCategory } from '@/lib/catalog/filters';
+import { searchCategoryProducts } from '@/lib/catalog/search';
 import type { Product } from '@/lib/mallweb/normalize';
 import type { CompatibilityResult } from '@/lib/compat/types';
 import { filterByCompatibility } from '@/lib/compat/engine';
+import { hasVideoOutputs } from '@/lib/compat/display';
+import { SUPPORTED_LOCALES, type Locale } from '@/lib/compat/messages';
 
 export function PCBuilder() {
   const activeCategory = useBuildStore((state) => state.activeCategory);
@@ -26,6 +28,9 @@ export function PCBuilder() {
   const parts = useBuildStore((state) => state.parts);
   const getBuild = useBuildStore((state) => state.getBuild);
   const getPartCount = useBuildStore((state) => state.getPartCount);
+  const locale = useBuildStore((state) => state.locale);
+  const setLocale = useBuildStore((state) => state.setLocale);
+  const powerOptions = useBuildStore((state) => state.powerOptions);
   const partCount = getPartCount();
 
   const [allProducts, setAllProducts] = useState<Product[]>([]);
@@ -54,9 +59,9 @@ export function PCBuilder() {
   const showSubTabs = parentCategory === 'peripherals' && hasSubCategories('peripherals');
   const effectiveCategory = category.parentCategory ? CATEGORIES[parentCategory] : category;
   
-  // Get selected product IDs for the active category
+  // Get selected product IDs for the active category (owned units aren't picked from the catalog)
   const selectedProductIds = Array.isArray(selectedPart) 
-    ? selectedPart.map(p => p.product.product.id)
+    ? selectedPart.filter(p => !p.product.owned).map(p => p.product.product.id)
     : selectedPart 
       ? [selectedPart.product.id] 
       : [];
@@ -64,7 +69,7 @@ export function PCBuilder() {
   // Create a Map of product quantities for multi-select categories
   const productQuantities = new Map<string, number>();
   if (Array.isArray(selectedPart)) {
-    selectedPart.forEach(item => {
+    selectedPart.filter(item => !item.product.owned).forEach(item => {
       productQuantities.set(item.product.product.id, item.quantity);
     });
   }
@@ -75,55 +80,12 @@ export function PCBuilder() {
     setError(undefined);
 
     try {
-      // Load all pages to get comprehensive results
-      let allLoadedProducts: Product[] = [];
-      let currentLoadPage = 1;
-      let hasMorePages = true;
-
       // Load up to 3 pages to get more comprehensive results (150 products)
-      const MAX_PAGES = 3;
-      
-      while (hasMorePages && currentLoadPage <= MAX_PAGES) {
-        // Check if request was aborted before making the fetch
-        if (signal.aborted) {
-          return;
-        }
-
-        const response = await fetch('/api/search', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            keywords: category.searchKeywords[0],
-            page: currentLoadPage,
-            resultsPerPage: 50,
-          }),
-          signal, // Pass abort signal to fetch
-        });
-
-        if (!response.ok) {
-          const data = await response.json();
-          throw new Error(data.error || 'Error en la búsqueda');
-        }
-
-        const data = await response.json();
-        
-        // Check if request was aborted after receiving data
-        if (signal.aborted) {
-          return;
-        }
-        
-        allLoadedProducts = [...allLoadedProducts, ...data.products];
-        
-        // Check if there are more pages
-        hasMorePages = currentLoadPage < data.totalPages;
-        currentLoadPage++;
-      }
+      const categoryProducts = await searchCategoryProducts(categoryKey, signal);
 
       // Final check: only update state if this request is still valid for the current category
       if (!signal.aborted && categoryKey === activeCategory) {
-        // Filter by category immediately
-        const categoryFiltered = filterProductsByCategory(allLoadedProducts, categoryKey);
-        setAllProducts(categoryFiltered);
+        setAllProducts(categoryProducts);
       }
     } catch (err) {
       // Don't show errors for aborted requests
@@ -142,7 +104,7 @@ export function PCBuilder() {
         setIsLoading(false);
       }
     }
-  }, [category.searchKeywords, activeCategory]);
+  }, [activeCategory]);
 
   // Filter products by search query, category and compatibility
   useEffect(() => {
@@ -166,7 +128,9 @@ export function PCBuilder() {
       searchFiltered,
       activeCategory,
       build,
-      showIncompatible
+      showIncompatible,
+      locale,
+      { power: powerOptions }
     );
     
     // Sort by price (cheapest first)
@@ -193,7 +157,7 @@ export function PCBuilder() {
     }
     
     setFilteredProducts(sorted);
-  }, [allProducts, searchQuery, activeCategory, parts, showIncompatible, getBuild, cpuIncludesCooler]);
+  }, [allProducts, searchQuery, activeCategory, parts, showIncompatible, locale, powerOptions, getBuild, cpuIncludesCooler]);
 
   // Load initial products when category changes
   useEffect(() => {
@@ -346,7 +310,11 @@ export function PCBuilder() {
           }
         }
       }, 100);
-    } 
+    }
+    // For Fans, add the pack and stay: the case mounts rule limits how many fit
+    else if (activeCategory === 'fans') {
+      addPart(activeCategory, product);
+    }
     // For all other categories, replace and auto-advance
     else {
       setPart(activeCategory, product);
@@ -433,19 +401,35 @@ export function PCBuilder() {
               </div>
             </div>
             
-            {/* Show/hide incompatible toggle */}
-            <label className="hidden sm:flex items-center gap-3 cursor-pointer select-none">
-              <input
-                type="checkbox"
-                checked={showIncompatible}
-                onChange={(e) => setShowIncompatible(e.target.checked)}
-                className="sr-only peer"
-              />
-              <div className="relative w-11 h-6 bg-gray-300 peer-focus:ring-2 peer-focus:ring-red-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-red-600 peer-checked:after:bg-white" />
-              <span className="text-sm text-white">
-                Mostrar incompatibles
-              </span>
-            </label>
+            <div className="flex items-center gap-4">
+              {/* Show/hide incompatible toggle */}
+              <label className="hidden sm:flex items-center gap-3 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={showIncompatible}
+                  onChange={(e) => setShowIncompatible(e.target.checked)}
+                  className="sr-only peer"
+                />
+                <div className="relative w-11 h-6 bg-gray-300 peer-focus:ring-2 peer-focus:ring-red-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-red-600 peer-checked:after:bg-white" />
+                <span className="text-sm text-white">
+                  Mostrar incompatibles
+                </span>
+              </label>
+
+              {/* Language for compatibility messages */}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label="Idioma de los mensajes de compatibilidad"
+                className="bg-transparent text-sm text-white border border-gray-500 rounded px-2 py-1 cursor-pointer"
+              >
+                {SUPPORTED_LOCALES.map((option) => (
+                  <option key={option} value={option} className="text-gray-900">
+                    {option.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </header>
@@ -599,6 +583,7 @@ function BottomCheckoutBar({
   const clearBuild = useBuildStore((state) => state.clearBuild);
   const parts = useBuildStore((state) => state.parts);
   const cpuPart = useBuildStore((state) => state.parts.cpu);
+  const moboPart = useBuildStore((state) => state.parts.motherboard);
 
   const totalPrice = getTotalPrice();
   const partCount = getPartCount();
@@ -773,7 +758,7 @@ function BottomCheckoutBar({
                 <div className="space-y-2">
                   {getSubCategories(selectedParentForSub).map((subCategory) => {
                     const part = parts[subCategory.key];
-                    const isMultiSelect = subCategory.key === 'ram' || subCategory.key === 'storage';
+                    const isMultiSelect = isMultiSelectCategory(subCategory.key);
                     const hasPart = isMultiSelect 
                       ? (Array.isArray(part) && part.length > 0)
                       : part !== null;
@@ -862,7 +847,7 @@ function BottomCheckoutBar({
                 <div className="grid grid-cols-2 gap-2 md:gap-3 pb-2">
                   {mainCategories.map((category) => {
                   const part = parts[category.key];
-                  const isMultiSelect = category.key === 'ram' || category.key === 'storage';
+                  const isMultiSelect = isMultiSelectCategory(category.key);
                   const hasPart = isMultiSelect 
                     ? (Array.isArray(part) && part.length > 0)
                     : part !== null;
@@ -874,7 +859,8 @@ function BottomCheckoutBar({
                   let isDynamicallyRequired = category.required;
                   if (category.key === 'gpu') {
                     const cpuHasGraphics = !Array.isArray(cpuPart) && cpuPart?.spec.integratedGraphics;
-                    isDynamicallyRequired = isGpuRequired(cpuHasGraphics);
+                    const boardHasOutputs = !Array.isArray(moboPart) && moboPart ? hasVideoOutputs(moboPart.spec) : undefined;
+                    isDynamicallyRequired = isGpuRequired(cpuHasGraphics, boardHasOutputs);
                   } else if (category.key === 'cooler') {
                     const cpuHasCooler = !Array.isArray(cpuPart) && cpuPart?.spec.includesCooler;
                     isDynamicallyRequired = isCoolerRequired(cpuHasCooler);
@@ -0,0 +1,99 @@
+'use client';
+
+import { CATEGORIES, type CategoryKey } from '@/lib/catalog/categories';
+import type { PowerBudget } from '@/lib/compat/power';
+
+interface PowerBudgetBarProps {
+  budget: PowerBudget;
+  psuWattage?: number;
+  headroom: number;
+  onHeadroomChange: (headroom: number) => void;
+}
+
+// Headroom choices over peak draw; 20% is the default
+const HEADROOM_OPTIONS = [0.1, 0.2, 0.3, 0.5];
+
+// Segment color per component group
+const SEGMENT_COLORS: Partial<Record<CategoryKey, string>> = {
+  cpu: 'bg-red-500',
+  gpu: 'bg-orange-400',
+  motherboard: 'bg-blue-500',
+  ram: 'bg-purple-500',
+  storage: 'bg-teal-500',
+  cooler: 'bg-cyan-400',
+  fans: 'bg-sky-300',
+};
+
+const DEFAULT_SEGMENT_COLOR = 'bg-gray-400';
+
+export function PowerBudgetBar({ budget, psuWattage, headroom, onHeadroomChange }: PowerBudgetBarProps) {
+  // Scale the bar to the PSU (if selected) or to the recommended wattage
+  const scale = Math.max(psuWattage ?? 0, budget.recommendedPsu, budget.transientPeak);
+  const recommendedOffset = (budget.recommendedPsu / scale) * 100;
+  const isUnderpowered = psuWattage !== undefined && psuWattage < budget.recommendedPsu;
+
+  return (
+    <div className="p-2 md:p-3 rounded-lg bg-gray-50 border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] md:text-xs font-medium text-gray-700">⚡ Consumo estimado</span>
+        <span className="text-[10px] md:text-xs text-gray-500">
+          {budget.typical}W típico · {budget.peak}W pico
+        </span>
+      </div>
+
+      {/* Stacked bar (peak draw per component) */}
+      <div className="relative h-3 w-full rounded-full bg-gray-200 overflow-hidden flex">
+        {budget.entries.map((entry) => (
+          <div
+            key={entry.category}
+            className={`${SEGMENT_COLORS[entry.category] ?? DEFAULT_SEGMENT_COLOR} h-full`}
+            style={{ width: `${(entry.peak / scale) * 100}%` }}
+            title={`${CATEGORIES[entry.category].shortName}: ${entry.peak}W`}
+          />
+        ))}
+        {/* Recommended PSU marker */}
+        <div
+          className="absolute top-0 h-full w-0.5 bg-gray-900"
+          style={{ left: `${Math.min(recommendedOffset, 100)}%` }}
+          title={`Recomendado: ${budget.recommendedPsu}W`}
+        />
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+        {budget.entries.map((entry) => (
+          <span key={entry.category} className="flex items-center gap-1 text-[10px] text-gray-600">
+            <span className={`inline-block w-2 h-2 rounded-sm ${SEGMENT_COLORS[entry.category] ?? DEFAULT_SEGMENT_COLOR}`} />
+            {CATEGORIES[entry.category].shortName}
+            {entry.quantity > 1 && ` x${entry.quantity}`}: {entry.peak}W{entry.estimated && '*'}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-[10px] md:text-xs">
+        <span className="text-gray-600">
+          Fuente recomendada: <strong>{budget.recommendedPsu}W</strong>
+          {' '}con margen de{' '}
+          <select
+            value={headroom}
+            onChange={(e) => onHeadroomChange(Number(e.target.value))}
+            aria-label="Margen de la fuente sobre el consumo pico"
+            className="bg-transparent border border-gray-300 rounded px-1 cursor-pointer"
+          >
+            {HEADROOM_OPTIONS.map((option) => (
+              <option key={option} value={option}>{Math.round(option * 100)}%</option>
+            ))}
+          </select>
+        </span>
+        {psuWattage !== undefined && (
+          <span className={isUnderpowered ? 'text-red-600 font-medium' : 'text-green-700 font-medium'}>
+            Tu fuente: {psuWattage}W
+          </span>
+        )}
+      </div>
+      {budget.entries.some((entry) => entry.estimated) && (
+        <p className="mt-1 text-[10px] text-gray-400">* Valor estimado</p>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { GrFanOption } from 'react-icons/gr';
 import type { Product } from '@/lib/mallweb/normalize';
 import type { CompatibilityResult } from '@/lib/compat/types';
-import type { CategoryKey } from '@/lib/catalog/categories';
-import { getCompatibilityBadge } from '@/lib/compat/engine';
+import { isMultiSelectCategory, type CategoryKey } from '@/lib/catalog/categories';
+import { createProductWithSpec, getCompatibilityBadge } from '@/lib/compat/engine';
 import { isComboProduct, getComboNote } from '@/lib/catalog/filters';
 import { 
   useTotalQuantity, 
@@ -14,6 +14,7 @@ import {
   useMaxSataPorts, 
   useTotalM2Storage, 
   useTotalSataStorage, 
+  useAddUnitFailure,
   USE_INCLUDED_COOLER_ID 
 } from '@/store/buildStore';
 import { isStorageM2 } from '@/lib/compat/specs';
@@ -58,7 +59,7 @@ export function ProductCard({
   const comboNote = categoryKey && isCombo ? getComboNote(categoryKey) : null;
 
   // Check if this category supports multiple quantities
-  const isMultiSelect = categoryKey === 'ram' || categoryKey === 'storage';
+  const isMultiSelect = categoryKey ? isMultiSelectCategory(categoryKey) : false;
 
   // Get RAM slot limits if this is a RAM product
   const totalRamQuantity = useTotalQuantity('ram');
@@ -84,6 +85,14 @@ export function ProductCard({
   const sataLimitReached = isSataStorage && totalSataStorage >= maxSataPorts;
   const storageLimitReached = m2LimitReached || sataLimitReached;
 
+  // Whole-build limits (slots, lane sharing, drive bays) that one more unit would break
+  const partWithSpec = useMemo(
+    () => (isMultiSelect && categoryKey ? createProductWithSpec(product, categoryKey) : undefined),
+    [isMultiSelect, categoryKey, product]
+  );
+  const addUnitFailure = useAddUnitFailure(partWithSpec);
+  const buildLimitReached = addUnitFailure !== undefined;
+
   const badgeColorClasses = {
     green: 'bg-green-500/20 text-green-600 border-green-500/30',
     yellow: 'bg-yellow-500/20 text-yellow-600 border-yellow-500/30',
@@ -219,13 +228,13 @@ export function ProductCard({
                     </span>
                     <button
                       onClick={onIncrement}
-                      disabled={product.stock <= quantity || ramLimitReached || storageLimitReached}
+                      disabled={product.stock <= quantity || ramLimitReached || storageLimitReached || buildLimitReached}
                       className="w-6 h-6 rounded flex items-center justify-center text-gray-600 hover:text-white hover:bg-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       title={
                         ramLimitReached ? `Máximo ${maxRamSlots} módulos (slots de la motherboard)` : 
                         m2LimitReached ? `Máximo ${maxM2Slots} disco(s) M.2` :
                         sataLimitReached ? `Máximo ${maxSataPorts} disco(s) SATA` :
-                        "Incrementar"
+                        addUnitFailure ?? "Incrementar"
                       }
                     >
                       <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -256,14 +265,14 @@ export function ProductCard({
                 // Add button
                 <button
                   onClick={() => onSelect(product)}
-                  disabled={product.stock === 0 || (compatibility && !compatibility.allowed) || ramLimitReached || storageLimitReached}
+                  disabled={product.stock === 0 || (compatibility && !compatibility.allowed) || ramLimitReached || storageLimitReached || buildLimitReached}
                   className="flex-1 py-2 px-3 rounded-lg text-xs font-medium
                     bg-red-600 text-white
                     hover:bg-red-700
                     disabled:bg-gray-400 disabled:text-gray-200 disabled:cursor-not-allowed
                     transition-all"
                 >
-                  {product.stock === 0 ? 'Sin stock' : (ramLimitReached || storageLimitReached) ? 'Límite alcanzado' : 'Agregar'}
+                  {product.stock === 0 ? 'Sin stock' : (ramLimitReached || storageLimitReached || buildLimitReached) ? 'Límite alcanzado' : 'Agregar'}
                 </button>
               )}
             </div>
@@ -278,6 +287,7 @@ export function ProductCard({
           onSelect={onSelect}
           onRemove={onRemove}
           isSelected={isSelected}
+          categoryKey={categoryKey}
         />
       </div>
     );
@@ -439,13 +449,13 @@ export function ProductCard({
                 </span>
                 <button
                   onClick={onIncrement}
-                  disabled={product.stock <= quantity || ramLimitReached || storageLimitReached}
+                  disabled={product.stock <= quantity || ramLimitReached || storageLimitReached || buildLimitReached}
                   className="w-7 h-7 rounded flex items-center justify-center text-gray-600 hover:text-white hover:bg-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   title={
                     ramLimitReached ? `Máximo ${maxRamSlots} módulos (slots de la motherboard)` : 
                     m2LimitReached ? `Máximo ${maxM2Slots} disco(s) M.2` :
                     sataLimitReached ? `Máximo ${maxSataPorts} disco(s) SATA` :
-                    "Incrementar"
+                    addUnitFailure ?? "Incrementar"
                   }
                 >
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -476,7 +486,7 @@ export function ProductCard({
             // Add button
             <button
               onClick={() => onSelect(product)}
-              disabled={product.stock === 0 || (compatibility && !compatibility.allowed) || ramLimitReached || storageLimitReached}
+              disabled={product.stock === 0 || (compatibility && !compatibility.allowed) || ramLimitReached || storageLimitReached || buildLimitReached}
               className="flex-1 py-2.5 px-4 rounded-lg text-sm font-medium
                 bg-red-600 text-white
                 hover:bg-red-700
@@ -486,10 +496,10 @@ export function ProductCard({
                 ramLimitReached ? `Máximo ${maxRamSlots} módulos alcanzado` :
                 m2LimitReached ? `Máximo ${maxM2Slots} disco(s) M.2 alcanzado` :
                 sataLimitReached ? `Máximo ${maxSataPorts} disco(s) SATA alcanzado` :
-                undefined
+                addUnitFailure
               }
             >
-              {product.stock === 0 ? 'Sin stock' : (ramLimitReached || storageLimitReached) ? 'Límite alcanzado' : 'Agregar'}
+              {product.stock === 0 ? 'Sin stock' : (ramLimitReached || storageLimitReached || buildLimitReached) ? 'Límite alcanzado' : 'Agregar'}
             </button>
           )}
         </div>
@@ -503,6 +513,7 @@ export function ProductCard({
         onSelect={onSelect}
         onRemove={onRemove}
         isSelected={isSelected}
+        categoryKey={categoryKey}
       />
     </div>
   );
@@ -1,9 +1,150 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 import Image from 'next/image';
 import type { Product } from '@/lib/mallweb/normalize';
+import type { CategoryKey } from '@/lib/catalog/categories';
+import type { FanMount, M2SataSharing, M2SlotSpec, ProductSpec, SpecProvenance, VideoPort } from '@/lib/compat/types';
+import { createProductWithSpec } from '@/lib/compat/engine';
+import { CompatibilityTracePanel, isTraceEnabled } from './CompatibilityTracePanel';
+
+// Labels for the detected specs section (fields without a label show their key)
+const SPEC_LABELS: Partial<Record<keyof ProductSpec, string>> = {
+  socket: 'Socket',
+  cores: 'Núcleos',
+  threads: 'Hilos',
+  tdp: 'TDP (W)',
+  cpuGeneration: 'Generación',
+  cpuFamily: 'Familia',
+  integratedGraphics: 'Gráficos integrados',
+  includesCooler: 'Incluye cooler',
+  chipset: 'Chipset',
+  formFactor: 'Formato',
+  supportedMemoryTypes: 'Memoria soportada',
+  maxMemory: 'Memoria máxima (GB)',
+  memorySlots: 'Slots de memoria',
+  m2Slots: 'Slots M.2',
+  sataPorts: 'Puertos SATA',
+  pciExpressVersion: 'PCIe',
+  epsConnectors: 'Conectores EPS',
+  m2SataSharing: 'M.2 que deshabilitan SATA',
+  m2SlotDetails: 'Slots M.2',
+  videoOutputs: 'Salidas de video',
+  fanHeaders: 'Conectores de ventilador',
+  argbHeaders: 'Conectores ARGB (5V)',
+  rgbHeaders: 'Conectores RGB (12V)',
+  memoryType: 'Tipo de memoria',
+  memorySpeed: 'Velocidad (MHz)',
+  memoryCapacity: 'Capacidad por módulo (GB)',
+  memoryModules: 'Módulos',
+  memoryLatency: 'Latencia',
+  memoryHeight: 'Altura (mm)',
+  gpuLength: 'Largo (mm)',
+  gpuSlots: 'Slots',
+  gpuPowerConnectors: 'Conectores de energía',
+  gpuRecommendedPsu: 'Fuente recomendada (W)',
+  gpuInterface: 'Interfaz',
+  gpuChip: 'Chip',
+  gpuBoardPower: 'Consumo (W)',
+  gpuOutputs: 'Salidas de video',
+  supportedFormFactors: 'Motherboards soportados',
+  maxGpuLength: 'GPU máxima (mm)',
+  maxCpuCoolerHeight: 'Cooler máximo (mm)',
+  maxPsuLength: 'Fuente máxima (mm)',
+  supportedPsuFormFactors: 'Formatos de fuente',
+  expansionSlots: 'Slots de expansión',
+  drivesBays25: 'Bahías 2.5"',
+  drivesBays35: 'Bahías 3.5"',
+  includesPsu: 'Incluye fuente',
+  includedPsuWattage: 'Fuente incluida (W)',
+  supportsWaterCooling: 'Soporta water cooling',
+  supportedRadiatorSizes: 'Radiadores (mm)',
+  radiatorMounts: 'Posiciones de radiador (mm)',
+  fanMounts: 'Soportes de ventilador',
+  psuWattage: 'Potencia (W)',
+  psuEfficiency: 'Eficiencia',
+  psuModular: 'Modular',
+  psuFormFactor: 'Formato',
+  psuLength: 'Largo (mm)',
+  psuPcie8Pin: 'PCIe 8 pines',
+  psu12vhpwr: '12VHPWR',
+  psuEps8Pin: 'EPS 8 pines',
+  psuSata: 'Conectores SATA',
+  storageInterface: 'Interfaz',
+  storageCapacity: 'Capacidad (GB)',
+  storageFormFactor: 'Formato',
+  storageType: 'Tipo',
+  storageConnectionType: 'Conexión',
+  storagePcieGen: 'PCIe (Gen)',
+  storageLength: 'Largo M.2',
+  readSpeed: 'Lectura (MB/s)',
+  writeSpeed: 'Escritura (MB/s)',
+  coolerSockets: 'Sockets',
+  coolerHeight: 'Altura (mm)',
+  coolerType: 'Tipo',
+  aioSize: 'Radiador (mm)',
+  coolerTdp: 'TDP (W)',
+  coolerRamClearance: 'Espacio para RAM (mm)',
+  coolerDualTower: 'Doble torre',
+  monitorResolution: 'Resolución',
+  monitorRefreshRate: 'Frecuencia (Hz)',
+  monitorPanel: 'Panel',
+  monitorInputs: 'Entradas',
+  monitorAdaptiveSync: 'Sincronización adaptativa',
+  fanCount: 'Ventiladores',
+  fanSize: 'Tamaño (mm)',
+  fanConnector: 'Conector',
+  fanLighting: 'Iluminación',
+  fanHubIncluded: 'Incluye hub',
+};
+
+function formatSpecItem(item: string | number | M2SataSharing | M2SlotSpec | VideoPort | FanMount): string {
+  if (typeof item !== 'object') return String(item);
+  if ('type' in item) return item.version ? `${item.type} ${item.version}` : item.type;
+  if ('position' in item) return `${item.position}: ${item.count}x${item.size}mm`;
+  if ('m2Slot' in item) return `M.2_${item.m2Slot}: SATA ${item.sataPorts.join('/')}`;
+
+  const details = [
+    item.pcieGen && `Gen${item.pcieGen}`,
+    item.key && `key ${item.key}`,
+    item.lengths?.join('/'),
+    item.attachedTo && (item.attachedTo === 'cpu' ? 'CPU' : 'chipset'),
+  ].filter(Boolean);
+  return `M.2_${item.slot}: ${details.join(', ')}`;
+}
+
+function formatSpecValue(value: ProductSpec[keyof ProductSpec]): string {
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'Ninguna';
+    // M.2 details list lengths with "/", so they are separated with ";"
+    const isM2List = typeof value[0] === 'object' && ('slot' in value[0] || 'm2Slot' in value[0]);
+    return value.map(formatSpecItem).join(isM2List ? '; ' : ' / ');
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([position, size]) => `${position}: ${size}`).join(', ');
+  }
+  return String(value);
+}
+
+function getProvenanceHint(provenance: SpecProvenance): string {
+  switch (provenance.source) {
+    case 'title':
+      return 'detectado del título';
+    case 'description':
+      return 'detectado de la descripción';
+    case 'attributes':
+      return 'de la ficha técnica';
+    case 'curated':
+      return 'verificado';
+    case 'inferred':
+      if (provenance.detail === 'chipset') return 'deducido del chipset';
+      if (provenance.detail === 'model') return 'deducido del modelo';
+      if (provenance.detail === 'default') return 'asumido, no especificado';
+      return 'deducido';
+  }
+}
 
 interface ProductModalProps {
   product: Product;
@@ -12,6 +153,7 @@ interface ProductModalProps {
   onSelect?: (product: Product) => void;
   onRemove?: () => void;
   isSelected?: boolean;
+  categoryKey?: CategoryKey;
 }
 
 export function ProductModal({
@@ -21,10 +163,20 @@ export function ProductModal({
   onSelect,
   onRemove,
   isSelected = false,
+  categoryKey,
 }: ProductModalProps) {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [imageError, setImageError] = useState(false);
 
+  // Specs the compatibility engine reads from this product, with where each came from
+  const detectedSpecs = useMemo(() => {
+    if (!isOpen || !categoryKey) return [];
+    const { spec, provenance } = createProductWithSpec(product, categoryKey);
+    return (Object.keys(spec) as (keyof ProductSpec)[])
+      .filter((field) => spec[field] !== undefined && provenance?.[field])
+      .map((field) => ({ field, value: spec[field], provenance: provenance![field]! }));
+  }, [isOpen, product, categoryKey]);
+
   if (!isOpen) return null;
 
   const hasDiscount = product.originalPrice && product.originalPrice > product.price;
@@ -174,6 +326,33 @@ export function ProductModal({
                 </div>
               )}
 
+              {/* Detected specs */}
+              {detectedSpecs.length > 0 && (
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-3">Specs detectadas</h4>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {detectedSpecs.map(({ field, value, provenance }) => (
+                      <div key={field} className="grid grid-cols-2 gap-4 px-4 py-2">
+                        <span className="text-sm text-gray-600">{SPEC_LABELS[field] ?? field}</span>
+                        <span className="text-sm text-gray-900 font-medium">
+                          {formatSpecValue(value)}
+                          <span
+                            className={`block text-xs font-normal ${
+                              provenance.confidence === 'low' ? 'text-amber-600' : 'text-gray-400'
+                            }`}
+                          >
+                            {getProvenanceHint(provenance)}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Rule trace, for developers (?debug=compat) */}
+              {categoryKey && isTraceEnabled() && <CompatibilityTracePanel product={product} categoryKey={categoryKey} />}
+
               {/* Attribute Groups */}
               {product.attributeGroups && product.attributeGroups.length > 0 && (
                 <div>
@@ -0,0 +1,262 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CATEGORIES, type CategoryKey } from '@/lib/catalog/categories';
+import { searchCatalog } from '@/lib/catalog/search';
+import type { Product } from '@/lib/mallweb/normalize';
+import { GENERATION_ORDER, USE_CASE_PROFILES, USE_CASES, type UseCase } from '@/lib/compat/generator';
+import { getBuildItems } from '@/lib/compat/build';
+import { getOwnedBuild, planUpgrades, UPGRADE_LABELS, type UpgradeSuggestion } from '@/lib/compat/upgrade';
+import { createOwnedProduct, useBuildStore } from '@/store/buildStore';
+import { waitForPaint } from './BuildGeneratorModal';
+
+type Catalog = Partial<Record<CategoryKey, Product[]>>;
+
+const DEFAULT_BUDGET = 500_000;
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString('es-AR', { minimumFractionDigits: 2 })}`;
+}
+
+interface UpgradePlannerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function UpgradePlannerModal({ isOpen, onClose }: UpgradePlannerModalProps) {
+  const [ownedCategory, setOwnedCategory] = useState<CategoryKey>('cpu');
+  const [ownedDescription, setOwnedDescription] = useState('');
+  const [budget, setBudget] = useState(DEFAULT_BUDGET);
+  const [useCase, setUseCase] = useState<UseCase>('gaming-1080p');
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<UpgradeSuggestion[] | null>(null);
+  // The catalog is loaded once per session; later requests only re-run the planner
+  const catalogRef = useRef<Catalog | null>(null);
+
+  useBuildStore((state) => state.parts); // Re-render when the build changes
+  const getBuild = useBuildStore((state) => state.getBuild);
+  const addOwnedPart = useBuildStore((state) => state.addOwnedPart);
+  const setPart = useBuildStore((state) => state.setPart);
+
+  if (!isOpen) return null;
+
+  const owned = getOwnedBuild(getBuild());
+  const ownedParts = GENERATION_ORDER.flatMap((category) =>
+    getBuildItems(owned, category).map((item) => ({ category, title: item.product.product.title, quantity: item.quantity }))
+  );
+
+  const handleAddOwned = () => {
+    if (!ownedDescription.trim()) return;
+    addOwnedPart(ownedCategory, createOwnedProduct(ownedCategory, ownedDescription));
+    setOwnedDescription('');
+    setSuggestions(null);
+  };
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setError(null);
+    setSuggestions(null);
+
+    try {
+      catalogRef.current ??= await searchCatalog(GENERATION_ORDER);
+      // One generator search per upgrade path
+      await waitForPaint();
+      setSuggestions(planUpgrades(owned, catalogRef.current, budget, useCase));
+    } catch (err) {
+      console.error('Error planning upgrade:', err);
+      setError(err instanceof Error ? err.message : 'Error al buscar componentes');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // The upgrade replaces the owned parts of its categories; missing parts are added too
+  const handleApply = (suggestion: UpgradeSuggestion) => {
+    const products = { ...suggestion.missingParts, ...suggestion.parts };
+    for (const [category, product] of Object.entries(products) as [CategoryKey, Product][]) {
+      setPart(category, product);
+    }
+    onClose();
+  };
+
+  const renderParts = (parts: Partial<Record<CategoryKey, Product>>) => (
+    <ul className="space-y-1">
+      {(Object.entries(parts) as [CategoryKey, Product][]).map(([category, product]) => (
+        <li key={category} className="flex items-center justify-between gap-3 text-gray-700">
+          <span>
+            <span className="font-medium">{CATEGORIES[category].shortName}:</span> {product.title}
+          </span>
+          <span className="shrink-0 text-gray-600">{formatPrice(product.price)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-red-50 to-red-100/50 shrink-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                Mejorá tu PC
+              </h2>
+              <p className="text-sm text-gray-600 mt-0.5">
+                Contanos qué tenés y te decimos qué conviene cambiar
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-white/50 transition-colors"
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+          {/* Owned parts */}
+          <div>
+            <p className="font-medium text-gray-700 mb-1">Tu PC actual</p>
+            {ownedParts.length === 0 ? (
+              <p className="text-gray-500">Todavía no declaraste componentes.</p>
+            ) : (
+              <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {ownedParts.map(({ category, title, quantity }) => (
+                  <li key={`${category}-${title}`} className="px-4 py-2 text-gray-800">
+                    <span className="font-medium">{CATEGORIES[category].shortName}:</span> {title}
+                    {quantity > 1 && <span className="text-gray-500"> x{quantity}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2 mt-2">
+              <select
+                value={ownedCategory}
+                onChange={(e) => setOwnedCategory(e.target.value as CategoryKey)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              >
+                {GENERATION_ORDER.map((category) => (
+                  <option key={category} value={category}>{CATEGORIES[category].shortName}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Ej: Ryzen 5 5600X AM4"
+                value={ownedDescription}
+                onChange={(e) => setOwnedDescription(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddOwned()}
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              />
+              <button
+                onClick={handleAddOwned}
+                className="px-4 py-2 rounded-lg font-medium border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+              >
+                Agregar
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              También podés elegir el producto en el catálogo y marcar &quot;Ya lo tengo&quot; en tu build.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="font-medium text-gray-700">Presupuesto para el upgrade (ARS)</span>
+              <input
+                type="number"
+                min={0}
+                step={10000}
+                value={budget}
+                onChange={(e) => setBudget(Number(e.target.value))}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              />
+            </label>
+            <label className="block">
+              <span className="font-medium text-gray-700">Uso</span>
+              <select
+                value={useCase}
+                onChange={(e) => setUseCase(e.target.value as UseCase)}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900"
+              >
+                {USE_CASES.map((key) => (
+                  <option key={key} value={key}>{USE_CASE_PROFILES[key].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            onClick={handlePlan}
+            disabled={isPlanning || ownedParts.length === 0 || budget <= 0}
+            className="w-full py-3 px-4 rounded-lg font-bold bg-red-600 text-white hover:bg-red-700 transition-colors disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isPlanning ? 'Buscando mejoras…' : 'Buscar mejoras'}
+          </button>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-red-700">
+              {error}
+            </div>
+          )}
+
+          {suggestions?.length === 0 && (
+            <p className="text-gray-500">No encontramos una mejora que entre en ese presupuesto.</p>
+          )}
+
+          {suggestions?.map((suggestion, index) => (
+            <div key={suggestion.kind} className="border border-gray-200 rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-bold text-gray-900">
+                  {UPGRADE_LABELS[suggestion.kind]}
+                  {index === 0 && <span className="ml-2 text-xs font-medium text-green-700">Mayor impacto</span>}
+                </span>
+                <span className="font-bold text-gray-900">{formatPrice(suggestion.price)}</span>
+              </div>
+              {renderParts(suggestion.parts)}
+              {Object.keys(suggestion.missingParts).length > 0 && (
+                <div className="pt-2 border-t border-gray-200">
+                  <p className="text-xs font-medium text-gray-500 mb-1">Para completar tu PC también hace falta</p>
+                  {renderParts(suggestion.missingParts)}
+                </div>
+              )}
+              {suggestion.warnings.map((warning, i) => (
+                <div key={i} className="p-2 rounded-lg bg-yellow-50 border border-yellow-200 text-xs text-yellow-700">
+                  ⚠️ {warning}
+                </div>
+              ))}
+              <button
+                onClick={() => handleApply(suggestion)}
+                className="w-full py-2 px-4 rounded-lg font-bold bg-green-600 text-white hover:bg-green-700 transition-colors"
+              >
+                Aplicar al build
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
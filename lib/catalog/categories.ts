@@ -239,19 +239,32 @@ export function isValidCategoryKey(key: string): key is CategoryKey {
 }
 
 /**
- * Check if GPU is required based on selected CPU
+ * Categories where several products can be selected, each with a quantity
+ */
+export const MULTI_SELECT_CATEGORIES: CategoryKey[] = ['ram', 'storage', 'fans'];
+
+/**
+ * Check if a category allows multiple selections
+ */
+export function isMultiSelectCategory(key: CategoryKey): boolean {
+  return MULTI_SELECT_CATEGORIES.includes(key);
+}
+
+/**
+ * Check if GPU is required based on selected CPU and motherboard
  * @param cpuHasIntegratedGraphics - Whether the selected CPU has integrated graphics
+ * @param boardHasVideoOutputs - Whether the selected motherboard has video outputs (undefined if unknown)
  * @returns true if GPU is required, false otherwise
  */
-export function isGpuRequired(cpuHasIntegratedGraphics?: boolean): boolean {
+export function isGpuRequired(cpuHasIntegratedGraphics?: boolean, boardHasVideoOutputs?: boolean): boolean {
   // If no CPU is selected or CPU info is unknown, GPU is optional
   if (cpuHasIntegratedGraphics === undefined) {
     return false;
   }
   
-  // If CPU has integrated graphics, GPU is optional
+  // If CPU has integrated graphics, GPU is optional unless the board has no outputs for it
   // If CPU does NOT have integrated graphics, GPU is required
-  return !cpuHasIntegratedGraphics;
+  return !cpuHasIntegratedGraphics || boardHasVideoOutputs === false;
 }
 
 /**
@@ -5,4 +5,4 @@
 export * from './categories';
 export * from './queries';
 export * from './filters';
-
+export * from './search';
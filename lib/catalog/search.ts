@@ -0,0 +1,63 @@
+/**
+ * Category Search
+ * Loads the products of a category from /api/search, page by page
+ */
+
+import type { Product } from '../mallweb/normalize';
+import { CATEGORIES, type CategoryKey } from './categories';
+import { filterProductsByCategory } from './filters';
+
+// 3 pages of 50 give up to 150 products per category
+const DEFAULT_MAX_PAGES = 3;
+const RESULTS_PER_PAGE = 50;
+
+/**
+ * Search the category's keywords and keep the products that belong to it
+ * Returns what was loaded so far when the signal is aborted between pages
+ */
+export async function searchCategoryProducts(
+  categoryKey: CategoryKey,
+  signal?: AbortSignal,
+  maxPages = DEFAULT_MAX_PAGES
+): Promise<Product[]> {
+  let products: Product[] = [];
+  let page = 1;
+  let hasMorePages = true;
+
+  while (hasMorePages && page <= maxPages) {
+    if (signal?.aborted) break;
+
+    const response = await fetch('/api/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        keywords: CATEGORIES[categoryKey].searchKeywords[0],
+        page,
+        resultsPerPage: RESULTS_PER_PAGE,
+      }),
+      signal,
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Error en la búsqueda');
+    }
+
+    products = [...products, ...data.products];
+    hasMorePages = page < data.totalPages;
+    page++;
+  }
+
+  return filterProductsByCategory(products, categoryKey);
+}
+
+/**
+ * Load the products of several categories in parallel
+ */
+export async function searchCatalog(
+  categories: CategoryKey[],
+  signal?: AbortSignal
+): Promise<Partial<Record<CategoryKey, Product[]>>> {
+  const results = await Promise.all(categories.map((category) => searchCategoryProducts(category, signal)));
+  return Object.fromEntries(categories.map((category, i) => [category, results[i]]));
+}
@@ -0,0 +1,155 @@
+/**
+ * CPU / GPU Balance Tests
+ * Tests for the performance tier table, tier lookup and the per-resolution balance results
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { getBuildCompatibilitySummary } from '../engine';
+import { isEntryLevelGpu } from '../display';
+import {
+  PERFORMANCE_TIERS,
+  PerformanceTierError,
+  evaluateBuildBalance,
+  formatCpuModel,
+  getBalance,
+  getCpuTier,
+  getGpuTier,
+  loadPerformanceTiers,
+} from '../balance';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function createBuild(parts: ProductWithSpec[]): PCBuild {
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+const ryzen5_5000 = createPart('cpu-1', 'cpu', { cpuFamily: 'Ryzen 5', cpuGeneration: 'Ryzen 5000' });
+const corei9_14th = createPart('cpu-2', 'cpu', { cpuFamily: 'Core i9', cpuGeneration: '14th Gen' });
+const corei5_12th = createPart('cpu-3', 'cpu', { cpuFamily: 'Core i5', cpuGeneration: '12th Gen' });
+const rtx4070 = createPart('gpu-1', 'gpu', { gpuChip: 'RTX 4070' });
+const rtx4090 = createPart('gpu-2', 'gpu', { gpuChip: 'RTX 4090' });
+const rtx3050 = createPart('gpu-3', 'gpu', { gpuChip: 'RTX 3050' });
+
+describe('Performance tier table', () => {
+  it('should accept the shipped table', () => {
+    expect(PERFORMANCE_TIERS.version).toBeGreaterThanOrEqual(1);
+    expect(Object.keys(PERFORMANCE_TIERS.gpu).length).toBeGreaterThan(0);
+  });
+
+  it('should report every invalid resolution, threshold and tier', () => {
+    const data = {
+      version: 1,
+      resolutions: { '1080p': 0, '1440p': '1' },
+      thresholds: { mild: 4, severe: 2 },
+      cpu: { 'Ryzen 7000': { 'Ryzen 5': 11 } },
+      gpu: { 'RTX 4070': 6.5 },
+    };
+
+    try {
+      loadPerformanceTiers(data);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PerformanceTierError);
+      expect((error as PerformanceTierError).issues).toEqual([
+        'resolutions.1440p: expected a number',
+        'resolutions.4K: expected a number',
+        'thresholds: expected 0 < mild <= severe',
+        'cpu.Ryzen 7000.Ryzen 5: expected a tier from 1 to 10',
+        'gpu.RTX 4070: expected a tier from 1 to 10',
+      ]);
+    }
+  });
+
+  it('should look up CPUs by generation and family and GPUs by chip', () => {
+    expect(getCpuTier(ryzen5_5000.spec)).toBe(5);
+    expect(getCpuTier({ cpuFamily: 'Ryzen 5' })).toBeUndefined();
+    expect(getGpuTier('RTX 4090')).toBe(10);
+    expect(getGpuTier('Radeon VII')).toBeUndefined();
+  });
+
+  it('should flag the lowest GPU tiers as entry-level', () => {
+    expect(isEntryLevelGpu('RTX 3050')).toBe(true);
+    expect(isEntryLevelGpu('GTX 1650')).toBe(true);
+    expect(isEntryLevelGpu('RTX 4060')).toBe(false);
+    expect(isEntryLevelGpu('Radeon VII')).toBe(false);
+  });
+
+  it('should name CPU models for messages', () => {
+    expect(formatCpuModel(ryzen5_5000.spec)).toBe('Ryzen 5 5000');
+    expect(formatCpuModel(corei9_14th.spec)).toBe('Core i9 14th Gen');
+  });
+});
+
+describe('CPU/GPU balance', () => {
+  it('should shift towards GPU-bound as the resolution grows', () => {
+    expect(getBalance(5, 10).map(({ resolution, bound, severe }) => [resolution, bound, severe])).toEqual([
+      ['1080p', 'cpu', true],
+      ['1440p', 'cpu', true],
+      ['4K', 'cpu', false],
+    ]);
+  });
+
+  it('should PASS a balanced build at every resolution but 4K', () => {
+    const results = evaluateBuildBalance(createBuild([corei5_12th, rtx4070]));
+
+    expect(results.map((result) => [result.ruleId, result.status, result.message.code])).toEqual([
+      ['balance-1080p', 'pass', 'BALANCE_OK'],
+      ['balance-1440p', 'pass', 'BALANCE_OK'],
+      ['balance-4K', 'pass', 'BALANCE_GPU_BOUND'],
+    ]);
+  });
+
+  it('should WARN a CPU bottleneck under a flagship GPU', () => {
+    const [result1080p] = evaluateBuildBalance(createBuild([ryzen5_5000, rtx4090]));
+
+    expect(result1080p.status).toBe('warn');
+    expect(result1080p.message).toEqual({
+      code: 'BALANCE_CPU_BOTTLENECK',
+      params: { resolution: '1080p', cpuModel: 'Ryzen 5 5000', gpuChip: 'RTX 4090' },
+    });
+  });
+
+  it('should WARN an entry-level GPU under a flagship CPU', () => {
+    const results = evaluateBuildBalance(createBuild([corei9_14th, rtx3050]));
+
+    expect(results.every((result) => result.message.code === 'BALANCE_GPU_BOTTLENECK')).toBe(true);
+  });
+
+  it('should report nothing without a graphics card or with unknown parts', () => {
+    expect(evaluateBuildBalance(createBuild([ryzen5_5000]))).toEqual([]);
+    expect(evaluateBuildBalance(createBuild([ryzen5_5000, createPart('gpu-4', 'gpu', {})]))).toEqual([]);
+  });
+
+  it('should keep balance out of the compatibility warnings', () => {
+    const summary = getBuildCompatibilitySummary(createBuild([ryzen5_5000, rtx4090]));
+
+    expect(summary.balanceResults).toHaveLength(3);
+    expect(summary.isCompatible).toBe(true);
+    expect(summary.messages.warnings.map((m) => m.code)).not.toContain('BALANCE_CPU_BOTTLENECK');
+  });
+});
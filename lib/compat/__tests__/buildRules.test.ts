@@ -0,0 +1,294 @@
+/**
+ * Build Rules Tests
+ * Tests for the whole-build rules: required parts, slot/port counts, lane sharing and drive bays
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { BUILD_RULES, getAddUnitFailure, getAvailableSataPorts, getBuildRequiredCategories, getSlotLimits } from '../buildRules';
+import { extractSpecs } from '../specs';
+import { withCandidate } from '../build';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+// Build with multi-select items (RAM, storage) and their quantities
+function createBuild(
+  parts: ProductWithSpec[],
+  items: Partial<Record<CategoryKey, { part: ProductWithSpec; quantity: number }[]>> = {}
+): PCBuild {
+  const build: PCBuild = new Map(parts.map((part) => [part.category, part]));
+  build.items = {};
+  for (const [category, list] of Object.entries(items) as [CategoryKey, { part: ProductWithSpec; quantity: number }[]][]) {
+    build.set(category, list[0].part);
+    build.items[category] = list.map(({ part, quantity }) => ({ product: part, quantity }));
+  }
+  return build;
+}
+
+function evaluateBuildRule(build: PCBuild, ruleId: string) {
+  return BUILD_RULES.find((rule) => rule.id === ruleId)!.evaluate(build);
+}
+
+describe('Required parts', () => {
+  it('should require a cooler and a GPU for a CPU without either', () => {
+    const cpu = createPart('cpu-1', 'cpu', { integratedGraphics: false, includesCooler: false });
+
+    expect(getBuildRequiredCategories(createBuild([cpu]))).toEqual(
+      expect.arrayContaining(['cpu', 'motherboard', 'ram', 'storage', 'psu', 'case', 'gpu', 'cooler'])
+    );
+    expect(evaluateBuildRule(createBuild([cpu]), 'build-cooler-required').message.code).toBe('COOLER_REQUIRED');
+    expect(evaluateBuildRule(createBuild([cpu]), 'build-display-output').message.code).toBe('GPU_REQUIRED');
+  });
+
+  it('should not require a GPU or cooler for an APU with a boxed cooler', () => {
+    const cpu = createPart('cpu-1', 'cpu', { integratedGraphics: true, includesCooler: true });
+
+    expect(getBuildRequiredCategories(createBuild([cpu]))).not.toContain('gpu');
+    expect(getBuildRequiredCategories(createBuild([cpu]))).not.toContain('cooler');
+    expect(evaluateBuildRule(createBuild([cpu]), 'build-cooler-required').status).toBe('pass');
+    expect(evaluateBuildRule(createBuild([cpu]), 'build-display-output').status).toBe('pass');
+  });
+
+  it('should leave the build incomplete but compatible when a required part is missing', () => {
+    const cpu = createPart('cpu-1', 'cpu', { integratedGraphics: true, includesCooler: false });
+    const summary = getBuildCompatibilitySummary(createBuild([cpu]));
+
+    expect(summary.isComplete).toBe(false);
+    expect(summary.isCompatible).toBe(true);
+    expect(summary.messages.failures.map((m) => m.code)).toContain('COOLER_REQUIRED');
+  });
+
+  it('should not flag candidates for parts the build is missing', () => {
+    const cpu = createMockProduct({ id: 'cpu-1', title: 'Procesador AMD Ryzen 7 7800X3D AM5' });
+    const result = evaluateCompatibility(cpu, 'cpu', createBuild([]));
+
+    expect(result.results.map((r) => r.ruleId)).not.toContain('build-cooler-required');
+  });
+});
+
+describe('RAM slots', () => {
+  const mobo = createPart('mobo-1', 'motherboard', { memorySlots: 2 });
+  const kit = createPart('ram-1', 'ram', { memoryCapacity: 8, memoryModules: 2 });
+
+  it('should FAIL when the modules outnumber the slots', () => {
+    const build = createBuild([mobo], { ram: [{ part: kit, quantity: 2 }] });
+
+    const result = evaluateBuildRule(build, 'build-memory-slots');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({ code: 'MEMORY_SLOTS_EXCEEDED', params: { modules: 4, memorySlots: 2 } });
+  });
+
+  it('should mark the build as incompatible in the summary', () => {
+    const build = createBuild([mobo], { ram: [{ part: kit, quantity: 2 }] });
+
+    const summary = getBuildCompatibilitySummary(build);
+
+    expect(summary.isCompatible).toBe(false);
+    expect(summary.messages.failures.map((m) => m.code)).toContain('MEMORY_SLOTS_EXCEEDED');
+  });
+
+  it('should FAIL a candidate kit that would not fit in the free slots', () => {
+    const build = createBuild([mobo], { ram: [{ part: kit, quantity: 1 }] });
+    const candidate = createMockProduct({ id: 'ram-2', title: 'Memoria Kit DDR4 16GB (2x8GB) 3200MHz' });
+
+    const result = evaluateCompatibility(candidate, 'ram', build);
+
+    expect(result.allowed).toBe(false);
+    expect(result.results.find((r) => r.ruleId === 'build-memory-slots')?.message.code).toBe('MEMORY_SLOTS_EXCEEDED');
+  });
+
+  it('should PASS when the board does not list its slots', () => {
+    const build = createBuild([createPart('mobo-1', 'motherboard', {})], { ram: [{ part: kit, quantity: 3 }] });
+
+    expect(evaluateBuildRule(build, 'build-memory-slots').status).toBe('pass');
+  });
+});
+
+describe('Storage slots and ports', () => {
+  const mobo = createPart('mobo-1', 'motherboard', { m2Slots: 2, sataPorts: 2 });
+  const nvme = createPart('ssd-1', 'storage', { storageConnectionType: 'M.2' });
+  const sata = createPart('hdd-1', 'storage', { storageConnectionType: 'SATA' });
+
+  it('should FAIL when the M.2 drives outnumber the M.2 slots', () => {
+    const build = createBuild([mobo], { storage: [{ part: nvme, quantity: 3 }] });
+
+    expect(evaluateBuildRule(build, 'build-m2-slots').message).toEqual({
+      code: 'M2_SLOTS_EXCEEDED',
+      params: { m2Drives: 3, m2Slots: 2 },
+    });
+  });
+
+  it('should FAIL when the SATA drives outnumber the SATA ports', () => {
+    const build = createBuild([mobo], { storage: [{ part: nvme, quantity: 1 }, { part: sata, quantity: 3 }] });
+
+    expect(evaluateBuildRule(build, 'build-m2-slots').status).toBe('pass');
+    expect(evaluateBuildRule(build, 'build-sata-ports').message).toEqual({
+      code: 'SATA_PORTS_EXCEEDED',
+      params: { sataDrives: 3, sataPorts: 2 },
+    });
+  });
+});
+
+describe('M.2/SATA lane sharing', () => {
+  const mobo = createPart('mobo-1', 'motherboard', {
+    m2Slots: 2,
+    sataPorts: 6,
+    m2SataSharing: [{ m2Slot: 2, sataPorts: [5, 6] }],
+  });
+  const nvme = createPart('ssd-1', 'storage', { storageConnectionType: 'M.2' });
+  const sata = createPart('hdd-1', 'storage', { storageConnectionType: 'SATA' });
+
+  it('should extract the shared ports from the description', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Mother ASUS PRIME B760-PLUS',
+        description: '2 x M.2, 6 x SATA 6Gb/s. SATA6G_5/6 se deshabilitan cuando M.2_2 está ocupado.',
+      }),
+      'motherboard'
+    );
+
+    expect(spec.m2SataSharing).toEqual([{ m2Slot: 2, sataPorts: [5, 6] }]);
+  });
+
+  it('should disable the shared ports only once the second M.2 slot is populated', () => {
+    expect(getAvailableSataPorts(mobo.spec, [{ product: nvme, quantity: 1 }])).toBe(6);
+    expect(getAvailableSataPorts(mobo.spec, [{ product: nvme, quantity: 2 }])).toBe(4);
+  });
+
+  it('should disable the ports of the slot a described board assigns the drive to', () => {
+    const described = createPart('mobo-2', 'motherboard', {
+      m2Slots: 3,
+      sataPorts: 6,
+      m2SlotDetails: [
+        { slot: 1, pcieGen: 5 },
+        { slot: 2, pcieGen: 4 },
+        { slot: 3, pcieGen: 3 },
+      ],
+      m2SataSharing: [
+        { m2Slot: 2, sataPorts: [3, 4] },
+        { m2Slot: 3, sataPorts: [5, 6] },
+      ],
+    });
+    const gen3 = createPart('ssd-2', 'storage', { storageConnectionType: 'M.2', storagePcieGen: 3 });
+
+    // The Gen3 drive goes to M.2_3, the slowest slot that runs it at full speed
+    expect(getAvailableSataPorts(described.spec, [{ product: gen3, quantity: 1 }])).toBe(4);
+    expect(getAvailableSataPorts(described.spec, [{ product: gen3, quantity: 2 }])).toBe(2);
+  });
+
+  it('should FAIL when the second M.2 drive leaves too few SATA ports', () => {
+    const build = createBuild([mobo], { storage: [{ part: nvme, quantity: 2 }, { part: sata, quantity: 5 }] });
+
+    expect(evaluateBuildRule(build, 'build-sata-ports').message).toEqual({
+      code: 'SATA_PORTS_SHARED',
+      params: { sataDrives: 5, sataPorts: 4, m2Drives: 2 },
+    });
+  });
+
+  it('should report the M.2 drive that would disable a used SATA port', () => {
+    const build = createBuild([mobo], { storage: [{ part: nvme, quantity: 1 }, { part: sata, quantity: 5 }] });
+
+    expect(getAddUnitFailure(build, nvme)?.message.code).toBe('SATA_PORTS_SHARED');
+    expect(getAddUnitFailure(build, sata)).toBeUndefined();
+  });
+});
+
+describe('Drive bays', () => {
+  const hdd = createPart('hdd-1', 'storage', { storageConnectionType: 'SATA', storageFormFactor: '3.5' });
+  const ssd = createPart('ssd-1', 'storage', { storageConnectionType: 'SATA', storageFormFactor: '2.5' });
+
+  it('should extract 2.5" and 3.5" bays from the case description', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Gabinete Mid Tower ATX', description: 'Bahías: 2 x 3.5", 4 x 2.5". Audio 1 x 3.5mm' }),
+      'case'
+    );
+
+    expect(spec).toMatchObject({ drivesBays35: 2, drivesBays25: 4 });
+  });
+
+  it('should FAIL when the 3.5" drives outnumber the 3.5" bays', () => {
+    const pcCase = createPart('case-1', 'case', { drivesBays25: 2, drivesBays35: 1 });
+    const build = createBuild([pcCase], { storage: [{ part: hdd, quantity: 2 }] });
+
+    expect(evaluateBuildRule(build, 'build-drive-bays').message).toEqual({
+      code: 'DRIVE_BAYS_35_EXCEEDED',
+      params: { drives: 2, bays: 1 },
+    });
+  });
+
+  it('should WARN when 2.5" drives spill into free 3.5" bays', () => {
+    const pcCase = createPart('case-1', 'case', { drivesBays25: 1, drivesBays35: 2 });
+    const build = createBuild([pcCase], { storage: [{ part: ssd, quantity: 2 }] });
+
+    expect(evaluateBuildRule(build, 'build-drive-bays').status).toBe('warn');
+    expect(evaluateBuildRule(build, 'build-drive-bays').message.code).toBe('DRIVE_BAYS_25_IN_35');
+  });
+
+  it('should FAIL when 2.5" drives do not fit even with the free 3.5" bays', () => {
+    const pcCase = createPart('case-1', 'case', { drivesBays25: 1, drivesBays35: 1 });
+    const build = createBuild([pcCase], { storage: [{ part: hdd, quantity: 1 }, { part: ssd, quantity: 2 }] });
+
+    expect(evaluateBuildRule(build, 'build-drive-bays').message).toEqual({
+      code: 'DRIVE_BAYS_25_EXCEEDED',
+      params: { drives: 2, bays: 1 },
+    });
+  });
+
+  it('should block one more unit once the bays are full', () => {
+    const pcCase = createPart('case-1', 'case', { drivesBays35: 2 });
+    const build = createBuild([pcCase], { storage: [{ part: hdd, quantity: 2 }] });
+
+    expect(getAddUnitFailure(build, hdd)?.message.code).toBe('DRIVE_BAYS_35_EXCEEDED');
+  });
+
+  it('should not check cases that list no bays', () => {
+    const build = createBuild([createPart('case-1', 'case', {})], { storage: [{ part: hdd, quantity: 4 }] });
+
+    expect(evaluateBuildRule(build, 'build-drive-bays').status).toBe('pass');
+  });
+});
+
+describe('Build helpers', () => {
+  it('should add a multi-select candidate on top and replace single parts', () => {
+    const kit = createPart('ram-1', 'ram', { memoryModules: 2 });
+    const other = createPart('ram-2', 'ram', { memoryModules: 2 });
+    const mobo = createPart('mobo-1', 'motherboard', {});
+    const newMobo = createPart('mobo-2', 'motherboard', {});
+    const build = createBuild([mobo], { ram: [{ part: kit, quantity: 1 }] });
+
+    expect(withCandidate(build, other).items?.ram).toHaveLength(2);
+    expect(withCandidate(build, newMobo).get('motherboard')).toBe(newMobo);
+    expect(build.get('motherboard')).toBe(mobo);
+  });
+
+  it('should fall back to default slot limits', () => {
+    expect(getSlotLimits()).toEqual({ memorySlots: 4, m2Slots: 1, sataPorts: 4 });
+    expect(getSlotLimits({ memorySlots: 2 }).memorySlots).toBe(2);
+  });
+});
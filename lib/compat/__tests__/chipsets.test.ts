@@ -0,0 +1,109 @@
+/**
+ * Chipset Support Tests
+ * Tests for the CPU generation ↔ chipset/BIOS support rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild } from '../types';
+import { createProductWithSpec, evaluateCompatibility } from '../engine';
+import { getChipsetSupport } from '../chipsets';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Evaluate a CPU against a motherboard and return the chipset rule result
+function evaluateCpuOnBoard(cpuTitle: string, moboTitle: string) {
+  const cpu = createMockProduct({ id: 'cpu-1', title: cpuTitle });
+  const mobo = createMockProduct({ id: 'mobo-1', title: moboTitle });
+  const build: PCBuild = new Map([['motherboard', createProductWithSpec(mobo, 'motherboard')]]);
+  const result = evaluateCompatibility(cpu, 'cpu', build);
+  return result.results.find((r) => r.ruleId === 'cpu-mobo-chipset')!;
+}
+
+describe('CPU ↔ Motherboard Chipset Support', () => {
+  it('should PASS when the chipset supports the CPU out of the box', () => {
+    const result = evaluateCpuOnBoard('Intel Core i5-14600K', 'ASUS TUF Gaming Z790-Plus DDR5');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('CHIPSET_SUPPORTED');
+  });
+
+  it('should WARN for 14th Gen Intel on a 600-series board', () => {
+    const result = evaluateCpuOnBoard('Intel Core i7-14700K', 'MSI PRO B660M-A DDR4');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({
+      code: 'CHIPSET_BIOS_UPDATE',
+      params: { cpuGeneration: '14th Gen', chipset: 'B660' },
+    });
+  });
+
+  it('should WARN for Ryzen 5000 on an early B450 board', () => {
+    const result = evaluateCpuOnBoard('AMD Ryzen 5 5600X', 'Gigabyte B450M DS3H');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('CHIPSET_BIOS_UPDATE');
+  });
+
+  it('should WARN for Ryzen 8000G APUs on a 600-series AM5 board', () => {
+    const result = evaluateCpuOnBoard('AMD Ryzen 7 8700G', 'ASRock B650M Pro RS');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('CHIPSET_BIOS_UPDATE');
+  });
+
+  it('should FAIL for 11th Gen Intel on a B460 board', () => {
+    const result = evaluateCpuOnBoard('Intel Core i5-11400F', 'ASUS Prime B460M-A');
+
+    expect(result.status).toBe('fail');
+    expect(result.message.code).toBe('CHIPSET_UNSUPPORTED');
+  });
+
+  it('should FAIL for Ryzen 2000 on a B550 board', () => {
+    const result = evaluateCpuOnBoard('AMD Ryzen 5 2600', 'MSI B550M PRO-VDH');
+
+    expect(result.status).toBe('fail');
+  });
+
+  it('should leave socket mismatches to the socket rule', () => {
+    const result = evaluateCpuOnBoard('AMD Ryzen 7 7800X3D', 'ASUS B550-F Gaming');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('NOT_APPLICABLE');
+  });
+
+  it('should check the same pair from the motherboard side', () => {
+    const cpu = createMockProduct({ id: 'cpu-1', title: 'Intel Core i9-13900K' });
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'Gigabyte H610M S2H DDR4' });
+    const build: PCBuild = new Map([['cpu', createProductWithSpec(cpu, 'cpu')]]);
+
+    const result = evaluateCompatibility(mobo, 'motherboard', build);
+
+    expect(result.allowed).toBe(true);
+    expect(result.results.find((r) => r.ruleId === 'mobo-cpu-chipset')?.message.code).toBe('CHIPSET_BIOS_UPDATE');
+  });
+});
+
+describe('getChipsetSupport', () => {
+  it('should return unknown for chipsets or generations not in the matrix', () => {
+    expect(getChipsetSupport('Q999', '14th Gen')).toBe('unknown');
+    expect(getChipsetSupport('B650', 'Ryzen 1000')).toBe('unknown');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * PSU Connector Tests
+ * Tests for PSU connector extraction and the GPU, EPS and SATA cable rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility } from '../engine';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+describe('PSU connector extraction', () => {
+  it('should extract PCIe, EPS and SATA connector counts', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Fuente 850W 80+ Gold Full Modular',
+        description: 'Conectores: 1 x PCIe 5.0 12V-2x6, 4 x PCIe 6+2 pin, 2 x EPS 4+4 pin, SATA x8',
+      }),
+      'psu'
+    );
+
+    expect(spec).toMatchObject({ psu12vhpwr: 1, psuPcie8Pin: 4, psuEps8Pin: 2, psuSata: 8 });
+  });
+
+  it('should read "connector: count" listings', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Fuente 550W 80+ Bronze', description: 'PCI-E (6+2 pin): 1, CPU (4+4 pin): 1, SATA: 4' }),
+      'psu'
+    );
+
+    expect(spec).toMatchObject({ psuPcie8Pin: 1, psuEps8Pin: 1, psuSata: 4 });
+  });
+
+  it('should extract the motherboard EPS inputs', () => {
+    const spec = extractSpecs(createMockProduct({ title: 'ASUS ROG Strix B650E-F', description: 'Alimentación CPU 8+8 pin' }), 'motherboard');
+
+    expect(spec.epsConnectors).toBe(2);
+  });
+});
+
+describe('GPU ↔ PSU PCIe cables', () => {
+  it('should FAIL a 3x 8-pin card on a PSU with a single PCIe cable', () => {
+    const gpu = createPart('gpu-1', 'gpu', { gpuPowerConnectors: ['8-pin', '8-pin', '8-pin'] });
+    const build: PCBuild = new Map([['gpu', gpu]]);
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 550W 80+ Bronze', description: 'PCI-E (6+2 pin): 1' });
+
+    const result = findResult(psu, 'psu', build, 'psu-gpu-connectors');
+
+    expect(result.status).toBe('fail');
+    expect(result.message.code).toBe('GPU_POWER_CONNECTORS_INSUFFICIENT');
+  });
+});
+
+describe('PSU ↔ Motherboard EPS', () => {
+  it('should FAIL when the board lists more EPS inputs than the PSU has', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { epsConnectors: 2 });
+    const build: PCBuild = new Map([['motherboard', mobo]]);
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 650W 80+ Bronze', description: '1 x EPS 4+4 pin' });
+
+    const result = findResult(psu, 'psu', build, 'psu-mobo-eps');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'EPS_CONNECTORS_INSUFFICIENT',
+      params: { requiredConnectors: 2, availableConnectors: 1 },
+    });
+  });
+
+  it('should only WARN when the requirement is inferred from a high-end chipset', () => {
+    const psu = createPart('psu-1', 'psu', { psuEps8Pin: 1 });
+    const build: PCBuild = new Map([['psu', psu]]);
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'MSI MAG Z790 Tomahawk WIFI DDR5' });
+
+    const result = findResult(mobo, 'motherboard', build, 'mobo-psu-eps');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('EPS_CONNECTORS_LIKELY_INSUFFICIENT');
+  });
+});
+
+describe('Storage ↔ PSU SATA Power', () => {
+  const hdd = createPart('hdd-1', 'storage', { storageConnectionType: 'SATA' });
+  const nvme = createPart('nvme-1', 'storage', { storageConnectionType: 'M.2' });
+
+  function createStorageBuild(psuSata: number): PCBuild {
+    const build: PCBuild = new Map([['storage', hdd], ['psu', createPart('psu-1', 'psu', { psuSata })]]);
+    build.items = { storage: [{ product: hdd, quantity: 3 }, { product: nvme, quantity: 1 }] };
+    return build;
+  }
+
+  it('should WARN when SATA drives outnumber the SATA connectors', () => {
+    const candidate = createMockProduct({ id: 'ssd-1', title: 'SSD 1TB SATA 2.5"' });
+
+    const result = findResult(candidate, 'storage', createStorageBuild(3), 'storage-psu-sata');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'SATA_POWER_INSUFFICIENT', params: { sataDrives: 4, sataConnectors: 3 } });
+  });
+
+  it('should not count M.2 drives', () => {
+    const candidate = createMockProduct({ id: 'nvme-2', title: 'SSD NVMe M.2 2280 1TB' });
+
+    const result = findResult(candidate, 'storage', createStorageBuild(3), 'storage-psu-sata');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('SATA_POWER_OK');
+  });
+});
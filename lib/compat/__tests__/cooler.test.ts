@@ -0,0 +1,132 @@
+/**
+ * Cooler Headroom Tests
+ * Tests for cooler TDP vs CPU power and RAM clearance under air coolers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility, filterByCompatibility } from '../engine';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+describe('Cooler spec extraction', () => {
+  it('should extract TDP, RAM clearance and dual-tower design', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Disipador Dual Tower 165mm',
+        description: 'TDP: 250W. Espacio para RAM hasta 40mm',
+      }),
+      'cooler'
+    );
+
+    expect(spec).toMatchObject({ coolerTdp: 250, coolerRamClearance: 40, coolerDualTower: true });
+  });
+
+  it('should extract RAM module height', () => {
+    const spec = extractSpecs(createMockProduct({ title: 'Kit DDR5 2x16GB 6000MHz', description: 'Altura: 44mm' }), 'ram');
+
+    expect(spec.memoryHeight).toBe(44);
+  });
+});
+
+describe('Cooler ↔ CPU TDP', () => {
+  const i9 = createPart('cpu-1', 'cpu', { tdp: 125, cpuFamily: 'Core i9' });
+
+  it('should FAIL a cooler rated below the CPU TDP', () => {
+    const build: PCBuild = new Map([['cpu', i9]]);
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Cooler Tower 65W TDP 120mm' });
+
+    const result = findResult(cooler, 'cooler', build, 'cooler-cpu-tdp');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({ code: 'COOLER_TDP_INSUFFICIENT', params: { coolerTdp: 65, cpuTdp: 125 } });
+  });
+
+  it('should WARN when the cooler covers TDP but not sustained power', () => {
+    const build: PCBuild = new Map([['cpu', i9]]);
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Cooler Tower 180W TDP' });
+
+    const result = findResult(cooler, 'cooler', build, 'cooler-cpu-tdp');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'COOLER_TDP_TIGHT', params: { coolerTdp: 180, cpuPower: 250 } });
+  });
+
+  it('should hide underrated coolers from the product list', () => {
+    const build: PCBuild = new Map([['cpu', i9]]);
+    const coolers = [
+      createMockProduct({ id: 'cooler-1', title: 'Cooler Tower 65W TDP' }),
+      createMockProduct({ id: 'cooler-2', title: 'Cooler Dual Tower 280W TDP' }),
+    ];
+
+    const visible = filterByCompatibility(coolers, 'cooler', build);
+
+    expect(visible.map((item) => item.product.id)).toEqual(['cooler-2']);
+  });
+
+  it('should skip the CPU\'s included cooler', () => {
+    const cooler = createPart('__use_included_cooler__', 'cooler', { coolerTdp: 65 });
+    const build: PCBuild = new Map([['cooler', cooler]]);
+    const cpu = createMockProduct({ id: 'cpu-1', title: 'Intel Core i9-14900K' });
+
+    expect(findResult(cpu, 'cpu', build, 'cpu-cooler-tdp').message.code).toBe('NOT_APPLICABLE');
+  });
+});
+
+describe('RAM ↔ Cooler Clearance', () => {
+  it('should WARN when RAM is taller than the listed clearance', () => {
+    const cooler = createPart('cooler-1', 'cooler', { coolerType: 'air', coolerRamClearance: 40 });
+    const build: PCBuild = new Map([['cooler', cooler]]);
+    const ram = createMockProduct({ id: 'ram-1', title: 'Kit DDR5 2x16GB 6000MHz', description: 'Altura: 44mm' });
+
+    const result = findResult(ram, 'ram', build, 'ram-cooler-clearance');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'RAM_CLEARANCE_EXCEEDED', params: { memoryHeight: 44, ramClearance: 40 } });
+  });
+
+  it('should WARN for tall RAM under a dual-tower cooler without listed clearance', () => {
+    const ram = createPart('ram-1', 'ram', { memoryHeight: 56 });
+    const build: PCBuild = new Map([['ram', ram]]);
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Disipador Dual Tower 165mm 250W TDP' });
+
+    expect(findResult(cooler, 'cooler', build, 'cooler-ram-clearance').message.code).toBe('RAM_CLEARANCE_DUAL_TOWER');
+  });
+
+  it('should not apply to AIO coolers', () => {
+    const ram = createPart('ram-1', 'ram', { memoryHeight: 56 });
+    const build: PCBuild = new Map([['ram', ram]]);
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Refrigeración Líquida AIO 360mm' });
+
+    expect(findResult(cooler, 'cooler', build, 'cooler-ram-clearance').status).toBe('pass');
+  });
+});
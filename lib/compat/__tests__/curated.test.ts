@@ -0,0 +1,118 @@
+/**
+ * Curated Spec Tests
+ * Tests for the curated spec table: validation, lookup and merge with extracted specs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import { createProductWithSpec } from '../engine';
+import {
+  CURATED_SPECS,
+  CuratedSpecError,
+  findCuratedSpec,
+  indexCuratedSpecs,
+  loadCuratedSpecs,
+  mergeCuratedSpec,
+} from '../curated';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+describe('Curated spec loader', () => {
+  it('should accept the shipped table', () => {
+    expect(CURATED_SPECS.version).toBeGreaterThanOrEqual(1);
+    expect(CURATED_SPECS.entries.length).toBeGreaterThan(0);
+  });
+
+  it('should report every invalid field, unknown field and duplicate identifier', () => {
+    const data = {
+      version: 1,
+      entries: [
+        { mpn: 'ABC-1', category: 'case', spec: { maxGpuLength: '360mm', radiatorMounts: { roof: 360 } } },
+        { mpn: 'abc-1', category: 'cpu', spec: { socketType: 'AM5', coolerType: 'liquid' } },
+        { category: 'gabinete', spec: {} },
+      ],
+    };
+
+    try {
+      loadCuratedSpecs(data);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(CuratedSpecError);
+      expect((error as CuratedSpecError).issues).toEqual([
+        'entries[0].spec.maxGpuLength: expected number',
+        'entries[0].spec.radiatorMounts: expected radiatorMounts',
+        'entries[1].mpn: duplicate identifier "abc-1"',
+        'entries[1].spec.socketType: unknown spec field',
+        'entries[1].spec.coolerType: expected air | aio',
+        'entries[2]: needs at least one of sku/mpn/ean',
+        'entries[2].category: unknown category',
+      ]);
+    }
+  });
+
+  it('should reject data without a version', () => {
+    expect(() => loadCuratedSpecs({ entries: [] })).toThrow(CuratedSpecError);
+  });
+});
+
+describe('Curated spec lookup and merge', () => {
+  const index = indexCuratedSpecs(
+    loadCuratedSpecs({
+      version: 1,
+      entries: [
+        { sku: 'SKU-9', mpn: 'MPN-9', category: 'case', spec: { maxGpuLength: 400 } },
+        { ean: '7790000000001', category: 'cpu', spec: { socket: 'AM5' } },
+      ],
+    })
+  );
+
+  it('should match by SKU, MPN or EAN regardless of case', () => {
+    const byMpn = createMockProduct({ identifiers: { sku: 'other', mpn: 'mpn-9' } });
+    const byEan = createMockProduct({ identifiers: { sku: 'other', ean: '7790000000001' } });
+
+    expect(findCuratedSpec(byMpn, 'case', index)?.spec).toEqual({ maxGpuLength: 400 });
+    expect(findCuratedSpec(byEan, 'cpu', index)?.spec).toEqual({ socket: 'AM5' });
+  });
+
+  it('should only apply an entry to its own category', () => {
+    const product = createMockProduct({ identifiers: { sku: 'SKU-9' } });
+
+    expect(findCuratedSpec(product, 'gpu', index)).toBeUndefined();
+  });
+
+  it('should let curated fields win and extracted fields fill the gaps', () => {
+    const merged = mergeCuratedSpec({ maxGpuLength: 300, maxCpuCoolerHeight: 160 }, { maxGpuLength: 360 });
+
+    expect(merged).toEqual({ maxGpuLength: 360, maxCpuCoolerHeight: 160 });
+  });
+
+  it('should apply curated specs in createProductWithSpec', () => {
+    const pcCase = createMockProduct({
+      title: 'Gabinete Corsair 4000D Airflow ATX',
+      description: 'Ventiladores: Frontal 2x120mm. Soporte de Watercooler: No compatible.',
+      identifiers: { sku: 'MW-123', mpn: 'CC-9011200-WW' },
+    });
+
+    const { spec } = createProductWithSpec(pcCase, 'case');
+
+    expect(spec).toMatchObject({ supportsWaterCooling: true, radiatorMounts: { front: 360, top: 280, rear: 120 } });
+    expect(spec.supportedFormFactors).toEqual(['ATX', 'Micro-ATX', 'Mini-ITX']);
+  });
+});
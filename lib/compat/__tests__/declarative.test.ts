@@ -0,0 +1,153 @@
+/**
+ * Declarative Rule Tests
+ * Tests for compiling declarative rules into bidirectional checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { DeclarativeRule, PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { compileDeclarativeRule } from '../declarative';
+import { COMPATIBILITY_RULES } from '../rules';
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  const product: Product = {
+    id,
+    title: id,
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: id },
+    rating: { votes: 0, value: 0 },
+  };
+  return { product, spec, category };
+}
+
+const lengthRule: DeclarativeRule = {
+  forward: { id: 'gpu-case-test', name: 'GPU/Case Test' },
+  reverse: { id: 'case-gpu-test', name: 'Case/GPU Test' },
+  description: 'Test rule',
+  a: { category: 'gpu', field: 'gpuLength', param: 'gpuLength' },
+  b: { category: 'case', field: 'maxGpuLength', param: 'maxGpuLength' },
+  operator: 'atMost',
+  onMissing: 'unknown',
+  messages: {
+    pass: 'GPU_LENGTH_FITS',
+    fail: 'GPU_TOO_LONG',
+    missing: 'DIMENSIONS_UNKNOWN',
+  },
+};
+
+describe('compileDeclarativeRule', () => {
+  it('should compile a rule into forward and reverse directions', () => {
+    const [forward, reverse] = compileDeclarativeRule(lengthRule);
+
+    expect(forward.id).toBe('gpu-case-test');
+    expect(forward.sourceCategory).toBe('gpu');
+    expect(forward.targetCategories).toEqual(['case']);
+    expect(reverse.id).toBe('case-gpu-test');
+    expect(reverse.sourceCategory).toBe('case');
+    expect(reverse.targetCategories).toEqual(['gpu']);
+  });
+
+  it('should evaluate both directions symmetrically', () => {
+    const [forward, reverse] = compileDeclarativeRule(lengthRule);
+    const gpu = createPart('gpu-1', 'gpu', { gpuLength: 320 });
+    const pcCase = createPart('case-1', 'case', { maxGpuLength: 300 });
+
+    const forwardResult = forward.evaluate(gpu, new Map([['case', pcCase]]) as PCBuild);
+    const reverseResult = reverse.evaluate(pcCase, new Map([['gpu', gpu]]) as PCBuild);
+
+    expect(forwardResult.status).toBe('fail');
+    expect(forwardResult.message).toEqual({
+      code: 'GPU_TOO_LONG',
+      params: { gpuLength: 320, maxGpuLength: 300 },
+    });
+    expect(reverseResult.status).toBe('fail');
+    expect(reverseResult.message).toEqual(forwardResult.message);
+    expect(reverseResult.affectedCategories).toEqual(['case', 'gpu']);
+  });
+
+  it('should use onMissing status when a spec value is missing', () => {
+    const [forward] = compileDeclarativeRule(lengthRule);
+    const gpu = createPart('gpu-1', 'gpu', {});
+    const pcCase = createPart('case-1', 'case', { maxGpuLength: 300 });
+
+    const result = forward.evaluate(gpu, new Map([['case', pcCase]]) as PCBuild);
+
+    expect(result.status).toBe('unknown');
+    expect(result.message.code).toBe('DIMENSIONS_UNKNOWN');
+  });
+
+  it('should PASS when the other part is not in the build', () => {
+    const [forward] = compileDeclarativeRule(lengthRule);
+    const gpu = createPart('gpu-1', 'gpu', { gpuLength: 320 });
+
+    const result = forward.evaluate(gpu, new Map() as PCBuild);
+
+    expect(result.status).toBe('pass');
+    expect(result.message).toEqual({ code: 'PART_NOT_SELECTED', params: { category: 'case' } });
+  });
+
+  it('should skip parts that do not match the side condition', () => {
+    const rule: DeclarativeRule = {
+      ...lengthRule,
+      a: { ...lengthRule.a, when: { field: 'gpuSlots', notEquals: 3 } },
+    };
+    const [forward] = compileDeclarativeRule(rule);
+    const gpu = createPart('gpu-1', 'gpu', { gpuLength: 400, gpuSlots: 3 });
+    const pcCase = createPart('case-1', 'case', { maxGpuLength: 300 });
+
+    const result = forward.evaluate(gpu, new Map([['case', pcCase]]) as PCBuild);
+
+    expect(result.status).toBe('pass');
+  });
+
+  it('should never apply to ignored product IDs', () => {
+    const rule: DeclarativeRule = { ...lengthRule, ignoreProductIds: ['virtual'] };
+    const [, reverse] = compileDeclarativeRule(rule);
+    const gpu = createPart('virtual', 'gpu', { gpuLength: 400 });
+    const pcCase = createPart('case-1', 'case', { maxGpuLength: 300 });
+
+    const result = reverse.evaluate(pcCase, new Map([['gpu', gpu]]) as PCBuild);
+
+    expect(result.status).toBe('pass');
+  });
+
+  it('should support includedIn and rankAtMost operators', () => {
+    const [socketRule] = compileDeclarativeRule({
+      ...lengthRule,
+      a: { category: 'cpu', field: 'socket', param: 'cpuSocket' },
+      b: { category: 'cooler', field: 'coolerSockets', param: 'coolerSockets' },
+      operator: 'includedIn',
+    });
+    const [formFactorRule] = compileDeclarativeRule({
+      ...lengthRule,
+      a: { category: 'motherboard', field: 'formFactor', param: 'moboFormFactor' },
+      b: { category: 'case', field: 'supportedFormFactors', param: 'caseFormFactors' },
+      operator: 'rankAtMost',
+      ranking: { 'ATX': 3, 'Micro-ATX': 2, 'Mini-ITX': 1 },
+    });
+
+    const cpu = createPart('cpu-1', 'cpu', { socket: 'AM5' });
+    const cooler = createPart('cooler-1', 'cooler', { coolerSockets: ['AM4', 'LGA1700'] });
+    const mobo = createPart('mobo-1', 'motherboard', { formFactor: 'Micro-ATX' });
+    const pcCase = createPart('case-1', 'case', { supportedFormFactors: ['ATX'] });
+
+    expect(socketRule.evaluate(cpu, new Map([['cooler', cooler]]) as PCBuild).status).toBe('fail');
+    expect(formFactorRule.evaluate(mobo, new Map([['case', pcCase]]) as PCBuild).status).toBe('pass');
+  });
+});
+
+describe('COMPATIBILITY_RULES', () => {
+  it('should have unique rule IDs', () => {
+    const ids = COMPATIBILITY_RULES.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
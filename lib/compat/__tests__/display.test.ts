@@ -0,0 +1,287 @@
+/**
+ * Display Output Tests
+ * Tests for iGPU detection, motherboard video outputs, the display output rule and monitor checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { BUILD_RULES, getBuildRequiredCategories } from '../buildRules';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function createBuild(parts: ProductWithSpec[]): PCBuild {
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+function evaluateDisplayRule(build: PCBuild) {
+  return BUILD_RULES.find((rule) => rule.id === 'build-display-output')!.evaluate(build);
+}
+
+function hasIntegratedGraphics(title: string, description = ''): boolean | undefined {
+  return extractSpecs(createMockProduct({ title, description }), 'cpu').integratedGraphics;
+}
+
+describe('Integrated graphics detection', () => {
+  it('should treat Intel F and KF models as having no iGPU', () => {
+    expect(hasIntegratedGraphics('Procesador Intel Core i5-12400F')).toBe(false);
+    expect(hasIntegratedGraphics('Procesador Intel Core i7-13700KF')).toBe(false);
+    expect(hasIntegratedGraphics('Procesador Intel Core Ultra 5 245KF')).toBe(false);
+  });
+
+  it('should detect the iGPU on Intel K and plain models', () => {
+    expect(hasIntegratedGraphics('Procesador Intel Core i5-13600K')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador Intel Core i3 12100')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador Intel Core Ultra 7 265K')).toBe(true);
+  });
+
+  it('should detect AMD G, GE and GT APUs', () => {
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 5600G')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 PRO 4650GE')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 5600GT')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 7 8700G')).toBe(true);
+  });
+
+  it('should detect the basic iGPU of Ryzen 7000/9000 but not their F models', () => {
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 7600X AM5')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 7 9800X3D AM5')).toBe(true);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 7500F AM5')).toBe(false);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 8400F AM5')).toBe(false);
+  });
+
+  it('should treat Ryzen 5000 non-G models as having no iGPU', () => {
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 7 5700X3D AM4')).toBe(false);
+    expect(hasIntegratedGraphics('Procesador AMD Ryzen 5 5500 AM4')).toBe(false);
+  });
+
+  it('should trust the listing when it says there is no iGPU', () => {
+    expect(hasIntegratedGraphics('Procesador Intel Core i5-12400', 'Requiere placa de video dedicada.')).toBe(false);
+  });
+});
+
+describe('Motherboard video outputs', () => {
+  it('should extract the rear video outputs', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Mother MSI PRO B760M-A', description: 'Salidas de video: HDMI, DisplayPort y VGA.' }),
+      'motherboard'
+    );
+
+    expect(spec.videoOutputs).toEqual(['HDMI', 'DisplayPort', 'VGA']);
+  });
+
+  it('should record boards without outputs as an empty list', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Mother ASUS TUF X570-PLUS', description: 'Sin salidas de video.' }),
+      'motherboard'
+    );
+
+    expect(spec.videoOutputs).toEqual([]);
+  });
+
+  it('should leave outputs unknown when the listing does not mention them', () => {
+    const spec = extractSpecs(createMockProduct({ title: 'Mother ASUS PRIME B650M-A' }), 'motherboard');
+
+    expect(spec.videoOutputs).toBeUndefined();
+  });
+});
+
+describe('Display output rule', () => {
+  const apu = createPart('cpu-1', 'cpu', { integratedGraphics: true, includesCooler: true });
+  const noIgpu = createPart('cpu-2', 'cpu', { integratedGraphics: false, includesCooler: true });
+  const gpu = createPart('gpu-1', 'gpu', {});
+
+  it('should FAIL a CPU without iGPU and no graphics card', () => {
+    expect(evaluateDisplayRule(createBuild([noIgpu])).message.code).toBe('GPU_REQUIRED');
+  });
+
+  it('should FAIL an iGPU on a board without video outputs', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { videoOutputs: [] });
+
+    const result = evaluateDisplayRule(createBuild([apu, mobo]));
+
+    expect(result.status).toBe('fail');
+    expect(result.message.code).toBe('BOARD_NO_VIDEO_OUTPUTS');
+    expect(getBuildRequiredCategories(createBuild([apu, mobo]))).toContain('gpu');
+  });
+
+  it('should PASS an iGPU on a board with outputs', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { videoOutputs: ['HDMI'] });
+
+    expect(evaluateDisplayRule(createBuild([apu, mobo])).message).toEqual({
+      code: 'IGPU_VIDEO_OUTPUTS',
+      params: { videoOutputs: ['HDMI'] },
+    });
+    expect(getBuildRequiredCategories(createBuild([apu, mobo]))).not.toContain('gpu');
+  });
+
+  it('should PASS any build with a graphics card', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { videoOutputs: [] });
+
+    expect(evaluateDisplayRule(createBuild([noIgpu, mobo, gpu])).status).toBe('pass');
+  });
+
+  it('should make the build incompatible while it has no video output', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { videoOutputs: [] });
+    const summary = getBuildCompatibilitySummary(createBuild([apu, mobo]));
+
+    expect(summary.isComplete).toBe(false);
+    expect(summary.isCompatible).toBe(false);
+    expect(summary.messages.failures.map((m) => m.code)).toContain('BOARD_NO_VIDEO_OUTPUTS');
+    expect(summary.messages.warnings.map((m) => m.code)).not.toContain('BOARD_NO_VIDEO_OUTPUTS');
+    expect(getBuildCompatibilitySummary(createBuild([noIgpu])).isCompatible).toBe(false);
+  });
+
+  it('should WARN CPU and motherboard candidates that leave the build without a video output', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { videoOutputs: [] });
+    const cpuResult = evaluateCompatibility(
+      createMockProduct({ id: 'cpu-3', title: 'Procesador Intel Core i5-12400F' }),
+      'cpu',
+      createBuild([])
+    );
+    const moboResult = evaluateCompatibility(
+      createMockProduct({ id: 'mobo-2', title: 'Mother ASUS PRIME B760M', description: 'Sin salidas de video' }),
+      'motherboard',
+      createBuild([apu])
+    );
+
+    expect(cpuResult.allowed).toBe(true);
+    expect(cpuResult.results.find((r) => r.ruleId === 'cpu-display-output')?.message.code).toBe('GPU_REQUIRED');
+    expect(moboResult.results.find((r) => r.ruleId === 'mobo-display-output')?.message.code).toBe(
+      'BOARD_NO_VIDEO_OUTPUTS'
+    );
+    const apuCandidate = createMockProduct({ id: 'cpu-4', title: 'Procesador AMD Ryzen 5 8600G AM5' });
+    const onBoard = evaluateCompatibility(apuCandidate, 'cpu', createBuild([mobo]));
+    const withGpu = evaluateCompatibility(apuCandidate, 'cpu', createBuild([mobo, gpu]));
+
+    expect(onBoard.results.find((r) => r.ruleId === 'cpu-display-output')?.message.code).toBe('BOARD_NO_VIDEO_OUTPUTS');
+    expect(withGpu.results.find((r) => r.ruleId === 'cpu-display-output')?.status).toBe('pass');
+  });
+});
+
+describe('Monitor and GPU output extraction', () => {
+  it('should extract monitor resolution, refresh rate, panel, inputs and adaptive sync', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Monitor Samsung Odyssey G5 27" QHD 2560x1440 165Hz VA',
+        description: 'FreeSync Premium. Entradas: HDMI 2.0, DisplayPort 1.2.',
+      }),
+      'monitor'
+    );
+
+    expect(spec).toEqual({
+      monitorResolution: '2560x1440',
+      monitorRefreshRate: 165,
+      monitorPanel: 'VA',
+      monitorInputs: [{ type: 'HDMI', version: '2.0' }, { type: 'DisplayPort', version: '1.2' }],
+      monitorAdaptiveSync: ['FreeSync Premium'],
+    });
+  });
+
+  it('should fall back to the resolution name', () => {
+    const spec = extractSpecs(createMockProduct({ title: 'Monitor LG UltraGear 27" 4K IPS 144Hz' }), 'monitor');
+
+    expect(spec.monitorResolution).toBe('3840x2160');
+  });
+
+  it('should extract GPU outputs with their versions', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Placa de Video ASUS Dual RTX 4060 8GB', description: 'Salidas: 1x HDMI 2.1a, 3x DisplayPort 1.4a.' }),
+      'gpu'
+    );
+
+    expect(spec.gpuOutputs).toEqual([{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }]);
+  });
+});
+
+describe('Monitor rules', () => {
+  const rtx4070 = createPart('gpu-1', 'gpu', { gpuChip: 'RTX 4070' });
+  const rtx3050 = createPart('gpu-2', 'gpu', { gpuChip: 'RTX 3050' });
+  const apu = createPart('cpu-1', 'cpu', { integratedGraphics: true });
+  const hdmiBoard = createPart('mobo-1', 'motherboard', { videoOutputs: ['HDMI'] });
+
+  function evaluateMonitorRule(build: PCBuild, ruleId: string) {
+    return BUILD_RULES.find((rule) => rule.id === ruleId)!.evaluate(build);
+  }
+
+  it('should WARN when the only shared port caps the refresh rate', () => {
+    const monitor = createPart('monitor-1', 'monitor', {
+      monitorResolution: '2560x1440',
+      monitorRefreshRate: 165,
+      monitorInputs: [{ type: 'HDMI', version: '2.0' }],
+    });
+
+    expect(evaluateMonitorRule(createBuild([rtx4070, monitor]), 'build-monitor-output').message).toEqual({
+      code: 'MONITOR_BANDWIDTH_LIMITED',
+      params: { monitorResolution: '2560x1440', monitorRefreshRate: 165, videoPort: 'HDMI 2.0', maxRefreshRate: 150 },
+    });
+  });
+
+  it('should PASS over DisplayPort with DSC', () => {
+    const monitor = createPart('monitor-1', 'monitor', {
+      monitorResolution: '3840x2160',
+      monitorRefreshRate: 240,
+      monitorInputs: [{ type: 'HDMI', version: '2.0' }, { type: 'DisplayPort', version: '1.4' }],
+    });
+
+    const result = evaluateMonitorRule(createBuild([rtx4070, monitor]), 'build-monitor-output');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.params).toMatchObject({ videoPort: 'DisplayPort 1.4' });
+  });
+
+  it('should WARN when the monitor shares no connector with the outputs', () => {
+    const monitor = createPart('monitor-1', 'monitor', {
+      monitorResolution: '1920x1080',
+      monitorRefreshRate: 60,
+      monitorInputs: [{ type: 'VGA' }],
+    });
+
+    expect(evaluateMonitorRule(createBuild([rtx4070, monitor]), 'build-monitor-output').message).toEqual({
+      code: 'MONITOR_NO_COMMON_PORT',
+      params: { videoOutputs: ['HDMI', 'DisplayPort'], monitorInputs: ['VGA'] },
+    });
+  });
+
+  it('should check an iGPU through the motherboard outputs', () => {
+    const monitor = createPart('monitor-1', 'monitor', { monitorResolution: '3840x2160', monitorRefreshRate: 60 });
+    const build = createBuild([apu, hdmiBoard, monitor]);
+
+    expect(evaluateMonitorRule(build, 'build-monitor-output').status).toBe('pass');
+    expect(evaluateMonitorRule(build, 'build-monitor-gpu-tier').message.code).toBe('MONITOR_IGPU_UNDERPOWERED');
+  });
+
+  it('should WARN when an entry-level GPU drives a 240Hz display', () => {
+    const monitor = createPart('monitor-1', 'monitor', { monitorResolution: '1920x1080', monitorRefreshRate: 240 });
+
+    expect(evaluateMonitorRule(createBuild([rtx3050, monitor]), 'build-monitor-gpu-tier').message).toEqual({
+      code: 'MONITOR_GPU_UNDERPOWERED',
+      params: { gpuChip: 'RTX 3050', monitorResolution: '1920x1080', monitorRefreshRate: 240 },
+    });
+    expect(evaluateMonitorRule(createBuild([rtx4070, monitor]), 'build-monitor-gpu-tier').status).toBe('pass');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Compatibility Engine Benchmarks
+ * Filters a 1,000-product synthetic catalog after a case change, with and without the
+ * rule result cache. Run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { createProductWithSpec, filterByCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { clearCompatibilityCache } from '../memo';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Listing titles per category; the index varies models, sizes and speeds
+const TITLE_TEMPLATES: Partial<Record<CategoryKey, (i: number) => string>> = {
+  cpu: (i) =>
+    i % 2 === 0
+      ? `Procesador AMD Ryzen ${[5, 7, 9][i % 3]} ${[5600, 7700, 9900][i % 3] + (i % 10)}X ${i % 3 === 0 ? 'AM4' : 'AM5'}`
+      : `Procesador Intel Core i${[5, 7, 9][i % 3]}-${[12, 13, 14][i % 3]}${400 + (i % 300)}K LGA1700`,
+  motherboard: (i) =>
+    `Mother ${['ASUS', 'MSI', 'Gigabyte'][i % 3]} ${['B550', 'B650', 'Z790', 'B760'][i % 4]}M ${i % 2 ? 'DDR5' : 'DDR4'} ${i % 5 === 0 ? 'Mini-ITX' : 'ATX'}`,
+  ram: (i) => `Memoria RAM ${['Kingston Fury', 'Corsair Vengeance'][i % 2]} ${[8, 16, 32][i % 3]}GB ${i % 2 ? 'DDR5 6000MHz' : 'DDR4 3200MHz'}`,
+  gpu: (i) => `Placa de Video ${['RTX 4060', 'RTX 4070', 'RX 7800 XT', 'RTX 4090'][i % 4]} ${8 + (i % 3) * 4}GB ${250 + (i % 100)}mm`,
+  storage: (i) => `Disco SSD ${[500, 1000, 2000][i % 3]}GB ${i % 2 ? 'M.2 NVMe PCIe 4.0' : 'SATA 2.5'}`,
+  psu: (i) => `Fuente ${['Corsair', 'EVGA', 'Seasonic'][i % 3]} ${[550, 650, 750, 850, 1000][i % 5]}W 80 Plus Gold ${i % 4 ? 'ATX' : 'SFX'}`,
+  case: (i) => `Gabinete ${['NZXT H5', 'Lian Li Lancool', 'Cooler Master Q300L'][i % 3]} ${i % 3 === 2 ? 'Micro-ATX' : 'ATX'} GPU hasta ${300 + (i % 100)}mm`,
+  cooler: (i) => (i % 2 ? `Cooler CPU ${150 + (i % 20)}mm AM4 AM5 LGA1700 ${120 + (i % 130)}W` : `Water Cooling AIO ${[240, 280, 360][i % 3]}mm`),
+};
+
+const CATALOG_SIZE = 1000;
+
+// 1,000 products spread evenly over the categories above
+function createSyntheticCatalog(): Record<CategoryKey, Product[]> {
+  const catalog = {} as Record<CategoryKey, Product[]>;
+  const categories = Object.keys(TITLE_TEMPLATES) as CategoryKey[];
+
+  for (let i = 0; i < CATALOG_SIZE; i++) {
+    const category = categories[i % categories.length];
+    const index = Math.floor(i / categories.length);
+    const id = `${category}-${index}`;
+    (catalog[category] ??= []).push(
+      createMockProduct({ id, title: TITLE_TEMPLATES[category]!(index), price: 100 + index, identifiers: { sku: id } })
+    );
+  }
+  return catalog;
+}
+
+const catalog = createSyntheticCatalog();
+
+function createBuild(caseIndex: number): PCBuild {
+  const parts = (['cpu', 'motherboard', 'ram', 'gpu', 'psu', 'case'] as CategoryKey[]).map((category) =>
+    createProductWithSpec(catalog[category][category === 'case' ? caseIndex : 0], category)
+  );
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+// What PCBuilder and BuildSummary run after the user picks another case
+function refreshAfterCaseChange(caseIndex: number): void {
+  const build = createBuild(caseIndex);
+  for (const category of Object.keys(catalog) as CategoryKey[]) {
+    filterByCompatibility(catalog[category], category, build, true);
+  }
+  getBuildCompatibilitySummary(build);
+}
+
+describe(`Filter ${CATALOG_SIZE} products after a case change`, () => {
+  let caseIndex = 0;
+  const nextCase = () => (caseIndex = (caseIndex + 1) % catalog.case.length);
+
+  bench(
+    'uncached',
+    () => {
+      clearCompatibilityCache();
+      refreshAfterCaseChange(nextCase());
+    },
+    { time: 1000 }
+  );
+
+  bench('cached', () => refreshAfterCaseChange(nextCase()), {
+    time: 1000,
+    setup: () => {
+      clearCompatibilityCache();
+      refreshAfterCaseChange(nextCase());
+    },
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Spec Extraction Regression Tests
+ * Runs extractSpecs over the golden corpus in fixtures/extraction and fails when
+ * per-category, per-field accuracy drops below accuracy-baseline.json.
+ *
+ * UPDATE_EXTRACTION_FIXTURES=1 fills `expected` for new (null) items with the current
+ * extraction — review and correct those before committing — and rewrites the baseline.
+ */
+
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import type { MallWebItem } from '../../mallweb/types';
+import type { CategoryKey } from '../../catalog/categories';
+import type { ProductSpec } from '../types';
+import { normalizeItem } from '../../mallweb/normalize';
+import { extractSpecs } from '../specs';
+
+interface ExtractionFixture {
+  category: CategoryKey;
+  items: { item: MallWebItem; expected: ProductSpec | null }[];
+}
+
+type AccuracyReport = Record<string, Record<string, number>>;
+
+interface FieldMiss {
+  title: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'extraction');
+const BASELINE_PATH = join(FIXTURES_DIR, 'accuracy-baseline.json');
+const UPDATE = process.env.UPDATE_EXTRACTION_FIXTURES === '1';
+
+function loadFixtures(): { file: string; fixture: ExtractionFixture }[] {
+  return readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json') && file !== 'accuracy-baseline.json')
+    .sort()
+    .map((file) => ({ file, fixture: JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8')) }));
+}
+
+// Round-trip through JSON so undefined fields drop out, as in the fixture files
+function extract(item: MallWebItem, category: CategoryKey): ProductSpec {
+  return JSON.parse(JSON.stringify(extractSpecs(normalizeItem(item), category)));
+}
+
+/**
+ * Per-field accuracy over reviewed items: a field counts when either side has it,
+ * and is correct when both sides agree
+ */
+function measureAccuracy(fixture: ExtractionFixture) {
+  const totals: Record<string, { correct: number; total: number; misses: FieldMiss[] }> = {};
+
+  for (const { item, expected } of fixture.items) {
+    if (!expected) continue;
+    const actual = extract(item, fixture.category);
+    const fields = new Set([...Object.keys(expected), ...Object.keys(actual)]) as Set<keyof ProductSpec>;
+
+    for (const field of fields) {
+      const entry = (totals[field] ??= { correct: 0, total: 0, misses: [] });
+      entry.total++;
+      if (JSON.stringify(expected[field]) === JSON.stringify(actual[field])) {
+        entry.correct++;
+      } else {
+        entry.misses.push({ title: item.title, expected: expected[field], actual: actual[field] });
+      }
+    }
+  }
+
+  return totals;
+}
+
+const fixtures = loadFixtures();
+const baseline: AccuracyReport = UPDATE ? {} : JSON.parse(readFileSync(BASELINE_PATH, 'utf8'));
+
+if (UPDATE) {
+  for (const { file, fixture } of fixtures) {
+    for (const entry of fixture.items) {
+      entry.expected ??= extract(entry.item, fixture.category);
+    }
+    writeFileSync(join(FIXTURES_DIR, file), `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
+
+describe('Spec extraction accuracy', () => {
+  const report: AccuracyReport = {};
+
+  describe.each(fixtures.map(({ fixture }) => fixture))('$category', (fixture) => {
+    it('should not regress any field below the baseline', () => {
+      const totals = measureAccuracy(fixture);
+      const accuracy = Object.fromEntries(
+        Object.entries(totals)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([field, { correct, total }]) => [field, Math.round((correct / total) * 1000) / 1000])
+      );
+      report[fixture.category] = accuracy;
+
+      const pending = fixture.items.filter((entry) => !entry.expected).length;
+      console.log(
+        `[${fixture.category}] ${fixture.items.length - pending} items${pending ? ` (${pending} pending review)` : ''}\n` +
+          Object.entries(accuracy)
+            .map(([field, value]) => `  ${field.padEnd(24)} ${(value * 100).toFixed(1)}%`)
+            .join('\n')
+      );
+
+      if (UPDATE) return;
+
+      for (const [field, expected] of Object.entries(baseline[fixture.category] ?? {})) {
+        const misses = totals[field]?.misses ?? [];
+        expect(
+          accuracy[field] ?? 0,
+          `${fixture.category}.${field} regressed:\n${misses.map((miss) => `  ${JSON.stringify(miss)}`).join('\n')}`
+        ).toBeGreaterThanOrEqual(expected);
+      }
+    });
+  });
+
+  if (UPDATE) {
+    it('should write the accuracy baseline', () => {
+      writeFileSync(BASELINE_PATH, `${JSON.stringify(report, null, 2)}\n`);
+    });
+  }
+});
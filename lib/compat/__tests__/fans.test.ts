@@ -0,0 +1,241 @@
+/**
+ * Case Fan Tests
+ * Tests for fan and fan mount extraction, mount fitting and the fan mount, lighting and header rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { FanMount, PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { BUILD_RULES, getAddUnitFailure } from '../buildRules';
+import { findFanMountOverflow, getFanHeaderDemand } from '../fans';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+// Build with fan packs selected through the multi-select items
+function createFanBuild(parts: ProductWithSpec[], fans: { part: ProductWithSpec; quantity: number }[]): PCBuild {
+  const build: PCBuild = new Map(parts.map((part) => [part.category, part]));
+  build.set('fans', fans[0].part);
+  build.items = { fans: fans.map(({ part, quantity }) => ({ product: part, quantity })) };
+  return build;
+}
+
+function evaluateFanRule(build: PCBuild, ruleId: string) {
+  return BUILD_RULES.find((rule) => rule.id === ruleId)!.evaluate(build);
+}
+
+// Front takes 3x120mm or 2x140mm, top 2x120mm or 2x140mm, rear 1x120mm
+const caseMounts: FanMount[] = [
+  { position: 'front', size: 120, count: 3 },
+  { position: 'front', size: 140, count: 2 },
+  { position: 'top', size: 120, count: 2 },
+  { position: 'top', size: 140, count: 2 },
+  { position: 'rear', size: 120, count: 1 },
+];
+const pcCase = createPart('case-1', 'case', { fanMounts: caseMounts });
+const argbPack = createPart('fan-argb', 'fans', { fanCount: 3, fanSize: 120, fanLighting: 'ARGB' });
+const argbHubPack = createPart('fan-hub', 'fans', { fanCount: 3, fanSize: 120, fanLighting: 'ARGB', fanHubIncluded: true });
+const fan140 = createPart('fan-140', 'fans', { fanCount: 1, fanSize: 140 });
+
+describe('Fan spec extraction', () => {
+  it('should extract size, PWM connector, ARGB lighting and the included hub', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Kit Ventiladores Lian Li UNI FAN x3 120mm ARGB',
+        description: 'Conector 4 pines PWM. Iluminación ARGB 5V 3 pines. Incluye controladora.',
+      }),
+      'fans'
+    );
+
+    expect(spec).toEqual({ fanCount: 3, fanSize: 120, fanConnector: '4-pin PWM', fanLighting: 'ARGB', fanHubIncluded: true });
+  });
+
+  it('should not read the ARGB cable as the power connector', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Ventilador Cooler Master 140mm', description: 'Conector de energía 3 pines. Conector ARGB 5V 3 pines.' }),
+      'fans'
+    );
+
+    expect(spec).toMatchObject({ fanSize: 140, fanConnector: '3-pin', fanLighting: 'ARGB' });
+  });
+
+  it('should only treat RGB as 12V when the listing says so', () => {
+    const rgb12 = extractSpecs(createMockProduct({ title: 'Ventilador 120mm RGB 12V 4 pines' }), 'fans');
+    const plain = extractSpecs(createMockProduct({ title: 'Ventilador 120mm RGB' }), 'fans');
+
+    expect(rgb12.fanLighting).toBe('RGB');
+    expect(plain.fanLighting).toBeUndefined();
+  });
+
+  it('should extract case fan mounts per position, skipping radiator mounts', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Gabinete NZXT H5 Flow',
+        description: 'Ventiladores: Frontal: 3x120mm / 2x140mm, Superior: 2x120mm, Trasero: 1x120mm. Radiador frontal: 3x140mm.',
+      }),
+      'case'
+    );
+
+    expect(spec.fanMounts).toEqual([
+      { position: 'front', size: 120, count: 3 },
+      { position: 'front', size: 140, count: 2 },
+      { position: 'top', size: 120, count: 2 },
+      { position: 'rear', size: 120, count: 1 },
+    ]);
+  });
+
+  it('should extract motherboard fan, ARGB and RGB headers', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Mother ASUS TUF GAMING B650-PLUS',
+        description: '6x conectores de ventilador 4 pines, 3x ARGB Gen2, 1x RGB 12V.',
+      }),
+      'motherboard'
+    );
+
+    expect(spec).toMatchObject({ fanHeaders: 6, argbHeaders: 3, rgbHeaders: 1 });
+  });
+});
+
+describe('Fan mount fitting', () => {
+  it('should count each position once for the sizes it holds', () => {
+    expect(findFanMountOverflow(caseMounts, new Map([[120, 6]]))).toBeUndefined();
+    expect(findFanMountOverflow(caseMounts, new Map([[120, 7]]))).toEqual({ fanSize: 120, fanCount: 7, mountCount: 6 });
+  });
+
+  it('should not use a position for two sizes at once', () => {
+    // 4x140mm takes both front and top, leaving only the rear for 120mm fans
+    expect(findFanMountOverflow(caseMounts, new Map([[120, 1], [140, 4]]))).toBeUndefined();
+    expect(findFanMountOverflow(caseMounts, new Map([[120, 2], [140, 4]]))).toEqual({
+      fanSize: 120,
+      fanCount: 2,
+      mountCount: 1,
+    });
+  });
+
+  it('should take one header per fan, or one per pack with a hub', () => {
+    expect(getFanHeaderDemand([{ product: argbPack, quantity: 2 }])).toBe(6);
+    expect(getFanHeaderDemand([{ product: argbHubPack, quantity: 2 }])).toBe(2);
+  });
+});
+
+describe('Fan mounts rule', () => {
+  it('should PASS fan packs that fit the case', () => {
+    const result = evaluateFanRule(createFanBuild([pcCase], [{ part: argbPack, quantity: 2 }]), 'build-fan-mounts');
+
+    expect(result.message).toEqual({ code: 'FAN_MOUNTS_OK', params: { fanCount: 6 } });
+  });
+
+  it('should FAIL more fans than the case takes', () => {
+    const result = evaluateFanRule(
+      createFanBuild([pcCase], [{ part: argbPack, quantity: 2 }, { part: fan140, quantity: 1 }]),
+      'build-fan-mounts'
+    );
+
+    expect(result.status).toBe('fail');
+    expect(result.message.code).toBe('FAN_MOUNTS_EXCEEDED');
+  });
+
+  it('should block adding a pack that no longer fits', () => {
+    const build = createFanBuild([pcCase], [{ part: argbPack, quantity: 2 }]);
+
+    expect(getAddUnitFailure(build, argbPack)?.message).toEqual({
+      code: 'FAN_MOUNTS_EXCEEDED',
+      params: { fanSize: 120, fanCount: 9, mountCount: 6 },
+    });
+  });
+
+  it('should not check cases that do not list their mounts', () => {
+    const plainCase = createPart('case-2', 'case', {});
+
+    expect(evaluateFanRule(createFanBuild([plainCase], [{ part: argbPack, quantity: 5 }]), 'build-fan-mounts').status).toBe(
+      'pass'
+    );
+  });
+});
+
+describe('Fan lighting rule', () => {
+  it('should PASS ARGB fans on a board with an ARGB header', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { argbHeaders: 2, rgbHeaders: 1 });
+
+    expect(evaluateFanRule(createFanBuild([mobo], [{ part: argbPack, quantity: 1 }]), 'build-fan-lighting').message).toEqual({
+      code: 'FAN_LIGHTING_OK',
+      params: { fanLighting: ['ARGB'] },
+    });
+  });
+
+  it('should WARN ARGB fans on a board with only 12V RGB headers', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { argbHeaders: 0, rgbHeaders: 2 });
+
+    expect(evaluateFanRule(createFanBuild([mobo], [{ part: argbPack, quantity: 1 }]), 'build-fan-lighting').message).toEqual({
+      code: 'FAN_LIGHTING_HEADER_MISMATCH',
+      params: { fanLighting: 'ARGB', boardLighting: 'RGB' },
+    });
+  });
+
+  it('should WARN ARGB fans on a board without lighting headers', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { argbHeaders: 0, rgbHeaders: 0 });
+
+    const result = evaluateFanRule(createFanBuild([mobo], [{ part: argbPack, quantity: 1 }]), 'build-fan-lighting');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('FAN_LIGHTING_HEADER_MISSING');
+  });
+
+  it('should PASS packs that bring their own hub', () => {
+    const mobo = createPart('mobo-1', 'motherboard', { argbHeaders: 0, rgbHeaders: 0 });
+
+    expect(evaluateFanRule(createFanBuild([mobo], [{ part: argbHubPack, quantity: 1 }]), 'build-fan-lighting').status).toBe(
+      'pass'
+    );
+  });
+});
+
+describe('Fan headers rule', () => {
+  const mobo = createPart('mobo-1', 'motherboard', { fanHeaders: 4 });
+  const cpu = createPart('cpu-1', 'cpu', { includesCooler: false });
+  const cooler = createPart('cooler-1', 'cooler', { coolerType: 'air' });
+
+  it('should keep CPU_FAN for the cooler and WARN when the fans need more headers', () => {
+    const result = evaluateFanRule(createFanBuild([cpu, mobo, cooler], [{ part: argbPack, quantity: 1 }, { part: fan140, quantity: 1 }]), 'build-fan-headers');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'FAN_HEADERS_SHORT', params: { fanHeadersNeeded: 5, fanHeaders: 4 } });
+  });
+
+  it('should keep CPU_FAN for the stock cooler boxed with the CPU', () => {
+    const boxedCpu = createPart('cpu-2', 'cpu', { includesCooler: true });
+    const result = evaluateFanRule(createFanBuild([boxedCpu, mobo], [{ part: argbPack, quantity: 1 }]), 'build-fan-headers');
+
+    expect(result.message).toEqual({ code: 'FAN_HEADERS_OK', params: { fanHeadersNeeded: 4, fanHeaders: 4 } });
+  });
+
+  it('should PASS when a hub takes a single header', () => {
+    const result = evaluateFanRule(createFanBuild([cpu, mobo, cooler], [{ part: argbHubPack, quantity: 2 }]), 'build-fan-headers');
+
+    expect(result.message).toEqual({ code: 'FAN_HEADERS_OK', params: { fanHeadersNeeded: 3, fanHeaders: 4 } });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Build Generator Tests
+ * Generates builds from the fixture catalog in fixtures/generator: the extraction
+ * corpus with fixed ARS prices, all in stock
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import type { MallWebItem } from '../../mallweb/types';
+import type { CategoryKey } from '../../catalog/categories';
+import { normalizeItem, type Product } from '../../mallweb/normalize';
+import type { PCBuild } from '../types';
+import { createProductWithSpec, evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { getGpuTier } from '../balance';
+import {
+  generateBuild,
+  generateBuildAsync,
+  GENERATION_ORDER,
+  getCpuPlatform,
+  USE_CASES,
+  type GeneratedBuild,
+} from '../generator';
+
+type Catalog = Partial<Record<CategoryKey, Product[]>>;
+
+const CATALOG_PATH = join(__dirname, 'fixtures', 'generator', 'catalog.json');
+
+function loadCatalog(): Catalog {
+  const data: Record<string, MallWebItem[]> = JSON.parse(readFileSync(CATALOG_PATH, 'utf8'));
+  return Object.fromEntries(
+    Object.entries(data).map(([category, items]) => [category, items.map((item) => normalizeItem(item))])
+  );
+}
+
+function toBuild(generated: GeneratedBuild): PCBuild {
+  return new Map(
+    (Object.entries(generated.parts) as [CategoryKey, Product][]).map(([category, product]) => [
+      category,
+      createProductWithSpec(product, category),
+    ])
+  );
+}
+
+function findProduct(catalog: Catalog, category: CategoryKey, title: string): Product {
+  return catalog[category]!.find((product) => product.title.includes(title))!;
+}
+
+const catalog = loadCatalog();
+
+describe('Build generator', () => {
+  it.each(USE_CASES)('should generate a complete, compatible build within budget for %s', (useCase) => {
+    const generated = generateBuild(catalog, { budget: 2_500_000, useCase })!;
+    const build = toBuild(generated);
+    const summary = getBuildCompatibilitySummary(build);
+
+    expect(generated.totalPrice).toBeLessThanOrEqual(2_500_000);
+    expect(generated.totalPrice).toBe(Object.values(generated.parts).reduce((sum, product) => sum + product!.price, 0));
+    expect(summary.isComplete).toBe(true);
+    expect(summary.isCompatible).toBe(true);
+    for (const [category, part] of build) {
+      expect(evaluateCompatibility(part.product, category, build).allowed).toBe(true);
+    }
+  });
+
+  it('should return the same build for the same request', () => {
+    const request = { budget: 1_500_000, useCase: 'gaming-1080p' as const };
+
+    expect(generateBuild(catalog, request)).toEqual(generateBuild(catalog, request));
+  });
+
+  it('should return undefined when nothing fits the budget', () => {
+    expect(generateBuild(catalog, { budget: 400_000, useCase: 'office' })).toBeUndefined();
+  });
+
+  it('should add a graphics card for gaming, and a faster one at 1440p with more budget', () => {
+    const gaming1080p = generateBuild(catalog, { budget: 1_000_000, useCase: 'gaming-1080p' })!;
+    const gaming1440p = generateBuild(catalog, { budget: 2_500_000, useCase: 'gaming-1440p' })!;
+    const gpuTier = (generated: GeneratedBuild) =>
+      getGpuTier(createProductWithSpec(generated.parts.gpu!, 'gpu').spec.gpuChip!)!;
+
+    expect(gpuTier(gaming1440p)).toBeGreaterThan(gpuTier(gaming1080p));
+  });
+
+  it('should skip the graphics card for office builds when the CPU has integrated graphics', () => {
+    const generated = generateBuild(catalog, { budget: 1_000_000, useCase: 'office' })!;
+
+    expect(createProductWithSpec(generated.parts.cpu!, 'cpu').spec.integratedGraphics).toBe(true);
+    expect(generated.parts.gpu).toBeUndefined();
+  });
+
+  it('should stay on the requested platform', () => {
+    for (const platform of ['AMD', 'Intel'] as const) {
+      const generated = generateBuild(catalog, { budget: 2_500_000, useCase: 'gaming-1440p', platform })!;
+
+      expect(getCpuPlatform(createProductWithSpec(generated.parts.cpu!, 'cpu').spec)).toBe(platform);
+    }
+  });
+
+  it('should build around kept parts', () => {
+    const miniItxCase = findProduct(catalog, 'case', 'Lian Li A4-H2O');
+    const generated = generateBuild(catalog, {
+      budget: 2_500_000,
+      useCase: 'gaming-1080p',
+      keep: { case: miniItxCase },
+    })!;
+
+    expect(generated.parts.case).toBe(miniItxCase);
+    expect(createProductWithSpec(generated.parts.motherboard!, 'motherboard').spec.formFactor).toBe('Mini-ITX');
+    expect(createProductWithSpec(generated.parts.psu!, 'psu').spec.psuFormFactor).toBe('SFX');
+  });
+
+  it('should leave owned parts out of the budget and the parts to buy', () => {
+    const gpu = { ...createProductWithSpec(findProduct(catalog, 'gpu', 'RTX 4070 SUPER'), 'gpu'), owned: true };
+    const generated = generateBuild(catalog, {
+      budget: 1_000_000,
+      useCase: 'gaming-1440p',
+      owned: new Map([['gpu', gpu]]),
+    })!;
+
+    expect(generated.parts.gpu).toBeUndefined();
+    expect(generated.totalPrice).toBeLessThanOrEqual(1_000_000);
+    expect(createProductWithSpec(generated.parts.psu!, 'psu').spec.psuWattage).toBeGreaterThanOrEqual(750);
+  });
+
+  it('should prefer the requested brands on a tie', () => {
+    const generated = generateBuild(catalog, { budget: 1_000_000, useCase: 'office', brands: ['evga'] })!;
+
+    expect(generateBuild(catalog, { budget: 1_000_000, useCase: 'office' })!.parts.psu!.brand).not.toBe('EVGA');
+    expect(generated.parts.psu!.brand).toBe('EVGA');
+  });
+
+  it('should skip parts out of stock', () => {
+    const soldOut = { ...catalog, cpu: catalog.cpu!.map((product) => ({ ...product, stock: 0 })) };
+
+    expect(generateBuild(soldOut, { budget: 2_500_000, useCase: 'office' })).toBeUndefined();
+  });
+
+  it('should yield between beam steps and generate the same build when run asynchronously', async () => {
+    const request = { budget: 1_500_000, useCase: 'gaming-1080p' as const };
+    let yields = 0;
+
+    const generated = await generateBuildAsync(catalog, request, async () => {
+      yields++;
+    });
+
+    expect(generated).toEqual(generateBuild(catalog, request));
+    expect(yields).toBe(GENERATION_ORDER.length + 1);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * GPU Fit and Link Tests
+ * Tests for expansion slots, PCIe generation and power connector rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility } from '../engine';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+describe('GPU spec extraction', () => {
+  it('should extract slots, interface and power connectors', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Placa de Video RTX 4070 SUPER 12GB', description: 'PCI Express 4.0 x16, 2.5 slots, 1x 12VHPWR' }),
+      'gpu'
+    );
+
+    expect(spec.gpuSlots).toBe(2.5);
+    expect(spec.gpuInterface).toBe('PCIe 4.0 x16');
+    expect(spec.gpuPowerConnectors).toEqual(['12VHPWR']);
+  });
+
+  it('should expand combined and counted 8-pin connectors', () => {
+    const combined = extractSpecs(createMockProduct({ title: 'RX 7800 XT 16GB 8+8 pin' }), 'gpu');
+    const counted = extractSpecs(createMockProduct({ title: 'RX 7900 XTX 24GB 3 x 6+2 pines' }), 'gpu');
+
+    expect(combined.gpuPowerConnectors).toEqual(['8-pin', '8-pin']);
+    expect(counted.gpuPowerConnectors).toEqual(['8-pin', '8-pin', '8-pin']);
+  });
+
+  it('should extract case expansion slots and board PCIe generation', () => {
+    const caseSpec = extractSpecs(createMockProduct({ title: 'Gabinete Mini-ITX', description: 'Ranuras de expansión: 2' }), 'case');
+    const moboSpec = extractSpecs(createMockProduct({ title: 'MSI B450M PRO-VDH', description: 'PCIe 3.0 x16' }), 'motherboard');
+
+    expect(caseSpec.expansionSlots).toBe(2);
+    expect(moboSpec.pciExpressVersion).toBe('3.0');
+  });
+});
+
+describe('GPU ↔ Case Expansion Slots', () => {
+  const gpu = createMockProduct({ id: 'gpu-1', title: 'RTX 4090 24GB triple slot' });
+
+  it('should FAIL when the GPU is thicker than the case slots', () => {
+    const build: PCBuild = new Map([['case', createPart('case-1', 'case', { expansionSlots: 2 })]]);
+
+    const result = findResult(gpu, 'gpu', build, 'gpu-case-slots');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({ code: 'GPU_TOO_THICK', params: { gpuSlots: 3, expansionSlots: 2 } });
+  });
+
+  it('should PASS when the case has enough slots', () => {
+    const build: PCBuild = new Map([['case', createPart('case-1', 'case', { expansionSlots: 7 })]]);
+
+    expect(findResult(gpu, 'gpu', build, 'gpu-case-slots').status).toBe('pass');
+  });
+});
+
+describe('GPU ↔ Motherboard PCIe', () => {
+  it('should WARN for a PCIe 4.0 x8 card on a PCIe 3.0 board', () => {
+    const build: PCBuild = new Map([['motherboard', createPart('mobo-1', 'motherboard', { chipset: 'B450' })]]);
+    const gpu = createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4060 8GB' });
+
+    const result = findResult(gpu, 'gpu', build, 'gpu-mobo-pcie');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({
+      code: 'PCIE_BANDWIDTH_LIMITED',
+      params: { gpuInterface: 'PCIe 4.0 x8', pciExpressVersion: '3.0' },
+    });
+  });
+
+  it('should PASS for x16 cards on older boards', () => {
+    const gpu = createPart('gpu-1', 'gpu', { gpuInterface: 'PCIe 4.0 x16' });
+    const build: PCBuild = new Map([['gpu', gpu]]);
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'Gigabyte B450M DS3H' });
+
+    const result = findResult(mobo, 'motherboard', build, 'mobo-gpu-pcie');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('PCIE_LINK_OK');
+  });
+});
+
+describe('GPU ↔ PSU Power Connectors', () => {
+  it('should FAIL when the PSU has fewer PCIe cables than the GPU needs', () => {
+    const psu = createPart('psu-1', 'psu', { psuWattage: 550, psuPcie8Pin: 1 });
+    const build: PCBuild = new Map([['psu', psu]]);
+    const gpu = createMockProduct({ id: 'gpu-1', title: 'RX 6800 XT 16GB 3x 8-pin' });
+
+    const result = findResult(gpu, 'gpu', build, 'gpu-psu-connectors');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'GPU_POWER_CONNECTORS_INSUFFICIENT',
+      params: { requiredConnectors: 3, availableConnectors: 1 },
+    });
+  });
+
+  it('should WARN when a 12VHPWR card needs an adapter', () => {
+    const gpu = createPart('gpu-1', 'gpu', { gpuPowerConnectors: ['12VHPWR'] });
+    const build: PCBuild = new Map([['gpu', gpu]]);
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 750W 80+ Gold' });
+
+    expect(findResult(psu, 'psu', build, 'psu-gpu-connectors').message.code).toBe('GPU_12VHPWR_ADAPTER');
+  });
+
+  it('should PASS for ATX 3.0 PSUs with a native 12V-2x6 cable', () => {
+    const gpu = createPart('gpu-1', 'gpu', { gpuPowerConnectors: ['12VHPWR'] });
+    const build: PCBuild = new Map([['gpu', gpu]]);
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 850W 80+ Gold ATX 3.0' });
+
+    const result = findResult(psu, 'psu', build, 'psu-gpu-connectors');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('GPU_POWER_CONNECTORS_OK');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * M.2 Slot Tests
+ * Tests for per-slot M.2 extraction, drive-to-slot assignment and the slot assignment rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility } from '../engine';
+import { BUILD_RULES } from '../buildRules';
+import { assignM2Slots, getM2SlotLabels } from '../m2';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+// Build with a motherboard and storage drives selected through the multi-select items
+function createStorageBuild(mobo: ProductWithSpec, drives: { part: ProductWithSpec; quantity: number }[]): PCBuild {
+  const build: PCBuild = new Map([['motherboard', mobo]]);
+  build.set('storage', drives[0].part);
+  build.items = { storage: drives.map(({ part, quantity }) => ({ product: part, quantity })) };
+  return build;
+}
+
+function evaluateSlotRule(build: PCBuild) {
+  return BUILD_RULES.find((rule) => rule.id === 'build-m2-slot-assignment')!.evaluate(build);
+}
+
+const mobo = createPart('mobo-1', 'motherboard', {
+  m2Slots: 3,
+  m2SlotDetails: [
+    { slot: 1, pcieGen: 5, lengths: [2280], attachedTo: 'cpu' },
+    { slot: 2, pcieGen: 4, lengths: [2280], attachedTo: 'cpu' },
+    { slot: 3, pcieGen: 4, lengths: [2242, 2280, 22110], attachedTo: 'chipset' },
+  ],
+});
+const gen5 = createPart('ssd-gen5', 'storage', { storageConnectionType: 'M.2', storagePcieGen: 5, storageLength: 2280 });
+const gen4 = createPart('ssd-gen4', 'storage', { storageConnectionType: 'M.2', storagePcieGen: 4, storageLength: 2280 });
+const long = createPart('ssd-22110', 'storage', { storageConnectionType: 'M.2', storagePcieGen: 3, storageLength: 22110 });
+
+describe('M.2 spec extraction', () => {
+  it('should extract per-slot generation, lengths, key and lane source', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Mother MSI PRO Z790-A WIFI',
+        description:
+          'M.2_1 (CPU): PCIe 5.0 x4, M key, 2260/2280. M.2_2 (chipset): PCIe 4.0 x4, 2242/2260/2280/22110. SATA5/6 se deshabilitan cuando M.2_2 está ocupado.',
+      }),
+      'motherboard'
+    );
+
+    expect(spec.m2SlotDetails).toEqual([
+      { slot: 1, pcieGen: 5, key: 'M', lengths: [2260, 2280], attachedTo: 'cpu' },
+      { slot: 2, pcieGen: 4, lengths: [2242, 2260, 2280, 22110], attachedTo: 'chipset' },
+    ]);
+  });
+
+  it('should extract PCIe generation and length from M.2 drives only', () => {
+    const nvme = extractSpecs(
+      createMockProduct({ title: 'SSD Samsung 990 PRO 2TB M.2 2280 NVMe PCIe 4.0' }),
+      'storage'
+    );
+    const sata = extractSpecs(createMockProduct({ title: 'SSD Kingston A400 480GB SATA 2.5"' }), 'storage');
+
+    expect(nvme).toMatchObject({ storagePcieGen: 4, storageLength: 2280 });
+    expect(sata.storagePcieGen).toBeUndefined();
+    expect(sata.storageLength).toBeUndefined();
+  });
+});
+
+describe('M.2 slot assignment', () => {
+  it('should put long drives in the only slot they fit and fast drives in fast slots', () => {
+    const plan = assignM2Slots(mobo.spec, [
+      { product: gen4, quantity: 1 },
+      { product: gen5, quantity: 1 },
+      { product: long, quantity: 1 },
+    ]);
+
+    expect(plan.assignments.map(({ slot, drive }) => [slot.slot, drive.product.id])).toEqual([
+      [1, 'ssd-gen5'],
+      [2, 'ssd-gen4'],
+      [3, 'ssd-22110'],
+    ]);
+    expect(plan.unassigned).toEqual([]);
+  });
+
+  it('should keep the Gen5 slot free for a Gen5 drive added later', () => {
+    const plan = assignM2Slots(mobo.spec, [{ product: gen4, quantity: 1 }]);
+
+    expect(getM2SlotLabels(plan).get('ssd-gen4')).toEqual(['M.2_2']);
+  });
+
+  it('should leave drives without a free slot unassigned', () => {
+    const plan = assignM2Slots(mobo.spec, [{ product: gen4, quantity: 4 }]);
+
+    expect(getM2SlotLabels(plan).get('ssd-gen4')).toEqual(['M.2_1', 'M.2_2', 'M.2_3']);
+    expect(plan.unassigned).toHaveLength(1);
+  });
+});
+
+describe('M.2 slot assignment rule', () => {
+  it('should PASS and list where each drive goes', () => {
+    const result = evaluateSlotRule(createStorageBuild(mobo, [{ part: gen5, quantity: 1 }]));
+
+    expect(result.status).toBe('pass');
+    expect(result.message).toEqual({ code: 'M2_SLOT_ASSIGNMENT', params: { assignment: 'M.2_1: ssd-gen5' } });
+  });
+
+  it('should WARN when a Gen5 drive only gets a Gen4 slot', () => {
+    const gen4Board = createPart('mobo-2', 'motherboard', {
+      m2SlotDetails: [{ slot: 1, pcieGen: 4 }, { slot: 2, pcieGen: 3 }],
+    });
+
+    const result = evaluateSlotRule(createStorageBuild(gen4Board, [{ part: gen5, quantity: 1 }]));
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({
+      code: 'M2_GEN_DOWNGRADE',
+      params: { storagePcieGen: 5, slotPcieGen: 4, m2Slot: 1 },
+    });
+  });
+
+  it('should FAIL a 22110 drive on a board without a 22110 slot', () => {
+    const shortBoard = createPart('mobo-3', 'motherboard', {
+      m2SlotDetails: [{ slot: 1, lengths: [2242, 2280] }, { slot: 2, key: 'E', lengths: [2230] }],
+    });
+
+    const result = evaluateSlotRule(createStorageBuild(shortBoard, [{ part: long, quantity: 1 }]));
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'M2_LENGTH_UNSUPPORTED',
+      params: { storageLength: 22110, m2Lengths: [2242, 2280] },
+    });
+  });
+
+  it('should not check boards that do not describe their slots', () => {
+    const plainBoard = createPart('mobo-4', 'motherboard', { m2Slots: 2 });
+
+    expect(evaluateSlotRule(createStorageBuild(plainBoard, [{ part: long, quantity: 1 }])).status).toBe('pass');
+  });
+
+  it('should block a 22110 candidate drive in the product list', () => {
+    const shortBoard = createPart('mobo-3', 'motherboard', {
+      m2Slots: 1,
+      m2SlotDetails: [{ slot: 1, pcieGen: 4, lengths: [2280] }],
+    });
+    const candidate = createMockProduct({ id: 'ssd-9', title: 'SSD WD Black SN850 1TB M.2 22110 NVMe PCIe 4.0' });
+
+    const result = evaluateCompatibility(candidate, 'storage', new Map([['motherboard', shortBoard]]));
+
+    expect(result.allowed).toBe(false);
+    expect(result.results.find((r) => r.ruleId === 'build-m2-slot-assignment')?.message.code).toBe(
+      'M2_LENGTH_UNSUPPORTED'
+    );
+  });
+});
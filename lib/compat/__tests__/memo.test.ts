@@ -0,0 +1,292 @@
+/**
+ * Rule Result Cache Tests
+ * Tests that rules only read the parts they declare and are re-run only when those parts change
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MallWebItem } from '../../mallweb/types';
+import { normalizeItem, type Product } from '../../mallweb/normalize';
+import type { BuildRule, CompatibilityRule, PCBuild, ProductSpec, ProductWithSpec, RuleContext } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { COMPATIBILITY_RULES } from '../rules';
+import { BUILD_RULES } from '../buildRules';
+import { createProductWithSpec, evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { clearCompatibilityCache, getDependencySignature, getRuleDependencies } from '../memo';
+import { DEFAULT_POWER_OPTIONS } from '../power';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function createBuild(parts: ProductWithSpec[]): PCBuild {
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+// Real listings from the extraction corpus, one list per category
+function loadFixtureParts(): Partial<Record<CategoryKey, ProductWithSpec[]>> {
+  const dir = join(__dirname, 'fixtures', 'extraction');
+  const parts: Partial<Record<CategoryKey, ProductWithSpec[]>> = {};
+
+  for (const file of readdirSync(dir).filter((name) => name !== 'accuracy-baseline.json')) {
+    const fixture: { category: CategoryKey; items: { item: MallWebItem }[] } = JSON.parse(readFileSync(join(dir, file), 'utf8'));
+    parts[fixture.category] = fixture.items.map(({ item }) => createProductWithSpec(normalizeItem(item), fixture.category));
+  }
+  return parts;
+}
+
+// Build that records every category a rule reads
+function createRecordingBuild(parts: ProductWithSpec[], reads: Set<string>): PCBuild {
+  class RecordingBuild extends Map<CategoryKey, ProductWithSpec> {
+    get(category: CategoryKey) {
+      reads.add(category);
+      return super.get(category);
+    }
+    has(category: CategoryKey) {
+      reads.add(category);
+      return super.has(category);
+    }
+    entries() {
+      reads.add('*');
+      return super.entries();
+    }
+    values() {
+      reads.add('*');
+      return super.values();
+    }
+  }
+
+  const build: PCBuild = new RecordingBuild(parts.map((part) => [part.category, part]));
+  const items: PCBuild['items'] = {};
+  for (const part of parts) {
+    if (part.category === 'ram' || part.category === 'storage' || part.category === 'fans') {
+      items[part.category] = [{ product: part, quantity: 2 }];
+    }
+  }
+  build.items = new Proxy(items, {
+    get(target, key) {
+      if (typeof key === 'string') reads.add(key);
+      return target[key as CategoryKey];
+    },
+  });
+  return build;
+}
+
+// Evaluation settings that record when a rule reads them
+function createRecordingContext(reads: Set<string>): RuleContext {
+  return new Proxy({ power: DEFAULT_POWER_OPTIONS }, {
+    get(target, key) {
+      reads.add('context');
+      return target[key as keyof RuleContext];
+    },
+  });
+}
+
+// Hand-written parts for the branches the corpus doesn't reach: monitors, fans and radiator mounts
+const HAND_BUILT_PARTS = {
+  cpu: createPart('hb-cpu', 'cpu', { socket: 'LGA1700', integratedGraphics: true, tdp: 125 }),
+  motherboard: createPart('hb-mobo', 'motherboard', {
+    socket: 'LGA1700',
+    chipset: 'Z790',
+    videoOutputs: ['HDMI', 'DisplayPort'],
+    fanHeaders: 2,
+    argbHeaders: 0,
+    rgbHeaders: 1,
+  }),
+  ram: createPart('hb-ram', 'ram', { memoryType: 'DDR5', memoryCapacity: 32, memoryHeight: 50 }),
+  lowRam: createPart('hb-ram-low', 'ram', { memoryType: 'DDR5', memoryCapacity: 32, memoryHeight: 34 }),
+  gpu: createPart('hb-gpu', 'gpu', {
+    gpuChip: 'RTX 3050',
+    gpuLength: 340,
+    gpuOutputs: [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }],
+  }),
+  cooler: createPart('hb-cooler', 'cooler', { coolerType: 'aio', aioSize: 360 }),
+  case: createPart('hb-case', 'case', {
+    formFactor: 'ATX',
+    maxGpuLength: 400,
+    radiatorMounts: { top: 360, front: 360 },
+    fanMounts: [{ position: 'front', size: 120, count: 3 }],
+  }),
+  monitor: createPart('hb-monitor', 'monitor', {
+    monitorResolution: '3840x2160',
+    monitorRefreshRate: 144,
+    monitorInputs: [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }],
+  }),
+  fans: createPart('hb-fans', 'fans', { fanCount: 3, fanSize: 120, fanLighting: 'ARGB' }),
+};
+
+const { lowRam, gpu, ...handBuiltBase } = HAND_BUILT_PARTS;
+const HAND_BUILT_BUILDS: ProductWithSpec[][] = [
+  Object.values(handBuiltBase),                                            // iGPU: video from the board
+  [...Object.values(handBuiltBase), gpu],                                  // Tall RAM pushes the radiator to the front
+  [...Object.values(handBuiltBase).filter((part) => part.category !== 'ram'), lowRam, gpu], // Tall VRM does
+];
+
+describe('Rule dependencies', () => {
+  const fixtureParts = loadFixtureParts();
+  const categories = Object.keys(fixtureParts) as CategoryKey[];
+
+  // Several builds of real parts, so rules get past their early returns, and the hand-built ones
+  const builds = [
+    ...Array.from({ length: 12 }, (_, n) =>
+      categories.map((category) => fixtureParts[category]![(n * 7 + category.length) % fixtureParts[category]!.length])
+    ),
+    ...HAND_BUILT_BUILDS,
+  ];
+  const candidates = (category: CategoryKey) => [
+    ...(fixtureParts[category] ?? []),
+    ...Object.values(HAND_BUILT_PARTS).filter((part) => part.category === category),
+  ];
+
+  function getUndeclaredReads(rule: CompatibilityRule | BuildRule, evaluate: (parts: ProductWithSpec[], reads: Set<string>) => void) {
+    const reads = new Set<string>();
+    for (const parts of builds) evaluate(parts, reads);
+    const declared: string[] = [...getRuleDependencies(rule), ...('usesContext' in rule && rule.usesContext ? ['context'] : [])];
+    return [...reads].filter((category) => !declared.includes(category));
+  }
+
+  it.each(COMPATIBILITY_RULES.map((rule) => [rule.id, rule] as const))('%s should only read its declared categories', (_, rule) => {
+    const undeclared = getUndeclaredReads(rule, (parts, reads) => {
+      for (const candidate of candidates(rule.sourceCategory)) {
+        rule.evaluate(candidate, createRecordingBuild(parts, reads), createRecordingContext(reads));
+      }
+    });
+
+    expect(undeclared).toEqual([]);
+  });
+
+  it.each(BUILD_RULES.map((rule) => [rule.id, rule] as const))('%s should only read its declared categories', (_, rule) => {
+    const undeclared = getUndeclaredReads(rule, (parts, reads) => {
+      rule.evaluate(createRecordingBuild(parts, reads));
+    });
+
+    expect(undeclared).toEqual([]);
+  });
+});
+
+describe('Rule result cache', () => {
+  const cpu = createPart('cpu-1', 'cpu', { socket: 'AM4' });
+  const mobo = createPart('mobo-1', 'motherboard', { socket: 'AM4', supportedMemoryTypes: ['DDR4'] });
+  const caseA = createPart('case-1', 'case', { formFactor: 'ATX' });
+  const caseB = createPart('case-2', 'case', { formFactor: 'Micro-ATX' });
+  const ram = createMockProduct({ id: 'ram-1', title: 'Memoria RAM Kingston Fury 16GB DDR4 3200MHz' });
+
+  // Spy on the candidate rules of a category, keeping those that read the given one apart
+  function spyOnRules(category: CategoryKey, dependency: CategoryKey) {
+    const rules = COMPATIBILITY_RULES.filter((rule) => rule.sourceCategory === category);
+    const spy = (dependent: boolean) =>
+      rules
+        .filter((rule) => getRuleDependencies(rule).includes(dependency) === dependent)
+        .map((rule) => vi.spyOn(rule, 'evaluate'));
+    return { independent: spy(false), dependent: spy(true) };
+  }
+
+  function countCalls(spies: ReturnType<typeof vi.spyOn>[]) {
+    return spies.reduce((sum, spy) => sum + spy.mock.calls.length, 0);
+  }
+
+  beforeEach(() => clearCompatibilityCache());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('should only re-run the RAM rules that read the case when the case changes', () => {
+    const { independent, dependent } = spyOnRules('ram', 'case');
+
+    evaluateCompatibility(ram, 'ram', createBuild([cpu, mobo, caseA]));
+    evaluateCompatibility(ram, 'ram', createBuild([cpu, mobo, caseB]));
+
+    expect(independent.length).toBeGreaterThan(0);
+    expect(countCalls(independent)).toBe(independent.length);
+    expect(countCalls(dependent)).toBe(dependent.length * 2);
+  });
+
+  it('should re-run rules that depend on the changed part', () => {
+    const spies = spyOnRules('ram', 'motherboard').dependent;
+    const otherMobo = createPart('mobo-1', 'motherboard', { socket: 'AM4', supportedMemoryTypes: ['DDR5'] });
+
+    const before = evaluateCompatibility(ram, 'ram', createBuild([cpu, mobo]));
+    const firstRun = countCalls(spies);
+    // Same product id, different specs: still a different part
+    const after = evaluateCompatibility(ram, 'ram', createBuild([cpu, otherMobo]));
+
+    expect(countCalls(spies)).toBeGreaterThan(firstRun);
+    expect(before.allowed).toBe(true);
+    expect(after.allowed).toBe(false);
+  });
+
+  it('should re-run the GPU radiator rule when the RAM changes', () => {
+    const rule = COMPATIBILITY_RULES.find((r) => r.id === 'gpu-radiator-placement')!;
+    const longGpu = createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4070 360mm' });
+    const aio = createPart('aio-1', 'cooler', { coolerType: 'aio', aioSize: 360 });
+    const pcCase = createPart('case-3', 'case', { maxGpuLength: 400, radiatorMounts: { top: 360, front: 360 } });
+    const board = createPart('mobo-2', 'motherboard', { socket: 'AM5', chipset: 'B650' });
+    const tallRam = createPart('ram-3', 'ram', { memoryType: 'DDR5', memoryHeight: 50 });
+    const lowRam = createPart('ram-4', 'ram', { memoryType: 'DDR5', memoryHeight: 34 });
+    const radiatorResult = (ram: ProductWithSpec) =>
+      evaluateCompatibility(longGpu, 'gpu', createBuild([board, aio, pcCase, ram])).results.find((r) => r.ruleId === rule.id);
+
+    expect(createProductWithSpec(longGpu, 'gpu').spec.gpuLength).toBe(360);
+    expect(radiatorResult(tallRam)?.status).toBe('warn');
+    expect(radiatorResult(lowRam)?.status).toBe('pass');
+  });
+
+  it('should only re-run the rules that read the settings when the PSU headroom changes', () => {
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente Corsair RM650 650W 80 Plus Gold' });
+    const rules = COMPATIBILITY_RULES.filter((rule) => rule.sourceCategory === 'psu');
+    const spy = (usesContext: boolean) =>
+      rules.filter((rule) => Boolean(rule.usesContext) === usesContext).map((rule) => vi.spyOn(rule, 'evaluate'));
+    const independent = spy(false);
+    const dependent = spy(true);
+    const build = createBuild([cpu, mobo]);
+
+    evaluateCompatibility(psu, 'psu', build, undefined, { power: DEFAULT_POWER_OPTIONS });
+    evaluateCompatibility(psu, 'psu', build, undefined, { power: { ...DEFAULT_POWER_OPTIONS, headroom: 0.4 } });
+
+    expect(dependent.length).toBeGreaterThan(0);
+    expect(countCalls(independent)).toBe(independent.length);
+    expect(countCalls(dependent)).toBe(dependent.length * 2);
+  });
+
+  it('should tell builds apart by quantity', () => {
+    const ramPart = createPart('ram-2', 'ram', { memoryType: 'DDR4', memoryCapacity: 16 });
+    const build = createBuild([ramPart]);
+    build.items = { ram: [{ product: ramPart, quantity: 1 }] };
+    const moreRam = createBuild([ramPart]);
+    moreRam.items = { ram: [{ product: ramPart, quantity: 2 }] };
+
+    expect(getDependencySignature(build, ['ram'])).not.toBe(getDependencySignature(moreRam, ['ram']));
+    expect(getDependencySignature(build, ['case'])).toBe(getDependencySignature(moreRam, ['case']));
+  });
+
+  it('should give the same summary as an uncached evaluation', () => {
+    const build = createBuild([cpu, mobo, caseA]);
+    const cached = getBuildCompatibilitySummary(build);
+    clearCompatibilityCache();
+
+    expect(getBuildCompatibilitySummary(build)).toEqual(cached);
+  });
+
+  it('should extract specs once per product', () => {
+    expect(createProductWithSpec(ram, 'ram')).toBe(createProductWithSpec(ram, 'ram'));
+  });
+});
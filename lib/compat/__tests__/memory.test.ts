@@ -0,0 +1,177 @@
+/**
+ * Memory Rules Tests
+ * Tests for RAM capacity, speed, mixed kits and dual channel rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { createProductWithSpec, evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { getRamItems, getTotalMemory } from '../memory';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+// Build with RAM kits selected through the multi-select items
+function createRamBuild(parts: ProductWithSpec[], kits: { part: ProductWithSpec; quantity: number }[]): PCBuild {
+  const build: PCBuild = new Map(parts.map((part) => [part.category, part]));
+  build.set('ram', kits[0].part);
+  build.items = { ram: kits.map(({ part, quantity }) => ({ product: part, quantity })) };
+  return build;
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+describe('RAM ↔ Motherboard Capacity', () => {
+  const mobo = createPart('mobo-1', 'motherboard', { maxMemory: 64 });
+
+  it('should FAIL when the RAM kits exceed the board maximum', () => {
+    const kit = createPart('ram-1', 'ram', { memoryCapacity: 32, memoryModules: 2 });
+    const build = createRamBuild([], [{ part: kit, quantity: 2 }]);
+    const board = createMockProduct({ id: 'mobo-1', title: 'Motherboard B550 soporta hasta 64GB' });
+
+    const result = findResult(board, 'motherboard', build, 'mobo-ram-capacity');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'MEMORY_CAPACITY_EXCEEDED',
+      params: { totalMemory: 128, maxMemory: 64 },
+    });
+  });
+
+  it('should count the candidate kit on top of the selected RAM', () => {
+    const kit = createPart('ram-1', 'ram', { memoryCapacity: 16, memoryModules: 2 });
+    const build = createRamBuild([mobo], [{ part: kit, quantity: 1 }]);
+    const candidate = createMockProduct({ id: 'ram-2', title: 'Kit DDR5 2x32GB 6000MHz' });
+
+    expect(findResult(candidate, 'ram', build, 'ram-mobo-capacity').status).toBe('fail');
+  });
+
+  it('should PASS when the total fits', () => {
+    const build: PCBuild = new Map([['motherboard', mobo]]);
+    const candidate = createMockProduct({ id: 'ram-1', title: 'Kit DDR5 2x16GB 6000MHz' });
+
+    const result = findResult(candidate, 'ram', build, 'ram-mobo-capacity');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('MEMORY_CAPACITY_OK');
+  });
+});
+
+describe('RAM ↔ CPU/Chipset Speed', () => {
+  it('should WARN when the kit is faster than the CPU generation supports', () => {
+    const cpu = createProductWithSpec(createMockProduct({ id: 'cpu-1', title: 'AMD Ryzen 5 5600X' }), 'cpu');
+    const build: PCBuild = new Map([['cpu', cpu]]);
+    const candidate = createMockProduct({ id: 'ram-1', title: 'Kit DDR4 2x8GB 3600MHz CL18' });
+
+    const result = findResult(candidate, 'ram', build, 'ram-cpu-speed');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({
+      code: 'MEMORY_SPEED_ABOVE_CPU_SPEC',
+      params: { memorySpeed: 3600, cpuGeneration: 'Ryzen 5000', supportedSpeed: 3200 },
+    });
+  });
+
+  it('should WARN when a locked chipset caps the kit speed', () => {
+    const cpu = createPart('cpu-1', 'cpu', { cpuGeneration: '12th Gen' });
+    const mobo = createPart('mobo-1', 'motherboard', { chipset: 'H610' });
+    const build: PCBuild = new Map([['cpu', cpu], ['motherboard', mobo]]);
+    const candidate = createMockProduct({ id: 'ram-1', title: 'Kit DDR5 2x16GB 6000 MT/s' });
+
+    const result = findResult(candidate, 'ram', build, 'ram-cpu-speed');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('MEMORY_SPEED_CHIPSET_LOCKED');
+  });
+
+  it('should PASS for kits at the official speed', () => {
+    const cpu = createMockProduct({ id: 'cpu-1', title: 'Intel Core i5-14600K' });
+    const kit = createPart('ram-1', 'ram', { memoryType: 'DDR5', memorySpeed: 5600 });
+    const build = createRamBuild([], [{ part: kit, quantity: 1 }]);
+
+    const result = findResult(cpu, 'cpu', build, 'cpu-ram-speed');
+
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('MEMORY_SPEED_SUPPORTED');
+  });
+});
+
+describe('RAM Mixed Kits and Dual Channel', () => {
+  it('should WARN when mixing kits with different speeds', () => {
+    const kit = createPart('ram-1', 'ram', { memorySpeed: 3200, memoryCapacity: 8, memoryModules: 2 });
+    const build = createRamBuild([], [{ part: kit, quantity: 1 }]);
+    const candidate = createMockProduct({ id: 'ram-2', title: 'Kit DDR4 2x8GB 3600MHz' });
+
+    const result = findResult(candidate, 'ram', build, 'ram-mixed-kits');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'MEMORY_MIXED_SPEEDS', params: { speeds: [3200, 3600] } });
+  });
+
+  it('should WARN when mixing module capacities', () => {
+    const kit = createPart('ram-1', 'ram', { memorySpeed: 3200, memoryCapacity: 8, memoryModules: 1 });
+    const other = createPart('ram-2', 'ram', { memorySpeed: 3200, memoryCapacity: 16, memoryModules: 1 });
+    const build = createRamBuild([], [{ part: kit, quantity: 1 }, { part: other, quantity: 1 }]);
+
+    const summary = getBuildCompatibilitySummary(build);
+
+    expect(summary.messages.warnings.map((m) => m.code)).toContain('MEMORY_MIXED_CAPACITIES');
+  });
+
+  it('should WARN for a single module and for odd module counts', () => {
+    const stick = createPart('ram-1', 'ram', { memoryCapacity: 16, memoryModules: 1 });
+    const single = createRamBuild([], [{ part: stick, quantity: 1 }]);
+    const triple = createRamBuild([], [{ part: stick, quantity: 3 }]);
+
+    expect(findResult(stick.product, 'ram', single, 'ram-dual-channel').message.code).toBe('MEMORY_SINGLE_CHANNEL');
+    expect(findResult(stick.product, 'ram', triple, 'ram-dual-channel').message).toEqual({
+      code: 'MEMORY_ODD_MODULES',
+      params: { modules: 3 },
+    });
+  });
+
+  it('should PASS for an even number of identical modules', () => {
+    const candidate = createMockProduct({ id: 'ram-1', title: 'Kit DDR5 2x16GB 6000MHz CL30' });
+
+    const results = evaluateCompatibility(candidate, 'ram', new Map()).results;
+
+    expect(results.find((r) => r.ruleId === 'ram-dual-channel')?.status).toBe('pass');
+    expect(results.find((r) => r.ruleId === 'ram-mixed-kits')?.status).toBe('pass');
+  });
+});
+
+describe('getTotalMemory', () => {
+  it('should return undefined when any kit capacity is unknown', () => {
+    const known = createPart('ram-1', 'ram', { memoryCapacity: 16, memoryModules: 2 });
+    const unknown = createPart('ram-2', 'ram', {});
+    const build = createRamBuild([], [{ part: known, quantity: 1 }, { part: unknown, quantity: 1 }]);
+
+    expect(getTotalMemory(getRamItems(build))).toBeUndefined();
+    expect(getTotalMemory(getRamItems(build, known))).toBeUndefined();
+  });
+});
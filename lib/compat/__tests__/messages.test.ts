@@ -0,0 +1,126 @@
+/**
+ * Compatibility Messages Tests
+ * Tests for message codes, catalogs and summary deduplication
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild } from '../types';
+import { createProductWithSpec, evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import {
+  MESSAGE_CATALOGS,
+  SUPPORTED_LOCALES,
+  createMessage,
+  formatMessage,
+  getMessageKey,
+} from '../messages';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+const am5Cpu = createMockProduct({ id: 'cpu-1', title: 'AMD Ryzen 7 7800X3D', description: 'Socket AM5' });
+const am4Mobo = createMockProduct({ id: 'mobo-1', title: 'ASUS B550-F Gaming', description: 'Socket AM4 DDR4' });
+
+describe('Message catalogs', () => {
+  it('should define every code in every locale', () => {
+    const codes = Object.keys(MESSAGE_CATALOGS.es).sort();
+    for (const locale of SUPPORTED_LOCALES) {
+      expect(Object.keys(MESSAGE_CATALOGS[locale]).sort()).toEqual(codes);
+    }
+  });
+
+  it('should fill every placeholder of a message', () => {
+    const message = createMessage('PSU_INSUFFICIENT', { psuWattage: 450, estimatedPower: 500, recommendedPsu: 600 });
+    for (const locale of SUPPORTED_LOCALES) {
+      const text = formatMessage(message, locale);
+      expect(text).not.toMatch(/\{\w+\}/);
+      expect(text).toContain('450');
+    }
+  });
+
+  it('should join list params with a slash', () => {
+    const message = createMessage('COOLER_SOCKET_MISMATCH', { cpuSocket: 'AM5', coolerSockets: ['AM4', 'LGA1700'] });
+    expect(formatMessage(message, 'en')).toContain('AM4/LGA1700');
+  });
+
+  it('should render the same message differently per locale', () => {
+    const message = createMessage('PART_NOT_SELECTED', { category: 'case' });
+    expect(formatMessage(message, 'es')).not.toBe(formatMessage(message, 'en'));
+    expect(formatMessage(message, 'en')).not.toBe('');
+  });
+});
+
+describe('getMessageKey', () => {
+  it('should not depend on param order', () => {
+    const a = createMessage('GPU_TOO_LONG', { gpuLength: 320, maxGpuLength: 300 });
+    const b = createMessage('GPU_TOO_LONG', { maxGpuLength: 300, gpuLength: 320 });
+    expect(getMessageKey(a)).toBe(getMessageKey(b));
+  });
+
+  it('should differ when params differ', () => {
+    const a = createMessage('GPU_TOO_LONG', { gpuLength: 320, maxGpuLength: 300 });
+    const b = createMessage('GPU_TOO_LONG', { gpuLength: 340, maxGpuLength: 300 });
+    expect(getMessageKey(a)).not.toBe(getMessageKey(b));
+  });
+});
+
+describe('Structured rule results', () => {
+  it('should carry a code and typed params', () => {
+    const build: PCBuild = new Map([['motherboard', createProductWithSpec(am4Mobo, 'motherboard')]]);
+    const result = evaluateCompatibility(am5Cpu, 'cpu', build);
+    const failure = result.results.find((r) => r.status === 'fail');
+
+    expect(failure?.message).toEqual({
+      code: 'SOCKET_MISMATCH',
+      params: { cpuSocket: 'AM5', moboSocket: 'AM4' },
+    });
+  });
+
+  it('should render warnings and failures in the requested locale', () => {
+    const build: PCBuild = new Map([['motherboard', createProductWithSpec(am4Mobo, 'motherboard')]]);
+    const es = evaluateCompatibility(am5Cpu, 'cpu', build);
+    const en = evaluateCompatibility(am5Cpu, 'cpu', build, 'en');
+
+    expect(en.failures).toHaveLength(es.failures.length);
+    expect(en.failures[0]).not.toBe(es.failures[0]);
+  });
+});
+
+describe('getBuildCompatibilitySummary', () => {
+  it('should dedupe the same failure reported from both directions', () => {
+    const build: PCBuild = new Map([
+      ['cpu', createProductWithSpec(am5Cpu, 'cpu')],
+      ['motherboard', createProductWithSpec(am4Mobo, 'motherboard')],
+    ]);
+    const summary = getBuildCompatibilitySummary(build);
+    const socketFailures = summary.messages.failures.filter((m) => m.code === 'SOCKET_MISMATCH');
+
+    expect(summary.isCompatible).toBe(false);
+    expect(socketFailures).toHaveLength(1);
+    expect(summary.failures).toHaveLength(summary.messages.failures.length);
+  });
+
+  it('should report the missing cooler as a coded failure', () => {
+    const build: PCBuild = new Map([['cpu', createProductWithSpec(am5Cpu, 'cpu')]]);
+    const summary = getBuildCompatibilitySummary(build, 'en');
+
+    expect(summary.messages.failures.map((m) => m.code)).toContain('COOLER_REQUIRED');
+    expect(summary.failures).toContain(formatMessage(createMessage('COOLER_REQUIRED'), 'en'));
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Power Budget Tests
+ * Tests for per-component draw, quantities and the PSU wattage rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { computePowerBudget, DEFAULT_POWER_OPTIONS } from '../power';
+import { createProductWithSpec, evaluateCompatibility, type EvaluationOptions } from '../engine';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function getEntry(build: PCBuild, category: CategoryKey) {
+  return computePowerBudget(build).entries.find((entry) => entry.category === category);
+}
+
+describe('computePowerBudget', () => {
+  it('should use the board power of known GPU chips', () => {
+    const build: PCBuild = new Map([['gpu', createPart('gpu-1', 'gpu', { gpuChip: 'RTX 4070' })]]);
+
+    expect(getEntry(build, 'gpu')).toMatchObject({ peak: 200, estimated: false });
+  });
+
+  it('should use PPT for AMD and PL2 for Intel as CPU peak', () => {
+    const amd: PCBuild = new Map([['cpu', createPart('cpu-1', 'cpu', { tdp: 105, cpuFamily: 'Ryzen 7' })]]);
+    const intel: PCBuild = new Map([['cpu', createPart('cpu-2', 'cpu', { tdp: 125, cpuFamily: 'Core i7' })]]);
+
+    expect(getEntry(amd, 'cpu')?.peak).toBe(142);
+    expect(getEntry(intel, 'cpu')?.peak).toBe(250);
+  });
+
+  it('should count every DIMM across kits and quantities', () => {
+    const kit = createPart('ram-1', 'ram', { memoryType: 'DDR5', memoryModules: 2 });
+    const single = createPart('ram-2', 'ram', { memoryType: 'DDR5', memoryModules: 1 });
+    const build: PCBuild = new Map([['ram', kit]]);
+    build.items = { ram: [{ product: kit, quantity: 1 }, { product: single, quantity: 2 }] };
+
+    expect(getEntry(build, 'ram')?.quantity).toBe(4);
+  });
+
+  it('should give HDDs more peak draw than NVMe drives', () => {
+    const hdd = createPart('hdd-1', 'storage', { storageType: 'HDD' });
+    const nvme = createPart('nvme-1', 'storage', { storageConnectionType: 'M.2' });
+    const hddBuild: PCBuild = new Map([['storage', hdd]]);
+    const nvmeBuild: PCBuild = new Map([['storage', nvme]]);
+
+    expect(getEntry(hddBuild, 'storage')!.peak).toBeGreaterThan(getEntry(nvmeBuild, 'storage')!.peak);
+  });
+
+  it('should count fans in multi-packs', () => {
+    const fans = createProductWithSpec(createMockProduct({ title: 'Ventilador ARGB 120mm Pack x3' }), 'fans');
+    const build: PCBuild = new Map([['fans', fans]]);
+
+    expect(getEntry(build, 'fans')?.quantity).toBe(3);
+  });
+
+  it('should add transient headroom only for high-end GPUs', () => {
+    const cpu = createPart('cpu-1', 'cpu', { tdp: 120, cpuFamily: 'Ryzen 7' });
+    const highEnd: PCBuild = new Map([['cpu', cpu], ['gpu', createPart('gpu-1', 'gpu', { gpuChip: 'RTX 4090' })]]);
+    const midRange: PCBuild = new Map([['cpu', cpu], ['gpu', createPart('gpu-2', 'gpu', { gpuChip: 'RTX 4060' })]]);
+
+    const highEndBudget = computePowerBudget(highEnd);
+    const midRangeBudget = computePowerBudget(midRange);
+
+    expect(highEndBudget.transientPeak).toBeGreaterThan(highEndBudget.peak);
+    expect(highEndBudget.recommendedPsu).toBe(highEndBudget.transientPeak);
+    expect(midRangeBudget.transientPeak).toBe(midRangeBudget.peak);
+    expect(midRangeBudget.recommendedPsu).toBe(Math.ceil(midRangeBudget.peak * (1 + DEFAULT_POWER_OPTIONS.headroom)));
+  });
+
+  it('should honor custom headroom options', () => {
+    const build: PCBuild = new Map([['cpu', createPart('cpu-1', 'cpu', { tdp: 65, cpuFamily: 'Ryzen 5' })]]);
+    const budget = computePowerBudget(build, { ...DEFAULT_POWER_OPTIONS, headroom: 0.5 });
+
+    expect(budget.recommendedPsu).toBe(Math.ceil(budget.peak * 1.5));
+  });
+});
+
+describe('PSU ↔ Build Power Budget', () => {
+  const cpu = createPart('cpu-1', 'cpu', { tdp: 120, cpuFamily: 'Ryzen 7' });
+  const gpu = createPart('gpu-1', 'gpu', { gpuChip: 'RTX 4090' });
+  const build: PCBuild = new Map([['cpu', cpu], ['gpu', gpu]]);
+
+  function evaluatePsu(wattage: number, options: EvaluationOptions = {}) {
+    const psu = createMockProduct({ id: `psu-${wattage}`, title: `Fuente ${wattage}W 80+ Gold` });
+    const result = evaluateCompatibility(psu, 'psu', build, undefined, options);
+    return result.results.find((r) => r.ruleId === 'psu-power')!;
+  }
+
+  it('should FAIL when the PSU is below peak draw', () => {
+    const result = evaluatePsu(550);
+    expect(result.status).toBe('fail');
+    expect(result.message.code).toBe('PSU_INSUFFICIENT');
+  });
+
+  it('should WARN when the PSU only covers sustained load, not GPU spikes', () => {
+    const budget = computePowerBudget(build);
+    const sustained = Math.ceil(budget.peak * (1 + DEFAULT_POWER_OPTIONS.headroom));
+    const wattage = Math.ceil(sustained / 50) * 50;
+
+    expect(wattage).toBeLessThan(budget.transientPeak);
+    expect(evaluatePsu(wattage).message.code).toBe('PSU_TRANSIENT_TIGHT');
+  });
+
+  it('should PASS when the PSU covers the recommended wattage', () => {
+    const result = evaluatePsu(1000);
+    expect(result.status).toBe('pass');
+    expect(result.message.code).toBe('PSU_SUFFICIENT');
+  });
+
+  it('should size the PSU against the headroom from the evaluation options', () => {
+    const power = { ...DEFAULT_POWER_OPTIONS, headroom: 1 };
+
+    expect(evaluatePsu(1000, { power }).message.code).toBe('PSU_TIGHT');
+    expect(evaluatePsu(1000).message.code).toBe('PSU_SUFFICIENT');
+  });
+});
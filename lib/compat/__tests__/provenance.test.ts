@@ -0,0 +1,156 @@
+/**
+ * Spec Provenance Tests
+ * Tests for per-field source/confidence tracking and rules that downgrade assumed values
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, RuleResult } from '../types';
+import { createProductWithSpec, evaluateCompatibility } from '../engine';
+import { formatMessage } from '../messages';
+import { downgradeAssumedPass } from '../provenance';
+import { extractSpecsWithProvenance } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+describe('Spec provenance', () => {
+  it('should attribute fields to the title and the description', () => {
+    const { provenance } = extractSpecsWithProvenance(
+      createMockProduct({
+        title: 'Memoria RAM DDR5 16GB',
+        description: 'Velocidad: 6000MHz',
+      }),
+      'ram'
+    );
+
+    expect(provenance.memoryType).toEqual({ source: 'title', confidence: 'high' });
+    expect(provenance.memorySpeed).toEqual({ source: 'description', confidence: 'medium' });
+  });
+
+  it('should mark a socket looked up from the chipset as inferred', () => {
+    const { spec, provenance } = extractSpecsWithProvenance(
+      createMockProduct({ title: 'Motherboard B550M DDR4 Micro-ATX' }),
+      'motherboard'
+    );
+
+    expect(spec.socket).toBe('AM4');
+    expect(provenance.socket).toEqual({ source: 'inferred', confidence: 'medium', detail: 'chipset' });
+    expect(provenance.chipset?.source).toBe('title');
+  });
+
+  it('should mark unstated defaults as low confidence', () => {
+    const unlabeled = extractSpecsWithProvenance(createMockProduct({ title: 'Motherboard B650 DDR5' }), 'motherboard');
+    const labeled = extractSpecsWithProvenance(createMockProduct({ title: 'Motherboard B650 DDR5 ATX' }), 'motherboard');
+
+    expect(unlabeled.spec.formFactor).toBe('ATX');
+    expect(unlabeled.provenance.formFactor).toEqual({ source: 'inferred', confidence: 'low', detail: 'default' });
+    expect(labeled.provenance.formFactor).toEqual({ source: 'title', confidence: 'high' });
+  });
+
+  it('should mark curated fields', () => {
+    const cpu = createProductWithSpec(
+      createMockProduct({ title: 'Procesador AMD Ryzen 7 7800X3D', identifiers: { sku: 'x', mpn: '100-100000910WOF' } }),
+      'cpu'
+    );
+
+    expect(cpu.provenance?.tdp).toEqual({ source: 'curated', confidence: 'high' });
+  });
+});
+
+describe('Low-confidence downgrade', () => {
+  it('should WARN instead of PASS when the form factor was assumed', () => {
+    const build: PCBuild = new Map([
+      ['case', createProductWithSpec(createMockProduct({ id: 'case-1', title: 'Gabinete Mid Tower ATX' }), 'case')],
+    ]);
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'Motherboard B650 DDR5' });
+
+    const result = evaluateCompatibility(mobo, 'motherboard', build).results.find((r) => r.ruleId === 'mobo-case-formfactor')!;
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'SPEC_ASSUMED', params: { category: 'motherboard', specValue: 'ATX' } });
+  });
+
+  it('should still PASS when the form factor is listed', () => {
+    const build: PCBuild = new Map([
+      ['case', createProductWithSpec(createMockProduct({ id: 'case-1', title: 'Gabinete Mid Tower ATX' }), 'case')],
+    ]);
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'Motherboard B650 DDR5 Micro-ATX' });
+
+    const result = evaluateCompatibility(mobo, 'motherboard', build).results.find((r) => r.ruleId === 'mobo-case-formfactor')!;
+
+    expect(result.status).toBe('pass');
+  });
+
+  it('should spell out structured assumed values', () => {
+    const pass: RuleResult = {
+      ruleId: 'test-rule',
+      status: 'pass',
+      message: { code: 'RADIATOR_PLACEMENT_OK', params: { aioSize: 360, radiatorPosition: 'top' } },
+      affectedCategories: ['case'],
+    };
+    const downgrade = (field: keyof ProductSpec, value: ProductSpec[keyof ProductSpec]) =>
+      downgradeAssumedPass(pass, [{ category: 'case', productId: 'case-1', field, value }]).message;
+
+    expect(downgrade('radiatorMounts', { front: 360, top: 240 })).toEqual({
+      code: 'SPEC_ASSUMED',
+      params: { category: 'case', specValue: ['360mm', '240mm'] },
+    });
+    expect(downgrade('fanMounts', [{ position: 'front', size: 120, count: 3 }]).params).toEqual({
+      category: 'case',
+      specValue: ['3x120mm'],
+    });
+    expect(
+      formatMessage(downgrade('gpuOutputs', [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort' }]), 'en')
+    ).not.toContain('[object Object]');
+    expect(downgrade('m2SlotDetails', [{ slot: 2, pcieGen: 4 }]).params).toEqual({
+      category: 'case',
+      specValue: ['M.2_2 PCIe 4.0'],
+    });
+  });
+
+  describe('hand-written rules', () => {
+    const pcCase = { product: createMockProduct({ id: 'case-2' }), spec: { supportedPsuFormFactors: ['ATX'] }, category: 'case' as const };
+    const build: PCBuild = new Map([['case', pcCase]]);
+
+    function evaluatePsu(title: string) {
+      const psu = createMockProduct({ id: title, title });
+      return evaluateCompatibility(psu, 'psu', build).results.find((r) => r.ruleId === 'psu-case-form-factor')!;
+    }
+
+    it('should WARN instead of PASS when the PSU form factor was assumed', () => {
+      const result = evaluatePsu('Fuente Corsair CX650 650W 80 Plus Bronze');
+
+      expect(result.status).toBe('warn');
+      expect(result.message).toEqual({ code: 'SPEC_ASSUMED', params: { category: 'psu', specValue: 'ATX' } });
+    });
+
+    it('should still PASS when the PSU form factor is listed', () => {
+      expect(evaluatePsu('Fuente Corsair CX650 650W ATX 80 Plus Bronze').message.code).toBe('PSU_FORM_FACTOR_COMPATIBLE');
+    });
+
+    it('should leave passes that checked nothing alone', () => {
+      const result = evaluateCompatibility(createMockProduct({ id: 'psu-3', title: 'Fuente 650W' }), 'psu', new Map()).results.find(
+        (r) => r.ruleId === 'psu-case-form-factor'
+      )!;
+
+      expect(result.message.code).toBe('PART_NOT_SELECTED');
+    });
+  });
+});
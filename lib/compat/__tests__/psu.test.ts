@@ -0,0 +1,131 @@
+/**
+ * PSU Fit Tests
+ * Tests for PSU form factor (ATX/SFX) and length rules against the case
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility } from '../engine';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+describe('PSU form factor and length extraction', () => {
+  it('should detect SFX-L before SFX and read the length from dimensions', () => {
+    const sfxl = extractSpecs(createMockProduct({ title: 'Fuente 850W SFX-L 80+ Gold' }), 'psu');
+    const atx = extractSpecs(createMockProduct({ title: 'Fuente 750W 80+ Gold', description: 'Dimensiones: 150 x 86 x 160 mm' }), 'psu');
+
+    expect(sfxl.psuFormFactor).toBe('SFX-L');
+    expect(atx).toMatchObject({ psuFormFactor: 'ATX', psuLength: 160 });
+  });
+
+  it('should read the PSU length from attribute groups', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Fuente 650W 80+ Bronze',
+        attributeGroups: [{ name: 'Dimensiones', attributes: [{ name: 'Profundidad', value: '140 mm' }] }],
+      }),
+      'psu'
+    );
+
+    expect(spec.psuLength).toBe(140);
+  });
+
+  it('should extract SFX-only support and PSU clearance for small cases', () => {
+    const spec = extractSpecs(
+      createMockProduct({ title: 'Gabinete Mini-ITX', description: 'Soporte de fuente: SFX / SFX-L. Fuente hasta 130mm' }),
+      'case'
+    );
+
+    expect(spec.supportedPsuFormFactors).toEqual(['SFX-L', 'SFX']);
+    expect(spec.maxPsuLength).toBe(130);
+  });
+
+  it('should assume ATX PSU support for ATX cases that do not say', () => {
+    const spec = extractSpecs(createMockProduct({ title: 'Gabinete Mid Tower ATX' }), 'case');
+
+    expect(spec.supportedPsuFormFactors).toEqual(['ATX']);
+  });
+});
+
+describe('PSU ↔ Case Form Factor', () => {
+  it('should FAIL an ATX PSU in an SFX-only case', () => {
+    const build: PCBuild = new Map([['case', createPart('case-1', 'case', { supportedPsuFormFactors: ['SFX'] })]]);
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 750W ATX 80+ Gold' });
+
+    const result = findResult(psu, 'psu', build, 'psu-case-form-factor');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'PSU_FORM_FACTOR_MISMATCH',
+      params: { psuFormFactor: 'ATX', casePsuFormFactors: ['SFX'] },
+    });
+  });
+
+  it('should WARN for an SFX PSU in an ATX case', () => {
+    const build: PCBuild = new Map([['psu', createPart('psu-1', 'psu', { psuFormFactor: 'SFX' })]]);
+    const pcCase = createMockProduct({ id: 'case-1', title: 'Gabinete Mid Tower ATX' });
+
+    const result = findResult(pcCase, 'case', build, 'case-psu-form-factor');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('PSU_SFX_BRACKET');
+  });
+
+  it('should ignore the case\'s included PSU', () => {
+    const build: PCBuild = new Map([['case', createPart('case-1', 'case', { supportedPsuFormFactors: ['SFX'] })]]);
+    const psu = createMockProduct({ id: '__use_included_psu__', title: 'Fuente incluida ATX' });
+
+    expect(findResult(psu, 'psu', build, 'psu-case-form-factor').status).toBe('pass');
+  });
+});
+
+describe('PSU ↔ Case Length', () => {
+  const build: PCBuild = new Map([['case', createPart('case-1', 'case', { maxPsuLength: 160 })]]);
+
+  it('should FAIL a PSU longer than the case clearance', () => {
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 1200W 80+ Platinum', description: 'Longitud: 180mm' });
+
+    const result = findResult(psu, 'psu', build, 'psu-case-length');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({ code: 'PSU_TOO_LONG', params: { psuLength: 180, maxPsuLength: 160 } });
+  });
+
+  it('should PASS silently when the PSU length is unknown', () => {
+    const psu = createMockProduct({ id: 'psu-1', title: 'Fuente 650W 80+ Bronze' });
+
+    const result = evaluateCompatibility(psu, 'psu', build);
+
+    expect(result.results.find((r) => r.ruleId === 'psu-case-length')?.message.code).toBe('NOT_APPLICABLE');
+    expect(result.hasUnknownChecks).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Radiator Placement Tests
+ * Tests for per-position radiator mounts and AIO interference with GPU, RAM and VRM
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { evaluateCompatibility, getBuildCompatibilitySummary } from '../engine';
+import { extractSpecs } from '../specs';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function findResult(candidate: Product, category: CategoryKey, build: PCBuild, ruleId: string) {
+  return evaluateCompatibility(candidate, category, build).results.find((r) => r.ruleId === ruleId)!;
+}
+
+const aio360 = createPart('cooler-1', 'cooler', { coolerType: 'aio', aioSize: 360 });
+
+describe('Radiator mount extraction', () => {
+  it('should extract the max radiator size per position', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Gabinete Mid Tower ATX',
+        description: 'Ventiladores: Frontal: 3x120mm. Soporte de Watercooler: * Frontal: Hasta 360mm * Superior: 120/240mm * Trasero: 120mm',
+      }),
+      'case'
+    );
+
+    expect(spec.radiatorMounts).toEqual({ front: 360, top: 240, rear: 120 });
+  });
+
+  it('should read radiator positions from attribute groups', () => {
+    const spec = extractSpecs(
+      createMockProduct({
+        title: 'Gabinete ATX Radiador 280mm',
+        attributeGroups: [
+          {
+            name: 'Refrigeración',
+            attributes: [
+              { name: 'Radiador frontal', value: '280 mm' },
+              { name: 'Radiador superior', value: '240 mm' },
+            ],
+          },
+        ],
+      }),
+      'case'
+    );
+
+    expect(spec.radiatorMounts).toEqual({ front: 280, top: 240 });
+  });
+});
+
+describe('AIO ↔ Case Radiator Placement', () => {
+  it('should FAIL a front 360 radiator with a GPU that only fits the bare case', () => {
+    const pcCase = createPart('case-1', 'case', { maxGpuLength: 340, radiatorMounts: { front: 360, top: 240 } });
+    const build: PCBuild = new Map([
+      ['cooler', aio360],
+      ['case', pcCase],
+    ]);
+    const gpu = createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4070 Ti', description: 'Largo: 336mm' });
+
+    const result = findResult(gpu, 'gpu', build, 'gpu-radiator-placement');
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toEqual({
+      code: 'RADIATOR_FRONT_GPU_CONFLICT',
+      params: { aioSize: 360, gpuLength: 336, maxGpuLength: 285 },
+    });
+  });
+
+  it('should flag the full build as incompatible', () => {
+    const parts: [CategoryKey, Product][] = [
+      ['cooler', createMockProduct({ id: 'cooler-1', title: 'Refrigeración Líquida AIO 360mm' })],
+      [
+        'case',
+        createMockProduct({
+          id: 'case-1',
+          title: 'Gabinete Mid Tower ATX',
+          description: 'GPU hasta 340mm. Soporte de Watercooler: Frontal: Hasta 360mm, Trasero: 120mm',
+        }),
+      ],
+      ['gpu', createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4070 Ti', description: 'Largo: 336mm' })],
+    ];
+    const build: PCBuild = new Map(
+      parts.map(([category, product]) => [category, { product, spec: extractSpecs(product, category), category }])
+    );
+
+    const summary = getBuildCompatibilitySummary(build);
+
+    expect(summary.isCompatible).toBe(false);
+    expect(summary.messages.failures.map((m) => m.code)).toEqual(['RADIATOR_FRONT_GPU_CONFLICT']);
+  });
+
+  it('should prefer the top position when it keeps the GPU clearance', () => {
+    const build: PCBuild = new Map([
+      ['cooler', aio360],
+      ['gpu', createPart('gpu-1', 'gpu', { gpuLength: 336 })],
+    ]);
+    const pcCase = createMockProduct({
+      id: 'case-1',
+      title: 'Gabinete Mid Tower ATX',
+      description: 'GPU hasta 340mm. Soporte de Watercooler: Frontal: Hasta 360mm, Superior: Hasta 360mm',
+    });
+
+    const result = findResult(pcCase, 'case', build, 'case-cooler-radiator-placement');
+
+    expect(result.status).toBe('pass');
+    expect(result.message).toEqual({ code: 'RADIATOR_PLACEMENT_OK', params: { aioSize: 360, radiatorPosition: 'top' } });
+  });
+
+  it('should WARN for a top-only radiator over tall RAM', () => {
+    const build: PCBuild = new Map([
+      ['cooler', aio360],
+      ['case', createPart('case-1', 'case', { radiatorMounts: { top: 360 } })],
+    ]);
+    const ram = createMockProduct({ id: 'ram-1', title: 'Kit DDR5 2x16GB 6000MHz', description: 'Altura: 56mm' });
+
+    const result = findResult(ram, 'ram', build, 'ram-radiator-placement');
+
+    expect(result.status).toBe('warn');
+    expect(result.message).toEqual({ code: 'RADIATOR_TOP_RAM_CONFLICT', params: { aioSize: 360, memoryHeight: 56 } });
+  });
+
+  it('should WARN for a top radiator over a board with tall VRM heatsinks', () => {
+    const build: PCBuild = new Map([
+      ['case', createPart('case-1', 'case', { radiatorMounts: { top: 360 } })],
+      ['motherboard', createPart('mobo-1', 'motherboard', { chipset: 'Z790' })],
+    ]);
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Refrigeración Líquida AIO 360mm' });
+
+    expect(findResult(cooler, 'cooler', build, 'cooler-case-radiator-placement').message.code).toBe(
+      'RADIATOR_TOP_VRM_CONFLICT'
+    );
+  });
+
+  it('should WARN for a board with tall VRM heatsinks under the selected top radiator', () => {
+    const build: PCBuild = new Map([
+      ['cooler', aio360],
+      ['case', createPart('case-1', 'case', { radiatorMounts: { top: 360 } })],
+    ]);
+    const mobo = createMockProduct({ id: 'mobo-1', title: 'Motherboard ASUS ROG Strix Z790-E' });
+
+    const result = findResult(mobo, 'motherboard', build, 'motherboard-radiator-placement');
+
+    expect(result.status).toBe('warn');
+    expect(result.message.code).toBe('RADIATOR_TOP_VRM_CONFLICT');
+  });
+
+  it('should list the part behind the conflict among the affected categories', () => {
+    const pcCase = createPart('case-1', 'case', { radiatorMounts: { top: 360 } });
+    const tallRam = createPart('ram-1', 'ram', { memoryHeight: 56 });
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Refrigeración Líquida AIO 360mm' });
+
+    const ramConflict = findResult(
+      cooler,
+      'cooler',
+      new Map([
+        ['case', pcCase],
+        ['ram', tallRam],
+      ]),
+      'cooler-case-radiator-placement'
+    );
+    const vrmConflict = findResult(
+      cooler,
+      'cooler',
+      new Map([
+        ['case', pcCase],
+        ['motherboard', createPart('mobo-1', 'motherboard', { chipset: 'Z790' })],
+      ]),
+      'cooler-case-radiator-placement'
+    );
+
+    expect(ramConflict.affectedCategories).toEqual(['cooler', 'case', 'ram']);
+    expect(vrmConflict.affectedCategories).toEqual(['cooler', 'case', 'motherboard']);
+  });
+
+  it('should not apply when the case does not list radiator positions', () => {
+    const build: PCBuild = new Map([
+      ['cooler', aio360],
+      ['case', createPart('case-1', 'case', { maxGpuLength: 340, supportedRadiatorSizes: [360] })],
+    ]);
+    const gpu = createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4070 Ti', description: 'Largo: 336mm' });
+
+    expect(findResult(gpu, 'gpu', build, 'gpu-radiator-placement').message.code).toBe('NOT_APPLICABLE');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Failure Resolver Tests
+ * Tests for the catalog replacements suggested for failing compatibility results
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { createProductWithSpec, getBuildCompatibilitySummary } from '../engine';
+import { findFixSuggestions, getFixCategories } from '../resolver';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function createBuild(parts: ProductWithSpec[]): PCBuild {
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+function createCase(id: string, maxGpuLength: number, price: number, stock = 10): Product {
+  return createMockProduct({ id, title: `Gabinete ${id} ATX`, description: `GPU hasta ${maxGpuLength}mm`, price, stock });
+}
+
+// The summary re-reads each selected part's specs from its listing, so these come from titles
+const longGpu = createProductWithSpec(
+  createMockProduct({ id: 'gpu-1', title: 'Placa de Video RTX 4070', description: 'Largo: 340mm' }),
+  'gpu'
+);
+const smallCase = createProductWithSpec(createCase('case-1', 300, 80), 'case');
+
+describe('Failure resolver', () => {
+  const build = createBuild([longGpu, smallCase]);
+  const [failure] = getBuildCompatibilitySummary(build).failureResults;
+
+  it('should offer swapping any part involved', () => {
+    expect(failure.message.code).toBe('GPU_TOO_LONG');
+    expect(getFixCategories(failure).sort()).toEqual(['case', 'gpu']);
+    expect(getFixCategories({ ...failure, affectedCategories: ['ram', 'motherboard'] })).toEqual(['ram', 'motherboard']);
+  });
+
+  it('should suggest cases that fit the GPU, cheapest price delta first', () => {
+    const catalog = [
+      createCase('case-310', 310, 90),
+      createCase('case-360', 360, 150),
+      createCase('case-350', 350, 70),
+      createCase('case-400', 400, 120, 0),
+    ];
+
+    const suggestions = findFixSuggestions(failure, 'case', catalog, build);
+
+    expect(suggestions.map(({ product, priceDelta }) => [product.id, priceDelta])).toEqual([
+      ['case-350', -10],
+      ['case-360', 70],
+    ]);
+  });
+
+  it('should stop at the limit', () => {
+    const catalog = [createCase('case-350', 350, 70), createCase('case-360', 360, 150)];
+
+    expect(findFixSuggestions(failure, 'case', catalog, build, 1)).toHaveLength(1);
+  });
+
+  it('should suggest the missing part for a requirement', () => {
+    const cpu = createPart('cpu-1', 'cpu', { socket: 'AM5', includesCooler: false });
+    const requirement = getBuildCompatibilitySummary(createBuild([cpu])).failureResults.find(
+      (result) => result.message.code === 'COOLER_REQUIRED'
+    )!;
+    const cooler = createMockProduct({ id: 'cooler-1', title: 'Cooler CPU Deepcool AK400 AM5 AM4 LGA1700', price: 40 });
+
+    expect(findFixSuggestions(requirement, 'cooler', [cooler], createBuild([cpu]))).toMatchObject([
+      { product: { id: 'cooler-1' }, priceDelta: 40 },
+    ]);
+  });
+
+  it('should not suggest anything for categories the failure does not involve', () => {
+    expect(findFixSuggestions(failure, 'psu', [createCase('case-350', 350, 70)], build)).toEqual([]);
+  });
+});
+
+describe('Failure resolver for multi-select categories', () => {
+  const mobo = createProductWithSpec(
+    createMockProduct({
+      id: 'mobo-1',
+      title: 'Mother ASUS PRIME B760M-A',
+      description: '3 x M.2. M.2_1: PCIe 4.0 x4, 2242/2260/2280. M.2_2: PCIe 4.0 x4, 2242/2260/2280. M.2_3: PCIe 4.0 x4, 2242/2260/2280',
+    }),
+    'motherboard'
+  );
+  const ssd = (id: string, length: number, price: number) =>
+    createMockProduct({ id, title: `SSD NVMe M.2 ${length} 1TB PCIe 4.0`, price });
+  const shortSsd = createProductWithSpec(ssd('ssd-2280', 2280, 60), 'storage');
+  const longSsd = createProductWithSpec(ssd('ssd-22110', 22110, 90), 'storage');
+
+  const build: PCBuild = new Map([
+    ['motherboard', mobo],
+    ['storage', shortSsd],
+  ]);
+  build.items = {
+    storage: [
+      { product: shortSsd, quantity: 1 },
+      { product: longSsd, quantity: 2 },
+    ],
+  };
+  const failure = getBuildCompatibilitySummary(build).failureResults.find(
+    (result) => result.ruleId === 'build-m2-slot-assignment'
+  )!;
+
+  it('should swap the item behind the failure, keeping its quantity', () => {
+    const catalog = [ssd('ssd-new', 2280, 70), ssd('ssd-other', 22110, 50)];
+
+    const suggestions = findFixSuggestions(failure, 'storage', catalog, build);
+
+    expect(failure.message.code).toBe('M2_LENGTH_UNSUPPORTED');
+    expect(getBuildCompatibilitySummary(build).failureResults).toHaveLength(1);
+    expect(suggestions.map(({ product, priceDelta, replaces }) => [product.id, priceDelta, replaces?.id])).toEqual([
+      ['ssd-new', -40, 'ssd-22110'],
+    ]);
+  });
+
+  it('should leave owned items in place', () => {
+    const owned: PCBuild = new Map(build);
+    owned.items = {
+      storage: [
+        { product: shortSsd, quantity: 1 },
+        { product: { ...longSsd, owned: true }, quantity: 2 },
+      ],
+    };
+
+    expect(findFixSuggestions(failure, 'storage', [ssd('ssd-new', 2280, 70)], owned)).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Rule Evaluation Trace Tests
+ * Tests for the spec values, skip reasons and results recorded while evaluating rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Product } from '../../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from '../types';
+import type { CategoryKey } from '../../catalog/categories';
+import { COMPATIBILITY_RULES } from '../rules';
+import { BUILD_RULES } from '../buildRules';
+import { evaluateCompatibility } from '../engine';
+import { traceRule } from '../trace';
+
+// Helper to create a mock product
+function createMockProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'test-id',
+    title: 'Test Product',
+    brand: 'Test Brand',
+    description: '',
+    price: 100,
+    currency: 'USD',
+    stock: 10,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: { sku: 'test-id' },
+    rating: { votes: 0, value: 0 },
+    ...overrides,
+  };
+}
+
+// Helper to create a part with a hand-written spec
+function createPart(id: string, category: CategoryKey, spec: ProductSpec): ProductWithSpec {
+  return { product: createMockProduct({ id, title: id }), spec, category };
+}
+
+function createBuild(parts: ProductWithSpec[]): PCBuild {
+  return new Map(parts.map((part) => [part.category, part]));
+}
+
+function getRule(ruleId: string) {
+  return COMPATIBILITY_RULES.find((rule) => rule.id === ruleId) ?? BUILD_RULES.find((rule) => rule.id === ruleId)!;
+}
+
+const am5Cpu = createPart('cpu-1', 'cpu', { socket: 'AM5' });
+const am4Board = createPart('mobo-1', 'motherboard', { socket: 'AM4', memorySlots: 2 });
+
+describe('Rule trace', () => {
+  it('should record the spec values a failing rule compared', () => {
+    const trace = traceRule(getRule('mobo-cpu-socket'), am4Board, createBuild([am5Cpu]));
+
+    expect(trace.result.status).toBe('fail');
+    expect(trace.skipped).toBeUndefined();
+    expect(trace.specs).toEqual(
+      expect.arrayContaining([
+        { category: 'motherboard', productId: 'mobo-1', field: 'socket', value: 'AM4' },
+        { category: 'cpu', productId: 'cpu-1', field: 'socket', value: 'AM5' },
+      ])
+    );
+  });
+
+  it('should explain rules skipped because the other part is not selected', () => {
+    const trace = traceRule(getRule('mobo-cpu-socket'), am4Board, createBuild([]));
+
+    expect(trace.skipped).toBe('category-not-in-build');
+  });
+
+  it('should explain rules skipped because a spec is missing', () => {
+    const trace = traceRule(getRule('mobo-cpu-socket'), am4Board, createBuild([createPart('cpu-2', 'cpu', {})]));
+
+    expect(trace.skipped).toBe('spec-missing');
+    expect(trace.specs).toContainEqual({ category: 'cpu', productId: 'cpu-2', field: 'socket', value: undefined });
+  });
+
+  it('should trace build constraints with the candidate added', () => {
+    const ram = createPart('ram-1', 'ram', { memoryModules: 4 });
+    const trace = traceRule(getRule('build-memory-slots'), ram, createBuild([am4Board]));
+
+    expect(trace.kind).toBe('constraint');
+    expect(trace.result.status).toBe('fail');
+    expect(trace.specs).toContainEqual({ category: 'motherboard', productId: 'mobo-1', field: 'memorySlots', value: 2 });
+  });
+});
+
+describe('evaluateCompatibility trace option', () => {
+  const board = createMockProduct({ id: 'mobo-2', title: 'Mother ASUS PRIME B550M-A AM4 DDR4' });
+  const build = createBuild([am5Cpu]);
+
+  it('should return one trace entry per rule with the same results', () => {
+    const traced = evaluateCompatibility(board, 'motherboard', build, 'es', { trace: true });
+    const plain = evaluateCompatibility(board, 'motherboard', build);
+
+    expect(traced.allowed).toBe(false);
+    expect(traced.trace!.map((entry) => entry.result)).toEqual(plain.results);
+    expect(traced.trace!.find((entry) => entry.ruleId === 'mobo-cpu-socket')!.result.status).toBe('fail');
+  });
+
+  it('should not trace by default', () => {
+    expect(evaluateCompatibility(board, 'motherboard', build).trace).toBeUndefined();
+  });
+});
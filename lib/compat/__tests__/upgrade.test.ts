@@ -0,0 +1,126 @@
+/**
+ * Upgrade Planner Tests
+ * Plans upgrades for an owned AM4 gaming PC against the fixture catalog in fixtures/generator
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect } from 'vitest';
+import type { MallWebItem } from '../../mallweb/types';
+import type { CategoryKey } from '../../catalog/categories';
+import { normalizeItem, type Product } from '../../mallweb/normalize';
+import type { PCBuild } from '../types';
+import { createProductWithSpec, getBuildCompatibilitySummary } from '../engine';
+import { withCandidate, withoutCategory } from '../build';
+import { getGpuTier } from '../balance';
+import { getOwnedBuild, planUpgrades, type UpgradeSuggestion } from '../upgrade';
+
+type Catalog = Partial<Record<CategoryKey, Product[]>>;
+
+const CATALOG_PATH = join(__dirname, 'fixtures', 'generator', 'catalog.json');
+
+function loadCatalog(): Catalog {
+  const data: Record<string, MallWebItem[]> = JSON.parse(readFileSync(CATALOG_PATH, 'utf8'));
+  return Object.fromEntries(
+    Object.entries(data).map(([category, items]) => [category, items.map((item) => normalizeItem(item))])
+  );
+}
+
+function findProduct(catalog: Catalog, category: CategoryKey, title: string): Product {
+  return catalog[category]!.find((product) => product.title.includes(title))!;
+}
+
+function applyUpgrade(owned: PCBuild, suggestion: UpgradeSuggestion): PCBuild {
+  return (Object.entries({ ...suggestion.missingParts, ...suggestion.parts }) as [CategoryKey, Product][]).reduce(
+    (build, [category, product]) => withCandidate(build, createProductWithSpec(product, category)),
+    owned
+  );
+}
+
+const catalog = loadCatalog();
+
+const OWNED_PARTS: [CategoryKey, string][] = [
+  ['cpu', 'Ryzen 5 5600X'],
+  ['motherboard', 'B550M-PLUS'],
+  ['ram', 'DDR4 16GB'],
+  ['gpu', 'RTX 3050'],
+  ['psu', 'Smart 500W'],
+  ['storage', 'NV2 1TB'],
+  ['case', 'Versa H18'],
+  ['cooler', 'AK400'],
+];
+
+const owned: PCBuild = new Map(
+  OWNED_PARTS.map(([category, title]) => [
+    category,
+    { ...createProductWithSpec(findProduct(catalog, category, title), category), owned: true },
+  ])
+);
+
+describe('Upgrade planner', () => {
+  it('should keep only the owned parts and items', () => {
+    const cpu = owned.get('cpu')!;
+    const newRam = createProductWithSpec(findProduct(catalog, 'ram', 'DDR5 32GB'), 'ram');
+    const ownedRam = owned.get('ram')!;
+    const build: PCBuild = new Map([
+      ['cpu', cpu],
+      ['gpu', createProductWithSpec(findProduct(catalog, 'gpu', 'RTX 4060'), 'gpu')],
+      ['ram', ownedRam],
+    ]);
+    build.items = { ram: [{ product: ownedRam, quantity: 2 }, { product: newRam, quantity: 1 }] };
+
+    const result = getOwnedBuild(build);
+
+    expect([...result.keys()]).toEqual(['cpu', 'ram']);
+    expect(result.items!.ram).toEqual([{ product: ownedRam, quantity: 2 }]);
+  });
+
+  it('should pair a GPU upgrade with the PSU it needs', () => {
+    const [best] = planUpgrades(owned, catalog, 1_000_000, 'gaming-1440p');
+    const gpuSpec = createProductWithSpec(best.parts.gpu!, 'gpu').spec;
+
+    expect(best.kind).toBe('gpu');
+    expect(getGpuTier(gpuSpec.gpuChip!)).toBeGreaterThan(getGpuTier('RTX 3050')!);
+    expect(createProductWithSpec(best.parts.psu!, 'psu').spec.psuWattage).toBeGreaterThanOrEqual(
+      gpuSpec.gpuRecommendedPsu!
+    );
+    expect(best.price).toBeLessThanOrEqual(1_000_000);
+  });
+
+  it('should change CPU, motherboard and RAM together for a platform change', () => {
+    const platform = planUpgrades(owned, catalog, 1_500_000, 'workstation').find(({ kind }) => kind === 'platform')!;
+    const summary = getBuildCompatibilitySummary(applyUpgrade(owned, platform));
+
+    expect(Object.keys(platform.parts).sort()).toEqual(['cpu', 'motherboard', 'ram']);
+    expect(createProductWithSpec(platform.parts.cpu!, 'cpu').spec.socket).not.toBe('AM4');
+    expect(summary.isComplete).toBe(true);
+    expect(summary.isCompatible).toBe(true);
+  });
+
+  it('should rank suggestions by gain and never buy back an owned part', () => {
+    const suggestions = planUpgrades(owned, catalog, 1_500_000, 'gaming-1440p');
+    const ownedIds = new Set([...owned.values()].map((part) => part.product.id));
+
+    expect(suggestions.length).toBeGreaterThan(1);
+    expect(suggestions.map(({ gain }) => gain)).toEqual(suggestions.map(({ gain }) => gain).sort((a, b) => b - a));
+    for (const suggestion of suggestions) {
+      expect(Object.values(suggestion.parts).some((product) => ownedIds.has(product!.id))).toBe(false);
+    }
+  });
+
+  it('should keep the parts an incomplete PC lacks apart from the upgrade', () => {
+    const incomplete = (['case', 'psu'] as CategoryKey[]).reduce(withoutCategory, owned);
+    const suggestions = planUpgrades(incomplete, catalog, 1_500_000, 'workstation');
+    const platform = suggestions.find(({ kind }) => kind === 'platform')!;
+
+    expect(Object.keys(platform.parts).sort()).toEqual(['cpu', 'motherboard', 'ram']);
+    expect(platform.price).toBe(Object.values(platform.parts).reduce((sum, product) => sum + product!.price, 0));
+    for (const suggestion of suggestions) {
+      expect(Object.keys(suggestion.missingParts).sort()).toEqual(['case', 'psu']);
+    }
+  });
+
+  it('should suggest nothing when the budget buys no improvement', () => {
+    expect(planUpgrades(owned, catalog, 100_000, 'gaming-1440p')).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * CPU / GPU Balance
+ * Gaming performance tiers of CPUs and GPU chips, and whether a build is CPU- or
+ * GPU-bound at common resolutions. Tiers live in ./data/performance-tiers.json and
+ * are validated when loaded.
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { PCBuild, ProductSpec, RuleResult } from './types';
+import { createMessage, type RuleMessage } from './messages';
+import performanceTiersData from './data/performance-tiers.json';
+
+export type BalanceResolution = '1080p' | '1440p' | '4K';
+
+export const BALANCE_RESOLUTIONS: BalanceResolution[] = ['1080p', '1440p', '4K'];
+
+// Tiers go from 1 (entry-level) to 10 (fastest on the market)
+export const MIN_TIER = 1;
+export const MAX_TIER = 10;
+
+// GPUs at or below this tier can't feed 4K or high refresh rates in games
+export const ENTRY_GPU_TIER = 2;
+
+export interface PerformanceTierTable {
+  version: number;
+  resolutions: Record<BalanceResolution, number>; // Added to the CPU-GPU tier gap: GPU load grows with resolution
+  thresholds: { mild: number; severe: number };   // Tier gap from which a build leans to one side / is bottlenecked
+  cpu: Record<string, Record<string, number>>;     // cpuGeneration => cpuFamily => tier
+  gpu: Record<string, number>;                     // gpuChip => tier
+}
+
+export class PerformanceTierError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid performance tiers:\n${issues.join('\n')}`);
+    this.name = 'PerformanceTierError';
+  }
+}
+
+export type BalanceBound = 'balanced' | 'cpu' | 'gpu';
+
+export interface ResolutionBalance {
+  resolution: BalanceResolution;
+  gap: number;         // CPU tier minus GPU tier plus the resolution's GPU load; negative = CPU-bound
+  bound: BalanceBound;
+  severe: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTier(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_TIER && (value as number) <= MAX_TIER;
+}
+
+function validateTiers(tiers: unknown, path: string, issues: string[]): void {
+  if (!isRecord(tiers)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  for (const [name, tier] of Object.entries(tiers)) {
+    if (!isTier(tier)) issues.push(`${path}.${name}: expected a tier from ${MIN_TIER} to ${MAX_TIER}`);
+  }
+}
+
+/**
+ * Validate raw tier data against PerformanceTierTable
+ * Throws a PerformanceTierError listing every problem found
+ */
+export function loadPerformanceTiers(data: unknown): PerformanceTierTable {
+  const issues: string[] = [];
+
+  if (!isRecord(data) || !Number.isInteger(data.version)) {
+    throw new PerformanceTierError(['root: expected { version: integer, resolutions, thresholds, cpu, gpu }']);
+  }
+
+  const resolutions = isRecord(data.resolutions) ? data.resolutions : {};
+  for (const resolution of BALANCE_RESOLUTIONS) {
+    if (typeof resolutions[resolution] !== 'number') issues.push(`resolutions.${resolution}: expected a number`);
+  }
+
+  const thresholds = isRecord(data.thresholds) ? data.thresholds : {};
+  const { mild, severe } = thresholds;
+  if (typeof mild !== 'number' || typeof severe !== 'number' || mild <= 0 || severe < mild) {
+    issues.push('thresholds: expected 0 < mild <= severe');
+  }
+
+  if (!isRecord(data.cpu)) {
+    issues.push('cpu: expected an object');
+  } else {
+    for (const [generation, families] of Object.entries(data.cpu)) {
+      validateTiers(families, `cpu.${generation}`, issues);
+    }
+  }
+  validateTiers(data.gpu, 'gpu', issues);
+
+  if (issues.length > 0) throw new PerformanceTierError(issues);
+
+  return data as unknown as PerformanceTierTable;
+}
+
+export const PERFORMANCE_TIERS = loadPerformanceTiers(performanceTiersData);
+
+/**
+ * Gaming tier of a CPU from its generation and family; undefined when not in the table
+ */
+export function getCpuTier(cpuSpec: ProductSpec, table: PerformanceTierTable = PERFORMANCE_TIERS): number | undefined {
+  if (!cpuSpec.cpuGeneration || !cpuSpec.cpuFamily) return undefined;
+  return table.cpu[cpuSpec.cpuGeneration]?.[cpuSpec.cpuFamily];
+}
+
+/**
+ * Gaming tier of a GPU chip ("RTX 4070"); undefined when not in the table
+ */
+export function getGpuTier(gpuChip: string, table: PerformanceTierTable = PERFORMANCE_TIERS): number | undefined {
+  return table.gpu[gpuChip];
+}
+
+/**
+ * CPU model for messages: "Ryzen 5 7000", "Core i5 12th Gen"
+ */
+export function formatCpuModel(cpuSpec: ProductSpec): string {
+  const generation = cpuSpec.cpuGeneration?.replace(/^Ryzen\s+/, '') ?? '';
+  return [cpuSpec.cpuFamily, generation].filter(Boolean).join(' ');
+}
+
+/**
+ * Which side limits the frame rate at each resolution
+ */
+export function getBalance(
+  cpuTier: number,
+  gpuTier: number,
+  table: PerformanceTierTable = PERFORMANCE_TIERS
+): ResolutionBalance[] {
+  return BALANCE_RESOLUTIONS.map((resolution) => {
+    const gap = cpuTier - gpuTier + table.resolutions[resolution];
+    const bound: BalanceBound = gap <= -table.thresholds.mild ? 'cpu' : gap >= table.thresholds.mild ? 'gpu' : 'balanced';
+    return { resolution, gap, bound, severe: Math.abs(gap) >= table.thresholds.severe };
+  });
+}
+
+/**
+ * Helper to create a balance result
+ */
+function createResult(
+  resolution: BalanceResolution,
+  status: 'pass' | 'warn',
+  message: RuleMessage,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  return { ruleId: `balance-${resolution}`, status, message, affectedCategories };
+}
+
+/**
+ * CPU/GPU balance of a build, one result per resolution
+ * Severe mismatches warn; empty when the CPU or the graphics card is missing or not in the table
+ */
+export function evaluateBuildBalance(build: PCBuild): RuleResult[] {
+  const cpuSpec = build.get('cpu')?.spec;
+  const gpuChip = build.get('gpu')?.spec.gpuChip;
+  const cpuTier = cpuSpec ? getCpuTier(cpuSpec) : undefined;
+  const gpuTier = gpuChip ? getGpuTier(gpuChip) : undefined;
+
+  if (!cpuSpec || !gpuChip || cpuTier === undefined || gpuTier === undefined) {
+    return [];
+  }
+
+  const cpuModel = formatCpuModel(cpuSpec);
+  return getBalance(cpuTier, gpuTier).map(({ resolution, bound, severe }) => {
+    const status = severe ? 'warn' : 'pass';
+    if (bound === 'cpu') {
+      const code = severe ? 'BALANCE_CPU_BOTTLENECK' : 'BALANCE_CPU_BOUND';
+      return createResult(resolution, status, createMessage(code, { resolution, cpuModel, gpuChip }), ['cpu', 'gpu']);
+    }
+    if (bound === 'gpu') {
+      const code = severe ? 'BALANCE_GPU_BOTTLENECK' : 'BALANCE_GPU_BOUND';
+      return createResult(resolution, status, createMessage(code, { resolution, cpuModel, gpuChip }), ['cpu', 'gpu']);
+    }
+    return createResult(resolution, 'pass', createMessage('BALANCE_OK', { resolution }), ['cpu', 'gpu']);
+  });
+}
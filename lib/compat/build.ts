@@ -0,0 +1,140 @@
+/**
+ * Build Helpers
+ * Access every selected part of a build, including quantities
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { PCBuild, ProductWithQuantity, ProductWithSpec } from './types';
+
+/**
+ * Get every selected part of a category with its quantity
+ * Falls back to the single part in the map when the build has no items
+ */
+export function getBuildItems(build: PCBuild, category: CategoryKey): ProductWithQuantity[] {
+  const items = build.items?.[category];
+  if (items && items.length > 0) {
+    return items;
+  }
+
+  const part = build.get(category);
+  return part ? [{ product: part, quantity: 1 }] : [];
+}
+
+/**
+ * Total number of units selected in a category
+ */
+export function getBuildQuantity(build: PCBuild, category: CategoryKey): number {
+  return getBuildItems(build, category).reduce((sum, item) => sum + item.quantity, 0);
+}
+
+/**
+ * Items of a category plus the candidate, if it belongs to it and isn't selected yet
+ * Multi-select categories add the candidate on top of the current items
+ */
+export function getBuildItemsWithCandidate(
+  build: PCBuild,
+  category: CategoryKey,
+  candidate?: ProductWithSpec
+): ProductWithQuantity[] {
+  const items = getBuildItems(build, category);
+  if (!candidate || candidate.category !== category) {
+    return items;
+  }
+
+  const isSelected = items.some((item) => item.product.product.id === candidate.product.id);
+  return isSelected ? items : [...items, { product: candidate, quantity: 1 }];
+}
+
+/**
+ * Copy of the build with the candidate selected
+ * Categories that already list items (RAM, storage, fans) get the candidate on top;
+ * the rest replace their part
+ */
+export function withCandidate(build: PCBuild, candidate: ProductWithSpec): PCBuild {
+  const category = candidate.category;
+  const next: PCBuild = new Map(build);
+  next.items = { ...build.items };
+
+  if (build.items?.[category]?.length) {
+    next.items[category] = getBuildItemsWithCandidate(build, category, candidate);
+  } else {
+    next.set(category, candidate);
+    delete next.items[category];
+  }
+
+  return next;
+}
+
+/**
+ * Copy of the build without the part (and items) of a category
+ */
+export function withoutCategory(build: PCBuild, category: CategoryKey): PCBuild {
+  const next: PCBuild = new Map(build);
+  next.delete(category);
+  if (build.items) {
+    next.items = { ...build.items };
+    delete next.items[category];
+  }
+  return next;
+}
+
+/**
+ * Copy of the build with one more unit of a multi-select part
+ * Adds the part with quantity 1 when it isn't selected yet
+ */
+export function withAddedUnit(build: PCBuild, part: ProductWithSpec): PCBuild {
+  const category = part.category;
+  const items = getBuildItems(build, category);
+  const isSelected = items.some((item) => item.product.product.id === part.product.id);
+
+  const next: PCBuild = new Map(build);
+  if (!next.has(category)) next.set(category, part);
+  next.items = {
+    ...build.items,
+    [category]: isSelected
+      ? items.map((item) => (item.product.product.id === part.product.id ? { ...item, quantity: item.quantity + 1 } : item))
+      : [...items, { product: part, quantity: 1 }],
+  };
+
+  return next;
+}
+
+/**
+ * Copy of the build without one item of a multi-select category
+ * The first remaining item becomes the category's part, as in the store
+ */
+export function withoutItem(build: PCBuild, category: CategoryKey, productId: string): PCBuild {
+  const items = getBuildItems(build, category).filter((item) => item.product.product.id !== productId);
+
+  const next: PCBuild = new Map(build);
+  next.items = { ...build.items, [category]: items };
+  if (items.length > 0) {
+    next.set(category, items[0].product);
+  } else {
+    next.delete(category);
+  }
+  return next;
+}
+
+/**
+ * Copy of the build with one item of a multi-select category swapped for another part
+ * The new part takes the item's place and quantity (added to its own, if already selected)
+ */
+export function withReplacedItem(build: PCBuild, productId: string, part: ProductWithSpec): PCBuild {
+  const category = part.category;
+  const items: ProductWithQuantity[] = [];
+  for (const item of getBuildItems(build, category)) {
+    const product = item.product.product.id === productId ? part : item.product;
+    const existing = items.find((entry) => entry.product.product.id === product.product.id);
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      items.push({ product, quantity: item.quantity });
+    }
+  }
+
+  const next: PCBuild = new Map(build);
+  next.items = { ...build.items, [category]: items };
+  if (items.length > 0) next.set(category, items[0].product);
+  return next;
+}
@@ -0,0 +1,702 @@
+/**
+ * Build Rules
+ * Constraints over the whole build (required parts, slot, port and bay counts, display output, fans)
+ * that don't belong to a single candidate product
+ */
+
+import { getRequiredCategories, isCoolerRequired, isGpuRequired, type CategoryKey } from '../catalog/categories';
+import type { BuildRule, PCBuild, ProductSpec, ProductWithQuantity, ProductWithSpec, RuleResult } from './types';
+import { createMessage, type RuleMessage } from './messages';
+import { getBuildItems, withAddedUnit } from './build';
+import { getSataDriveCount } from './connectors';
+import { getTotalModules } from './memory';
+import {
+  DEMANDING_DISPLAY_HEIGHT,
+  DEMANDING_REFRESH_RATE,
+  formatVideoPort,
+  getBestVideoLink,
+  getBuildVideoSource,
+  getMaxRefreshRate,
+  getRequiredBandwidth,
+  hasVideoOutputs,
+  isEntryLevelGpu,
+  parseResolution,
+} from './display';
+import { assignM2Slots, fitsM2Slot, getPopulatedM2Slots, getStorageM2Slots, isM2GenDowngrade } from './m2';
+import { findFanMountOverflow, getFanCountsBySize, getFanHeaderDemand, getFanLightingNeeds, getTotalFans } from './fans';
+
+// Slot counts assumed when the motherboard (or its listing) doesn't say; used as UI limits only
+export const DEFAULT_MEMORY_SLOTS = 4;
+export const DEFAULT_M2_SLOTS = 1;
+export const DEFAULT_SATA_PORTS = 4;
+
+export interface SlotLimits {
+  memorySlots: number;
+  m2Slots: number;
+  sataPorts: number;
+}
+
+/**
+ * Slot and port counts of a motherboard, falling back to the defaults
+ */
+export function getSlotLimits(moboSpec?: ProductSpec): SlotLimits {
+  return {
+    memorySlots: moboSpec?.memorySlots ?? DEFAULT_MEMORY_SLOTS,
+    m2Slots: moboSpec?.m2Slots ?? DEFAULT_M2_SLOTS,
+    sataPorts: moboSpec?.sataPorts ?? DEFAULT_SATA_PORTS,
+  };
+}
+
+/**
+ * Number of M.2 drives across storage items
+ */
+export function getM2DriveCount(items: ProductWithQuantity[]): number {
+  return items
+    .filter(({ product }) => product.spec.storageConnectionType === 'M.2')
+    .reduce((sum, { quantity }) => sum + quantity, 0);
+}
+
+/**
+ * SATA ports left enabled once the M.2 drives take their slots
+ * e.g., 6 ports with M.2_2 sharing SATA5/6 leave 4 ports when a drive goes in M.2_2
+ */
+export function getAvailableSataPorts(moboSpec: ProductSpec, items: ProductWithQuantity[]): number | undefined {
+  if (!moboSpec.sataPorts) return undefined;
+
+  const populated = new Set(getPopulatedM2Slots(moboSpec, items));
+  const disabled = new Set(
+    (moboSpec.m2SataSharing ?? [])
+      .filter((entry) => populated.has(entry.m2Slot))
+      .flatMap((entry) => entry.sataPorts)
+      .filter((port) => port <= moboSpec.sataPorts!)
+  );
+  return moboSpec.sataPorts - disabled.size;
+}
+
+/**
+ * Number of 2.5" and 3.5" drives across storage items (M.2 drives take no bay)
+ */
+export function getDriveBayCounts(items: ProductWithQuantity[]): { drives25: number; drives35: number } {
+  const count = (formFactor: string) =>
+    items
+      .filter(({ product }) => product.spec.storageFormFactor === formFactor)
+      .reduce((sum, { quantity }) => sum + quantity, 0);
+  return { drives25: count('2.5'), drives35: count('3.5') };
+}
+
+/**
+ * Categories the build needs before it's complete
+ * GPU only without integrated graphics (or board outputs for it); cooler unless the CPU ships with one
+ */
+export function getBuildRequiredCategories(build: PCBuild): CategoryKey[] {
+  const cpu = build.get('cpu');
+  const required = getRequiredCategories().map((category) => category.key);
+
+  if (isGpuRequired(cpu?.spec.integratedGraphics, hasVideoOutputs(build.get('motherboard')?.spec))) required.push('gpu');
+  if (isCoolerRequired(cpu?.spec.includesCooler)) required.push('cooler');
+
+  return required;
+}
+
+/**
+ * Helper to create a rule result
+ */
+function createResult(
+  ruleId: string,
+  status: 'pass' | 'fail' | 'warn' | 'unknown',
+  message: RuleMessage,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  return { ruleId, status, message, affectedCategories };
+}
+
+/**
+ * Cooler Required
+ * CPUs without a boxed cooler need one
+ */
+const coolerRequiredRule: BuildRule = {
+  id: 'build-cooler-required',
+  name: 'Cooler Required',
+  description: 'Los CPUs sin cooler incluido necesitan un cooler',
+  kind: 'requirement',
+  categories: ['cpu', 'cooler'],
+  evaluate: (build) => {
+    const cpu = build.get('cpu');
+    if (!cpu) {
+      return createResult('build-cooler-required', 'pass', createMessage('PART_NOT_SELECTED', { category: 'cpu' }), ['cpu', 'cooler']);
+    }
+
+    if (!build.has('cooler') && isCoolerRequired(cpu.spec.includesCooler)) {
+      return createResult('build-cooler-required', 'fail', createMessage('COOLER_REQUIRED'), ['cpu', 'cooler']);
+    }
+
+    return createResult('build-cooler-required', 'pass', createMessage('NOT_APPLICABLE'), ['cpu', 'cooler']);
+  },
+};
+
+/**
+ * Display Output
+ * The build needs a graphics card when the CPU has no iGPU, or when the
+ * motherboard has no video outputs for it. Without one the build can't show
+ * anything, so it's incompatible; CPU and motherboard candidates get the
+ * display output pair rules instead, which only warn until a graphics card is picked
+ */
+const displayOutputRule: BuildRule = {
+  id: 'build-display-output',
+  name: 'Display Output',
+  description: 'El build necesita una placa de video si el CPU no tiene gráficos integrados o el motherboard no tiene salidas de video',
+  kind: 'constraint',
+  categories: ['cpu', 'motherboard', 'gpu'],
+  checksCandidates: false,
+  evaluate: (build) => {
+    const cpu = build.get('cpu');
+    if (!cpu) {
+      return createResult('build-display-output', 'pass', createMessage('PART_NOT_SELECTED', { category: 'cpu' }), ['cpu', 'gpu']);
+    }
+
+    if (build.has('gpu')) {
+      return createResult('build-display-output', 'pass', createMessage('NOT_APPLICABLE'), ['cpu', 'gpu']);
+    }
+
+    if (isGpuRequired(cpu.spec.integratedGraphics)) {
+      return createResult('build-display-output', 'fail', createMessage('GPU_REQUIRED'), ['cpu', 'gpu']);
+    }
+
+    const videoOutputs = build.get('motherboard')?.spec.videoOutputs;
+    if (cpu.spec.integratedGraphics && videoOutputs?.length === 0) {
+      return createResult(
+        'build-display-output',
+        'fail',
+        createMessage('BOARD_NO_VIDEO_OUTPUTS'),
+        ['cpu', 'motherboard', 'gpu']
+      );
+    }
+
+    if (cpu.spec.integratedGraphics && videoOutputs) {
+      return createResult(
+        'build-display-output',
+        'pass',
+        createMessage('IGPU_VIDEO_OUTPUTS', { videoOutputs }),
+        ['cpu', 'motherboard']
+      );
+    }
+
+    return createResult('build-display-output', 'pass', createMessage('NOT_APPLICABLE'), ['cpu', 'gpu']);
+  },
+};
+
+/**
+ * RAM Slots
+ * Every module (kits count each stick) needs a DIMM slot
+ */
+const memorySlotsRule: BuildRule = {
+  id: 'build-memory-slots',
+  name: 'RAM Slots',
+  description: 'La cantidad de módulos de RAM no puede superar los slots del motherboard',
+  kind: 'constraint',
+  categories: ['ram', 'motherboard'],
+  evaluate: (build) => {
+    const memorySlots = build.get('motherboard')?.spec.memorySlots;
+    const modules = getTotalModules(getBuildItems(build, 'ram'));
+
+    if (!memorySlots || modules === 0) {
+      return createResult('build-memory-slots', 'pass', createMessage('NOT_APPLICABLE'), ['ram', 'motherboard']);
+    }
+
+    if (modules > memorySlots) {
+      return createResult(
+        'build-memory-slots',
+        'fail',
+        createMessage('MEMORY_SLOTS_EXCEEDED', { modules, memorySlots }),
+        ['ram', 'motherboard']
+      );
+    }
+
+    return createResult(
+      'build-memory-slots',
+      'pass',
+      createMessage('MEMORY_SLOTS_OK', { modules, memorySlots }),
+      ['ram', 'motherboard']
+    );
+  },
+};
+
+/**
+ * M.2 Slots
+ * Every M.2 drive needs its own M.2 slot
+ */
+const m2SlotsRule: BuildRule = {
+  id: 'build-m2-slots',
+  name: 'M.2 Slots',
+  description: 'La cantidad de discos M.2 no puede superar los slots M.2 del motherboard',
+  kind: 'constraint',
+  categories: ['storage', 'motherboard'],
+  evaluate: (build) => {
+    const m2Slots = build.get('motherboard')?.spec.m2Slots;
+    const m2Drives = getM2DriveCount(getBuildItems(build, 'storage'));
+
+    // Boards without M.2 are reported per drive by the storage ↔ motherboard M.2 rule
+    if (!m2Slots || m2Drives === 0) {
+      return createResult('build-m2-slots', 'pass', createMessage('NOT_APPLICABLE'), ['storage', 'motherboard']);
+    }
+
+    if (m2Drives > m2Slots) {
+      return createResult(
+        'build-m2-slots',
+        'fail',
+        createMessage('M2_SLOTS_EXCEEDED', { m2Drives, m2Slots }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    return createResult('build-m2-slots', 'pass', createMessage('M2_SLOTS_OK', { m2Drives, m2Slots }), ['storage', 'motherboard']);
+  },
+};
+
+/**
+ * M.2 Slot Assignment
+ * When the motherboard describes its M.2 slots, each drive must fit a slot's length;
+ * drives assigned to a slot of an older PCIe generation still work, but slower
+ */
+const m2SlotAssignmentRule: BuildRule = {
+  id: 'build-m2-slot-assignment',
+  name: 'M.2 Slot Assignment',
+  description: 'Cada disco M.2 debe entrar en un slot de su largo y conviene que el slot sea de su misma generación PCIe',
+  kind: 'constraint',
+  categories: ['storage', 'motherboard'],
+  evaluate: (build) => {
+    const moboSpec = build.get('motherboard')?.spec;
+    const items = getBuildItems(build, 'storage');
+    const slots = moboSpec ? getStorageM2Slots(moboSpec) : [];
+
+    if (!moboSpec || slots.length === 0 || getM2DriveCount(items) === 0) {
+      return createResult('build-m2-slot-assignment', 'pass', createMessage('NOT_APPLICABLE'), ['storage', 'motherboard']);
+    }
+
+    // A drive longer than every slot (e.g., 22110 on a board that tops out at 2280)
+    const tooLong = items.find(
+      ({ product }) =>
+        product.spec.storageConnectionType === 'M.2' && !slots.some((slot) => fitsM2Slot(product.spec, slot))
+    );
+    if (tooLong?.product.spec.storageLength) {
+      const m2Lengths = [...new Set(slots.flatMap((slot) => slot.lengths ?? []))].sort((a, b) => a - b);
+      return createResult(
+        'build-m2-slot-assignment',
+        'fail',
+        createMessage('M2_LENGTH_UNSUPPORTED', { storageLength: tooLong.product.spec.storageLength, m2Lengths }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    const { assignments } = assignM2Slots(moboSpec, items);
+    const downgrade = assignments.find(({ slot, drive }) => isM2GenDowngrade(drive.spec, slot));
+    if (downgrade) {
+      return createResult(
+        'build-m2-slot-assignment',
+        'warn',
+        createMessage('M2_GEN_DOWNGRADE', {
+          storagePcieGen: downgrade.drive.spec.storagePcieGen!,
+          slotPcieGen: downgrade.slot.pcieGen!,
+          m2Slot: downgrade.slot.slot,
+        }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    const assignment = assignments.map(({ slot, drive }) => `M.2_${slot.slot}: ${drive.product.title}`).join(', ');
+    return createResult(
+      'build-m2-slot-assignment',
+      'pass',
+      createMessage('M2_SLOT_ASSIGNMENT', { assignment }),
+      ['storage', 'motherboard']
+    );
+  },
+};
+
+/**
+ * SATA Ports
+ * Every SATA drive needs its own SATA data port; M.2 slots that share
+ * lanes with SATA disable some ports when populated
+ */
+const sataPortsRule: BuildRule = {
+  id: 'build-sata-ports',
+  name: 'SATA Ports',
+  description: 'La cantidad de discos SATA no puede superar los puertos SATA habilitados del motherboard',
+  kind: 'constraint',
+  categories: ['storage', 'motherboard'],
+  evaluate: (build) => {
+    const moboSpec = build.get('motherboard')?.spec;
+    const items = getBuildItems(build, 'storage');
+    const sataDrives = getSataDriveCount(items);
+    const m2Drives = getM2DriveCount(items);
+    const sataPorts = moboSpec ? getAvailableSataPorts(moboSpec, items) : undefined;
+
+    if (!moboSpec?.sataPorts || sataPorts === undefined || sataDrives === 0) {
+      return createResult('build-sata-ports', 'pass', createMessage('NOT_APPLICABLE'), ['storage', 'motherboard']);
+    }
+
+    if (sataDrives > moboSpec.sataPorts) {
+      return createResult(
+        'build-sata-ports',
+        'fail',
+        createMessage('SATA_PORTS_EXCEEDED', { sataDrives, sataPorts: moboSpec.sataPorts }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    if (sataDrives > sataPorts) {
+      return createResult(
+        'build-sata-ports',
+        'fail',
+        createMessage('SATA_PORTS_SHARED', { sataDrives, sataPorts, m2Drives }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    return createResult(
+      'build-sata-ports',
+      'pass',
+      createMessage('SATA_PORTS_OK', { sataDrives, sataPorts }),
+      ['storage', 'motherboard']
+    );
+  },
+};
+
+/**
+ * Drive Bays
+ * 3.5" drives need 3.5" bays; 2.5" drives use 2.5" bays first, then free 3.5" bays
+ */
+const driveBaysRule: BuildRule = {
+  id: 'build-drive-bays',
+  name: 'Drive Bays',
+  description: 'Los discos de 2.5" y 3.5" deben entrar en las bahías del gabinete',
+  kind: 'constraint',
+  categories: ['storage', 'case'],
+  evaluate: (build) => {
+    const caseSpec = build.get('case')?.spec;
+    const { drives25, drives35 } = getDriveBayCounts(getBuildItems(build, 'storage'));
+
+    // Cases that list no bays at all are not checked
+    if (!caseSpec || (caseSpec.drivesBays25 === undefined && caseSpec.drivesBays35 === undefined) || drives25 + drives35 === 0) {
+      return createResult('build-drive-bays', 'pass', createMessage('NOT_APPLICABLE'), ['storage', 'case']);
+    }
+
+    const bays25 = caseSpec.drivesBays25 ?? 0;
+    const bays35 = caseSpec.drivesBays35 ?? 0;
+
+    if (drives35 > bays35) {
+      return createResult(
+        'build-drive-bays',
+        'fail',
+        createMessage('DRIVE_BAYS_35_EXCEEDED', { drives: drives35, bays: bays35 }),
+        ['storage', 'case']
+      );
+    }
+
+    const room25 = bays25 + (bays35 - drives35);
+    if (drives25 > room25) {
+      return createResult(
+        'build-drive-bays',
+        'fail',
+        createMessage('DRIVE_BAYS_25_EXCEEDED', { drives: drives25, bays: room25 }),
+        ['storage', 'case']
+      );
+    }
+
+    if (drives25 > bays25) {
+      return createResult(
+        'build-drive-bays',
+        'warn',
+        createMessage('DRIVE_BAYS_25_IN_35', { drives: drives25, bays: bays25 }),
+        ['storage', 'case']
+      );
+    }
+
+    return createResult(
+      'build-drive-bays',
+      'pass',
+      createMessage('DRIVE_BAYS_OK', { drives: drives25 + drives35, bays: bays25 + bays35 }),
+      ['storage', 'case']
+    );
+  },
+};
+
+/**
+ * Monitor Output
+ * The graphics card (or the board's outputs for an iGPU) must carry the monitor's
+ * native resolution at its refresh rate over a connector both sides have
+ */
+const monitorOutputRule: BuildRule = {
+  id: 'build-monitor-output',
+  name: 'Monitor Output',
+  description: 'Las salidas de video deben poder llevar la resolución y frecuencia del monitor',
+  kind: 'constraint',
+  categories: ['monitor', 'gpu', 'cpu', 'motherboard'],
+  evaluate: (build) => {
+    const monitorSpec = build.get('monitor')?.spec;
+    const source = getBuildVideoSource(build);
+    const resolution = monitorSpec?.monitorResolution ? parseResolution(monitorSpec.monitorResolution) : undefined;
+    const monitorRefreshRate = monitorSpec?.monitorRefreshRate;
+
+    if (!monitorSpec || !source || !resolution || !monitorRefreshRate) {
+      return createResult('build-monitor-output', 'pass', createMessage('NOT_APPLICABLE'), ['monitor', 'gpu']);
+    }
+
+    const monitorResolution = monitorSpec.monitorResolution!;
+    const link = getBestVideoLink(source.outputs, monitorSpec.monitorInputs);
+    if (!link) {
+      return createResult(
+        'build-monitor-output',
+        'warn',
+        createMessage('MONITOR_NO_COMMON_PORT', {
+          videoOutputs: source.outputs.map((port) => port.type),
+          monitorInputs: (monitorSpec.monitorInputs ?? []).map((port) => port.type),
+        }),
+        ['monitor', 'gpu']
+      );
+    }
+
+    const videoPort = formatVideoPort(link.port);
+    if (getRequiredBandwidth(resolution.width, resolution.height, monitorRefreshRate) > link.bandwidth) {
+      return createResult(
+        'build-monitor-output',
+        'warn',
+        createMessage('MONITOR_BANDWIDTH_LIMITED', {
+          monitorResolution,
+          monitorRefreshRate,
+          videoPort,
+          maxRefreshRate: getMaxRefreshRate(link.bandwidth, resolution.width, resolution.height),
+        }),
+        ['monitor', 'gpu']
+      );
+    }
+
+    return createResult(
+      'build-monitor-output',
+      'pass',
+      createMessage('MONITOR_OUTPUT_OK', { monitorResolution, monitorRefreshRate, videoPort }),
+      ['monitor', 'gpu']
+    );
+  },
+};
+
+/**
+ * Monitor GPU Tier
+ * 4K and 240Hz displays are wasted on entry-level GPUs and integrated graphics
+ */
+const monitorGpuTierRule: BuildRule = {
+  id: 'build-monitor-gpu-tier',
+  name: 'Monitor GPU Tier',
+  description: 'Un monitor 4K o de 240Hz necesita una placa de video acorde',
+  kind: 'constraint',
+  categories: ['monitor', 'gpu', 'cpu'],
+  evaluate: (build) => {
+    const monitorSpec = build.get('monitor')?.spec;
+    const resolution = monitorSpec?.monitorResolution ? parseResolution(monitorSpec.monitorResolution) : undefined;
+    const monitorRefreshRate = monitorSpec?.monitorRefreshRate ?? 60;
+    const demanding =
+      resolution !== undefined &&
+      (resolution.height >= DEMANDING_DISPLAY_HEIGHT || monitorRefreshRate >= DEMANDING_REFRESH_RATE);
+
+    if (!demanding) {
+      return createResult('build-monitor-gpu-tier', 'pass', createMessage('NOT_APPLICABLE'), ['monitor', 'gpu']);
+    }
+
+    const monitorResolution = monitorSpec!.monitorResolution!;
+    const gpuChip = build.get('gpu')?.spec.gpuChip;
+    if (gpuChip && isEntryLevelGpu(gpuChip)) {
+      return createResult(
+        'build-monitor-gpu-tier',
+        'warn',
+        createMessage('MONITOR_GPU_UNDERPOWERED', { gpuChip, monitorResolution, monitorRefreshRate }),
+        ['monitor', 'gpu']
+      );
+    }
+
+    if (!build.has('gpu') && build.get('cpu')?.spec.integratedGraphics) {
+      return createResult(
+        'build-monitor-gpu-tier',
+        'warn',
+        createMessage('MONITOR_IGPU_UNDERPOWERED', { monitorResolution, monitorRefreshRate }),
+        ['monitor', 'cpu']
+      );
+    }
+
+    return createResult('build-monitor-gpu-tier', 'pass', createMessage('NOT_APPLICABLE'), ['monitor', 'gpu']);
+  },
+};
+
+/**
+ * Fan Mounts
+ * Case fans of each size must fit the case's fan mounts
+ */
+const fanMountsRule: BuildRule = {
+  id: 'build-fan-mounts',
+  name: 'Fan Mounts',
+  description: 'Los ventiladores deben entrar en los soportes del gabinete',
+  kind: 'constraint',
+  categories: ['fans', 'case'],
+  evaluate: (build) => {
+    const fanMounts = build.get('case')?.spec.fanMounts;
+    const items = getBuildItems(build, 'fans');
+    const counts = getFanCountsBySize(items);
+
+    // Cases that don't list their mounts and fans of unlisted size are not checked
+    if (!fanMounts || fanMounts.length === 0 || counts.size === 0) {
+      return createResult('build-fan-mounts', 'pass', createMessage('NOT_APPLICABLE'), ['fans', 'case']);
+    }
+
+    const overflow = findFanMountOverflow(fanMounts, counts);
+    if (overflow) {
+      return createResult(
+        'build-fan-mounts',
+        'fail',
+        createMessage('FAN_MOUNTS_EXCEEDED', { ...overflow }),
+        ['fans', 'case']
+      );
+    }
+
+    return createResult(
+      'build-fan-mounts',
+      'pass',
+      createMessage('FAN_MOUNTS_OK', { fanCount: getTotalFans(items) }),
+      ['fans', 'case']
+    );
+  },
+};
+
+/**
+ * Fan Lighting
+ * ARGB fans need a 5V ARGB header and RGB fans a 12V RGB header, unless the pack brings a hub
+ */
+const fanLightingRule: BuildRule = {
+  id: 'build-fan-lighting',
+  name: 'Fan Lighting',
+  description: 'La iluminación de los ventiladores necesita un conector compatible en la motherboard o un hub',
+  kind: 'constraint',
+  categories: ['fans', 'motherboard'],
+  evaluate: (build) => {
+    const moboSpec = build.get('motherboard')?.spec;
+    const needs = getFanLightingNeeds(getBuildItems(build, 'fans'));
+
+    if (!moboSpec || needs.length === 0) {
+      return createResult('build-fan-lighting', 'pass', createMessage('NOT_APPLICABLE'), ['fans', 'motherboard']);
+    }
+
+    const headers = { ARGB: moboSpec.argbHeaders, RGB: moboSpec.rgbHeaders };
+    for (const fanLighting of needs) {
+      const count = headers[fanLighting];
+      // Boards that don't list the header are not checked
+      if (count === undefined || count > 0) continue;
+
+      const boardLighting = fanLighting === 'ARGB' ? 'RGB' : 'ARGB';
+      if ((headers[boardLighting] ?? 0) > 0) {
+        return createResult(
+          'build-fan-lighting',
+          'warn',
+          createMessage('FAN_LIGHTING_HEADER_MISMATCH', { fanLighting, boardLighting }),
+          ['fans', 'motherboard']
+        );
+      }
+      return createResult(
+        'build-fan-lighting',
+        'warn',
+        createMessage('FAN_LIGHTING_HEADER_MISSING', { fanLighting }),
+        ['fans', 'motherboard']
+      );
+    }
+
+    if (needs.some((fanLighting) => headers[fanLighting] === undefined)) {
+      return createResult('build-fan-lighting', 'pass', createMessage('NOT_APPLICABLE'), ['fans', 'motherboard']);
+    }
+
+    return createResult(
+      'build-fan-lighting',
+      'pass',
+      createMessage('FAN_LIGHTING_OK', { fanLighting: needs }),
+      ['fans', 'motherboard']
+    );
+  },
+};
+
+/**
+ * Fan Headers
+ * Every fan (or fan hub) takes a motherboard fan header; CPU_FAN is kept for the
+ * CPU cooler, whether bought apart or the one boxed with the CPU
+ */
+const fanHeadersRule: BuildRule = {
+  id: 'build-fan-headers',
+  name: 'Fan Headers',
+  description: 'La motherboard debe tener conectores para todos los ventiladores',
+  kind: 'constraint',
+  categories: ['fans', 'motherboard', 'cpu'],
+  evaluate: (build) => {
+    const fanHeaders = build.get('motherboard')?.spec.fanHeaders;
+    const items = getBuildItems(build, 'fans');
+
+    if (fanHeaders === undefined || items.length === 0) {
+      return createResult('build-fan-headers', 'pass', createMessage('NOT_APPLICABLE'), ['fans', 'motherboard']);
+    }
+
+    const fanHeadersNeeded = getFanHeaderDemand(items) + (build.has('cpu') ? 1 : 0);
+    if (fanHeadersNeeded > fanHeaders) {
+      return createResult(
+        'build-fan-headers',
+        'warn',
+        createMessage('FAN_HEADERS_SHORT', { fanHeadersNeeded, fanHeaders }),
+        ['fans', 'motherboard']
+      );
+    }
+
+    return createResult(
+      'build-fan-headers',
+      'pass',
+      createMessage('FAN_HEADERS_OK', { fanHeadersNeeded, fanHeaders }),
+      ['fans', 'motherboard']
+    );
+  },
+};
+
+/**
+ * All build rules
+ */
+export const BUILD_RULES: BuildRule[] = [
+  coolerRequiredRule,
+  displayOutputRule,
+  memorySlotsRule,
+  m2SlotsRule,
+  m2SlotAssignmentRule,
+  sataPortsRule,
+  driveBaysRule,
+  monitorOutputRule,
+  monitorGpuTierRule,
+  fanMountsRule,
+  fanLightingRule,
+  fanHeadersRule,
+];
+
+/**
+ * Constraint rules that look at a category, for evaluating candidates of it
+ */
+export function getBuildRulesForCategory(category: CategoryKey): BuildRule[] {
+  return BUILD_RULES.filter(
+    (rule) => rule.kind === 'constraint' && rule.checksCandidates !== false && rule.categories.includes(category)
+  );
+}
+
+/**
+ * First constraint the build would break with one more unit of a part
+ * Rules already failing without it are ignored; used to disable quantity increments
+ */
+export function getAddUnitFailure(build: PCBuild, part: ProductWithSpec): RuleResult | undefined {
+  const next = withAddedUnit(build, part);
+
+  for (const rule of getBuildRulesForCategory(part.category)) {
+    const result = rule.evaluate(next);
+    if (result.status === 'fail' && rule.evaluate(build).status !== 'fail') {
+      return result;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,156 @@
+/**
+ * Chipset Support Matrix
+ * Which CPU generations each motherboard chipset runs, out of the box or after a BIOS update
+ */
+
+export type ChipsetSupport = 'supported' | 'bios-update' | 'unsupported' | 'unknown';
+
+interface ChipsetSupportEntry {
+  socket: string;
+  supported: string[];   // Generations that POST with any BIOS the board shipped with
+  biosUpdate: string[];  // Generations supported only after a BIOS update
+}
+
+// AM5
+const AM5_600_SERIES: ChipsetSupportEntry = {
+  socket: 'AM5',
+  supported: ['Ryzen 7000'],
+  biosUpdate: ['Ryzen 8000', 'Ryzen 9000'],
+};
+const AM5_800_SERIES: ChipsetSupportEntry = {
+  socket: 'AM5',
+  supported: ['Ryzen 7000', 'Ryzen 8000', 'Ryzen 9000'],
+  biosUpdate: [],
+};
+
+// AM4
+const AM4_500_SERIES: ChipsetSupportEntry = {
+  socket: 'AM4',
+  supported: ['Ryzen 3000', 'Ryzen 4000', 'Ryzen 5000'],
+  biosUpdate: [],
+};
+const AM4_400_SERIES: ChipsetSupportEntry = {
+  socket: 'AM4',
+  supported: ['Ryzen 2000'],
+  biosUpdate: ['Ryzen 3000', 'Ryzen 4000', 'Ryzen 5000'],
+};
+const AM4_300_SERIES: ChipsetSupportEntry = {
+  socket: 'AM4',
+  supported: [],
+  biosUpdate: ['Ryzen 2000', 'Ryzen 3000', 'Ryzen 4000', 'Ryzen 5000'],
+};
+
+// LGA1851
+const INTEL_800_SERIES: ChipsetSupportEntry = {
+  socket: 'LGA1851',
+  supported: ['15th Gen'],
+  biosUpdate: [],
+};
+
+// LGA1700
+const INTEL_700_SERIES: ChipsetSupportEntry = {
+  socket: 'LGA1700',
+  supported: ['12th Gen', '13th Gen', '14th Gen'],
+  biosUpdate: [],
+};
+const INTEL_600_SERIES: ChipsetSupportEntry = {
+  socket: 'LGA1700',
+  supported: ['12th Gen'],
+  biosUpdate: ['13th Gen', '14th Gen'],
+};
+
+// LGA1200
+const INTEL_500_SERIES: ChipsetSupportEntry = {
+  socket: 'LGA1200',
+  supported: ['10th Gen', '11th Gen'],
+  biosUpdate: [],
+};
+const INTEL_400_SERIES_RKL_READY: ChipsetSupportEntry = {
+  socket: 'LGA1200',
+  supported: ['10th Gen'],
+  biosUpdate: ['11th Gen'],
+};
+const INTEL_400_SERIES: ChipsetSupportEntry = {
+  socket: 'LGA1200',
+  supported: ['10th Gen'],
+  biosUpdate: [],
+};
+
+/**
+ * Chipset => supported CPU generations
+ * Generation names match `cpuGeneration` from extractCpuSpecs
+ */
+export const CHIPSET_SUPPORT: Record<string, ChipsetSupportEntry> = {
+  'X870E': AM5_800_SERIES,
+  'X870': AM5_800_SERIES,
+  'B850': AM5_800_SERIES,
+  'B840': AM5_800_SERIES,
+  'X670E': AM5_600_SERIES,
+  'X670': AM5_600_SERIES,
+  'B650E': AM5_600_SERIES,
+  'B650': AM5_600_SERIES,
+  'A620': AM5_600_SERIES,
+  'X570': { ...AM4_500_SERIES, supported: ['Ryzen 2000', ...AM4_500_SERIES.supported] },
+  'B550': AM4_500_SERIES,
+  'A520': AM4_500_SERIES,
+  'X470': AM4_400_SERIES,
+  'B450': AM4_400_SERIES,
+  'X370': AM4_300_SERIES,
+  'B350': AM4_300_SERIES,
+  'A320': AM4_300_SERIES,
+  'Z890': INTEL_800_SERIES,
+  'B860': INTEL_800_SERIES,
+  'H810': INTEL_800_SERIES,
+  'Z790': INTEL_700_SERIES,
+  'H770': INTEL_700_SERIES,
+  'B760': INTEL_700_SERIES,
+  'Z690': INTEL_600_SERIES,
+  'H670': INTEL_600_SERIES,
+  'B660': INTEL_600_SERIES,
+  'H610': INTEL_600_SERIES,
+  'Z590': INTEL_500_SERIES,
+  'B560': INTEL_500_SERIES,
+  'H510': INTEL_500_SERIES,
+  'Z490': INTEL_400_SERIES_RKL_READY,
+  'H470': INTEL_400_SERIES_RKL_READY,
+  'B460': INTEL_400_SERIES,
+  'H410': INTEL_400_SERIES,
+  'W480': INTEL_400_SERIES,
+  'Q470': INTEL_400_SERIES,
+};
+
+/**
+ * Socket of each CPU generation
+ */
+const GENERATION_SOCKETS: Record<string, string> = {
+  'Ryzen 2000': 'AM4',
+  'Ryzen 3000': 'AM4',
+  'Ryzen 4000': 'AM4',
+  'Ryzen 5000': 'AM4',
+  'Ryzen 7000': 'AM5',
+  'Ryzen 8000': 'AM5',
+  'Ryzen 9000': 'AM5',
+  '10th Gen': 'LGA1200',
+  '11th Gen': 'LGA1200',
+  '12th Gen': 'LGA1700',
+  '13th Gen': 'LGA1700',
+  '14th Gen': 'LGA1700',
+  '15th Gen': 'LGA1851',
+};
+
+/**
+ * Look up whether a chipset runs a CPU generation
+ * Returns 'unknown' when either is missing from the matrix or they use different
+ * sockets (the socket rule reports that case)
+ */
+export function getChipsetSupport(chipset: string, cpuGeneration: string): ChipsetSupport {
+  const entry = CHIPSET_SUPPORT[chipset];
+  const generationSocket = GENERATION_SOCKETS[cpuGeneration];
+  if (!entry || !generationSocket || entry.socket !== generationSocket) {
+    return 'unknown';
+  }
+
+  if (entry.supported.includes(cpuGeneration)) return 'supported';
+  if (entry.biosUpdate.includes(cpuGeneration)) return 'bios-update';
+  return 'unsupported';
+}
@@ -0,0 +1,36 @@
+/**
+ * Power Connectors
+ * CPU (EPS) and SATA power connector requirements of a build
+ */
+
+import type { ProductSpec, ProductWithQuantity } from './types';
+
+// Chipsets whose boards usually ship with 8+8 pin EPS (OC-oriented VRMs)
+const DUAL_EPS_CHIPSETS = ['X870E', 'X870', 'X670E', 'X670', 'Z890', 'Z790', 'Z690'];
+
+export interface EpsRequirement {
+  connectors: number;  // EPS 8-pin cables needed
+  inferred: boolean;   // True when guessed from the chipset instead of listed
+}
+
+/**
+ * EPS connectors a motherboard needs, listed or inferred from its chipset
+ */
+export function getEpsRequirement(spec: ProductSpec): EpsRequirement | undefined {
+  if (spec.epsConnectors) {
+    return { connectors: spec.epsConnectors, inferred: false };
+  }
+  if (spec.chipset && DUAL_EPS_CHIPSETS.includes(spec.chipset)) {
+    return { connectors: 2, inferred: true };
+  }
+  return undefined;
+}
+
+/**
+ * Number of drives that take a SATA power connector (2.5"/3.5" SSDs and HDDs)
+ */
+export function getSataDriveCount(items: ProductWithQuantity[]): number {
+  return items
+    .filter(({ product }) => product.spec.storageConnectionType === 'SATA')
+    .reduce((sum, { quantity }) => sum + quantity, 0);
+}
@@ -0,0 +1,362 @@
+/**
+ * Curated Spec Overrides
+ * Hand-checked specs keyed by product identifiers (SKU, MPN, EAN) that win over
+ * the regex extraction; extracted values only fill the fields the table leaves out.
+ * Data lives in ./data/curated-specs.json and is validated when loaded.
+ */
+
+import { isValidCategoryKey, type CategoryKey } from '../catalog/categories';
+import type { Product } from '../mallweb/normalize';
+import type { ExtractedSpec, ProductSpec, SpecProvenanceMap } from './types';
+import { RADIATOR_POSITIONS } from './radiators';
+import { VIDEO_OUTPUTS } from './display';
+import curatedSpecsData from './data/curated-specs.json';
+
+export type CuratedIdentifier = 'sku' | 'mpn' | 'ean';
+
+export interface CuratedSpecEntry {
+  sku?: string;
+  mpn?: string;
+  ean?: string;
+  category: CategoryKey;
+  note?: string;      // Why the entry exists (what extraction gets wrong)
+  spec: ProductSpec;
+}
+
+export interface CuratedSpecTable {
+  version: number;
+  entries: CuratedSpecEntry[];
+}
+
+export class CuratedSpecError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid curated specs:\n${issues.join('\n')}`);
+    this.name = 'CuratedSpecError';
+  }
+}
+
+type SpecFieldKind =
+  | 'string'
+  | 'number'
+  | 'count'
+  | 'boolean'
+  | 'string[]'
+  | 'number[]'
+  | 'radiatorMounts'
+  | 'fanMounts'
+  | 'm2SataSharing'
+  | 'm2SlotDetails'
+  | 'videoOutputs'
+  | 'videoPorts'
+  | readonly string[];
+
+// Expected shape of every ProductSpec field; the Record type keeps it in sync with the interface
+const SPEC_FIELD_KINDS: Record<keyof ProductSpec, SpecFieldKind> = {
+  socket: 'string',
+  cores: 'number',
+  threads: 'number',
+  tdp: 'number',
+  cpuGeneration: 'string',
+  cpuFamily: 'string',
+  integratedGraphics: 'boolean',
+  includesCooler: 'boolean',
+  chipset: 'string',
+  formFactor: 'string',
+  supportedMemoryTypes: 'string[]',
+  maxMemory: 'number',
+  memorySlots: 'number',
+  m2Slots: 'number',
+  sataPorts: 'number',
+  pciExpressVersion: 'string',
+  epsConnectors: 'number',
+  m2SataSharing: 'm2SataSharing',
+  m2SlotDetails: 'm2SlotDetails',
+  videoOutputs: 'videoOutputs',
+  fanHeaders: 'count',
+  argbHeaders: 'count',
+  rgbHeaders: 'count',
+  memoryType: 'string',
+  memorySpeed: 'number',
+  memoryCapacity: 'number',
+  memoryModules: 'number',
+  memoryLatency: 'string',
+  memoryHeight: 'number',
+  gpuLength: 'number',
+  gpuSlots: 'number',
+  gpuPowerConnectors: 'string[]',
+  gpuRecommendedPsu: 'number',
+  gpuInterface: 'string',
+  gpuChip: 'string',
+  gpuBoardPower: 'number',
+  gpuOutputs: 'videoPorts',
+  supportedFormFactors: 'string[]',
+  maxGpuLength: 'number',
+  maxCpuCoolerHeight: 'number',
+  maxPsuLength: 'number',
+  supportedPsuFormFactors: 'string[]',
+  expansionSlots: 'number',
+  drivesBays25: 'number',
+  drivesBays35: 'number',
+  includesPsu: 'boolean',
+  includedPsuWattage: 'number',
+  supportsWaterCooling: 'boolean',
+  supportedRadiatorSizes: 'number[]',
+  radiatorMounts: 'radiatorMounts',
+  fanMounts: 'fanMounts',
+  psuWattage: 'number',
+  psuEfficiency: 'string',
+  psuModular: ['full', 'semi', 'no'],
+  psuFormFactor: 'string',
+  psuLength: 'number',
+  psuPcie8Pin: 'number',
+  psu12vhpwr: 'number',
+  psuEps8Pin: 'number',
+  psuSata: 'number',
+  storageInterface: 'string',
+  storageCapacity: 'number',
+  storageFormFactor: 'string',
+  storageType: 'string',
+  storageConnectionType: ['M.2', 'SATA'],
+  storagePcieGen: 'number',
+  storageLength: 'number',
+  readSpeed: 'number',
+  writeSpeed: 'number',
+  coolerSockets: 'string[]',
+  coolerHeight: 'number',
+  coolerType: ['air', 'aio'],
+  aioSize: 'number',
+  coolerTdp: 'number',
+  coolerRamClearance: 'number',
+  coolerDualTower: 'boolean',
+  monitorResolution: 'string',
+  monitorRefreshRate: 'number',
+  monitorPanel: 'string',
+  monitorInputs: 'videoPorts',
+  monitorAdaptiveSync: 'string[]',
+  fanCount: 'number',
+  fanSize: 'number',
+  fanConnector: ['3-pin', '4-pin PWM'],
+  fanLighting: ['ARGB', 'RGB'],
+  fanHubIncluded: 'boolean',
+};
+
+const IDENTIFIERS: CuratedIdentifier[] = ['sku', 'mpn', 'ean'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function matchesKind(value: unknown, kind: SpecFieldKind): boolean {
+  if (typeof kind !== 'string') return typeof value === 'string' && kind.includes(value);
+
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string' && value.length > 0;
+    case 'number':
+      return isPositiveNumber(value);
+    case 'count':
+      // May be zero: boards without a given header
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string');
+    case 'number[]':
+      return Array.isArray(value) && value.length > 0 && value.every(isPositiveNumber);
+    case 'radiatorMounts':
+      return (
+        isRecord(value) &&
+        Object.entries(value).every(
+          ([position, size]) => (RADIATOR_POSITIONS as string[]).includes(position) && isPositiveNumber(size)
+        )
+      );
+    case 'fanMounts':
+      return (
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(
+          (entry) =>
+            isRecord(entry) &&
+            (RADIATOR_POSITIONS as unknown[]).includes(entry.position) &&
+            isPositiveNumber(entry.size) &&
+            isPositiveNumber(entry.count)
+        )
+      );
+    case 'm2SataSharing':
+      return (
+        Array.isArray(value) &&
+        value.every(
+          (entry) =>
+            isRecord(entry) &&
+            isPositiveNumber(entry.m2Slot) &&
+            Array.isArray(entry.sataPorts) &&
+            entry.sataPorts.every(isPositiveNumber)
+        )
+      );
+    case 'videoOutputs':
+      // May be empty: boards without video outputs
+      return Array.isArray(value) && value.every((item) => (VIDEO_OUTPUTS as unknown[]).includes(item));
+    case 'videoPorts':
+      return (
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(
+          (entry) =>
+            isRecord(entry) &&
+            (VIDEO_OUTPUTS as unknown[]).includes(entry.type) &&
+            (entry.version === undefined || typeof entry.version === 'string')
+        )
+      );
+    case 'm2SlotDetails':
+      return (
+        Array.isArray(value) &&
+        value.every(
+          (entry) =>
+            isRecord(entry) &&
+            isPositiveNumber(entry.slot) &&
+            (entry.pcieGen === undefined || isPositiveNumber(entry.pcieGen)) &&
+            (entry.key === undefined || ['M', 'B', 'E'].includes(entry.key as string)) &&
+            (entry.lengths === undefined || (Array.isArray(entry.lengths) && entry.lengths.every(isPositiveNumber))) &&
+            (entry.attachedTo === undefined || entry.attachedTo === 'cpu' || entry.attachedTo === 'chipset')
+        )
+      );
+  }
+}
+
+function validateSpec(spec: unknown, path: string, issues: string[]): void {
+  if (!isRecord(spec)) {
+    issues.push(`${path}: spec must be an object`);
+    return;
+  }
+
+  for (const [field, value] of Object.entries(spec)) {
+    const kind = SPEC_FIELD_KINDS[field as keyof ProductSpec];
+    if (!kind) {
+      issues.push(`${path}.${field}: unknown spec field`);
+    } else if (!matchesKind(value, kind)) {
+      issues.push(`${path}.${field}: expected ${typeof kind === 'string' ? kind : kind.join(' | ')}`);
+    }
+  }
+}
+
+/**
+ * Validate raw curated data against CuratedSpecTable / ProductSpec
+ * Throws a CuratedSpecError listing every problem found
+ */
+export function loadCuratedSpecs(data: unknown): CuratedSpecTable {
+  const issues: string[] = [];
+
+  if (!isRecord(data) || !Number.isInteger(data.version) || !Array.isArray(data.entries)) {
+    throw new CuratedSpecError(['root: expected { version: integer, entries: [] }']);
+  }
+
+  const seen = new Set<string>();
+
+  data.entries.forEach((entry: unknown, index: number) => {
+    const path = `entries[${index}]`;
+    if (!isRecord(entry)) {
+      issues.push(`${path}: entry must be an object`);
+      return;
+    }
+
+    const keys = IDENTIFIERS.filter((id) => entry[id] !== undefined);
+    if (keys.length === 0) {
+      issues.push(`${path}: needs at least one of sku/mpn/ean`);
+    }
+    for (const id of keys) {
+      const value = entry[id];
+      if (typeof value !== 'string' || value.trim() === '') {
+        issues.push(`${path}.${id}: expected a non-empty string`);
+        continue;
+      }
+      const key = getIndexKey(id, value);
+      if (seen.has(key)) issues.push(`${path}.${id}: duplicate identifier "${value}"`);
+      seen.add(key);
+    }
+
+    if (typeof entry.category !== 'string' || !isValidCategoryKey(entry.category)) {
+      issues.push(`${path}.category: unknown category`);
+    }
+    if (entry.note !== undefined && typeof entry.note !== 'string') {
+      issues.push(`${path}.note: expected a string`);
+    }
+    validateSpec(entry.spec, `${path}.spec`, issues);
+  });
+
+  if (issues.length > 0) throw new CuratedSpecError(issues);
+
+  return data as unknown as CuratedSpecTable;
+}
+
+function getIndexKey(id: CuratedIdentifier, value: string): string {
+  return `${id}:${value.trim().toUpperCase()}`;
+}
+
+/**
+ * Index a table by every identifier of every entry
+ */
+export function indexCuratedSpecs(table: CuratedSpecTable): Map<string, CuratedSpecEntry> {
+  const index = new Map<string, CuratedSpecEntry>();
+  for (const entry of table.entries) {
+    for (const id of IDENTIFIERS) {
+      const value = entry[id];
+      if (value) index.set(getIndexKey(id, value), entry);
+    }
+  }
+  return index;
+}
+
+export const CURATED_SPECS = loadCuratedSpecs(curatedSpecsData);
+
+const CURATED_INDEX = indexCuratedSpecs(CURATED_SPECS);
+
+/**
+ * Find the curated entry for a product, trying SKU, then MPN, then EAN
+ * Entries only apply to the category they were written for
+ */
+export function findCuratedSpec(
+  product: Product,
+  category: CategoryKey,
+  index: Map<string, CuratedSpecEntry> = CURATED_INDEX
+): CuratedSpecEntry | undefined {
+  for (const id of IDENTIFIERS) {
+    const value = product.identifiers[id];
+    if (!value) continue;
+    const entry = index.get(getIndexKey(id, value));
+    if (entry && entry.category === category) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Merge policy: curated fields win, extracted fields fill the gaps
+ */
+export function mergeCuratedSpec(extracted: ProductSpec, curated: ProductSpec): ProductSpec {
+  const merged: ProductSpec = { ...extracted };
+  for (const [field, value] of Object.entries(curated)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[field] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Apply the curated entry for a product (if any) on top of its extracted spec
+ * Curated fields are marked as such in the provenance map
+ */
+export function applyCuratedSpec(product: Product, category: CategoryKey, extracted: ExtractedSpec): ExtractedSpec {
+  const entry = findCuratedSpec(product, category);
+  if (!entry) return extracted;
+
+  const provenance: SpecProvenanceMap = { ...extracted.provenance };
+  for (const field of Object.keys(entry.spec) as (keyof ProductSpec)[]) {
+    provenance[field] = { source: 'curated', confidence: 'high' };
+  }
+
+  return { spec: mergeCuratedSpec(extracted.spec, entry.spec), provenance };
+}
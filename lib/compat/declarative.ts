@@ -0,0 +1,142 @@
+/**
+ * Declarative Rule Compiler
+ * Turns DeclarativeRule objects into bidirectional CompatibilityRules
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type {
+  CompatibilityRule,
+  CompatStatus,
+  DeclarativeRule,
+  DeclarativeSide,
+  ProductSpec,
+  ProductWithSpec,
+  RuleResult,
+  SpecCondition,
+} from './types';
+import { createMessage, type MessageCode, type RuleMessage } from './messages';
+
+type SpecValue = ProductSpec[keyof ProductSpec];
+
+/**
+ * Check whether a spec value counts as missing (undefined, 0 or empty list)
+ */
+function isMissing(value: SpecValue): boolean {
+  if (value === undefined || value === null || value === 0 || value === '') {
+    return true;
+  }
+  return Array.isArray(value) && value.length === 0;
+}
+
+/**
+ * Build a rule message whose params are named by each side's `param`
+ */
+function createRuleMessage(rule: DeclarativeRule, code: MessageCode, a: SpecValue, b: SpecValue): RuleMessage {
+  return { code, params: { [rule.a.param]: a, [rule.b.param]: b } } as RuleMessage;
+}
+
+/**
+ * Check a spec condition against a part
+ */
+function matchesCondition(part: ProductWithSpec, condition?: SpecCondition): boolean {
+  if (!condition) return true;
+
+  const value = part.spec[condition.field];
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+  if (condition.notEquals !== undefined && value === condition.notEquals) return false;
+  return true;
+}
+
+/**
+ * Compare side A against side B using the rule's operator
+ */
+function compareValues(rule: DeclarativeRule, a: SpecValue, b: SpecValue): boolean {
+  switch (rule.operator) {
+    case 'equals':
+      return a === b;
+    case 'includedIn':
+      return Array.isArray(b) && (b as unknown[]).includes(a);
+    case 'atMost':
+      return Number(a) <= Number(b);
+    case 'atLeast':
+      return Number(a) >= Number(b);
+    case 'rankAtMost': {
+      // Values missing from the ranking get rank 0, so they fit anywhere
+      const ranking = rule.ranking ?? {};
+      const aRank = ranking[String(a)] ?? 0;
+      const bValues = Array.isArray(b) ? b : [b];
+      return bValues.some((value) => (ranking[String(value)] ?? 0) >= aRank);
+    }
+  }
+}
+
+/**
+ * Build one direction of a declarative rule
+ */
+function compileDirection(
+  rule: DeclarativeRule,
+  direction: 'forward' | 'reverse'
+): CompatibilityRule {
+  const { id, name } = rule[direction];
+  const candidateSide: DeclarativeSide = direction === 'forward' ? rule.a : rule.b;
+  const otherSide: DeclarativeSide = direction === 'forward' ? rule.b : rule.a;
+  const affectedCategories: CategoryKey[] = [candidateSide.category, otherSide.category];
+
+  const result = (status: CompatStatus, message: RuleMessage): RuleResult => ({
+    ruleId: id,
+    status,
+    message,
+    affectedCategories,
+  });
+
+  return {
+    id,
+    name,
+    description: rule.description,
+    sourceCategory: candidateSide.category,
+    targetCategories: [otherSide.category],
+    evaluate: (candidate, build) => {
+      const other = build.get(otherSide.category);
+      if (!other) {
+        return result('pass', createMessage('PART_NOT_SELECTED', { category: otherSide.category }));
+      }
+
+      // Virtual products (e.g. "use included cooler") are always compatible
+      const ignoredIds = rule.ignoreProductIds ?? [];
+      if (ignoredIds.includes(candidate.product.id) || ignoredIds.includes(other.product.id)) {
+        return result('pass', createMessage('NOT_APPLICABLE'));
+      }
+
+      const aPart = direction === 'forward' ? candidate : other;
+      const bPart = direction === 'forward' ? other : candidate;
+
+      // Rule doesn't apply to these parts (e.g. clearance check for an AIO)
+      if (!matchesCondition(aPart, rule.a.when) || !matchesCondition(bPart, rule.b.when)) {
+        return result('pass', createMessage('NOT_APPLICABLE'));
+      }
+
+      const a = aPart.spec[rule.a.field];
+      const b = bPart.spec[rule.b.field];
+
+      if (isMissing(a) || isMissing(b)) {
+        return result(rule.onMissing, { code: rule.messages.missing, params: {} } as RuleMessage);
+      }
+
+      // Passes on assumed values are downgraded by the engine, as for every rule
+      if (compareValues(rule, a, b)) {
+        return result('pass', createRuleMessage(rule, rule.messages.pass, a, b));
+      }
+
+      return result('fail', createRuleMessage(rule, rule.messages.fail, a, b));
+    },
+  };
+}
+
+/**
+ * Compile a declarative rule into its forward and reverse CompatibilityRules
+ */
+export function compileDeclarativeRule(
+  rule: DeclarativeRule
+): [CompatibilityRule, CompatibilityRule] {
+  return [compileDirection(rule, 'forward'), compileDirection(rule, 'reverse')];
+}
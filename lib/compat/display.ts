@@ -0,0 +1,167 @@
+/**
+ * Display Output
+ * Where the build's video signal comes from (a graphics card, or the CPU's iGPU
+ * through the motherboard's rear outputs) and whether it can drive the monitor
+ */
+
+import type { PCBuild, ProductSpec, VideoOutput, VideoPort } from './types';
+import { ENTRY_GPU_TIER, getGpuTier } from './balance';
+
+export const VIDEO_OUTPUTS: VideoOutput[] = ['HDMI', 'DisplayPort', 'DVI', 'VGA'];
+
+/**
+ * Whether the motherboard has rear video outputs; undefined when the listing doesn't say
+ */
+export function hasVideoOutputs(moboSpec?: ProductSpec): boolean | undefined {
+  return moboSpec?.videoOutputs ? moboSpec.videoOutputs.length > 0 : undefined;
+}
+
+// Video data rate per port version in Gbps, after line coding
+// Unversioned DVI is dual-link; VGA is rated like single-link DVI
+const PORT_BANDWIDTH: Record<VideoOutput, Record<string, number>> = {
+  HDMI: { '1.4': 8.16, '2.0': 14.4, '2.1': 42.67 },
+  DisplayPort: { '1.2': 17.28, '1.4': 25.92, '2.0': 77.37, '2.1': 77.37 },
+  DVI: { '': 7.92 },
+  VGA: { '': 3.96 },
+};
+
+// Version assumed when a listing names the port without one (the most common today)
+const DEFAULT_PORT_VERSIONS: Partial<Record<VideoOutput, string>> = {
+  HDMI: '2.0',
+  DisplayPort: '1.4',
+};
+
+// Ports that carry Display Stream Compression (about 3:1, visually lossless)
+const DSC_RATIO = 3;
+const DSC_PORTS: Partial<Record<VideoOutput, string[]>> = {
+  HDMI: ['2.1'],
+  DisplayPort: ['1.4', '2.0', '2.1'],
+};
+
+// Blanking overhead of reduced-blanking timings, and 8-bit RGB
+const BLANKING_OVERHEAD = 1.08;
+const BITS_PER_PIXEL = 24;
+
+// Outputs of reference boards per GPU series, when the listing doesn't say
+const GPU_SERIES_OUTPUTS: [RegExp, VideoPort[]][] = [
+  [/^RTX 50/, [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '2.1' }]],
+  [/^RTX [34]0/, [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }]],
+  [/^(?:RTX 20|GTX 1[06])/, [{ type: 'HDMI', version: '2.0' }, { type: 'DisplayPort', version: '1.4' }]],
+  [/^GT /, [{ type: 'HDMI', version: '2.0' }, { type: 'DVI' }]],
+  [/^RX [79]\d{3}/, [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '2.1' }]],
+  [/^RX 6\d{3}/, [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }]],
+  [/^RX 5\d{3}/, [{ type: 'HDMI', version: '2.0' }, { type: 'DisplayPort', version: '1.4' }]],
+  [/^Arc A/, [{ type: 'HDMI', version: '2.0' }, { type: 'DisplayPort', version: '2.0' }]],
+  [/^Arc B/, [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '2.1' }]],
+];
+
+// Displays that need a high-end GPU to be fed in games
+export const DEMANDING_DISPLAY_HEIGHT = 2160;
+export const DEMANDING_REFRESH_RATE = 240;
+
+/**
+ * Width and height of a resolution string ("2560x1440")
+ */
+export function parseResolution(resolution: string): { width: number; height: number } | undefined {
+  const match = resolution.match(/^(\d+)x(\d+)$/);
+  return match ? { width: parseInt(match[1]), height: parseInt(match[2]) } : undefined;
+}
+
+/**
+ * Data rate a display mode needs, in Gbps
+ */
+export function getRequiredBandwidth(width: number, height: number, refreshRate: number): number {
+  return (width * height * refreshRate * BITS_PER_PIXEL * BLANKING_OVERHEAD) / 1e9;
+}
+
+/**
+ * Version of a port, falling back to the common default ("2.1a" => "2.1")
+ */
+function getPortVersion(port: VideoPort): string {
+  return port.version?.match(/^\d\.\d/)?.[0] ?? DEFAULT_PORT_VERSIONS[port.type] ?? '';
+}
+
+/**
+ * Usable data rate of a port, in Gbps, with DSC where the version carries it
+ */
+function getPortBandwidth(port: VideoPort): number {
+  const version = getPortVersion(port);
+  const bandwidths = PORT_BANDWIDTH[port.type];
+  // Versions outside the table count as the closest lower one
+  const known = Object.keys(bandwidths).filter((v) => v <= version).sort().pop() ?? Object.keys(bandwidths)[0];
+  const dsc = DSC_PORTS[port.type]?.includes(known) ? DSC_RATIO : 1;
+  return bandwidths[known] * dsc;
+}
+
+/**
+ * Label of a port for messages ("HDMI 2.0", "DisplayPort 1.4", "VGA")
+ */
+export function formatVideoPort(port: VideoPort): string {
+  const version = getPortVersion(port);
+  return version ? `${port.type} ${version}` : port.type;
+}
+
+/**
+ * Outputs of a graphics card, from its listing or its chip series
+ */
+export function getGpuOutputs(gpuSpec: ProductSpec): VideoPort[] | undefined {
+  if (gpuSpec.gpuOutputs) return gpuSpec.gpuOutputs;
+  const chip = gpuSpec.gpuChip;
+  return chip ? GPU_SERIES_OUTPUTS.find(([pattern]) => pattern.test(chip))?.[1] : undefined;
+}
+
+/**
+ * Whether a GPU chip is entry-level (can't feed 4K or 240Hz displays in games)
+ * Chips outside the performance tier table are not flagged
+ */
+export function isEntryLevelGpu(gpuChip: string): boolean {
+  const tier = getGpuTier(gpuChip);
+  return tier !== undefined && tier <= ENTRY_GPU_TIER;
+}
+
+/**
+ * Outputs the monitor can be plugged into: the graphics card's, else the
+ * motherboard's for an iGPU; undefined when unknown
+ */
+export function getBuildVideoSource(build: PCBuild): { outputs: VideoPort[]; integrated: boolean } | undefined {
+  const gpu = build.get('gpu');
+  if (gpu) {
+    const outputs = getGpuOutputs(gpu.spec);
+    return outputs ? { outputs, integrated: false } : undefined;
+  }
+
+  const boardOutputs = build.get('motherboard')?.spec.videoOutputs;
+  if (build.get('cpu')?.spec.integratedGraphics && boardOutputs && boardOutputs.length > 0) {
+    return { outputs: boardOutputs.map((type) => ({ type })), integrated: true };
+  }
+  return undefined;
+}
+
+/**
+ * Best link between the source's outputs and the monitor's inputs
+ * Unlisted monitor inputs accept any output; each link runs at the slower end's rate
+ */
+export function getBestVideoLink(
+  outputs: VideoPort[],
+  inputs?: VideoPort[]
+): { port: VideoPort; bandwidth: number } | undefined {
+  let best: { port: VideoPort; bandwidth: number } | undefined;
+
+  for (const output of outputs) {
+    const input = inputs ? inputs.find((port) => port.type === output.type) : output;
+    if (!input) continue;
+
+    const slower = getPortBandwidth(input) < getPortBandwidth(output) ? input : output;
+    const bandwidth = getPortBandwidth(slower);
+    if (!best || bandwidth > best.bandwidth) best = { port: slower, bandwidth };
+  }
+
+  return best;
+}
+
+/**
+ * Highest refresh rate a link can carry at a resolution
+ */
+export function getMaxRefreshRate(bandwidth: number, width: number, height: number): number {
+  return Math.floor((bandwidth * 1e9) / (width * height * BITS_PER_PIXEL * BLANKING_OVERHEAD));
+}
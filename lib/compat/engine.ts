@@ -9,49 +9,122 @@ import type {
   ProductWithSpec,
   CompatibilityResult,
   RuleResult,
+  RuleContext,
+  RuleTrace,
   PCBuild,
 } from './types';
-import { extractSpecs } from './specs';
+import { extractSpecsWithProvenance } from './specs';
+import { applyCuratedSpec } from './curated';
 import { getRulesForCategory } from './rules';
+import { BUILD_RULES, getBuildRequiredCategories, getBuildRulesForCategory } from './buildRules';
+import { withCandidate } from './build';
+import { evaluateBuildBalance } from './balance';
+import { DEFAULT_POWER_OPTIONS, type PowerBudgetOptions } from './power';
+import { getCachedBuildRuleResult, getCachedProductWithSpec, getCachedRuleResult } from './memo';
+import { evaluateRecorded, traceRule } from './trace';
+import { hasAssumedSpecs } from './provenance';
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  getMessageKey,
+  type Locale,
+  type RuleMessage,
+} from './messages';
 
 /**
  * Create a ProductWithSpec from a Product and category
+ * Curated specs (see ./curated) override the extracted ones; provenance records which is which.
+ * Specs are extracted once per product object (see ./memo)
  */
 export function createProductWithSpec(
   product: Product,
   category: CategoryKey
 ): ProductWithSpec {
-  return {
-    product,
-    spec: extractSpecs(product, category),
-    category,
-  };
+  return getCachedProductWithSpec(product, category, () => {
+    const { spec, provenance } = applyCuratedSpec(product, category, extractSpecsWithProvenance(product, category));
+    return {
+      product,
+      spec,
+      category,
+      provenance,
+    };
+  });
+}
+
+/**
+ * Whether any selected part has an assumed spec value
+ */
+function hasAssumedBuildSpecs(build: PCBuild): boolean {
+  return (
+    [...build.values()].some(hasAssumedSpecs) ||
+    Object.values(build.items ?? {}).some((items) => items?.some((item) => hasAssumedSpecs(item.product)))
+  );
+}
+
+export interface EvaluationOptions {
+  trace?: boolean;             // Record how each rule got its result (see ./trace); bypasses the cache
+  power?: PowerBudgetOptions;  // PSU headroom; DEFAULT_POWER_OPTIONS when unset
 }
 
 /**
  * Evaluate a candidate product against the current build
+ * Warning and failure messages are rendered in the given locale.
+ * Rule results are reused until a part the rule depends on changes (see ./memo).
+ * When a part has assumed spec values, rules run on recorded parts so that a pass
+ * resting on one becomes a SPEC_ASSUMED warning (see ./provenance)
  */
 export function evaluateCompatibility(
   candidate: Product,
   candidateCategory: CategoryKey,
-  build: PCBuild
+  build: PCBuild,
+  locale: Locale = DEFAULT_LOCALE,
+  options: EvaluationOptions = {}
 ): CompatibilityResult {
   const candidateWithSpec = createProductWithSpec(candidate, candidateCategory);
   const rules = getRulesForCategory(candidateCategory);
+  const context: RuleContext = { power: options.power ?? DEFAULT_POWER_OPTIONS };
+  const hasAssumed = hasAssumedSpecs(candidateWithSpec) || hasAssumedBuildSpecs(build);
 
   const results: RuleResult[] = [];
   const warnings: string[] = [];
   const failures: string[] = [];
   let hasUnknownChecks = false;
 
-  for (const rule of rules) {
-    const result = rule.evaluate(candidateWithSpec, build);
+  // Whole-build constraints, checked as if the candidate were already selected
+  const buildRules = getBuildRulesForCategory(candidateCategory);
+  let buildWithCandidate: PCBuild | undefined;
+  let trace: RuleTrace[] | undefined;
+  let ruleResults: RuleResult[];
+
+  if (options.trace) {
+    trace = [...rules, ...buildRules].map((rule) => traceRule(rule, candidateWithSpec, build, context));
+    ruleResults = trace.map((entry) => entry.result);
+  } else {
+    ruleResults = [
+      ...rules.map((rule) =>
+        getCachedRuleResult(rule, candidateWithSpec, build, context, () =>
+          hasAssumed
+            ? evaluateRecorded(rule, candidateWithSpec, build, context).result
+            : rule.evaluate(candidateWithSpec, build, context)
+        )
+      ),
+      ...buildRules.map((rule) =>
+        getCachedRuleResult(rule, candidateWithSpec, build, context, () =>
+          hasAssumed
+            ? evaluateRecorded(rule, candidateWithSpec, build).result
+            : rule.evaluate((buildWithCandidate ??= withCandidate(build, candidateWithSpec)))
+        )
+      ),
+    ];
+  }
+
+  for (const result of ruleResults) {
     results.push(result);
 
     if (result.status === 'warn') {
-      warnings.push(result.reason);
+      warnings.push(formatMessage(result.message, locale));
     } else if (result.status === 'fail') {
-      failures.push(result.reason);
+      failures.push(formatMessage(result.message, locale));
     } else if (result.status === 'unknown') {
       hasUnknownChecks = true;
     }
@@ -64,6 +137,7 @@ export function evaluateCompatibility(
     warnings,
     failures,
     hasUnknownChecks,
+    ...(trace && { trace }),
   };
 }
 
@@ -75,11 +149,13 @@ export function filterByCompatibility(
   products: Product[],
   category: CategoryKey,
   build: PCBuild,
-  showIncompatible = false
+  showIncompatible = false,
+  locale: Locale = DEFAULT_LOCALE,
+  options: EvaluationOptions = {}
 ): Array<{ product: Product; compatibility: CompatibilityResult }> {
   const evaluated = products.map((product) => ({
     product,
-    compatibility: evaluateCompatibility(product, category, build),
+    compatibility: evaluateCompatibility(product, category, build, locale, options),
   }));
 
   // Filter out incompatible if requested
@@ -104,78 +180,93 @@ function getCompatibilityScore(compat: CompatibilityResult): number {
   return 2;
 }
 
+/**
+ * Collect results of a given status, skipping ones whose message was already seen
+ * Messages are compared by code and params, not by rendered text
+ */
+function collectMessages(
+  results: RuleResult[],
+  status: RuleResult['status'],
+  seen: Map<string, RuleResult>
+): void {
+  for (const result of results) {
+    if (result.status !== status) continue;
+    const key = getMessageKey(result.message);
+    if (!seen.has(key)) {
+      seen.set(key, result);
+    }
+  }
+}
+
 /**
  * Get a compatibility summary for the entire build
  */
 export function getBuildCompatibilitySummary(
-  build: PCBuild
+  build: PCBuild,
+  locale: Locale = DEFAULT_LOCALE,
+  options: Pick<EvaluationOptions, 'power'> = {}
 ): {
   isComplete: boolean;
   isCompatible: boolean;
+  requiredCategories: CategoryKey[];
+  buildResults: RuleResult[];
+  balanceResults: RuleResult[];
+  failureResults: RuleResult[]; // One failing result per entry in `failures`, in the same order
   warnings: string[];
   failures: string[];
+  messages: { warnings: RuleMessage[]; failures: RuleMessage[] };
 } {
-  const allWarnings: string[] = [];
-  const allFailures: string[] = [];
+  const warningMessages = new Map<string, RuleResult>();
+  const failureMessages = new Map<string, RuleResult>();
   let isCompatible = true;
 
   // Check each part against the rest of the build
   for (const [category, part] of build.entries()) {
-    const result = evaluateCompatibility(part.product, category, build);
-    allWarnings.push(...result.warnings);
-    
+    const result = evaluateCompatibility(part.product, category, build, locale, options);
+    collectMessages(result.results, 'warn', warningMessages);
+
     if (!result.allowed) {
       isCompatible = false;
-      allFailures.push(...result.failures);
+      collectMessages(result.results, 'fail', failureMessages);
     }
   }
 
-  // Deduplicate messages
-  const uniqueWarnings = [...new Set(allWarnings)];
-  const uniqueFailures = [...new Set(allFailures)];
-
-  // Check if build has minimum required parts
-  // GPU is required only if CPU doesn't have integrated graphics
-  const cpuPart = build.get('cpu');
-  const cpuHasGraphics = Array.isArray(cpuPart) 
-    ? cpuPart[0]?.spec.integratedGraphics 
-    : cpuPart?.spec.integratedGraphics;
-  const gpuRequired = !cpuHasGraphics; // GPU required if CPU has no integrated graphics
-  
-  // Cooler is required unless CPU explicitly includes one
-  const cpuIncludesCooler = Array.isArray(cpuPart) 
-    ? cpuPart[0]?.spec.includesCooler 
-    : cpuPart?.spec.includesCooler;
-  // IMPORTANT: If CPU doesn't explicitly say it includes a cooler (undefined or false), require one
-  const coolerRequired = cpuIncludesCooler !== true; // Cooler required unless CPU explicitly includes one
-  
-  // Base required categories
-  const baseRequired: CategoryKey[] = ['cpu', 'motherboard', 'ram', 'storage', 'psu', 'case'];
-  
-  // Add GPU if required
-  if (gpuRequired) {
-    baseRequired.push('gpu');
-  }
-  
-  // Add cooler if required
-  if (coolerRequired) {
-    baseRequired.push('cooler');
-  }
-  
-  const requiredCategories: CategoryKey[] = baseRequired;
-  
-  const isComplete = requiredCategories.every((cat) => build.has(cat));
-  
-  // Add specific error if cooler is required but not present
-  if (coolerRequired && !build.has('cooler')) {
-    uniqueFailures.push('El CPU seleccionado no incluye cooler. Debes agregar un cooler para CPU.');
+  // Whole-build rules: missing parts leave the build incomplete, conflicts make it incompatible
+  const hasAssumed = hasAssumedBuildSpecs(build);
+  const buildResults = BUILD_RULES.map((rule) =>
+    getCachedBuildRuleResult(rule, build, () =>
+      hasAssumed ? evaluateRecorded(rule, undefined, build).result : rule.evaluate(build)
+    )
+  );
+  collectMessages(buildResults, 'warn', warningMessages);
+  collectMessages(buildResults, 'fail', failureMessages);
+  if (BUILD_RULES.some((rule, i) => rule.kind === 'constraint' && buildResults[i].status === 'fail')) {
+    isCompatible = false;
   }
 
+  // CPU/GPU balance is advice, not compatibility: it is shown apart and never blocks the build
+  const balanceResults = evaluateBuildBalance(build);
+
+  const requiredCategories = getBuildRequiredCategories(build);
+  const isComplete = requiredCategories.every((category) => build.has(category));
+
+  // A message that fails the build (e.g., a candidate-level warning a build rule fails) is not also a warning
+  const warnings = [...warningMessages]
+    .filter(([key]) => !failureMessages.has(key))
+    .map(([, result]) => result.message);
+  const failureResults = [...failureMessages.values()];
+  const failures = failureResults.map((result) => result.message);
+
   return {
     isComplete,
     isCompatible,
-    warnings: uniqueWarnings,
-    failures: uniqueFailures,
+    requiredCategories,
+    buildResults,
+    balanceResults,
+    failureResults,
+    warnings: warnings.map((message) => formatMessage(message, locale)),
+    failures: failures.map((message) => formatMessage(message, locale)),
+    messages: { warnings, failures },
   };
 }
 
@@ -0,0 +1,109 @@
+/**
+ * Case Fans
+ * How many fans of each size a case takes, and what a set of fan packs needs
+ * from the motherboard (fan headers and lighting headers)
+ */
+
+import type { FanLighting, FanMount, ProductWithQuantity, RadiatorPosition } from './types';
+
+export interface FanMountOverflow {
+  fanSize: number;
+  fanCount: number;
+  mountCount: number;  // Fans of that size the case takes alongside the other sizes
+}
+
+/**
+ * Total fans in the selected packs (pack count times quantity)
+ */
+export function getTotalFans(items: ProductWithQuantity[]): number {
+  return items.reduce((sum, { product, quantity }) => sum + (product.spec.fanCount ?? 1) * quantity, 0);
+}
+
+/**
+ * Fans per size in the selected packs; packs of unlisted size are left out
+ */
+export function getFanCountsBySize(items: ProductWithQuantity[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const { product, quantity } of items) {
+    const size = product.spec.fanSize;
+    if (!size) continue;
+    counts.set(size, (counts.get(size) ?? 0) + (product.spec.fanCount ?? 1) * quantity);
+  }
+  return counts;
+}
+
+/**
+ * Most fans of a size the case takes, with every position holding that size
+ */
+export function getFanMountCapacity(mounts: FanMount[], size: number): number {
+  const best = new Map<RadiatorPosition, number>();
+  for (const mount of mounts) {
+    if (mount.size !== size) continue;
+    best.set(mount.position, Math.max(best.get(mount.position) ?? 0, mount.count));
+  }
+  return [...best.values()].reduce((sum, count) => sum + count, 0);
+}
+
+// Every way of picking one size option per position (positions are few, so this stays small)
+function getMountLayouts(mounts: FanMount[]): FanMount[][] {
+  const byPosition = new Map<RadiatorPosition, FanMount[]>();
+  for (const mount of mounts) {
+    byPosition.set(mount.position, [...(byPosition.get(mount.position) ?? []), mount]);
+  }
+
+  let layouts: FanMount[][] = [[]];
+  for (const options of byPosition.values()) {
+    layouts = layouts.flatMap((layout) => options.map((option) => [...layout, option]));
+  }
+  return layouts;
+}
+
+/**
+ * First fan size that doesn't fit the case, or undefined when all fans fit
+ * Each position holds one size at a time (a front that takes 3x120mm or 2x140mm can't hold both),
+ * so the layout that places the most fans is the one reported
+ */
+export function findFanMountOverflow(mounts: FanMount[], counts: Map<number, number>): FanMountOverflow | undefined {
+  let best: { placed: number; overflow?: FanMountOverflow } | undefined;
+
+  for (const layout of getMountLayouts(mounts)) {
+    let placed = 0;
+    let overflow: FanMountOverflow | undefined;
+
+    for (const [fanSize, fanCount] of [...counts.entries()].sort((a, b) => a[0] - b[0])) {
+      const mountCount = getFanMountCapacity(layout, fanSize);
+      placed += Math.min(fanCount, mountCount);
+      if (fanCount > mountCount && !overflow) {
+        overflow = { fanSize, fanCount, mountCount };
+      }
+    }
+
+    if (!overflow) return undefined;
+    if (!best || placed > best.placed) best = { placed, overflow };
+  }
+
+  return best?.overflow;
+}
+
+/**
+ * Motherboard fan headers the packs take: one per fan, or one per pack that brings its own hub
+ */
+export function getFanHeaderDemand(items: ProductWithQuantity[]): number {
+  return items.reduce(
+    (sum, { product, quantity }) => sum + (product.spec.fanHubIncluded ? 1 : product.spec.fanCount ?? 1) * quantity,
+    0
+  );
+}
+
+/**
+ * Lighting types that need a motherboard header (packs with their own hub/controller don't)
+ */
+export function getFanLightingNeeds(items: ProductWithQuantity[]): FanLighting[] {
+  const needs = new Set<FanLighting>();
+  for (const { product } of items) {
+    if (product.spec.fanLighting && !product.spec.fanHubIncluded) {
+      needs.add(product.spec.fanLighting);
+    }
+  }
+  return [...needs].sort();
+}
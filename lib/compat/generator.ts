@@ -0,0 +1,398 @@
+/**
+ * Build Generator
+ * Picks the best-scoring compatible build for a budget and a use case from a catalog.
+ * Categories are filled in dependency order (CPU, board, RAM, ...) with a beam search:
+ * only the most promising partial builds are expanded at each step.
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { Product } from '../mallweb/normalize';
+import type { PCBuild, ProductSpec, ProductWithSpec } from './types';
+import { createProductWithSpec, filterByCompatibility, getBuildCompatibilitySummary } from './engine';
+import { getBuildRequiredCategories } from './buildRules';
+import { getCpuTier, getGpuTier, MAX_TIER, type BalanceResolution } from './balance';
+import { withCandidate } from './build';
+import type { PowerBudgetOptions } from './power';
+
+export type UseCase = 'office' | 'gaming-1080p' | 'gaming-1440p' | 'streaming' | 'workstation';
+
+export const USE_CASES: UseCase[] = ['office', 'gaming-1080p', 'gaming-1440p', 'streaming', 'workstation'];
+
+export type CpuPlatform = 'AMD' | 'Intel';
+
+export interface UseCaseProfile {
+  label: string;
+  needsGpu: boolean;                               // Add a graphics card even when the CPU has integrated graphics
+  multithreaded: boolean;                          // CPU cores count as much as the gaming tier
+  resolution?: BalanceResolution;                  // Where CPU/GPU balance is checked
+  ramTarget: number;                               // GB from which more RAM adds nothing
+  storageTarget: number;                           // GB from which more storage adds nothing
+  weights: Partial<Record<CategoryKey, number>>;   // How much each category's performance counts
+  shares: Partial<Record<CategoryKey, number>>;    // Share of the budget a category is expected to take
+}
+
+export const USE_CASE_PROFILES: Record<UseCase, UseCaseProfile> = {
+  office: {
+    label: 'Oficina',
+    needsGpu: false,
+    multithreaded: false,
+    ramTarget: 16,
+    storageTarget: 500,
+    weights: { cpu: 1, gpu: 0.5, ram: 1, storage: 1 },
+    shares: { cpu: 0.3, motherboard: 0.2, ram: 0.12, gpu: 0.25, storage: 0.12, cooler: 0.08, case: 0.1, psu: 0.1 },
+  },
+  'gaming-1080p': {
+    label: 'Gaming 1080p',
+    needsGpu: true,
+    multithreaded: false,
+    resolution: '1080p',
+    ramTarget: 16,
+    storageTarget: 1000,
+    weights: { cpu: 1, gpu: 2, ram: 0.5, storage: 0.5 },
+    shares: { cpu: 0.2, motherboard: 0.12, ram: 0.08, gpu: 0.4, storage: 0.08, cooler: 0.05, case: 0.08, psu: 0.1 },
+  },
+  'gaming-1440p': {
+    label: 'Gaming 1440p',
+    needsGpu: true,
+    multithreaded: false,
+    resolution: '1440p',
+    ramTarget: 32,
+    storageTarget: 1000,
+    weights: { cpu: 1, gpu: 3, ram: 0.5, storage: 0.5 },
+    shares: { cpu: 0.18, motherboard: 0.12, ram: 0.08, gpu: 0.45, storage: 0.07, cooler: 0.05, case: 0.07, psu: 0.1 },
+  },
+  streaming: {
+    label: 'Streaming',
+    needsGpu: true,
+    multithreaded: true,
+    resolution: '1080p',
+    ramTarget: 32,
+    storageTarget: 2000,
+    weights: { cpu: 2, gpu: 1.5, ram: 1, storage: 0.5 },
+    shares: { cpu: 0.25, motherboard: 0.12, ram: 0.1, gpu: 0.3, storage: 0.08, cooler: 0.06, case: 0.07, psu: 0.1 },
+  },
+  workstation: {
+    label: 'Workstation',
+    needsGpu: false,
+    multithreaded: true,
+    ramTarget: 64,
+    storageTarget: 2000,
+    weights: { cpu: 3, gpu: 0.5, ram: 1.5, storage: 1 },
+    shares: { cpu: 0.35, motherboard: 0.15, ram: 0.15, gpu: 0.25, storage: 0.12, cooler: 0.08, case: 0.08, psu: 0.1 },
+  },
+};
+
+export interface BuildRequest {
+  budget: number;
+  useCase: UseCase;
+  platform?: CpuPlatform;
+  brands?: string[];                               // Preferred brands: a tie-breaker, never a filter
+  keep?: Partial<Record<CategoryKey, Product>>;    // Parts the build must include as they are
+  owned?: PCBuild;                                 // Parts the customer has: kept, but outside the budget
+  power?: PowerBudgetOptions;                      // PSU headroom; DEFAULT_POWER_OPTIONS when unset
+}
+
+export interface GeneratedBuild {
+  parts: Partial<Record<CategoryKey, Product>>;    // Owned parts aside
+  totalPrice: number;
+  score: number;
+  warnings: string[];
+}
+
+// Order in which categories are picked: each one is checked against the parts before it.
+// The PSU follows the GPU so that the wattage it needs is paid for before the cheaper parts
+export const GENERATION_ORDER: CategoryKey[] = ['cpu', 'motherboard', 'ram', 'gpu', 'psu', 'cooler', 'storage', 'case'];
+
+// Partial builds kept after each step, and candidates tried per build
+const BEAM_WIDTH = 8;
+const CANDIDATES_PER_STEP = 4;
+
+// A category may go this far over its share of the budget
+const SHARE_SLACK = 1.5;
+
+const BRAND_BONUS = 0.1;
+const WARNING_PENALTY = 0.05;
+const BALANCE_PENALTY = 0.5;
+
+// Core count from which a CPU gets the full multithreaded score
+const CORES_TARGET = 16;
+
+type BuildSummary = ReturnType<typeof getBuildCompatibilitySummary>;
+
+interface PartialBuild {
+  build: PCBuild;
+  price: number;
+  score: number;
+}
+
+/**
+ * Platform of a CPU from its socket: AM4/AM5 are AMD, LGA sockets are Intel
+ */
+export function getCpuPlatform(cpuSpec: ProductSpec): CpuPlatform | undefined {
+  if (!cpuSpec.socket) return undefined;
+  if (cpuSpec.socket.startsWith('AM')) return 'AMD';
+  if (cpuSpec.socket.startsWith('LGA')) return 'Intel';
+  return undefined;
+}
+
+/**
+ * Performance of a part for the use case, from 0 to 1
+ * Categories without a performance measure (board, case, PSU, cooler) score 0, so the cheapest wins
+ */
+function getPerformance(part: ProductWithSpec, profile: UseCaseProfile): number {
+  const { spec } = part;
+
+  switch (part.category) {
+    case 'cpu': {
+      const tier = (getCpuTier(spec) ?? 0) / MAX_TIER;
+      const cores = Math.min((spec.cores ?? 0) / CORES_TARGET, 1);
+      return profile.multithreaded ? (tier + cores) / 2 : tier || cores;
+    }
+    case 'gpu':
+      return spec.gpuChip ? (getGpuTier(spec.gpuChip) ?? 0) / MAX_TIER : 0;
+    case 'ram': {
+      const capacity = (spec.memoryCapacity ?? 0) * (spec.memoryModules ?? 1);
+      return Math.min(capacity / profile.ramTarget, 1) * 0.9 + (spec.memoryModules && spec.memoryModules > 1 ? 0.1 : 0);
+    }
+    case 'storage': {
+      const capacity = Math.min((spec.storageCapacity ?? 0) / profile.storageTarget, 1);
+      const speed = spec.storageInterface === 'NVMe' ? 0.3 : spec.storageType === 'SSD' ? 0.15 : 0;
+      return capacity * 0.7 + speed;
+    }
+    default:
+      return 0;
+  }
+}
+
+function getPartScore(part: ProductWithSpec, profile: UseCaseProfile, brands: string[]): number {
+  const weight = profile.weights[part.category] ?? 0;
+  const isPreferred = brands.includes(part.product.brand.toLowerCase());
+  return weight * getPerformance(part, profile) + (isPreferred ? BRAND_BONUS : 0);
+}
+
+/**
+ * Whether a partial build still needs a part of the category
+ */
+function needsCategory(build: PCBuild, category: CategoryKey, profile: UseCaseProfile): boolean {
+  if (build.has(category)) return false;
+  return (category === 'gpu' && profile.needsGpu) || getBuildRequiredCategories(build).includes(category);
+}
+
+/**
+ * Cheapest price the build will still pay for the categories after `step`
+ * A lower bound: the cheapest part of each category the build needs so far
+ */
+function getMinimumRemainingCost(
+  build: PCBuild,
+  step: number,
+  cheapest: Partial<Record<CategoryKey, number>>,
+  profile: UseCaseProfile
+): number {
+  return GENERATION_ORDER.slice(step + 1)
+    .filter((category) => needsCategory(build, category, profile))
+    .reduce((sum, category) => sum + (cheapest[category] ?? 0), 0);
+}
+
+/**
+ * Best candidates of a category for a partial build
+ * Candidates must be in stock, affordable and compatible with the build; each category
+ * keeps to its share of the budget, falling back to the cheapest affordable part
+ */
+function getCandidates(
+  state: PartialBuild,
+  category: CategoryKey,
+  products: Product[],
+  maxPrice: number,
+  request: BuildRequest,
+  brands: string[]
+): ProductWithSpec[] {
+  const profile = USE_CASE_PROFILES[request.useCase];
+  const affordable = products.filter((product) => product.stock > 0 && product.price <= maxPrice);
+  const compatible = filterByCompatibility(affordable, category, state.build, false, undefined, { power: request.power })
+    .map(({ product }) => createProductWithSpec(product, category))
+    .filter((part) => category !== 'cpu' || !request.platform || getCpuPlatform(part.spec) === request.platform)
+    .sort((a, b) => a.product.price - b.product.price || a.product.id.localeCompare(b.product.id));
+
+  if (compatible.length === 0) return [];
+
+  const shareCap = (profile.shares[category] ?? 0) * request.budget * SHARE_SLACK;
+  const withinShare = compatible.filter((part) => part.product.price <= shareCap);
+  const ranked = withinShare
+    .map((part) => ({ part, score: getPartScore(part, profile, brands) }))
+    .sort((a, b) => b.score - a.score || a.part.product.price - b.part.product.price)
+    .slice(0, CANDIDATES_PER_STEP)
+    .map(({ part }) => part);
+
+  // The cheapest part keeps a way out for builds short on budget
+  return ranked.includes(compatible[0]) ? ranked : [...ranked, compatible[0]];
+}
+
+function compareBuilds(a: PartialBuild, b: PartialBuild): number {
+  return b.score - a.score || a.price - b.price;
+}
+
+/**
+ * Score of a finished build: its parts, less warnings and CPU/GPU imbalance at the use case's resolution
+ */
+function getFinalScore(partsScore: number, summary: BuildSummary, profile: UseCaseProfile): number {
+  const isUnbalanced = summary.balanceResults.some(
+    (result) => result.ruleId === `balance-${profile.resolution}` && result.status === 'warn'
+  );
+  return partsScore - summary.warnings.length * WARNING_PENALTY - (isUnbalanced ? BALANCE_PENALTY : 0);
+}
+
+/**
+ * Score of a build for a use case, on the same scale as GeneratedBuild.score
+ */
+export function scoreBuild(build: PCBuild, useCase: UseCase, brands: string[] = []): number {
+  const profile = USE_CASE_PROFILES[useCase];
+  const preferred = brands.map((brand) => brand.toLowerCase());
+  const partsScore = [...build.values()].reduce((sum, part) => sum + getPartScore(part, profile, preferred), 0);
+  return getFinalScore(partsScore, getBuildCompatibilitySummary(build), profile);
+}
+
+interface Search {
+  catalog: Partial<Record<CategoryKey, Product[]>>;
+  request: BuildRequest;
+  profile: UseCaseProfile;
+  brands: string[];
+  cheapest: Partial<Record<CategoryKey, number>>;
+  owned: PCBuild;
+}
+
+/**
+ * Search setup and its starting beam: owned and kept parts
+ * Returns undefined when the kept parts alone go over budget
+ */
+function startSearch(
+  catalog: Partial<Record<CategoryKey, Product[]>>,
+  request: BuildRequest
+): { search: Search; beam: PartialBuild[] } | undefined {
+  const profile = USE_CASE_PROFILES[request.useCase];
+  const brands = (request.brands ?? []).map((brand) => brand.toLowerCase());
+
+  const cheapest: Partial<Record<CategoryKey, number>> = {};
+  for (const category of GENERATION_ORDER) {
+    const prices = (catalog[category] ?? []).filter((product) => product.stock > 0).map((product) => product.price);
+    if (prices.length > 0) cheapest[category] = Math.min(...prices);
+  }
+
+  // Owned and kept parts are in the build from the start; only kept ones count toward the budget
+  const owned: PCBuild = request.owned ?? new Map();
+  let initial: PartialBuild = {
+    build: owned,
+    price: 0,
+    score: [...owned.values()].reduce((sum, part) => sum + getPartScore(part, profile, brands), 0),
+  };
+  for (const [category, product] of Object.entries(request.keep ?? {}) as [CategoryKey, Product][]) {
+    const part = createProductWithSpec(product, category);
+    initial = {
+      build: withCandidate(initial.build, part),
+      price: initial.price + product.price,
+      score: initial.score + getPartScore(part, profile, brands),
+    };
+  }
+  if (initial.price > request.budget) return undefined;
+
+  return { search: { catalog, request, profile, brands, cheapest, owned }, beam: [initial] };
+}
+
+/**
+ * One beam step: fill GENERATION_ORDER[step] in every partial build and keep the best ones
+ */
+function expandBeam(search: Search, beam: PartialBuild[], step: number): PartialBuild[] {
+  const { catalog, request, profile, brands, cheapest } = search;
+  const category = GENERATION_ORDER[step];
+  const next: PartialBuild[] = [];
+
+  for (const state of beam) {
+    if (!needsCategory(state.build, category, profile)) {
+      next.push(state);
+      continue;
+    }
+
+    const maxPrice = request.budget - state.price - getMinimumRemainingCost(state.build, step, cheapest, profile);
+    for (const part of getCandidates(state, category, catalog[category] ?? [], maxPrice, request, brands)) {
+      next.push({
+        build: withCandidate(state.build, part),
+        price: state.price + part.product.price,
+        score: state.score + getPartScore(part, profile, brands),
+      });
+    }
+  }
+
+  return next.sort(compareBuilds).slice(0, BEAM_WIDTH);
+}
+
+/**
+ * Best complete, compatible build of the final beam
+ * The beam only checks each part against the ones before it: the whole build is checked last
+ */
+function finishSearch({ request, profile, owned }: Search, beam: PartialBuild[]): GeneratedBuild | undefined {
+  const results = beam
+    .map((state) => {
+      const summary = getBuildCompatibilitySummary(state.build, undefined, { power: request.power });
+      return { state: { ...state, score: getFinalScore(state.score, summary, profile) }, summary };
+    })
+    .filter(({ summary }) => summary.isComplete && summary.isCompatible)
+    .sort((a, b) => compareBuilds(a.state, b.state));
+
+  if (results.length === 0) return undefined;
+
+  const [{ state, summary }] = results;
+  return {
+    parts: Object.fromEntries(
+      [...state.build.entries()]
+        .filter(([category]) => !owned.has(category))
+        .map(([category, part]) => [category, part.product])
+    ),
+    totalPrice: state.price,
+    score: state.score,
+    warnings: summary.warnings,
+  };
+}
+
+/**
+ * Generate the best-scoring build for the request from the catalog
+ * Returns undefined when no complete, compatible build fits the budget
+ */
+export function generateBuild(
+  catalog: Partial<Record<CategoryKey, Product[]>>,
+  request: BuildRequest
+): GeneratedBuild | undefined {
+  const started = startSearch(catalog, request);
+  if (!started) return undefined;
+
+  let { beam } = started;
+  GENERATION_ORDER.forEach((_, step) => {
+    beam = expandBeam(started.search, beam, step);
+  });
+  return finishSearch(started.search, beam);
+}
+
+/**
+ * Resolves on a later task of the event loop, so the page can paint and handle input
+ */
+export function yieldToMain(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * generateBuild for the UI: the same search, giving the main thread back before each beam step
+ */
+export async function generateBuildAsync(
+  catalog: Partial<Record<CategoryKey, Product[]>>,
+  request: BuildRequest,
+  yieldControl: () => Promise<void> = yieldToMain
+): Promise<GeneratedBuild | undefined> {
+  const started = startSearch(catalog, request);
+  if (!started) return undefined;
+
+  let { beam } = started;
+  for (let step = 0; step < GENERATION_ORDER.length; step++) {
+    await yieldControl();
+    beam = expandBeam(started.search, beam, step);
+  }
+  await yieldControl();
+  return finishSearch(started.search, beam);
+}
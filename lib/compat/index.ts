@@ -5,5 +5,26 @@
 export * from './types';
 export * from './specs';
 export * from './rules';
+export * from './buildRules';
+export * from './declarative';
+export * from './messages';
+export * from './build';
+export * from './power';
+export * from './chipsets';
+export * from './memory';
+export * from './m2';
+export * from './pcie';
+export * from './connectors';
+export * from './radiators';
+export * from './display';
+export * from './fans';
+export * from './balance';
+export * from './curated';
+export * from './provenance';
+export * from './memo';
+export * from './trace';
+export * from './resolver';
+export * from './generator';
+export * from './upgrade';
 export * from './engine';
 
@@ -0,0 +1,113 @@
+/**
+ * M.2 Slots
+ * Per-slot capabilities of motherboard M.2 slots and which drive goes in which slot
+ */
+
+import type { M2SlotSpec, ProductSpec, ProductWithQuantity, ProductWithSpec } from './types';
+
+// Length of most M.2 drives, used to order drives whose listing doesn't say
+const COMMON_M2_LENGTH = 2280;
+
+export interface M2SlotAssignment {
+  slot: M2SlotSpec;
+  drive: ProductWithSpec;
+}
+
+export interface M2SlotPlan {
+  assignments: M2SlotAssignment[]; // Ordered by slot number
+  unassigned: ProductWithSpec[];   // Drives left without a free slot they fit in
+}
+
+/**
+ * Described slots that can hold a drive (E-key slots are for Wi-Fi cards)
+ */
+export function getStorageM2Slots(moboSpec: ProductSpec): M2SlotSpec[] {
+  return (moboSpec.m2SlotDetails ?? []).filter((slot) => slot.key !== 'E');
+}
+
+/**
+ * Whether a drive physically fits a slot; unlisted lengths are not checked
+ */
+export function fitsM2Slot(drive: ProductSpec, slot: M2SlotSpec): boolean {
+  return !slot.lengths || !drive.storageLength || slot.lengths.includes(drive.storageLength);
+}
+
+/**
+ * Whether the slot runs the drive below its PCIe generation (e.g., Gen5 drive in a Gen4 slot)
+ */
+export function isM2GenDowngrade(drive: ProductSpec, slot: M2SlotSpec): boolean {
+  return drive.storagePcieGen !== undefined && slot.pcieGen !== undefined && slot.pcieGen < drive.storagePcieGen;
+}
+
+// Slowest free slot that still runs the drive at full speed, else the fastest one it fits
+function pickSlot(drive: ProductSpec, free: M2SlotSpec[]): M2SlotSpec | undefined {
+  const fitting = free.filter((slot) => fitsM2Slot(drive, slot));
+  const fullSpeed = fitting.filter((slot) => !isM2GenDowngrade(drive, slot));
+
+  if (fullSpeed.length > 0) {
+    return fullSpeed.reduce((best, slot) => ((slot.pcieGen ?? Infinity) < (best.pcieGen ?? Infinity) ? slot : best));
+  }
+  return fitting.reduce<M2SlotSpec | undefined>(
+    (best, slot) => (!best || (slot.pcieGen ?? 0) > (best.pcieGen ?? 0) ? slot : best),
+    undefined
+  );
+}
+
+/**
+ * Assign the build's M.2 drives to the described slots greedily
+ * Longer drives go first (they fit the fewest slots), then newer PCIe generations
+ */
+export function assignM2Slots(moboSpec: ProductSpec, items: ProductWithQuantity[]): M2SlotPlan {
+  const drives = items
+    .filter(({ product }) => product.spec.storageConnectionType === 'M.2')
+    .flatMap(({ product, quantity }) => Array<ProductWithSpec>(quantity).fill(product))
+    .sort(
+      (a, b) =>
+        (b.spec.storageLength ?? COMMON_M2_LENGTH) - (a.spec.storageLength ?? COMMON_M2_LENGTH) ||
+        (b.spec.storagePcieGen ?? 0) - (a.spec.storagePcieGen ?? 0)
+    );
+
+  const free = [...getStorageM2Slots(moboSpec)].sort((a, b) => a.slot - b.slot);
+  const assignments: M2SlotAssignment[] = [];
+  const unassigned: ProductWithSpec[] = [];
+
+  for (const drive of drives) {
+    const slot = pickSlot(drive.spec, free);
+    if (!slot) {
+      unassigned.push(drive);
+      continue;
+    }
+    free.splice(free.indexOf(slot), 1);
+    assignments.push({ slot, drive });
+  }
+
+  return { assignments: assignments.sort((a, b) => a.slot.slot - b.slot.slot), unassigned };
+}
+
+/**
+ * Slot numbers the build's M.2 drives occupy
+ * Boards that describe their slots use the assignment above; otherwise drives fill slots in order
+ */
+export function getPopulatedM2Slots(moboSpec: ProductSpec, items: ProductWithQuantity[]): number[] {
+  if (getStorageM2Slots(moboSpec).length > 0) {
+    return assignM2Slots(moboSpec, items).assignments.map(({ slot }) => slot.slot);
+  }
+
+  const m2Drives = items
+    .filter(({ product }) => product.spec.storageConnectionType === 'M.2')
+    .reduce((sum, { quantity }) => sum + quantity, 0);
+  return Array.from({ length: m2Drives }, (_, i) => i + 1);
+}
+
+/**
+ * Slot labels per product id (e.g., "M.2_1"), for showing where each drive goes
+ */
+export function getM2SlotLabels(plan: M2SlotPlan): Map<string, string[]> {
+  const labels = new Map<string, string[]>();
+  for (const { slot, drive } of plan.assignments) {
+    const list = labels.get(drive.product.id) ?? [];
+    list.push(`M.2_${slot.slot}`);
+    labels.set(drive.product.id, list);
+  }
+  return labels;
+}
@@ -0,0 +1,120 @@
+/**
+ * Rule Result Cache
+ * Memoizes rule results per candidate, keyed by the parts each rule depends on,
+ * so that changing one part only re-runs the rules that look at its category
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { Product } from '../mallweb/normalize';
+import type { BuildRule, CompatibilityRule, PCBuild, ProductWithSpec, RuleContext, RuleResult } from './types';
+
+interface RuleCacheEntry {
+  signature: string;                                  // Parts the results were computed against
+  results: WeakMap<ProductWithSpec, RuleResult>;      // Per candidate
+  buildResult?: RuleResult;                           // Build rules evaluated on the build alone
+}
+
+// Parts are compared by reference: a part with the same id but other specs is a different part
+const partTokens = new WeakMap<object, number>();
+let nextPartToken = 1;
+
+// Only the latest signature is kept per rule, so the cache never outgrows the rule list
+let ruleCache = new WeakMap<CompatibilityRule | BuildRule, RuleCacheEntry>();
+let specCache = new WeakMap<Product, Partial<Record<CategoryKey, ProductWithSpec>>>();
+
+function getPartToken(part: object): number {
+  let token = partTokens.get(part);
+  if (token === undefined) {
+    token = nextPartToken++;
+    partTokens.set(part, token);
+  }
+  return token;
+}
+
+/**
+ * Categories a rule reads from the build
+ * Candidate rules also read their own category, for the parts already selected in it
+ */
+export function getRuleDependencies(rule: CompatibilityRule | BuildRule): CategoryKey[] {
+  return 'sourceCategory' in rule ? [rule.sourceCategory, ...rule.targetCategories] : rule.categories;
+}
+
+/**
+ * Identity of the parts and quantities selected in the given categories
+ */
+export function getDependencySignature(build: PCBuild, categories: CategoryKey[]): string {
+  return categories
+    .map((category) => {
+      const part = build.get(category);
+      const items = build.items?.[category] ?? [];
+      return [part ? getPartToken(part) : '', ...items.map((item) => `${getPartToken(item.product)}x${item.quantity}`)].join(',');
+    })
+    .join('|');
+}
+
+// Settings in the context are compared by reference too, and only for the rules that read them
+function getEntry(rule: CompatibilityRule | BuildRule, build: PCBuild, context?: RuleContext): RuleCacheEntry {
+  const dependencies = getDependencySignature(build, getRuleDependencies(rule));
+  const readsContext = context && 'usesContext' in rule && rule.usesContext;
+  const signature = readsContext ? `${dependencies}#${getPartToken(context.power)}` : dependencies;
+  let entry = ruleCache.get(rule);
+  if (!entry || entry.signature !== signature) {
+    entry = { signature, results: new WeakMap() };
+    ruleCache.set(rule, entry);
+  }
+  return entry;
+}
+
+/**
+ * Result of a rule for a candidate, reused while the parts the rule depends on stay the same
+ * For build rules, `build` is the build before adding the candidate
+ */
+export function getCachedRuleResult(
+  rule: CompatibilityRule | BuildRule,
+  candidate: ProductWithSpec,
+  build: PCBuild,
+  context: RuleContext,
+  evaluate: () => RuleResult
+): RuleResult {
+  const entry = getEntry(rule, build, context);
+  let result = entry.results.get(candidate);
+  if (!result) {
+    result = evaluate();
+    entry.results.set(candidate, result);
+  }
+  return result;
+}
+
+/**
+ * Result of a build rule on the build alone, reused while its parts stay the same
+ */
+export function getCachedBuildRuleResult(rule: BuildRule, build: PCBuild, evaluate: () => RuleResult): RuleResult {
+  const entry = getEntry(rule, build);
+  entry.buildResult ??= evaluate();
+  return entry.buildResult;
+}
+
+/**
+ * Spec of a product in a category, extracted once per product object
+ */
+export function getCachedProductWithSpec(
+  product: Product,
+  category: CategoryKey,
+  create: () => ProductWithSpec
+): ProductWithSpec {
+  let byCategory = specCache.get(product);
+  if (!byCategory) {
+    byCategory = {};
+    specCache.set(product, byCategory);
+  }
+  byCategory[category] ??= create();
+  return byCategory[category];
+}
+
+/**
+ * Drop every cached spec and rule result
+ */
+export function clearCompatibilityCache(): void {
+  ruleCache = new WeakMap();
+  specCache = new WeakMap();
+}
@@ -0,0 +1,74 @@
+/**
+ * Memory Support
+ * Official memory speeds per CPU generation, chipset limits and RAM totals
+ */
+
+import type { PCBuild, ProductWithQuantity, ProductWithSpec } from './types';
+import { getBuildItemsWithCandidate } from './build';
+
+// Official (JEDEC) memory speed in MT/s per CPU generation and memory type
+const CPU_MEMORY_SPEEDS: Record<string, Partial<Record<string, number>>> = {
+  'Ryzen 2000': { DDR4: 2933 },
+  'Ryzen 3000': { DDR4: 3200 },
+  'Ryzen 4000': { DDR4: 3200 },
+  'Ryzen 5000': { DDR4: 3200 },
+  'Ryzen 7000': { DDR5: 5200 },
+  'Ryzen 8000': { DDR5: 5200 },
+  'Ryzen 9000': { DDR5: 5600 },
+  '10th Gen': { DDR4: 2933 },
+  '11th Gen': { DDR4: 3200 },
+  '12th Gen': { DDR4: 3200, DDR5: 4800 },
+  '13th Gen': { DDR4: 3200, DDR5: 5600 },
+  '14th Gen': { DDR4: 3200, DDR5: 5600 },
+  '15th Gen': { DDR5: 6400 },
+};
+
+// Chipsets without memory overclocking: kits run at most at these speeds
+const LOCKED_CHIPSET_MEMORY_SPEEDS: Record<string, Partial<Record<string, number>>> = {
+  'A320': { DDR4: 2933 },
+  'H410': { DDR4: 2933 },
+  'B460': { DDR4: 2933 },
+  'H470': { DDR4: 2933 },
+  'H510': { DDR4: 3200 },
+  'H610': { DDR4: 3200, DDR5: 4800 },
+};
+
+/**
+ * Official memory speed of a CPU generation, if known
+ */
+export function getCpuMemorySpeed(cpuGeneration: string, memoryType: string): number | undefined {
+  return CPU_MEMORY_SPEEDS[cpuGeneration]?.[memoryType];
+}
+
+/**
+ * Maximum memory speed of a chipset without memory overclocking, if locked
+ */
+export function getChipsetMemorySpeedLimit(chipset: string, memoryType: string): number | undefined {
+  return LOCKED_CHIPSET_MEMORY_SPEEDS[chipset]?.[memoryType];
+}
+
+/**
+ * RAM items of the build, plus the candidate if it's a RAM kit not yet selected
+ */
+export function getRamItems(build: PCBuild, candidate?: ProductWithSpec): ProductWithQuantity[] {
+  return getBuildItemsWithCandidate(build, 'ram', candidate);
+}
+
+/**
+ * Total number of modules (sticks) across RAM items
+ */
+export function getTotalModules(items: ProductWithQuantity[]): number {
+  return items.reduce((sum, { product, quantity }) => sum + (product.spec.memoryModules ?? 1) * quantity, 0);
+}
+
+/**
+ * Total capacity in GB across RAM items, or undefined if any kit's capacity is unknown
+ */
+export function getTotalMemory(items: ProductWithQuantity[]): number | undefined {
+  let total = 0;
+  for (const { product, quantity } of items) {
+    if (!product.spec.memoryCapacity) return undefined;
+    total += product.spec.memoryCapacity * (product.spec.memoryModules ?? 1) * quantity;
+  }
+  return total;
+}
@@ -0,0 +1,549 @@
+/**
+ * Compatibility Messages
+ * Message codes, typed parameters and localized catalogs for rule results
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+
+export type Locale = 'es' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export const SUPPORTED_LOCALES: Locale[] = ['es', 'en'];
+
+type MessageParamValue = string | number | string[] | number[];
+
+/**
+ * Parameters carried by each message code
+ */
+export interface MessageParamMap {
+  // Generic
+  NOT_APPLICABLE: Record<string, never>;
+  PART_NOT_SELECTED: { category: CategoryKey };
+  DIMENSIONS_UNKNOWN: Record<string, never>;
+  SPEC_ASSUMED: { category: CategoryKey; specValue: string | number | string[] };
+
+  // CPU ↔ Motherboard
+  SOCKET_COMPATIBLE: { cpuSocket: string; moboSocket: string };
+  SOCKET_MISMATCH: { cpuSocket: string; moboSocket: string };
+  SOCKET_UNKNOWN: Record<string, never>;
+  CHIPSET_SUPPORTED: { cpuGeneration: string; chipset: string };
+  CHIPSET_BIOS_UPDATE: { cpuGeneration: string; chipset: string };
+  CHIPSET_UNSUPPORTED: { cpuGeneration: string; chipset: string };
+
+  // RAM ↔ Motherboard
+  MEMORY_TYPE_SUPPORTED: { ramType: string; moboMemoryTypes: string[] };
+  MEMORY_TYPE_MISMATCH: { ramType: string; moboMemoryTypes: string[] };
+  MEMORY_TYPE_UNKNOWN: Record<string, never>;
+  MEMORY_CAPACITY_OK: { totalMemory: number; maxMemory: number };
+  MEMORY_CAPACITY_EXCEEDED: { totalMemory: number; maxMemory: number };
+  MEMORY_SPEED_SUPPORTED: { memorySpeed: number };
+  MEMORY_SPEED_ABOVE_CPU_SPEC: { memorySpeed: number; cpuGeneration: string; supportedSpeed: number };
+  MEMORY_SPEED_CHIPSET_LOCKED: { memorySpeed: number; chipset: string; supportedSpeed: number };
+  MEMORY_MIXED_SPEEDS: { speeds: number[] };
+  MEMORY_MIXED_LATENCIES: { latencies: string[] };
+  MEMORY_MIXED_CAPACITIES: { capacities: number[] };
+  MEMORY_DUAL_CHANNEL: { modules: number };
+  MEMORY_SINGLE_CHANNEL: Record<string, never>;
+  MEMORY_ODD_MODULES: { modules: number };
+
+  // Motherboard ↔ Case
+  FORM_FACTOR_COMPATIBLE: { moboFormFactor: string; caseFormFactors: string[] };
+  FORM_FACTOR_MISMATCH: { moboFormFactor: string; caseFormFactors: string[] };
+  FORM_FACTOR_UNKNOWN: Record<string, never>;
+
+  // GPU ↔ Case
+  GPU_LENGTH_FITS: { gpuLength: number; maxGpuLength: number };
+  GPU_TOO_LONG: { gpuLength: number; maxGpuLength: number };
+  GPU_SLOTS_FIT: { gpuSlots: number; expansionSlots: number };
+  GPU_TOO_THICK: { gpuSlots: number; expansionSlots: number };
+
+  // GPU ↔ Motherboard / PSU
+  PCIE_LINK_OK: { gpuInterface: string; pciExpressVersion: string };
+  PCIE_BANDWIDTH_LIMITED: { gpuInterface: string; pciExpressVersion: string };
+  GPU_POWER_CONNECTORS_OK: { gpuPowerConnectors: string[] };
+  GPU_POWER_CONNECTORS_INSUFFICIENT: { requiredConnectors: number; availableConnectors: number };
+  GPU_12VHPWR_ADAPTER: Record<string, never>;
+
+  // PSU ↔ Motherboard / Storage / Case
+  EPS_CONNECTORS_OK: { requiredConnectors: number; availableConnectors: number };
+  EPS_CONNECTORS_INSUFFICIENT: { requiredConnectors: number; availableConnectors: number };
+  EPS_CONNECTORS_LIKELY_INSUFFICIENT: { chipset: string; availableConnectors: number };
+  SATA_POWER_OK: { sataDrives: number; sataConnectors: number };
+  SATA_POWER_INSUFFICIENT: { sataDrives: number; sataConnectors: number };
+  PSU_FORM_FACTOR_COMPATIBLE: { psuFormFactor: string; casePsuFormFactors: string[] };
+  PSU_FORM_FACTOR_MISMATCH: { psuFormFactor: string; casePsuFormFactors: string[] };
+  PSU_SFX_BRACKET: { psuFormFactor: string };
+  PSU_LENGTH_FITS: { psuLength: number; maxPsuLength: number };
+  PSU_TOO_LONG: { psuLength: number; maxPsuLength: number };
+
+  // Cooler ↔ CPU / Case
+  COOLER_SOCKET_SUPPORTED: { cpuSocket: string; coolerSockets: string[] };
+  COOLER_SOCKET_MISMATCH: { cpuSocket: string; coolerSockets: string[] };
+  COOLER_SOCKET_UNKNOWN: Record<string, never>;
+  COOLER_HEIGHT_FITS: { coolerHeight: number; maxCoolerHeight: number };
+  COOLER_TOO_TALL: { coolerHeight: number; maxCoolerHeight: number };
+  COOLER_REQUIRED: Record<string, never>;
+  COOLER_TDP_SUFFICIENT: { coolerTdp: number; cpuPower: number };
+  COOLER_TDP_TIGHT: { coolerTdp: number; cpuPower: number };
+  COOLER_TDP_INSUFFICIENT: { coolerTdp: number; cpuTdp: number };
+
+  // RAM ↔ Cooler
+  RAM_CLEARANCE_OK: { memoryHeight: number; ramClearance: number };
+  RAM_CLEARANCE_EXCEEDED: { memoryHeight: number; ramClearance: number };
+  RAM_CLEARANCE_DUAL_TOWER: { memoryHeight: number };
+
+  // Case included PSU ↔ GPU
+  INCLUDED_PSU_TIGHT: { psuWattage: number; requiredWattage: number };
+  INCLUDED_PSU_SUFFICIENT: { psuWattage: number; requiredWattage: number };
+  INCLUDED_PSU_INSUFFICIENT: { psuWattage: number; requiredWattage: number };
+
+  // PSU ↔ GPU / Build
+  PSU_WATTAGE_UNKNOWN: Record<string, never>;
+  GPU_PSU_REQUIREMENT_UNKNOWN: Record<string, never>;
+  PSU_GPU_TIGHT: { psuWattage: number; requiredWattage: number };
+  PSU_GPU_SUFFICIENT: { psuWattage: number; requiredWattage: number };
+  PSU_GPU_INSUFFICIENT: { psuWattage: number; requiredWattage: number };
+  NO_CPU_OR_GPU: Record<string, never>;
+  PSU_SUFFICIENT: { psuWattage: number; estimatedPower: number; recommendedPsu: number };
+  PSU_TIGHT: { psuWattage: number; estimatedPower: number; recommendedPsu: number };
+  PSU_INSUFFICIENT: { psuWattage: number; estimatedPower: number; recommendedPsu: number };
+  PSU_TRANSIENT_TIGHT: { psuWattage: number; transientPower: number };
+
+  // AIO ↔ Case
+  AIO_SIZE_UNKNOWN: Record<string, never>;
+  RADIATOR_SUPPORTED: { aioSize: number; maxRadiatorSize: number };
+  RADIATOR_TOO_LARGE: { aioSize: number; maxRadiatorSize: number };
+  RADIATOR_SIZE_UNVERIFIED: { aioSize: number };
+  WATERCOOLING_NOT_SUPPORTED: { aioSize: number };
+  RADIATOR_PLACEMENT_OK: { aioSize: number; radiatorPosition: string };
+  RADIATOR_FRONT_GPU_CONFLICT: { aioSize: number; gpuLength: number; maxGpuLength: number };
+  RADIATOR_TOP_RAM_CONFLICT: { aioSize: number; memoryHeight: number };
+  RADIATOR_TOP_VRM_CONFLICT: { aioSize: number; chipset: string };
+
+  // Storage ↔ Motherboard
+  M2_NO_SLOTS: Record<string, never>;
+  M2_SLOTS_AVAILABLE: { m2Slots: number };
+
+  // Whole build
+  GPU_REQUIRED: Record<string, never>;
+  BOARD_NO_VIDEO_OUTPUTS: Record<string, never>;
+  IGPU_VIDEO_OUTPUTS: { videoOutputs: string[] };
+  MEMORY_SLOTS_OK: { modules: number; memorySlots: number };
+  MEMORY_SLOTS_EXCEEDED: { modules: number; memorySlots: number };
+  M2_SLOTS_OK: { m2Drives: number; m2Slots: number };
+  M2_SLOTS_EXCEEDED: { m2Drives: number; m2Slots: number };
+  SATA_PORTS_OK: { sataDrives: number; sataPorts: number };
+  SATA_PORTS_EXCEEDED: { sataDrives: number; sataPorts: number };
+  SATA_PORTS_SHARED: { sataDrives: number; sataPorts: number; m2Drives: number };
+  DRIVE_BAYS_OK: { drives: number; bays: number };
+  DRIVE_BAYS_35_EXCEEDED: { drives: number; bays: number };
+  DRIVE_BAYS_25_EXCEEDED: { drives: number; bays: number };
+  DRIVE_BAYS_25_IN_35: { drives: number; bays: number };
+  M2_SLOT_ASSIGNMENT: { assignment: string };
+  M2_LENGTH_UNSUPPORTED: { storageLength: number; m2Lengths: number[] };
+  M2_GEN_DOWNGRADE: { storagePcieGen: number; slotPcieGen: number; m2Slot: number };
+  MONITOR_OUTPUT_OK: { monitorResolution: string; monitorRefreshRate: number; videoPort: string };
+  MONITOR_NO_COMMON_PORT: { videoOutputs: string[]; monitorInputs: string[] };
+  MONITOR_BANDWIDTH_LIMITED: { monitorResolution: string; monitorRefreshRate: number; videoPort: string; maxRefreshRate: number };
+  MONITOR_GPU_UNDERPOWERED: { gpuChip: string; monitorResolution: string; monitorRefreshRate: number };
+  MONITOR_IGPU_UNDERPOWERED: { monitorResolution: string; monitorRefreshRate: number };
+  FAN_MOUNTS_OK: { fanCount: number };
+  FAN_MOUNTS_EXCEEDED: { fanSize: number; fanCount: number; mountCount: number };
+  FAN_LIGHTING_OK: { fanLighting: string[] };
+  FAN_LIGHTING_HEADER_MISSING: { fanLighting: string };
+  FAN_LIGHTING_HEADER_MISMATCH: { fanLighting: string; boardLighting: string };
+  FAN_HEADERS_OK: { fanHeadersNeeded: number; fanHeaders: number };
+  FAN_HEADERS_SHORT: { fanHeadersNeeded: number; fanHeaders: number };
+
+  // CPU ↔ GPU balance
+  BALANCE_OK: { resolution: string };
+  BALANCE_CPU_BOUND: { resolution: string; cpuModel: string; gpuChip: string };
+  BALANCE_CPU_BOTTLENECK: { resolution: string; cpuModel: string; gpuChip: string };
+  BALANCE_GPU_BOUND: { resolution: string; cpuModel: string; gpuChip: string };
+  BALANCE_GPU_BOTTLENECK: { resolution: string; cpuModel: string; gpuChip: string };
+}
+
+export type MessageCode = keyof MessageParamMap;
+
+/**
+ * A structured message: a code plus the parameters its template needs
+ */
+export type RuleMessage = {
+  [C in MessageCode]: { code: C; params: MessageParamMap[C] };
+}[MessageCode];
+
+type MessageTemplate<C extends MessageCode> = string | ((params: MessageParamMap[C]) => string);
+
+export type MessageCatalog = { [C in MessageCode]: MessageTemplate<C> };
+
+const CATEGORY_LABELS: Record<Locale, Partial<Record<CategoryKey, string>>> = {
+  es: {
+    cpu: 'No hay CPU seleccionado',
+    motherboard: 'No hay motherboard seleccionado',
+    ram: 'No hay RAM seleccionada',
+    gpu: 'No hay GPU seleccionada',
+    storage: 'No hay almacenamiento seleccionado',
+    psu: 'No hay fuente seleccionada',
+    case: 'No hay gabinete seleccionado',
+    cooler: 'No hay cooler seleccionado',
+  },
+  en: {
+    cpu: 'No CPU selected',
+    motherboard: 'No motherboard selected',
+    ram: 'No RAM selected',
+    gpu: 'No GPU selected',
+    storage: 'No storage selected',
+    psu: 'No power supply selected',
+    case: 'No case selected',
+    cooler: 'No cooler selected',
+  },
+};
+
+const PART_NAMES: Record<Locale, Partial<Record<CategoryKey, string>>> = {
+  es: {
+    cpu: 'el CPU',
+    motherboard: 'el motherboard',
+    ram: 'la RAM',
+    gpu: 'la GPU',
+    storage: 'el almacenamiento',
+    psu: 'la fuente',
+    case: 'el gabinete',
+    cooler: 'el cooler',
+  },
+  en: {
+    cpu: 'the CPU',
+    motherboard: 'the motherboard',
+    ram: 'the RAM',
+    gpu: 'the GPU',
+    storage: 'the storage',
+    psu: 'the power supply',
+    case: 'the case',
+    cooler: 'the cooler',
+  },
+};
+
+const RADIATOR_POSITION_LABELS: Record<Locale, Record<string, string>> = {
+  es: { front: 'al frente', top: 'arriba', side: 'al costado', rear: 'atrás', bottom: 'abajo' },
+  en: { front: 'at the front', top: 'at the top', side: 'on the side', rear: 'at the rear', bottom: 'at the bottom' },
+};
+
+const ES_MESSAGES: MessageCatalog = {
+  NOT_APPLICABLE: '',
+  PART_NOT_SELECTED: ({ category }) => CATEGORY_LABELS.es[category] ?? '',
+  DIMENSIONS_UNKNOWN: 'No se pudieron verificar dimensiones',
+  SPEC_ASSUMED: ({ category, specValue }) =>
+    `Compatible asumiendo ${formatParam(specValue)} para ${PART_NAMES.es[category] ?? category}, que no lo especifica. Verificá manualmente.`,
+
+  SOCKET_COMPATIBLE: 'Socket {cpuSocket} compatible',
+  SOCKET_MISMATCH: 'Socket incompatible: CPU usa {cpuSocket}, motherboard usa {moboSocket}',
+  SOCKET_UNKNOWN: 'No se pudo determinar la compatibilidad de socket. Verificá manualmente.',
+  CHIPSET_SUPPORTED: 'Chipset {chipset} soporta CPUs {cpuGeneration}',
+  CHIPSET_BIOS_UPDATE: 'Chipset {chipset} con CPU {cpuGeneration}: puede requerir actualización de BIOS. Verificá la versión de BIOS del motherboard.',
+  CHIPSET_UNSUPPORTED: 'Chipset incompatible: {chipset} no soporta CPUs {cpuGeneration}',
+
+  MEMORY_TYPE_SUPPORTED: 'Memoria {ramType} soportada por el motherboard',
+  MEMORY_TYPE_MISMATCH: 'Memoria incompatible: RAM es {ramType}, motherboard soporta {moboMemoryTypes}',
+  MEMORY_TYPE_UNKNOWN: 'No se pudo determinar la compatibilidad de memoria. Verificá manualmente.',
+  MEMORY_CAPACITY_OK: '{totalMemory}GB de RAM dentro del máximo del motherboard ({maxMemory}GB)',
+  MEMORY_CAPACITY_EXCEEDED: 'Demasiada RAM: {totalMemory}GB en total, el motherboard soporta hasta {maxMemory}GB',
+  MEMORY_SPEED_SUPPORTED: 'Velocidad de memoria {memorySpeed} MHz soportada',
+  MEMORY_SPEED_ABOVE_CPU_SPEC: 'RAM de {memorySpeed} MHz supera la velocidad oficial de CPUs {cpuGeneration} ({supportedSpeed} MHz). Requiere XMP/EXPO y la estabilidad no está garantizada.',
+  MEMORY_SPEED_CHIPSET_LOCKED: 'El chipset {chipset} no permite overclock de memoria: la RAM de {memorySpeed} MHz funcionará a {supportedSpeed} MHz',
+  MEMORY_MIXED_SPEEDS: 'Kits de RAM con distintas velocidades ({speeds} MHz). Todos funcionarán a la velocidad del más lento y pueden ser inestables.',
+  MEMORY_MIXED_LATENCIES: 'Kits de RAM con distinta latencia ({latencies}). Se recomienda usar módulos idénticos.',
+  MEMORY_MIXED_CAPACITIES: 'Módulos de RAM de distinta capacidad ({capacities}GB). Puede impedir el modo dual channel.',
+  MEMORY_DUAL_CHANNEL: '{modules} módulos de RAM: dual channel',
+  MEMORY_SINGLE_CHANNEL: 'Un solo módulo de RAM funciona en single channel. Se recomiendan 2 módulos para mejor rendimiento.',
+  MEMORY_ODD_MODULES: '{modules} módulos de RAM: con una cantidad impar no se aprovecha el dual channel completo',
+
+  FORM_FACTOR_COMPATIBLE: 'Form factor {moboFormFactor} compatible con gabinete',
+  FORM_FACTOR_MISMATCH: 'Form factor incompatible: Motherboard es {moboFormFactor}, gabinete soporta {caseFormFactors}',
+  FORM_FACTOR_UNKNOWN: 'No se pudo verificar form factor',
+
+  GPU_LENGTH_FITS: 'GPU ({gpuLength}mm) entra en gabinete (max {maxGpuLength}mm)',
+  GPU_TOO_LONG: 'GPU demasiado larga: GPU es {gpuLength}mm, gabinete soporta hasta {maxGpuLength}mm',
+  GPU_SLOTS_FIT: 'GPU de {gpuSlots} slots entra en las {expansionSlots} ranuras de expansión del gabinete',
+  GPU_TOO_THICK: 'GPU demasiado gruesa: ocupa {gpuSlots} slots, el gabinete tiene {expansionSlots} ranuras de expansión',
+
+  PCIE_LINK_OK: 'GPU {gpuInterface} en slot PCIe {pciExpressVersion} sin pérdida de ancho de banda',
+  PCIE_BANDWIDTH_LIMITED: 'GPU {gpuInterface} en un motherboard PCIe {pciExpressVersion}: con menos carriles, pierde ancho de banda y rendimiento',
+  GPU_POWER_CONNECTORS_OK: 'La fuente tiene los conectores que necesita la GPU ({gpuPowerConnectors})',
+  GPU_POWER_CONNECTORS_INSUFFICIENT: 'La GPU necesita {requiredConnectors} conectores PCIe de 8 pines y la fuente tiene {availableConnectors}',
+  GPU_12VHPWR_ADAPTER: 'La GPU usa un conector 12VHPWR/12V-2x6 y la fuente no tiene uno nativo. Requiere el adaptador incluido con la GPU.',
+
+  EPS_CONNECTORS_OK: 'La fuente tiene {availableConnectors} conector(es) EPS para CPU, el motherboard usa {requiredConnectors}',
+  EPS_CONNECTORS_INSUFFICIENT: 'El motherboard necesita {requiredConnectors} conectores EPS de 8 pines para CPU y la fuente tiene {availableConnectors}',
+  EPS_CONNECTORS_LIKELY_INSUFFICIENT: 'Los motherboards {chipset} suelen usar 8+8 pines para CPU y la fuente tiene {availableConnectors} conector(es) EPS. Verificá el manual del motherboard.',
+  SATA_POWER_OK: 'La fuente tiene {sataConnectors} conectores SATA para {sataDrives} disco(s)',
+  SATA_POWER_INSUFFICIENT: '{sataDrives} discos SATA y la fuente tiene {sataConnectors} conectores SATA. Vas a necesitar adaptadores.',
+  PSU_FORM_FACTOR_COMPATIBLE: 'Fuente {psuFormFactor} compatible con el gabinete ({casePsuFormFactors})',
+  PSU_FORM_FACTOR_MISMATCH: 'Fuente {psuFormFactor} no entra en el gabinete, que solo acepta fuentes {casePsuFormFactors}',
+  PSU_SFX_BRACKET: 'Fuente {psuFormFactor} en un gabinete ATX: requiere un bracket adaptador SFX a ATX',
+  PSU_LENGTH_FITS: 'La fuente ({psuLength}mm) entra en el gabinete (hasta {maxPsuLength}mm)',
+  PSU_TOO_LONG: 'Fuente demasiado larga: mide {psuLength}mm, el gabinete soporta hasta {maxPsuLength}mm',
+
+  COOLER_SOCKET_SUPPORTED: 'Cooler soporta socket {cpuSocket}',
+  COOLER_SOCKET_MISMATCH: 'Cooler incompatible: Soporta {coolerSockets}, CPU usa {cpuSocket}',
+  COOLER_SOCKET_UNKNOWN: 'No se pudo verificar compatibilidad de socket del cooler. Verificá manualmente.',
+  COOLER_HEIGHT_FITS: 'Cooler ({coolerHeight}mm) entra en gabinete (max {maxCoolerHeight}mm)',
+  COOLER_TOO_TALL: 'Cooler muy alto: {coolerHeight}mm, gabinete soporta hasta {maxCoolerHeight}mm',
+  COOLER_REQUIRED: 'El CPU seleccionado no incluye cooler. Debes agregar un cooler para CPU.',
+  COOLER_TDP_SUFFICIENT: 'Cooler de {coolerTdp}W suficiente para el consumo sostenido del CPU ({cpuPower}W)',
+  COOLER_TDP_TIGHT: 'Cooler de {coolerTdp}W por debajo del consumo sostenido del CPU ({cpuPower}W). El CPU puede reducir su frecuencia bajo carga.',
+  COOLER_TDP_INSUFFICIENT: 'Cooler insuficiente: soporta {coolerTdp}W y el CPU tiene un TDP de {cpuTdp}W',
+
+  RAM_CLEARANCE_OK: 'La RAM ({memoryHeight}mm) entra debajo del cooler (hasta {ramClearance}mm)',
+  RAM_CLEARANCE_EXCEEDED: 'RAM demasiado alta para el cooler: mide {memoryHeight}mm y el cooler deja {ramClearance}mm. Hay que subir el ventilador frontal.',
+  RAM_CLEARANCE_DUAL_TOWER: 'RAM de {memoryHeight}mm con un cooler de doble torre: verificá el espacio libre para la RAM',
+
+  INCLUDED_PSU_TIGHT: 'Fuente incluida de {psuWattage}W cumple con los {requiredWattage}W requeridos, pero está justa. Se recomienda una fuente mayor.',
+  INCLUDED_PSU_SUFFICIENT: 'Fuente incluida de {psuWattage}W cumple con los {requiredWattage}W requeridos por la GPU',
+  INCLUDED_PSU_INSUFFICIENT: 'Fuente incluida insuficiente: {psuWattage}W. La GPU requiere mínimo {requiredWattage}W',
+
+  PSU_WATTAGE_UNKNOWN: 'No se pudo determinar el wattage de la fuente. Verificá manualmente.',
+  GPU_PSU_REQUIREMENT_UNKNOWN: 'La GPU no especifica potencia mínima requerida. Verificá manualmente.',
+  PSU_GPU_TIGHT: 'Fuente de {psuWattage}W cumple con los {requiredWattage}W requeridos, pero está justa. Se recomienda mayor potencia para mayor margen.',
+  PSU_GPU_SUFFICIENT: 'Fuente de {psuWattage}W cumple con los {requiredWattage}W requeridos por la GPU',
+  PSU_GPU_INSUFFICIENT: 'Fuente insuficiente: {psuWattage}W. La GPU requiere mínimo {requiredWattage}W',
+  NO_CPU_OR_GPU: 'No hay CPU ni GPU para evaluar',
+  PSU_SUFFICIENT: 'Fuente de {psuWattage}W suficiente (estimado: {estimatedPower}W, recomendado: {recommendedPsu}W)',
+  PSU_TIGHT: 'Fuente de {psuWattage}W puede ser justa. Estimado: {estimatedPower}W, recomendado: {recommendedPsu}W',
+  PSU_INSUFFICIENT: 'Fuente insuficiente: {psuWattage}W. Estimado: {estimatedPower}W, recomendado: {recommendedPsu}W',
+  PSU_TRANSIENT_TIGHT: 'Fuente de {psuWattage}W puede apagarse con los picos transitorios de la GPU (hasta {transientPower}W). Se recomienda mayor potencia.',
+
+  AIO_SIZE_UNKNOWN: 'No se pudo determinar el tamaño del radiador del AIO. Verificá manualmente la compatibilidad con el gabinete.',
+  RADIATOR_SUPPORTED: 'Gabinete soporta radiador de {aioSize}mm (máximo: {maxRadiatorSize}mm)',
+  RADIATOR_TOO_LARGE: 'Radiador de {aioSize}mm no compatible. Gabinete soporta hasta {maxRadiatorSize}mm',
+  RADIATOR_SIZE_UNVERIFIED: 'Gabinete soporta water cooling, pero no se pudo verificar el tamaño del radiador ({aioSize}mm). Verificá manualmente.',
+  WATERCOOLING_NOT_SUPPORTED: 'Gabinete no indica soporte para water cooling/AIO. El radiador de {aioSize}mm podría no ser compatible.',
+  RADIATOR_PLACEMENT_OK: ({ aioSize, radiatorPosition }) =>
+    `El radiador de ${aioSize}mm se puede montar ${RADIATOR_POSITION_LABELS.es[radiatorPosition] ?? radiatorPosition} sin interferencias`,
+  RADIATOR_FRONT_GPU_CONFLICT: 'Con el radiador de {aioSize}mm al frente quedan {maxGpuLength}mm para la GPU y mide {gpuLength}mm',
+  RADIATOR_TOP_RAM_CONFLICT: 'El radiador de {aioSize}mm arriba puede chocar con la RAM de {memoryHeight}mm. Verificá el espacio libre superior.',
+  RADIATOR_TOP_VRM_CONFLICT: 'El radiador de {aioSize}mm arriba puede chocar con los disipadores del VRM del motherboard {chipset}. Verificá el espacio libre superior.',
+
+  M2_NO_SLOTS: 'La motherboard no tiene slots M.2 disponibles. Este disco M.2 no es compatible.',
+  M2_SLOTS_AVAILABLE: 'Motherboard tiene {m2Slots} slot(s) M.2',
+
+  GPU_REQUIRED: 'El CPU seleccionado no tiene gráficos integrados. Debes agregar una placa de video.',
+  BOARD_NO_VIDEO_OUTPUTS: 'El motherboard no tiene salidas de video para los gráficos integrados del CPU. Debes agregar una placa de video.',
+  IGPU_VIDEO_OUTPUTS: 'Video por los gráficos integrados del CPU y las salidas del motherboard ({videoOutputs})',
+  MEMORY_SLOTS_OK: '{modules} módulo(s) de RAM en {memorySlots} slots del motherboard',
+  MEMORY_SLOTS_EXCEEDED: 'Demasiados módulos de RAM: {modules} módulos, el motherboard tiene {memorySlots} slots',
+  M2_SLOTS_OK: '{m2Drives} disco(s) M.2 en {m2Slots} slot(s) M.2 del motherboard',
+  M2_SLOTS_EXCEEDED: 'Demasiados discos M.2: {m2Drives} discos, el motherboard tiene {m2Slots} slot(s) M.2',
+  SATA_PORTS_OK: '{sataDrives} disco(s) SATA en {sataPorts} puertos SATA del motherboard',
+  SATA_PORTS_EXCEEDED: 'Demasiados discos SATA: {sataDrives} discos, el motherboard tiene {sataPorts} puertos SATA',
+  SATA_PORTS_SHARED: 'Con {m2Drives} disco(s) M.2 instalados quedan {sataPorts} puertos SATA habilitados (comparten líneas con los slots M.2) y hay {sataDrives} discos SATA',
+  DRIVE_BAYS_OK: '{drives} disco(s) de 2.5"/3.5" en {bays} bahías del gabinete',
+  DRIVE_BAYS_35_EXCEEDED: 'Demasiados discos de 3.5": {drives} discos, el gabinete tiene {bays} bahías de 3.5"',
+  DRIVE_BAYS_25_EXCEEDED: 'Demasiados discos de 2.5": {drives} discos, el gabinete tiene lugar para {bays}',
+  DRIVE_BAYS_25_IN_35: 'El gabinete tiene {bays} bahías de 2.5" para {drives} discos de 2.5": el resto va en bahías de 3.5" y puede requerir adaptador',
+  M2_SLOT_ASSIGNMENT: 'Discos M.2 por slot: {assignment}',
+  M2_LENGTH_UNSUPPORTED: 'El disco M.2 {storageLength} no entra en ningún slot del motherboard (admite {m2Lengths})',
+  M2_GEN_DOWNGRADE: 'El disco PCIe Gen{storagePcieGen} va en el slot M.2_{m2Slot}, que es Gen{slotPcieGen}: funcionará a menor velocidad',
+  MONITOR_OUTPUT_OK: 'El monitor de {monitorResolution} a {monitorRefreshRate}Hz se conecta por {videoPort}',
+  MONITOR_NO_COMMON_PORT: 'El monitor ({monitorInputs}) no comparte conectores con las salidas de video ({videoOutputs}). Vas a necesitar un adaptador.',
+  MONITOR_BANDWIDTH_LIMITED: 'Por {videoPort} el monitor de {monitorResolution} llega a {maxRefreshRate}Hz, no a sus {monitorRefreshRate}Hz',
+  MONITOR_GPU_UNDERPOWERED: 'La {gpuChip} es de gama de entrada: en juegos no va a aprovechar un monitor de {monitorResolution} a {monitorRefreshRate}Hz',
+  MONITOR_IGPU_UNDERPOWERED: 'Los gráficos integrados no alcanzan para jugar en un monitor de {monitorResolution} a {monitorRefreshRate}Hz',
+  FAN_MOUNTS_OK: '{fanCount} ventilador(es) en los soportes del gabinete',
+  FAN_MOUNTS_EXCEEDED: 'No entran {fanCount} ventiladores de {fanSize}mm: el gabinete tiene lugar para {mountCount}',
+  FAN_LIGHTING_OK: 'La motherboard tiene conector {fanLighting} para la iluminación de los ventiladores',
+  FAN_LIGHTING_HEADER_MISSING: 'La motherboard no tiene conector {fanLighting} para la iluminación de los ventiladores. Usá un hub o controladora.',
+  FAN_LIGHTING_HEADER_MISMATCH: 'Los ventiladores {fanLighting} no van en los conectores {boardLighting} de la motherboard (ARGB es 5V y RGB es 12V; conectarlos mal quema los LED). Usá un hub o controladora.',
+  FAN_HEADERS_OK: '{fanHeadersNeeded} ventilador(es) en {fanHeaders} conectores de ventilador de la motherboard',
+  FAN_HEADERS_SHORT: 'Los ventiladores usan {fanHeadersNeeded} conectores y la motherboard tiene {fanHeaders}. Usá un hub o cables divisores (splitter).',
+
+  BALANCE_OK: 'En {resolution} el CPU y la GPU están equilibrados',
+  BALANCE_CPU_BOUND: 'En {resolution} el {cpuModel} limita un poco a la {gpuChip}',
+  BALANCE_CPU_BOTTLENECK: 'En {resolution} el {cpuModel} no alcanza para aprovechar la {gpuChip}: el CPU va a limitar los FPS',
+  BALANCE_GPU_BOUND: 'En {resolution} la {gpuChip} limita los FPS antes que el {cpuModel}',
+  BALANCE_GPU_BOTTLENECK: 'En {resolution} la {gpuChip} se queda muy corta para el {cpuModel}: conviene una GPU de más gama',
+};
+
+const EN_MESSAGES: MessageCatalog = {
+  NOT_APPLICABLE: '',
+  PART_NOT_SELECTED: ({ category }) => CATEGORY_LABELS.en[category] ?? '',
+  DIMENSIONS_UNKNOWN: 'Could not verify dimensions',
+  SPEC_ASSUMED: ({ category, specValue }) =>
+    `Compatible assuming ${formatParam(specValue)} for ${PART_NAMES.en[category] ?? category}, which does not list it. Please verify manually.`,
+
+  SOCKET_COMPATIBLE: 'Socket {cpuSocket} compatible',
+  SOCKET_MISMATCH: 'Incompatible socket: CPU uses {cpuSocket}, motherboard uses {moboSocket}',
+  SOCKET_UNKNOWN: 'Could not determine socket compatibility. Please verify manually.',
+  CHIPSET_SUPPORTED: '{chipset} chipset supports {cpuGeneration} CPUs',
+  CHIPSET_BIOS_UPDATE: '{chipset} chipset with a {cpuGeneration} CPU: may require a BIOS update. Check the motherboard BIOS version.',
+  CHIPSET_UNSUPPORTED: 'Incompatible chipset: {chipset} does not support {cpuGeneration} CPUs',
+
+  MEMORY_TYPE_SUPPORTED: '{ramType} memory supported by the motherboard',
+  MEMORY_TYPE_MISMATCH: 'Incompatible memory: RAM is {ramType}, motherboard supports {moboMemoryTypes}',
+  MEMORY_TYPE_UNKNOWN: 'Could not determine memory compatibility. Please verify manually.',
+  MEMORY_CAPACITY_OK: '{totalMemory}GB of RAM within the motherboard maximum ({maxMemory}GB)',
+  MEMORY_CAPACITY_EXCEEDED: 'Too much RAM: {totalMemory}GB in total, the motherboard supports up to {maxMemory}GB',
+  MEMORY_SPEED_SUPPORTED: 'Memory speed {memorySpeed} MHz supported',
+  MEMORY_SPEED_ABOVE_CPU_SPEC: '{memorySpeed} MHz RAM exceeds the official speed of {cpuGeneration} CPUs ({supportedSpeed} MHz). Requires XMP/EXPO and stability is not guaranteed.',
+  MEMORY_SPEED_CHIPSET_LOCKED: 'The {chipset} chipset does not allow memory overclocking: the {memorySpeed} MHz RAM will run at {supportedSpeed} MHz',
+  MEMORY_MIXED_SPEEDS: 'RAM kits with different speeds ({speeds} MHz). All will run at the slowest speed and may be unstable.',
+  MEMORY_MIXED_LATENCIES: 'RAM kits with different latencies ({latencies}). Identical modules are recommended.',
+  MEMORY_MIXED_CAPACITIES: 'RAM modules with different capacities ({capacities}GB). May prevent dual-channel mode.',
+  MEMORY_DUAL_CHANNEL: '{modules} RAM modules: dual channel',
+  MEMORY_SINGLE_CHANNEL: 'A single RAM module runs in single channel. 2 modules are recommended for better performance.',
+  MEMORY_ODD_MODULES: '{modules} RAM modules: an odd count does not take full advantage of dual channel',
+
+  FORM_FACTOR_COMPATIBLE: '{moboFormFactor} form factor fits the case',
+  FORM_FACTOR_MISMATCH: 'Incompatible form factor: motherboard is {moboFormFactor}, case supports {caseFormFactors}',
+  FORM_FACTOR_UNKNOWN: 'Could not verify form factor',
+
+  GPU_LENGTH_FITS: 'GPU ({gpuLength}mm) fits in the case (max {maxGpuLength}mm)',
+  GPU_TOO_LONG: 'GPU too long: GPU is {gpuLength}mm, case supports up to {maxGpuLength}mm',
+  GPU_SLOTS_FIT: '{gpuSlots}-slot GPU fits in the {expansionSlots} case expansion slots',
+  GPU_TOO_THICK: 'GPU too thick: it takes {gpuSlots} slots, the case has {expansionSlots} expansion slots',
+
+  PCIE_LINK_OK: '{gpuInterface} GPU in a PCIe {pciExpressVersion} slot without bandwidth loss',
+  PCIE_BANDWIDTH_LIMITED: '{gpuInterface} GPU on a PCIe {pciExpressVersion} motherboard: with fewer lanes it loses bandwidth and performance',
+  GPU_POWER_CONNECTORS_OK: 'The PSU has the connectors the GPU needs ({gpuPowerConnectors})',
+  GPU_POWER_CONNECTORS_INSUFFICIENT: 'The GPU needs {requiredConnectors} PCIe 8-pin connectors and the PSU has {availableConnectors}',
+  GPU_12VHPWR_ADAPTER: 'The GPU uses a 12VHPWR/12V-2x6 connector and the PSU has no native one. Requires the adapter bundled with the GPU.',
+
+  EPS_CONNECTORS_OK: 'The PSU has {availableConnectors} CPU EPS connector(s), the motherboard uses {requiredConnectors}',
+  EPS_CONNECTORS_INSUFFICIENT: 'The motherboard needs {requiredConnectors} CPU EPS 8-pin connectors and the PSU has {availableConnectors}',
+  EPS_CONNECTORS_LIKELY_INSUFFICIENT: '{chipset} motherboards usually take 8+8 pin CPU power and the PSU has {availableConnectors} EPS connector(s). Check the motherboard manual.',
+  SATA_POWER_OK: 'The PSU has {sataConnectors} SATA connectors for {sataDrives} drive(s)',
+  SATA_POWER_INSUFFICIENT: '{sataDrives} SATA drives and the PSU has {sataConnectors} SATA connectors. You will need adapters.',
+  PSU_FORM_FACTOR_COMPATIBLE: '{psuFormFactor} PSU compatible with the case ({casePsuFormFactors})',
+  PSU_FORM_FACTOR_MISMATCH: '{psuFormFactor} PSU does not fit the case, which only accepts {casePsuFormFactors} PSUs',
+  PSU_SFX_BRACKET: '{psuFormFactor} PSU in an ATX case: requires an SFX to ATX adapter bracket',
+  PSU_LENGTH_FITS: 'The PSU ({psuLength}mm) fits in the case (up to {maxPsuLength}mm)',
+  PSU_TOO_LONG: 'PSU too long: it is {psuLength}mm, the case supports up to {maxPsuLength}mm',
+
+  COOLER_SOCKET_SUPPORTED: 'Cooler supports socket {cpuSocket}',
+  COOLER_SOCKET_MISMATCH: 'Incompatible cooler: supports {coolerSockets}, CPU uses {cpuSocket}',
+  COOLER_SOCKET_UNKNOWN: 'Could not verify cooler socket compatibility. Please verify manually.',
+  COOLER_HEIGHT_FITS: 'Cooler ({coolerHeight}mm) fits in the case (max {maxCoolerHeight}mm)',
+  COOLER_TOO_TALL: 'Cooler too tall: {coolerHeight}mm, case supports up to {maxCoolerHeight}mm',
+  COOLER_REQUIRED: 'The selected CPU does not include a cooler. You need to add a CPU cooler.',
+  COOLER_TDP_SUFFICIENT: '{coolerTdp}W cooler is enough for the CPU sustained power ({cpuPower}W)',
+  COOLER_TDP_TIGHT: '{coolerTdp}W cooler is below the CPU sustained power ({cpuPower}W). The CPU may throttle under load.',
+  COOLER_TDP_INSUFFICIENT: 'Insufficient cooler: rated for {coolerTdp}W and the CPU has a {cpuTdp}W TDP',
+
+  RAM_CLEARANCE_OK: 'The RAM ({memoryHeight}mm) fits under the cooler (up to {ramClearance}mm)',
+  RAM_CLEARANCE_EXCEEDED: 'RAM too tall for the cooler: it is {memoryHeight}mm and the cooler leaves {ramClearance}mm. The front fan must be raised.',
+  RAM_CLEARANCE_DUAL_TOWER: '{memoryHeight}mm RAM with a dual-tower cooler: check the RAM clearance',
+
+  INCLUDED_PSU_TIGHT: 'Included {psuWattage}W power supply meets the required {requiredWattage}W, but with no margin. A larger power supply is recommended.',
+  INCLUDED_PSU_SUFFICIENT: 'Included {psuWattage}W power supply meets the {requiredWattage}W required by the GPU',
+  INCLUDED_PSU_INSUFFICIENT: 'Included power supply is insufficient: {psuWattage}W. The GPU requires at least {requiredWattage}W',
+
+  PSU_WATTAGE_UNKNOWN: 'Could not determine the power supply wattage. Please verify manually.',
+  GPU_PSU_REQUIREMENT_UNKNOWN: 'The GPU does not specify a minimum power supply. Please verify manually.',
+  PSU_GPU_TIGHT: '{psuWattage}W power supply meets the required {requiredWattage}W, but with no margin. More wattage is recommended.',
+  PSU_GPU_SUFFICIENT: '{psuWattage}W power supply meets the {requiredWattage}W required by the GPU',
+  PSU_GPU_INSUFFICIENT: 'Insufficient power supply: {psuWattage}W. The GPU requires at least {requiredWattage}W',
+  NO_CPU_OR_GPU: 'No CPU or GPU to evaluate',
+  PSU_SUFFICIENT: '{psuWattage}W power supply is sufficient (estimated: {estimatedPower}W, recommended: {recommendedPsu}W)',
+  PSU_TIGHT: '{psuWattage}W power supply may be tight. Estimated: {estimatedPower}W, recommended: {recommendedPsu}W',
+  PSU_INSUFFICIENT: 'Insufficient power supply: {psuWattage}W. Estimated: {estimatedPower}W, recommended: {recommendedPsu}W',
+  PSU_TRANSIENT_TIGHT: '{psuWattage}W power supply may shut down during GPU transient spikes (up to {transientPower}W). More wattage is recommended.',
+
+  AIO_SIZE_UNKNOWN: 'Could not determine the AIO radiator size. Please verify case compatibility manually.',
+  RADIATOR_SUPPORTED: 'Case supports a {aioSize}mm radiator (max: {maxRadiatorSize}mm)',
+  RADIATOR_TOO_LARGE: '{aioSize}mm radiator not compatible. Case supports up to {maxRadiatorSize}mm',
+  RADIATOR_SIZE_UNVERIFIED: 'Case supports water cooling, but the radiator size ({aioSize}mm) could not be verified. Please verify manually.',
+  WATERCOOLING_NOT_SUPPORTED: 'Case does not list water cooling/AIO support. The {aioSize}mm radiator may not fit.',
+  RADIATOR_PLACEMENT_OK: ({ aioSize, radiatorPosition }) =>
+    `The ${aioSize}mm radiator can be mounted ${RADIATOR_POSITION_LABELS.en[radiatorPosition] ?? radiatorPosition} without interference`,
+  RADIATOR_FRONT_GPU_CONFLICT: 'With the {aioSize}mm radiator at the front there is {maxGpuLength}mm left for the GPU and it is {gpuLength}mm long',
+  RADIATOR_TOP_RAM_CONFLICT: 'The {aioSize}mm radiator at the top may hit the {memoryHeight}mm RAM. Check the top clearance.',
+  RADIATOR_TOP_VRM_CONFLICT: 'The {aioSize}mm radiator at the top may hit the VRM heatsinks of the {chipset} motherboard. Check the top clearance.',
+
+  M2_NO_SLOTS: 'The motherboard has no M.2 slots available. This M.2 drive is not compatible.',
+  M2_SLOTS_AVAILABLE: 'Motherboard has {m2Slots} M.2 slot(s)',
+
+  GPU_REQUIRED: 'The selected CPU has no integrated graphics. You need to add a graphics card.',
+  BOARD_NO_VIDEO_OUTPUTS: 'The motherboard has no video outputs for the CPU integrated graphics. You need to add a graphics card.',
+  IGPU_VIDEO_OUTPUTS: 'Video from the CPU integrated graphics through the motherboard outputs ({videoOutputs})',
+  MEMORY_SLOTS_OK: '{modules} RAM module(s) in the {memorySlots} motherboard slots',
+  MEMORY_SLOTS_EXCEEDED: 'Too many RAM modules: {modules} modules, the motherboard has {memorySlots} slots',
+  M2_SLOTS_OK: '{m2Drives} M.2 drive(s) in the {m2Slots} motherboard M.2 slot(s)',
+  M2_SLOTS_EXCEEDED: 'Too many M.2 drives: {m2Drives} drives, the motherboard has {m2Slots} M.2 slot(s)',
+  SATA_PORTS_OK: '{sataDrives} SATA drive(s) on the {sataPorts} motherboard SATA ports',
+  SATA_PORTS_EXCEEDED: 'Too many SATA drives: {sataDrives} drives, the motherboard has {sataPorts} SATA ports',
+  SATA_PORTS_SHARED: 'With {m2Drives} M.2 drive(s) installed only {sataPorts} SATA ports stay enabled (they share lanes with the M.2 slots) and there are {sataDrives} SATA drives',
+  DRIVE_BAYS_OK: '{drives} 2.5"/3.5" drive(s) in {bays} case bays',
+  DRIVE_BAYS_35_EXCEEDED: 'Too many 3.5" drives: {drives} drives, the case has {bays} 3.5" bays',
+  DRIVE_BAYS_25_EXCEEDED: 'Too many 2.5" drives: {drives} drives, the case has room for {bays}',
+  DRIVE_BAYS_25_IN_35: 'The case has {bays} 2.5" bays for {drives} 2.5" drives: the rest go in 3.5" bays and may need an adapter',
+  M2_SLOT_ASSIGNMENT: 'M.2 drives per slot: {assignment}',
+  M2_LENGTH_UNSUPPORTED: 'The M.2 {storageLength} drive fits no motherboard slot (supports {m2Lengths})',
+  M2_GEN_DOWNGRADE: 'The PCIe Gen{storagePcieGen} drive goes in slot M.2_{m2Slot}, which is Gen{slotPcieGen}: it will run slower',
+  MONITOR_OUTPUT_OK: 'The {monitorResolution} {monitorRefreshRate}Hz monitor connects over {videoPort}',
+  MONITOR_NO_COMMON_PORT: 'The monitor ({monitorInputs}) shares no connector with the video outputs ({videoOutputs}). You will need an adapter.',
+  MONITOR_BANDWIDTH_LIMITED: 'Over {videoPort} the {monitorResolution} monitor reaches {maxRefreshRate}Hz, not its {monitorRefreshRate}Hz',
+  MONITOR_GPU_UNDERPOWERED: 'The {gpuChip} is entry-level: in games it will not make use of a {monitorResolution} {monitorRefreshRate}Hz monitor',
+  MONITOR_IGPU_UNDERPOWERED: 'Integrated graphics are not enough for gaming on a {monitorResolution} {monitorRefreshRate}Hz monitor',
+  FAN_MOUNTS_OK: '{fanCount} fan(s) in the case fan mounts',
+  FAN_MOUNTS_EXCEEDED: '{fanCount} {fanSize}mm fans do not fit: the case has room for {mountCount}',
+  FAN_LIGHTING_OK: 'The motherboard has a {fanLighting} header for the fan lighting',
+  FAN_LIGHTING_HEADER_MISSING: 'The motherboard has no {fanLighting} header for the fan lighting. Use a hub or controller.',
+  FAN_LIGHTING_HEADER_MISMATCH: 'The {fanLighting} fans do not go on the motherboard {boardLighting} headers (ARGB is 5V and RGB is 12V; mixing them up burns the LEDs). Use a hub or controller.',
+  FAN_HEADERS_OK: '{fanHeadersNeeded} fan(s) on {fanHeaders} motherboard fan headers',
+  FAN_HEADERS_SHORT: 'The fans take {fanHeadersNeeded} headers and the motherboard has {fanHeaders}. Use a hub or splitter cables.',
+
+  BALANCE_OK: 'At {resolution} the CPU and GPU are balanced',
+  BALANCE_CPU_BOUND: 'At {resolution} the {cpuModel} holds the {gpuChip} back slightly',
+  BALANCE_CPU_BOTTLENECK: 'At {resolution} the {cpuModel} cannot keep up with the {gpuChip}: the CPU will limit the frame rate',
+  BALANCE_GPU_BOUND: 'At {resolution} the {gpuChip} limits the frame rate before the {cpuModel} does',
+  BALANCE_GPU_BOTTLENECK: 'At {resolution} the {gpuChip} falls well short of the {cpuModel}: a higher-end GPU is a better match',
+};
+
+export const MESSAGE_CATALOGS: Record<Locale, MessageCatalog> = {
+  es: ES_MESSAGES,
+  en: EN_MESSAGES,
+};
+
+/**
+ * Format a parameter value for display (lists are joined with '/')
+ */
+function formatParam(value: MessageParamValue): string {
+  return Array.isArray(value) ? value.join('/') : String(value);
+}
+
+/**
+ * Render a structured message in the given locale
+ */
+export function formatMessage(message: RuleMessage, locale: Locale = DEFAULT_LOCALE): string {
+  const template = MESSAGE_CATALOGS[locale][message.code] as MessageTemplate<typeof message.code>;
+
+  if (typeof template === 'function') {
+    return (template as (params: RuleMessage['params']) => string)(message.params);
+  }
+
+  const params = message.params as Record<string, MessageParamValue>;
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    params[key] !== undefined ? formatParam(params[key]) : match
+  );
+}
+
+/**
+ * Stable key for a message, used to deduplicate identical messages
+ * coming from both directions of a rule
+ */
+export function getMessageKey(message: RuleMessage): string {
+  const params = message.params as Record<string, MessageParamValue>;
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${formatParam(params[key])}`);
+  return [message.code, ...sortedParams].join('|');
+}
+
+/**
+ * Build a structured message with params checked against its code
+ */
+export function createMessage<C extends MessageCode>(
+  code: C,
+  ...params: MessageParamMap[C] extends Record<string, never> ? [] : [MessageParamMap[C]]
+): RuleMessage {
+  return { code, params: params[0] ?? {} } as RuleMessage;
+}
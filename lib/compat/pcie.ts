@@ -0,0 +1,72 @@
+/**
+ * PCIe Links
+ * GPU link width/generation and the PCIe generation of motherboard GPU slots
+ */
+
+import type { ProductSpec } from './types';
+
+export interface PcieLink {
+  generation: number; // e.g., 4 for PCIe 4.0
+  lanes: number;      // e.g., 8 for x8
+}
+
+// GPUs with a narrower than x16 link (everything else is x16)
+// These lose noticeable bandwidth when the slot is a generation older
+const GPU_PCIE_LINKS: Record<string, PcieLink> = {
+  'RTX 5060 Ti': { generation: 5, lanes: 8 },
+  'RTX 5060': { generation: 5, lanes: 8 },
+  'RTX 5050': { generation: 5, lanes: 8 },
+  'RTX 4060 Ti': { generation: 4, lanes: 8 },
+  'RTX 4060': { generation: 4, lanes: 8 },
+  'RTX 3050': { generation: 4, lanes: 8 },
+  'RX 7600 XT': { generation: 4, lanes: 8 },
+  'RX 7600': { generation: 4, lanes: 8 },
+  'RX 6650 XT': { generation: 4, lanes: 8 },
+  'RX 6600 XT': { generation: 4, lanes: 8 },
+  'RX 6600': { generation: 4, lanes: 8 },
+  'RX 6500 XT': { generation: 4, lanes: 4 },
+  'RX 6400': { generation: 4, lanes: 4 },
+  'Arc A380': { generation: 4, lanes: 8 },
+  'Arc B580': { generation: 4, lanes: 8 },
+  'Arc B570': { generation: 4, lanes: 8 },
+};
+
+// Chipsets whose GPU slot runs at PCIe 3.0 (when the listing doesn't say)
+const PCIE3_CHIPSETS = [
+  'A320', 'B350', 'X370', 'B450', 'X470', 'A520',
+  'H410', 'B460', 'H470', 'Q470', 'W480',
+];
+
+/**
+ * Parse a PCIe interface string (e.g., "PCIe 4.0 x8", "PCI Express 5.0 x16")
+ */
+export function parsePcieInterface(value: string): PcieLink | undefined {
+  const match = value.match(/PCI[-\s]?E(?:xpress)?\s*(\d)(?:\.\d)?\s*x\s*(\d{1,2})/i);
+  if (!match) return undefined;
+  return { generation: parseInt(match[1]), lanes: parseInt(match[2]) };
+}
+
+/**
+ * GPU link from its interface spec, falling back to the chip table
+ */
+export function getGpuPcieLink(spec: ProductSpec): PcieLink | undefined {
+  const parsed = spec.gpuInterface ? parsePcieInterface(spec.gpuInterface) : undefined;
+  return parsed ?? (spec.gpuChip ? GPU_PCIE_LINKS[spec.gpuChip] : undefined);
+}
+
+/**
+ * PCIe generation of the motherboard's GPU slot, from its spec or chipset
+ */
+export function getMotherboardPcieGeneration(spec: ProductSpec): number | undefined {
+  if (spec.pciExpressVersion) {
+    return parseInt(spec.pciExpressVersion);
+  }
+  return spec.chipset && PCIE3_CHIPSETS.includes(spec.chipset) ? 3 : undefined;
+}
+
+/**
+ * Format a link the way listings do (e.g., "PCIe 4.0 x8")
+ */
+export function formatPcieLink(link: PcieLink): string {
+  return `PCIe ${link.generation}.0 x${link.lanes}`;
+}
@@ -0,0 +1,313 @@
+/**
+ * Power Budget
+ * Estimates typical and peak draw per component and the PSU the build needs
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { PCBuild, ProductSpec } from './types';
+import { getBuildItems } from './build';
+
+// Special ID for the "use included cooler" virtual product (see buildStore)
+const USE_INCLUDED_COOLER_ID = '__use_included_cooler__';
+
+/**
+ * Draw of one component group in the build
+ */
+export interface PowerBudgetEntry {
+  category: CategoryKey;
+  quantity: number;   // Units counted (DIMMs, drives, fans...)
+  typical: number;    // Watts under a typical gaming load
+  peak: number;       // Watts at sustained full load
+  estimated: boolean; // True if based on defaults rather than the product's specs
+}
+
+/**
+ * Full power budget of a build
+ */
+export interface PowerBudget {
+  entries: PowerBudgetEntry[];
+  typical: number;         // Sum of typical draw
+  peak: number;            // Sum of peak draw
+  transientPeak: number;   // Typical draw with the GPU spiking above board power (high-end GPUs only)
+  recommendedPsu: number;  // Minimum PSU wattage including headroom
+}
+
+/**
+ * Headroom applied on top of the peak draw
+ */
+export interface PowerBudgetOptions {
+  headroom: number;            // Fraction added to peak draw (0.2 = 20%)
+  transientHeadroom: number;   // Fraction of GPU peak added for millisecond spikes
+  highEndGpuThreshold: number; // GPU peak draw (W) from which transient headroom applies
+}
+
+export const DEFAULT_POWER_OPTIONS: PowerBudgetOptions = {
+  headroom: 0.2,
+  transientHeadroom: 0.6,
+  highEndGpuThreshold: 250,
+};
+
+// Typical board power (W) by GPU chip, as published by NVIDIA/AMD/Intel
+const GPU_BOARD_POWER: Record<string, number> = {
+  // NVIDIA RTX 50
+  'RTX 5090': 575,
+  'RTX 5080': 360,
+  'RTX 5070 Ti': 300,
+  'RTX 5070': 250,
+  'RTX 5060 Ti': 180,
+  'RTX 5060': 145,
+  // NVIDIA RTX 40
+  'RTX 4090': 450,
+  'RTX 4080 SUPER': 320,
+  'RTX 4080': 320,
+  'RTX 4070 Ti SUPER': 285,
+  'RTX 4070 Ti': 285,
+  'RTX 4070 SUPER': 220,
+  'RTX 4070': 200,
+  'RTX 4060 Ti': 160,
+  'RTX 4060': 115,
+  // NVIDIA RTX 30
+  'RTX 3090 Ti': 450,
+  'RTX 3090': 350,
+  'RTX 3080 Ti': 350,
+  'RTX 3080': 320,
+  'RTX 3070 Ti': 290,
+  'RTX 3070': 220,
+  'RTX 3060 Ti': 200,
+  'RTX 3060': 170,
+  'RTX 3050': 130,
+  // NVIDIA GTX / GT
+  'GTX 1660 SUPER': 125,
+  'GTX 1660 Ti': 120,
+  'GTX 1660': 120,
+  'GTX 1650': 75,
+  'GT 1030': 30,
+  'GT 730': 25,
+  // AMD RX 9000
+  'RX 9070 XT': 304,
+  'RX 9070': 220,
+  'RX 9060 XT': 160,
+  // AMD RX 7000
+  'RX 7900 XTX': 355,
+  'RX 7900 XT': 315,
+  'RX 7900 GRE': 260,
+  'RX 7800 XT': 263,
+  'RX 7700 XT': 245,
+  'RX 7600 XT': 190,
+  'RX 7600': 165,
+  // AMD RX 6000
+  'RX 6950 XT': 335,
+  'RX 6900 XT': 300,
+  'RX 6800 XT': 300,
+  'RX 6800': 250,
+  'RX 6750 XT': 250,
+  'RX 6700 XT': 230,
+  'RX 6650 XT': 180,
+  'RX 6600 XT': 160,
+  'RX 6600': 132,
+  'RX 6500 XT': 107,
+  'RX 6400': 53,
+  // Intel Arc
+  'Arc B580': 190,
+  'Arc B570': 150,
+  'Arc A770': 225,
+  'Arc A750': 225,
+  'Arc A580': 185,
+  'Arc A380': 75,
+};
+
+// Default CPU TDP (W) by family when the listing doesn't state it
+const CPU_DEFAULT_TDP: Record<string, number> = {
+  'Ryzen 5': 65,
+  'Ryzen 7': 105,
+  'Ryzen 9': 120,
+  'Core i3': 60,
+  'Core i5': 65,
+  'Core i7': 125,
+  'Core i9': 125,
+  'Core Ultra 5': 125,
+  'Core Ultra 7': 125,
+  'Core Ultra 9': 125,
+};
+
+// Fixed draws in watts: [typical, peak]
+const MOTHERBOARD_POWER: [number, number] = [35, 60];
+const DIMM_POWER: Record<string, [number, number]> = {
+  DDR4: [3, 5],
+  DDR5: [4, 7], // On-module PMIC
+};
+const NVME_POWER: [number, number] = [5, 9];
+const SATA_SSD_POWER: [number, number] = [3, 5];
+const HDD_POWER: [number, number] = [6, 20]; // Spin-up current
+const FAN_POWER: [number, number] = [2, 4];
+const PUMP_POWER: [number, number] = [4, 7];
+const USB_PERIPHERAL_POWER: [number, number] = [2, 5];
+
+// Defaults when a part can't be identified
+const DEFAULT_CPU_TDP = 125;
+const DEFAULT_GPU_POWER = 200;
+
+// Peripherals powered over USB from the motherboard
+const PERIPHERAL_CATEGORIES: CategoryKey[] = ['mouse', 'keyboard', 'headphones', 'peripherals'];
+
+/**
+ * Peak/TDP ratio by CPU vendor: AMD PPT is 1.35x TDP, Intel PL2 is about 2x PL1
+ */
+function getCpuPeakFactor(spec: ProductSpec): number {
+  return spec.cpuFamily?.startsWith('Core') ? 2 : 1.35;
+}
+
+/**
+ * CPU draw: TDP as typical, PPT/PL2 as peak
+ */
+export function getCpuPower(spec: ProductSpec): { typical: number; peak: number; estimated: boolean } {
+  const tdp = spec.tdp ?? (spec.cpuFamily ? CPU_DEFAULT_TDP[spec.cpuFamily] : undefined);
+  const typical = tdp ?? DEFAULT_CPU_TDP;
+  return {
+    typical,
+    peak: Math.round(typical * getCpuPeakFactor(spec)),
+    estimated: !spec.tdp,
+  };
+}
+
+/**
+ * GPU draw: board power as peak, 85% of it as typical
+ * Falls back to the chip table, then to the recommended PSU minus the rest of the system
+ */
+function getGpuPower(spec: ProductSpec): { typical: number; peak: number; estimated: boolean } {
+  let boardPower = spec.gpuBoardPower ?? (spec.gpuChip ? GPU_BOARD_POWER[spec.gpuChip] : undefined);
+  const estimated = !boardPower;
+
+  if (!boardPower && spec.gpuRecommendedPsu) {
+    // Vendors size the recommended PSU for the GPU plus roughly 300W of system
+    boardPower = Math.max(75, spec.gpuRecommendedPsu - 300);
+  }
+
+  const peak = boardPower ?? DEFAULT_GPU_POWER;
+  return { typical: Math.round(peak * 0.85), peak, estimated };
+}
+
+/**
+ * Draw of a single storage drive by type
+ */
+function getDrivePower(spec: ProductSpec): [number, number] {
+  if (spec.storageType === 'HDD') return HDD_POWER;
+  if (spec.storageConnectionType === 'M.2') return NVME_POWER;
+  return SATA_SSD_POWER;
+}
+
+/**
+ * Compute the power budget of a build
+ */
+export function computePowerBudget(
+  build: PCBuild,
+  options: PowerBudgetOptions = DEFAULT_POWER_OPTIONS
+): PowerBudget {
+  const entries: PowerBudgetEntry[] = [];
+  let gpuPeak = 0;
+  let gpuTypical = 0;
+
+  const cpu = build.get('cpu');
+  if (cpu) {
+    entries.push({ category: 'cpu', quantity: 1, ...getCpuPower(cpu.spec) });
+  }
+
+  const gpu = build.get('gpu');
+  if (gpu) {
+    const power = getGpuPower(gpu.spec);
+    gpuPeak = power.peak;
+    gpuTypical = power.typical;
+    entries.push({ category: 'gpu', quantity: 1, ...power });
+  }
+
+  // A build always has a motherboard, so count it even before it's selected
+  entries.push({
+    category: 'motherboard',
+    quantity: 1,
+    typical: MOTHERBOARD_POWER[0],
+    peak: MOTHERBOARD_POWER[1],
+    estimated: true,
+  });
+
+  // RAM: per DIMM (kits count each module)
+  const ramItems = getBuildItems(build, 'ram');
+  if (ramItems.length > 0) {
+    const entry: PowerBudgetEntry = { category: 'ram', quantity: 0, typical: 0, peak: 0, estimated: false };
+    for (const { product, quantity } of ramItems) {
+      const modules = (product.spec.memoryModules ?? 1) * quantity;
+      const [typical, peak] = DIMM_POWER[product.spec.memoryType ?? ''] ?? DIMM_POWER.DDR4;
+      entry.quantity += modules;
+      entry.typical += typical * modules;
+      entry.peak += peak * modules;
+      entry.estimated ||= !product.spec.memoryType;
+    }
+    entries.push(entry);
+  }
+
+  // Storage: per drive
+  const storageItems = getBuildItems(build, 'storage');
+  if (storageItems.length > 0) {
+    const entry: PowerBudgetEntry = { category: 'storage', quantity: 0, typical: 0, peak: 0, estimated: false };
+    for (const { product, quantity } of storageItems) {
+      const [typical, peak] = getDrivePower(product.spec);
+      entry.quantity += quantity;
+      entry.typical += typical * quantity;
+      entry.peak += peak * quantity;
+      entry.estimated ||= !product.spec.storageType && !product.spec.storageConnectionType;
+    }
+    entries.push(entry);
+  }
+
+  // Cooler: fans, plus pump and radiator fans for AIOs
+  const cooler = build.get('cooler');
+  if (cooler) {
+    const isAio = cooler.spec.coolerType === 'aio' && cooler.product.id !== USE_INCLUDED_COOLER_ID;
+    const fans = isAio ? Math.max(1, Math.round((cooler.spec.aioSize ?? 240) / 120)) : 1;
+    entries.push({
+      category: 'cooler',
+      quantity: fans,
+      typical: FAN_POWER[0] * fans + (isAio ? PUMP_POWER[0] : 0),
+      peak: FAN_POWER[1] * fans + (isAio ? PUMP_POWER[1] : 0),
+      estimated: isAio && !cooler.spec.aioSize,
+    });
+  }
+
+  // Case fans
+  const fanItems = getBuildItems(build, 'fans');
+  if (fanItems.length > 0) {
+    const count = fanItems.reduce((sum, { product, quantity }) => sum + (product.spec.fanCount ?? 1) * quantity, 0);
+    entries.push({
+      category: 'fans',
+      quantity: count,
+      typical: FAN_POWER[0] * count,
+      peak: FAN_POWER[1] * count,
+      estimated: false,
+    });
+  }
+
+  // USB peripherals
+  for (const category of PERIPHERAL_CATEGORIES) {
+    if (build.has(category)) {
+      entries.push({
+        category,
+        quantity: 1,
+        typical: USB_PERIPHERAL_POWER[0],
+        peak: USB_PERIPHERAL_POWER[1],
+        estimated: true,
+      });
+    }
+  }
+
+  const typical = entries.reduce((sum, entry) => sum + entry.typical, 0);
+  const peak = entries.reduce((sum, entry) => sum + entry.peak, 0);
+
+  // High-end GPUs spike well above board power for a few milliseconds while gaming,
+  // which can trip over-current protection on a PSU sized only for average draw
+  const transientPeak = gpuPeak >= options.highEndGpuThreshold
+    ? Math.round(typical - gpuTypical + gpuPeak * (1 + options.transientHeadroom))
+    : peak;
+
+  const recommendedPsu = Math.ceil(Math.max(peak * (1 + options.headroom), transientPeak));
+
+  return { entries, typical, peak, transientPeak, recommendedPsu };
+}
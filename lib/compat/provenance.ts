@@ -0,0 +1,97 @@
+/**
+ * Spec Provenance
+ * Helpers for reading where a part's spec values came from and how much to trust them
+ */
+
+import type {
+  FanMount,
+  M2SataSharing,
+  M2SlotSpec,
+  ProductSpec,
+  ProductWithSpec,
+  RuleResult,
+  SpecProvenance,
+  SpecReading,
+  VideoPort,
+} from './types';
+import { createMessage, type MessageCode } from './messages';
+import { formatVideoPort } from './display';
+
+// Passes that compared nothing don't rest on any value
+const UNCHECKED_PASS_CODES: MessageCode[] = ['NOT_APPLICABLE', 'PART_NOT_SELECTED'];
+
+/**
+ * Provenance of one spec field; hand-built parts without a map have none
+ */
+export function getSpecProvenance(part: ProductWithSpec, field: keyof ProductSpec): SpecProvenance | undefined {
+  return part.provenance?.[field];
+}
+
+/**
+ * Whether a field's value was assumed rather than read from the listing
+ */
+export function isLowConfidenceSpec(part: ProductWithSpec, field: keyof ProductSpec): boolean {
+  return getSpecProvenance(part, field)?.confidence === 'low';
+}
+
+/**
+ * Whether any of a part's values was assumed
+ */
+export function hasAssumedSpecs(part: ProductWithSpec): boolean {
+  return Object.values(part.provenance ?? {}).some((provenance) => provenance?.confidence === 'low');
+}
+
+type SpecItem = string | number | VideoPort | FanMount | M2SlotSpec | M2SataSharing;
+
+function isVideoPort(item: SpecItem): item is VideoPort {
+  return typeof item === 'object' && 'type' in item;
+}
+
+function isFanMount(item: SpecItem): item is FanMount {
+  return typeof item === 'object' && 'position' in item;
+}
+
+function isM2Slot(item: SpecItem): item is M2SlotSpec {
+  return typeof item === 'object' && 'slot' in item;
+}
+
+// One entry of a list-valued spec, e.g. "HDMI 2.1", "3x120mm", "M.2_2 PCIe 4.0"
+function formatSpecItem(item: SpecItem): string {
+  if (typeof item !== 'object') return String(item);
+  if (isVideoPort(item)) return formatVideoPort(item);
+  if (isFanMount(item)) return `${item.count}x${item.size}mm`;
+  if (isM2Slot(item)) return item.pcieGen ? `M.2_${item.slot} PCIe ${item.pcieGen}.0` : `M.2_${item.slot}`;
+  return `M.2_${item.m2Slot} SATA ${item.sataPorts.join('/')}`;
+}
+
+/**
+ * A spec value as a message parameter
+ * Structured values (ports, mounts, slots) are spelled out; radiator mounts list their sizes
+ */
+export function formatSpecValue(
+  value: Exclude<ProductSpec[keyof ProductSpec], boolean | undefined>
+): string | number | string[] {
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  if (Array.isArray(value)) return (value as SpecItem[]).map(formatSpecItem);
+  return Object.values(value).map((size) => `${size}mm`);
+}
+
+/**
+ * A pass that rests on an assumed value (e.g. a default form factor) is only a warning
+ * `assumed` lists the low-confidence specs the rule read, in order. Unstated features
+ * (false flags) are how most listings read, so only assumed values count.
+ */
+export function downgradeAssumedPass(result: RuleResult, assumed: SpecReading[]): RuleResult {
+  if (result.status !== 'pass' || UNCHECKED_PASS_CODES.includes(result.message.code)) return result;
+
+  for (const { category, value } of assumed) {
+    if (typeof value === 'boolean' || value === undefined) continue;
+
+    return {
+      ...result,
+      status: 'warn',
+      message: createMessage('SPEC_ASSUMED', { category, specValue: formatSpecValue(value) }),
+    };
+  }
+  return result;
+}
@@ -0,0 +1,50 @@
+/**
+ * Radiator Placement
+ * Where an AIO radiator can go in a case and what it interferes with there
+ */
+
+import type { ProductSpec, RadiatorPosition } from './types';
+
+// Preferred mounting order: top keeps the full GPU clearance, front is the usual fallback
+export const RADIATOR_POSITIONS: RadiatorPosition[] = ['top', 'front', 'side', 'rear', 'bottom'];
+
+// Radiator (27mm) plus one layer of fans (25mm) and some slack, in mm
+export const FRONT_RADIATOR_DEPTH = 55;
+
+// RAM taller than this (mm) can hit a top radiator with fans underneath
+export const TOP_RADIATOR_RAM_CLEARANCE = 42;
+
+// Chipsets whose boards usually carry tall VRM heatsinks under the top fan mounts
+const TALL_VRM_CHIPSETS = ['X870E', 'X670E', 'Z890', 'Z790'];
+
+/**
+ * Positions of a case that fit a radiator of the given size, in preferred order
+ */
+export function getRadiatorPositions(caseSpec: ProductSpec, aioSize: number): RadiatorPosition[] {
+  const mounts = caseSpec.radiatorMounts;
+  if (!mounts) return [];
+  return RADIATOR_POSITIONS.filter((position) => (mounts[position] ?? 0) >= aioSize);
+}
+
+/**
+ * GPU length clearance left with a radiator at the given position
+ */
+export function getGpuClearanceWithRadiator(caseSpec: ProductSpec, position: RadiatorPosition): number | undefined {
+  if (!caseSpec.maxGpuLength) return undefined;
+  return position === 'front' ? caseSpec.maxGpuLength - FRONT_RADIATOR_DEPTH : caseSpec.maxGpuLength;
+}
+
+/**
+ * Whether a motherboard likely has VRM heatsinks tall enough to reach a top radiator
+ */
+export function hasTallVrmHeatsinks(moboSpec: ProductSpec): boolean {
+  return !!moboSpec.chipset && TALL_VRM_CHIPSETS.includes(moboSpec.chipset);
+}
+
+/**
+ * Radiator sizes a case supports, from its size list and its per-position mounts
+ */
+export function getSupportedRadiatorSizes(caseSpec: ProductSpec): number[] {
+  const sizes = [...(caseSpec.supportedRadiatorSizes ?? []), ...Object.values(caseSpec.radiatorMounts ?? {})];
+  return [...new Set(sizes)].sort((a, b) => a - b);
+}
@@ -0,0 +1,121 @@
+/**
+ * Failure Resolver
+ * Suggests catalog parts that would clear a failing compatibility result: a replacement
+ * for one of the parts involved (or one item of a multi-select category), or the missing
+ * part for a requirement
+ */
+
+import { isMultiSelectCategory, type CategoryKey } from '../catalog/categories';
+import type { Product } from '../mallweb/normalize';
+import type { CompatibilityResult, PCBuild, ProductWithQuantity, ProductWithSpec, RuleResult } from './types';
+import { createProductWithSpec, filterByCompatibility, type EvaluationOptions } from './engine';
+import { BUILD_RULES } from './buildRules';
+import { COMPATIBILITY_RULES } from './rules';
+import { DEFAULT_POWER_OPTIONS } from './power';
+import { getBuildItems, withCandidate, withoutCategory, withoutItem, withReplacedItem } from './build';
+import { DEFAULT_LOCALE, type Locale } from './messages';
+
+// Suggestions shown per category
+export const DEFAULT_FIX_LIMIT = 3;
+
+export interface FixSuggestion {
+  product: Product;
+  compatibility: CompatibilityResult;
+  priceDelta: number;        // Against the part it replaces; the full price when adding a missing part
+  replaces?: Product;        // Multi-select item it swaps out, keeping its quantity
+}
+
+/**
+ * Categories whose part (or one of whose items) can be swapped, or added, to clear a failure
+ */
+export function getFixCategories(failure: RuleResult): CategoryKey[] {
+  return [...new Set(failure.affectedCategories)];
+}
+
+/**
+ * Whether the failing rule no longer fails on the build
+ * Pair rules run once per selected unit of their source category, build rules once
+ */
+function clearsFailure(build: PCBuild, failure: RuleResult, options: Pick<EvaluationOptions, 'power'>): boolean {
+  const buildRule = BUILD_RULES.find((rule) => rule.id === failure.ruleId);
+  if (buildRule) {
+    return buildRule.evaluate(build).status !== 'fail';
+  }
+
+  const rule = COMPATIBILITY_RULES.find((candidateRule) => candidateRule.id === failure.ruleId);
+  if (!rule) return false;
+
+  const context = { power: options.power ?? DEFAULT_POWER_OPTIONS };
+  return getBuildItems(build, rule.sourceCategory).every(
+    ({ product }) => rule.evaluate(product, build, context).status !== 'fail'
+  );
+}
+
+/**
+ * Catalog parts of `category` that would clear the failure, cheapest price delta first
+ * Candidates must be in stock and compatible with the rest of the build. In multi-select
+ * categories each purchased item is tried as the one to swap; owned items stay.
+ * Pass the same power options as the summary the failure came from.
+ */
+export function findFixSuggestions(
+  failure: RuleResult,
+  category: CategoryKey,
+  catalog: Product[],
+  build: PCBuild,
+  limit = DEFAULT_FIX_LIMIT,
+  locale: Locale = DEFAULT_LOCALE,
+  options: Pick<EvaluationOptions, 'power'> = {}
+): FixSuggestion[] {
+  if (!failure.affectedCategories.includes(category)) return [];
+
+  const items = isMultiSelectCategory(category) ? getBuildItems(build, category) : [];
+  if (items.length === 0) {
+    return findSwaps(failure, category, catalog, build, undefined, limit, locale, options);
+  }
+
+  return items
+    .filter(({ product }) => !product.owned)
+    .flatMap((item) => findSwaps(failure, category, catalog, build, item, limit, locale, options))
+    .sort((a, b) => a.priceDelta - b.priceDelta)
+    .slice(0, limit);
+}
+
+// Candidates for the category's part, or for one of its items when `replaced` is given
+function findSwaps(
+  failure: RuleResult,
+  category: CategoryKey,
+  catalog: Product[],
+  build: PCBuild,
+  replaced: ProductWithQuantity | undefined,
+  limit: number,
+  locale: Locale,
+  options: Pick<EvaluationOptions, 'power'>
+): FixSuggestion[] {
+  const current: ProductWithSpec | undefined = replaced?.product ?? build.get(category);
+  const rest = replaced ? withoutItem(build, category, replaced.product.product.id) : withoutCategory(build, category);
+  const quantity = replaced?.quantity ?? 1;
+  const currentPrice = current?.product.price ?? 0;
+  const selectedIds = new Set(getBuildItems(build, category).map(({ product }) => product.product.id));
+
+  const candidates = filterByCompatibility(catalog, category, rest, false, locale, options)
+    .filter(({ product }) => product.stock > 0 && !selectedIds.has(product.id))
+    .map(({ product, compatibility }) => ({
+      product,
+      compatibility,
+      priceDelta: (product.price - currentPrice) * quantity,
+      ...(replaced && { replaces: replaced.product.product }),
+    }))
+    .sort((a, b) => a.priceDelta - b.priceDelta || a.compatibility.warnings.length - b.compatibility.warnings.length);
+
+  // Only the failing rule is re-checked, and only until there are enough suggestions
+  const suggestions: FixSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (suggestions.length >= limit) break;
+    const part = createProductWithSpec(candidate.product, category);
+    const next = replaced ? withReplacedItem(build, replaced.product.product.id, part) : withCandidate(rest, part);
+    if (clearsFailure(next, failure, options)) {
+      suggestions.push(candidate);
+    }
+  }
+  return suggestions;
+}
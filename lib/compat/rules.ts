@@ -4,7 +4,40 @@
  */
 
 import type { CategoryKey } from '../catalog/categories';
-import type { CompatibilityRule, RuleResult } from './types';
+import type { CompatibilityRule, DeclarativeRule, PCBuild, ProductWithQuantity, ProductWithSpec, RuleResult } from './types';
+import { compileDeclarativeRule } from './declarative';
+import { createMessage, type RuleMessage } from './messages';
+import { computePowerBudget, DEFAULT_POWER_OPTIONS, getCpuPower } from './power';
+import { getChipsetSupport } from './chipsets';
+import { getBuildItems, getBuildItemsWithCandidate } from './build';
+import { getEpsRequirement, getSataDriveCount } from './connectors';
+import { formatPcieLink, getGpuPcieLink, getMotherboardPcieGeneration } from './pcie';
+import { getChipsetMemorySpeedLimit, getCpuMemorySpeed, getRamItems, getTotalMemory, getTotalModules } from './memory';
+import {
+  getGpuClearanceWithRadiator,
+  getRadiatorPositions,
+  getSupportedRadiatorSizes,
+  hasTallVrmHeatsinks,
+  TOP_RADIATOR_RAM_CLEARANCE,
+} from './radiators';
+
+// Special ID for the "use included cooler" virtual product (see buildStore)
+const USE_INCLUDED_COOLER_ID = '__use_included_cooler__';
+
+// Special ID for the "use included PSU" virtual product (see buildStore)
+const USE_INCLUDED_PSU_ID = '__use_included_psu__';
+
+// Max RAM height (mm) assumed to clear a dual-tower cooler that doesn't list it
+const DUAL_TOWER_RAM_CLEARANCE = 42;
+
+// Form factor hierarchy: E-ATX > ATX > Micro-ATX > Mini-ITX
+// Larger cases can fit smaller motherboards
+const FORM_FACTOR_RANKING: Record<string, number> = {
+  'E-ATX': 4,
+  'ATX': 3,
+  'Micro-ATX': 2,
+  'Mini-ITX': 1,
+};
 
 /**
  * Helper to create a rule result
@@ -12,388 +45,585 @@ import type { CompatibilityRule, RuleResult } from './types';
 function createResult(
   ruleId: string,
   status: 'pass' | 'fail' | 'warn' | 'unknown',
-  reason: string,
+  message: RuleMessage,
   affectedCategories: CategoryKey[]
 ): RuleResult {
-  return { ruleId, status, reason, affectedCategories };
+  return { ruleId, status, message, affectedCategories };
 }
 
 /**
  * CPU ↔ Motherboard Socket Compatibility
  */
-const cpuMotherboardSocketRule: CompatibilityRule = {
-  id: 'cpu-mobo-socket',
-  name: 'CPU/Motherboard Socket',
+const cpuMotherboardSocket: DeclarativeRule = {
+  forward: { id: 'cpu-mobo-socket', name: 'CPU/Motherboard Socket' },
+  reverse: { id: 'mobo-cpu-socket', name: 'Motherboard/CPU Socket' },
   description: 'El socket del CPU debe coincidir con el socket del motherboard',
+  a: { category: 'cpu', field: 'socket', param: 'cpuSocket' },
+  b: { category: 'motherboard', field: 'socket', param: 'moboSocket' },
+  operator: 'equals',
+  onMissing: 'warn',
+  messages: {
+    pass: 'SOCKET_COMPATIBLE',
+    fail: 'SOCKET_MISMATCH',
+    missing: 'SOCKET_UNKNOWN',
+  },
+};
+
+/**
+ * RAM ↔ Motherboard Memory Type Compatibility
+ */
+const ramMotherboardType: DeclarativeRule = {
+  forward: { id: 'ram-mobo-type', name: 'RAM/Motherboard Type' },
+  reverse: { id: 'mobo-ram-type', name: 'Motherboard/RAM Type' },
+  description: 'El tipo de memoria RAM debe ser soportado por el motherboard',
+  a: { category: 'ram', field: 'memoryType', param: 'ramType' },
+  b: { category: 'motherboard', field: 'supportedMemoryTypes', param: 'moboMemoryTypes' },
+  operator: 'includedIn',
+  onMissing: 'warn',
+  messages: {
+    pass: 'MEMORY_TYPE_SUPPORTED',
+    fail: 'MEMORY_TYPE_MISMATCH',
+    missing: 'MEMORY_TYPE_UNKNOWN',
+  },
+};
+
+/**
+ * Motherboard ↔ Case Form Factor Compatibility
+ */
+const motherboardCaseFormFactor: DeclarativeRule = {
+  forward: { id: 'mobo-case-formfactor', name: 'Motherboard/Case Form Factor' },
+  reverse: { id: 'case-mobo-formfactor', name: 'Case/Motherboard Form Factor' },
+  description: 'El form factor del motherboard debe ser soportado por el gabinete',
+  a: { category: 'motherboard', field: 'formFactor', param: 'moboFormFactor' },
+  b: { category: 'case', field: 'supportedFormFactors', param: 'caseFormFactors' },
+  operator: 'rankAtMost',
+  ranking: FORM_FACTOR_RANKING,
+  onMissing: 'unknown',
+  messages: {
+    pass: 'FORM_FACTOR_COMPATIBLE',
+    fail: 'FORM_FACTOR_MISMATCH',
+    missing: 'FORM_FACTOR_UNKNOWN',
+  },
+};
+
+/**
+ * GPU ↔ Case Length Compatibility
+ */
+const gpuCaseLength: DeclarativeRule = {
+  forward: { id: 'gpu-case-length', name: 'GPU/Case Length' },
+  reverse: { id: 'case-gpu-length', name: 'Case/GPU Length' },
+  description: 'La GPU debe entrar en el gabinete',
+  a: { category: 'gpu', field: 'gpuLength', param: 'gpuLength' },
+  b: { category: 'case', field: 'maxGpuLength', param: 'maxGpuLength' },
+  operator: 'atMost',
+  onMissing: 'unknown',
+  messages: {
+    pass: 'GPU_LENGTH_FITS',
+    fail: 'GPU_TOO_LONG',
+    missing: 'DIMENSIONS_UNKNOWN',
+  },
+};
+
+/**
+ * GPU ↔ Case Expansion Slots
+ * A 2.5-slot card needs 3 rear slots, so fractional thickness compares directly
+ */
+const gpuCaseSlots: DeclarativeRule = {
+  forward: { id: 'gpu-case-slots', name: 'GPU/Case Slots' },
+  reverse: { id: 'case-gpu-slots', name: 'Case/GPU Slots' },
+  description: 'El grosor de la GPU no puede superar las ranuras de expansión del gabinete',
+  a: { category: 'gpu', field: 'gpuSlots', param: 'gpuSlots' },
+  b: { category: 'case', field: 'expansionSlots', param: 'expansionSlots' },
+  operator: 'atMost',
+  onMissing: 'unknown',
+  messages: {
+    pass: 'GPU_SLOTS_FIT',
+    fail: 'GPU_TOO_THICK',
+    missing: 'DIMENSIONS_UNKNOWN',
+  },
+};
+
+/**
+ * PSU ↔ Case Length
+ * Few PSU listings state their length, so a missing value passes silently
+ */
+const psuCaseLength: DeclarativeRule = {
+  forward: { id: 'psu-case-length', name: 'PSU/Case Length' },
+  reverse: { id: 'case-psu-length', name: 'Case/PSU Length' },
+  description: 'La fuente debe entrar en el gabinete',
+  a: { category: 'psu', field: 'psuLength', param: 'psuLength' },
+  b: { category: 'case', field: 'maxPsuLength', param: 'maxPsuLength' },
+  operator: 'atMost',
+  onMissing: 'pass',
+  ignoreProductIds: [USE_INCLUDED_PSU_ID],
+  messages: {
+    pass: 'PSU_LENGTH_FITS',
+    fail: 'PSU_TOO_LONG',
+    missing: 'NOT_APPLICABLE',
+  },
+};
+
+/**
+ * CPU ↔ Cooler Socket Compatibility
+ */
+const cpuCoolerSocket: DeclarativeRule = {
+  forward: { id: 'cpu-cooler-socket', name: 'CPU/Cooler Socket' },
+  reverse: { id: 'cooler-cpu-socket', name: 'Cooler/CPU Socket' },
+  description: 'El cooler debe soportar el socket del CPU',
+  a: { category: 'cpu', field: 'socket', param: 'cpuSocket' },
+  b: { category: 'cooler', field: 'coolerSockets', param: 'coolerSockets' },
+  operator: 'includedIn',
+  onMissing: 'warn',
+  ignoreProductIds: [USE_INCLUDED_COOLER_ID],
+  messages: {
+    pass: 'COOLER_SOCKET_SUPPORTED',
+    fail: 'COOLER_SOCKET_MISMATCH',
+    missing: 'COOLER_SOCKET_UNKNOWN',
+  },
+};
+
+/**
+ * Cooler ↔ Case Clearance
+ * Only checks air coolers (AIO compatibility is handled by coolerCaseWaterCoolingRule)
+ */
+const coolerCaseClearance: DeclarativeRule = {
+  forward: { id: 'cooler-case-clearance', name: 'Cooler/Case Clearance' },
+  reverse: { id: 'case-cooler-clearance', name: 'Case/Cooler Clearance' },
+  description: 'El cooler debe entrar en el gabinete',
+  a: {
+    category: 'cooler',
+    field: 'coolerHeight',
+    param: 'coolerHeight',
+    when: { field: 'coolerType', notEquals: 'aio' },
+  },
+  b: { category: 'case', field: 'maxCpuCoolerHeight', param: 'maxCoolerHeight' },
+  operator: 'atMost',
+  onMissing: 'unknown',
+  ignoreProductIds: [USE_INCLUDED_COOLER_ID],
+  messages: {
+    pass: 'COOLER_HEIGHT_FITS',
+    fail: 'COOLER_TOO_TALL',
+    missing: 'DIMENSIONS_UNKNOWN',
+  },
+};
+
+/**
+ * Declarative rules, each compiled into both directions
+ */
+export const DECLARATIVE_RULES: DeclarativeRule[] = [
+  cpuMotherboardSocket,
+  ramMotherboardType,
+  motherboardCaseFormFactor,
+  gpuCaseLength,
+  gpuCaseSlots,
+  psuCaseLength,
+  cpuCoolerSocket,
+  coolerCaseClearance,
+];
+
+/**
+ * Check a CPU/motherboard pair against the chipset support matrix
+ */
+function evaluateChipsetSupport(
+  ruleId: string,
+  cpu: ProductWithSpec,
+  mobo: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const { cpuGeneration } = cpu.spec;
+  const { chipset } = mobo.spec;
+
+  // Without both values we can't check; the socket rule still applies
+  if (!cpuGeneration || !chipset) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  switch (getChipsetSupport(chipset, cpuGeneration)) {
+    case 'supported':
+      return createResult(ruleId, 'pass', createMessage('CHIPSET_SUPPORTED', { cpuGeneration, chipset }), affectedCategories);
+    case 'bios-update':
+      return createResult(ruleId, 'warn', createMessage('CHIPSET_BIOS_UPDATE', { cpuGeneration, chipset }), affectedCategories);
+    case 'unsupported':
+      return createResult(ruleId, 'fail', createMessage('CHIPSET_UNSUPPORTED', { cpuGeneration, chipset }), affectedCategories);
+    default:
+      return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+}
+
+/**
+ * CPU ↔ Motherboard Chipset/BIOS Support
+ * Same socket doesn't mean the board runs the CPU (e.g. Ryzen 5000 on B450, 14th Gen on B660)
+ */
+const cpuMotherboardChipsetRule: CompatibilityRule = {
+  id: 'cpu-mobo-chipset',
+  name: 'CPU/Motherboard Chipset',
+  description: 'El chipset del motherboard debe soportar la generación del CPU',
   sourceCategory: 'cpu',
   targetCategories: ['motherboard'],
   evaluate: (candidate, build) => {
     const mobo = build.get('motherboard');
     if (!mobo) {
       return createResult(
-        'cpu-mobo-socket',
-        'pass',
-        'No hay motherboard seleccionado',
-        ['cpu', 'motherboard']
-      );
-    }
-
-    const cpuSocket = candidate.spec.socket;
-    const moboSocket = mobo.spec.socket;
-
-    if (!cpuSocket || !moboSocket) {
-      return createResult(
-        'cpu-mobo-socket',
-        'warn',
-        'No se pudo determinar la compatibilidad de socket. Verificá manualmente.',
-        ['cpu', 'motherboard']
-      );
-    }
-
-    if (cpuSocket === moboSocket) {
-      return createResult(
-        'cpu-mobo-socket',
+        'cpu-mobo-chipset',
         'pass',
-        `Socket ${cpuSocket} compatible`,
+        createMessage('PART_NOT_SELECTED', { category: 'motherboard' }),
         ['cpu', 'motherboard']
       );
     }
 
-    return createResult(
-      'cpu-mobo-socket',
-      'fail',
-      `Socket incompatible: CPU usa ${cpuSocket}, motherboard usa ${moboSocket}`,
-      ['cpu', 'motherboard']
-    );
+    return evaluateChipsetSupport('cpu-mobo-chipset', candidate, mobo, ['cpu', 'motherboard']);
   },
 };
 
 /**
- * Motherboard ↔ CPU Socket Compatibility (reverse direction)
+ * Motherboard ↔ CPU Chipset/BIOS Support (reverse direction)
  */
-const motherboardCpuSocketRule: CompatibilityRule = {
-  id: 'mobo-cpu-socket',
-  name: 'Motherboard/CPU Socket',
-  description: 'El socket del motherboard debe coincidir con el socket del CPU',
+const motherboardCpuChipsetRule: CompatibilityRule = {
+  id: 'mobo-cpu-chipset',
+  name: 'Motherboard/CPU Chipset',
+  description: 'El chipset del motherboard debe soportar la generación del CPU',
   sourceCategory: 'motherboard',
   targetCategories: ['cpu'],
   evaluate: (candidate, build) => {
     const cpu = build.get('cpu');
     if (!cpu) {
       return createResult(
-        'mobo-cpu-socket',
+        'mobo-cpu-chipset',
         'pass',
-        'No hay CPU seleccionado',
+        createMessage('PART_NOT_SELECTED', { category: 'cpu' }),
         ['motherboard', 'cpu']
       );
     }
 
-    const moboSocket = candidate.spec.socket;
-    const cpuSocket = cpu.spec.socket;
+    return evaluateChipsetSupport('mobo-cpu-chipset', cpu, candidate, ['motherboard', 'cpu']);
+  },
+};
+
+/**
+ * CPU ↔ Display Output
+ * Without a graphics card, a CPU without iGPU (or an iGPU on a board with no
+ * video outputs) leaves the build with nothing to plug a monitor into.
+ * Only warns here: picking a graphics card fixes it; the build rule fails the summary
+ */
+const cpuDisplayOutputRule: CompatibilityRule = {
+  id: 'cpu-display-output',
+  name: 'CPU Display Output',
+  description: 'Sin placa de video, el CPU necesita gráficos integrados y un motherboard con salidas de video',
+  sourceCategory: 'cpu',
+  targetCategories: ['gpu', 'motherboard'],
+  evaluate: (candidate, build) => {
+    if (build.has('gpu')) {
+      return createResult('cpu-display-output', 'pass', createMessage('NOT_APPLICABLE'), ['cpu', 'gpu']);
+    }
 
-    if (!moboSocket || !cpuSocket) {
-      return createResult(
-        'mobo-cpu-socket',
-        'warn',
-        'No se pudo determinar la compatibilidad de socket. Verificá manualmente.',
-        ['motherboard', 'cpu']
-      );
+    if (candidate.spec.integratedGraphics === false) {
+      return createResult('cpu-display-output', 'warn', createMessage('GPU_REQUIRED'), ['cpu', 'gpu']);
     }
 
-    if (moboSocket === cpuSocket) {
+    if (candidate.spec.integratedGraphics && build.get('motherboard')?.spec.videoOutputs?.length === 0) {
       return createResult(
-        'mobo-cpu-socket',
-        'pass',
-        `Socket ${moboSocket} compatible`,
-        ['motherboard', 'cpu']
+        'cpu-display-output',
+        'warn',
+        createMessage('BOARD_NO_VIDEO_OUTPUTS'),
+        ['cpu', 'motherboard', 'gpu']
       );
     }
 
-    return createResult(
-      'mobo-cpu-socket',
-      'fail',
-      `Socket incompatible: Motherboard usa ${moboSocket}, CPU usa ${cpuSocket}`,
-      ['motherboard', 'cpu']
-    );
+    return createResult('cpu-display-output', 'pass', createMessage('NOT_APPLICABLE'), ['cpu', 'gpu']);
   },
 };
 
 /**
- * Motherboard ↔ RAM Memory Type Compatibility
+ * Motherboard ↔ Display Output
+ * A board without video outputs leaves the CPU's iGPU unusable
  */
-const motherboardRamTypeRule: CompatibilityRule = {
-  id: 'mobo-ram-type',
-  name: 'Motherboard/RAM Type',
-  description: 'El tipo de memoria RAM debe ser soportado por el motherboard',
+const motherboardDisplayOutputRule: CompatibilityRule = {
+  id: 'mobo-display-output',
+  name: 'Motherboard Display Output',
+  description: 'Sin placa de video, el motherboard necesita salidas de video para los gráficos integrados del CPU',
   sourceCategory: 'motherboard',
-  targetCategories: ['ram'],
+  targetCategories: ['cpu', 'gpu'],
   evaluate: (candidate, build) => {
-    const ram = build.get('ram');
-    if (!ram) {
+    const cpu = build.get('cpu');
+    if (!cpu) {
       return createResult(
-        'mobo-ram-type',
+        'mobo-display-output',
         'pass',
-        'No hay RAM seleccionada',
-        ['motherboard', 'ram']
+        createMessage('PART_NOT_SELECTED', { category: 'cpu' }),
+        ['motherboard', 'cpu']
       );
     }
 
-    const moboMemTypes = candidate.spec.supportedMemoryTypes;
-    const ramType = ram.spec.memoryType;
-
-    if (!moboMemTypes || moboMemTypes.length === 0 || !ramType) {
+    if (!build.has('gpu') && cpu.spec.integratedGraphics && candidate.spec.videoOutputs?.length === 0) {
       return createResult(
-        'mobo-ram-type',
+        'mobo-display-output',
         'warn',
-        'No se pudo determinar la compatibilidad de memoria. Verificá manualmente.',
-        ['motherboard', 'ram']
-      );
-    }
-
-    if (moboMemTypes.includes(ramType)) {
-      return createResult(
-        'mobo-ram-type',
-        'pass',
-        `Memoria ${ramType} soportada`,
-        ['motherboard', 'ram']
+        createMessage('BOARD_NO_VIDEO_OUTPUTS'),
+        ['motherboard', 'cpu', 'gpu']
       );
     }
 
-    return createResult(
-      'mobo-ram-type',
-      'fail',
-      `Memoria incompatible: Motherboard soporta ${moboMemTypes.join('/')}, RAM es ${ramType}`,
-      ['motherboard', 'ram']
-    );
+    return createResult('mobo-display-output', 'pass', createMessage('NOT_APPLICABLE'), ['motherboard', 'cpu']);
   },
 };
 
 /**
- * RAM ↔ Motherboard Memory Type Compatibility
+ * Shared evaluator for total RAM vs the motherboard's maximum capacity
  */
-const ramMotherboardTypeRule: CompatibilityRule = {
-  id: 'ram-mobo-type',
-  name: 'RAM/Motherboard Type',
-  description: 'El tipo de memoria RAM debe ser soportado por el motherboard',
+function evaluateMemoryCapacity(
+  ruleId: string,
+  ramItems: ProductWithQuantity[],
+  mobo: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const { maxMemory } = mobo.spec;
+  const totalMemory = getTotalMemory(ramItems);
+
+  if (!maxMemory || totalMemory === undefined) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  if (totalMemory > maxMemory) {
+    return createResult(ruleId, 'fail', createMessage('MEMORY_CAPACITY_EXCEEDED', { totalMemory, maxMemory }), affectedCategories);
+  }
+
+  return createResult(ruleId, 'pass', createMessage('MEMORY_CAPACITY_OK', { totalMemory, maxMemory }), affectedCategories);
+}
+
+/**
+ * RAM ↔ Motherboard Maximum Capacity
+ * Sums every kit and quantity in the multi-select RAM part
+ */
+const ramMotherboardCapacityRule: CompatibilityRule = {
+  id: 'ram-mobo-capacity',
+  name: 'RAM/Motherboard Capacity',
+  description: 'La RAM total no puede superar la capacidad máxima del motherboard',
   sourceCategory: 'ram',
   targetCategories: ['motherboard'],
   evaluate: (candidate, build) => {
     const mobo = build.get('motherboard');
     if (!mobo) {
       return createResult(
-        'ram-mobo-type',
+        'ram-mobo-capacity',
         'pass',
-        'No hay motherboard seleccionado',
+        createMessage('PART_NOT_SELECTED', { category: 'motherboard' }),
         ['ram', 'motherboard']
       );
     }
 
-    const ramType = candidate.spec.memoryType;
-    const moboMemTypes = mobo.spec.supportedMemoryTypes;
-
-    if (!ramType || !moboMemTypes || moboMemTypes.length === 0) {
-      return createResult(
-        'ram-mobo-type',
-        'warn',
-        'No se pudo determinar la compatibilidad de memoria. Verificá manualmente.',
-        ['ram', 'motherboard']
-      );
-    }
+    return evaluateMemoryCapacity('ram-mobo-capacity', getRamItems(build, candidate), mobo, ['ram', 'motherboard']);
+  },
+};
 
-    if (moboMemTypes.includes(ramType)) {
+/**
+ * Motherboard ↔ RAM Maximum Capacity (reverse direction)
+ */
+const motherboardRamCapacityRule: CompatibilityRule = {
+  id: 'mobo-ram-capacity',
+  name: 'Motherboard/RAM Capacity',
+  description: 'La RAM total no puede superar la capacidad máxima del motherboard',
+  sourceCategory: 'motherboard',
+  targetCategories: ['ram'],
+  evaluate: (candidate, build) => {
+    const ramItems = getRamItems(build);
+    if (ramItems.length === 0) {
       return createResult(
-        'ram-mobo-type',
+        'mobo-ram-capacity',
         'pass',
-        `Memoria ${ramType} soportada por el motherboard`,
-        ['ram', 'motherboard']
+        createMessage('PART_NOT_SELECTED', { category: 'ram' }),
+        ['motherboard', 'ram']
       );
     }
 
-    return createResult(
-      'ram-mobo-type',
-      'fail',
-      `Memoria incompatible: RAM es ${ramType}, motherboard soporta ${moboMemTypes.join('/')}`,
-      ['ram', 'motherboard']
-    );
+    return evaluateMemoryCapacity('mobo-ram-capacity', ramItems, candidate, ['motherboard', 'ram']);
   },
 };
 
 /**
- * Motherboard ↔ Case Form Factor Compatibility
+ * Shared evaluator for RAM speed vs chipset and CPU generation limits
+ * Faster kits still work, so exceeding a limit is only a warning
  */
-const motherboardCaseFormFactorRule: CompatibilityRule = {
-  id: 'mobo-case-formfactor',
-  name: 'Motherboard/Case Form Factor',
-  description: 'El form factor del motherboard debe ser soportado por el gabinete',
-  sourceCategory: 'motherboard',
-  targetCategories: ['case'],
+function evaluateMemorySpeed(
+  ruleId: string,
+  ramItems: ProductWithQuantity[],
+  cpu: ProductWithSpec | undefined,
+  mobo: ProductWithSpec | undefined,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const memoryType = ramItems.find((item) => item.product.spec.memoryType)?.product.spec.memoryType;
+  const speeds = ramItems
+    .map((item) => item.product.spec.memorySpeed)
+    .filter((speed): speed is number => speed !== undefined);
+
+  if (!memoryType || speeds.length === 0) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const memorySpeed = Math.max(...speeds);
+
+  // Chipsets without memory overclocking cap the speed regardless of the CPU
+  const chipset = mobo?.spec.chipset;
+  const chipsetLimit = chipset ? getChipsetMemorySpeedLimit(chipset, memoryType) : undefined;
+  if (chipset && chipsetLimit && memorySpeed > chipsetLimit) {
+    return createResult(
+      ruleId,
+      'warn',
+      createMessage('MEMORY_SPEED_CHIPSET_LOCKED', { memorySpeed, chipset, supportedSpeed: chipsetLimit }),
+      affectedCategories
+    );
+  }
+
+  const cpuGeneration = cpu?.spec.cpuGeneration;
+  const cpuSpeed = cpuGeneration ? getCpuMemorySpeed(cpuGeneration, memoryType) : undefined;
+  if (!cpuGeneration || !cpuSpeed) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  if (memorySpeed > cpuSpeed) {
+    return createResult(
+      ruleId,
+      'warn',
+      createMessage('MEMORY_SPEED_ABOVE_CPU_SPEC', { memorySpeed, cpuGeneration, supportedSpeed: cpuSpeed }),
+      affectedCategories
+    );
+  }
+
+  return createResult(ruleId, 'pass', createMessage('MEMORY_SPEED_SUPPORTED', { memorySpeed }), affectedCategories);
+}
+
+/**
+ * RAM ↔ CPU/Motherboard Speed
+ * Checks the kit speed against the CPU's official speed and locked chipsets
+ */
+const ramCpuSpeedRule: CompatibilityRule = {
+  id: 'ram-cpu-speed',
+  name: 'RAM/CPU Speed',
+  description: 'La velocidad de la RAM debe estar soportada por el CPU y el chipset',
+  sourceCategory: 'ram',
+  targetCategories: ['cpu', 'motherboard'],
   evaluate: (candidate, build) => {
-    const pcCase = build.get('case');
-    if (!pcCase) {
+    const cpu = build.get('cpu');
+    const mobo = build.get('motherboard');
+    if (!cpu && !mobo) {
       return createResult(
-        'mobo-case-formfactor',
+        'ram-cpu-speed',
         'pass',
-        'No hay gabinete seleccionado',
-        ['motherboard', 'case']
+        createMessage('PART_NOT_SELECTED', { category: 'cpu' }),
+        ['ram', 'cpu']
       );
     }
 
-    const moboFF = candidate.spec.formFactor;
-    const caseFF = pcCase.spec.supportedFormFactors;
+    return evaluateMemorySpeed('ram-cpu-speed', getRamItems(build, candidate), cpu, mobo, ['ram', 'cpu', 'motherboard']);
+  },
+};
 
-    // If we can't determine form factors, mark as unknown
-    if (!moboFF || !caseFF || caseFF.length === 0) {
+/**
+ * CPU ↔ RAM Speed (reverse direction)
+ */
+const cpuRamSpeedRule: CompatibilityRule = {
+  id: 'cpu-ram-speed',
+  name: 'CPU/RAM Speed',
+  description: 'La velocidad de la RAM debe estar soportada por el CPU',
+  sourceCategory: 'cpu',
+  targetCategories: ['ram', 'motherboard'],
+  evaluate: (candidate, build) => {
+    const ramItems = getRamItems(build);
+    if (ramItems.length === 0) {
       return createResult(
-        'mobo-case-formfactor',
-        'unknown',
-        'No se pudo verificar form factor',
-        ['motherboard', 'case']
+        'cpu-ram-speed',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'ram' }),
+        ['cpu', 'ram']
       );
     }
 
-    // Form factor hierarchy: E-ATX > ATX > Micro-ATX > Mini-ITX
-    // Larger cases can fit smaller motherboards
-    const formFactorHierarchy: Record<string, number> = {
-      'E-ATX': 4,
-      'ATX': 3,
-      'Micro-ATX': 2,
-      'Mini-ITX': 1,
-    };
-
-    const moboLevel = formFactorHierarchy[moboFF] ?? 0;
-    
-    for (const supportedFF of caseFF) {
-      const caseLevel = formFactorHierarchy[supportedFF] ?? 0;
-      if (caseLevel >= moboLevel) {
-        return createResult(
-          'mobo-case-formfactor',
-          'pass',
-          `Form factor ${moboFF} compatible con gabinete`,
-          ['motherboard', 'case']
-        );
-      }
-    }
-
-    return createResult(
-      'mobo-case-formfactor',
-      'fail',
-      `Form factor incompatible: Motherboard es ${moboFF}, gabinete soporta ${caseFF.join('/')}`,
-      ['motherboard', 'case']
-    );
+    return evaluateMemorySpeed('cpu-ram-speed', ramItems, candidate, build.get('motherboard'), ['cpu', 'ram']);
   },
 };
 
 /**
- * Case ↔ Motherboard Form Factor Compatibility
+ * Motherboard ↔ RAM Speed (reverse direction)
  */
-const caseMotherboardFormFactorRule: CompatibilityRule = {
-  id: 'case-mobo-formfactor',
-  name: 'Case/Motherboard Form Factor',
-  description: 'El gabinete debe soportar el form factor del motherboard',
-  sourceCategory: 'case',
-  targetCategories: ['motherboard'],
+const motherboardRamSpeedRule: CompatibilityRule = {
+  id: 'mobo-ram-speed',
+  name: 'Motherboard/RAM Speed',
+  description: 'La velocidad de la RAM debe estar soportada por el chipset',
+  sourceCategory: 'motherboard',
+  targetCategories: ['ram', 'cpu'],
   evaluate: (candidate, build) => {
-    const mobo = build.get('motherboard');
-    if (!mobo) {
+    const ramItems = getRamItems(build);
+    if (ramItems.length === 0) {
       return createResult(
-        'case-mobo-formfactor',
+        'mobo-ram-speed',
         'pass',
-        'No hay motherboard seleccionado',
-        ['case', 'motherboard']
+        createMessage('PART_NOT_SELECTED', { category: 'ram' }),
+        ['motherboard', 'ram']
       );
     }
 
-    const caseFF = candidate.spec.supportedFormFactors;
-    const moboFF = mobo.spec.formFactor;
+    return evaluateMemorySpeed('mobo-ram-speed', ramItems, build.get('cpu'), candidate, ['motherboard', 'ram']);
+  },
+};
 
-    // If we can't determine form factors, mark as unknown
-    if (!caseFF || caseFF.length === 0 || !moboFF) {
-      return createResult(
-        'case-mobo-formfactor',
-        'unknown',
-        'No se pudo verificar form factor',
-        ['case', 'motherboard']
-      );
+/**
+ * RAM ↔ RAM Mixed Kits
+ * Different speeds, latencies or module sizes run at the lowest common
+ * settings and may not train or run dual channel
+ */
+const ramMixedKitsRule: CompatibilityRule = {
+  id: 'ram-mixed-kits',
+  name: 'RAM Mixed Kits',
+  description: 'Se recomienda no mezclar kits de RAM distintos',
+  sourceCategory: 'ram',
+  targetCategories: ['ram'],
+  evaluate: (candidate, build) => {
+    const specs = getRamItems(build, candidate).map((item) => item.product.spec);
+
+    // Distinct known values, sorted for stable messages
+    const distinct = <T>(values: (T | undefined)[]): T[] =>
+      [...new Set(values.filter((value): value is T => value !== undefined))].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const speeds = distinct(specs.map((spec) => spec.memorySpeed));
+    if (speeds.length > 1) {
+      return createResult('ram-mixed-kits', 'warn', createMessage('MEMORY_MIXED_SPEEDS', { speeds }), ['ram']);
     }
 
-    const formFactorHierarchy: Record<string, number> = {
-      'E-ATX': 4,
-      'ATX': 3,
-      'Micro-ATX': 2,
-      'Mini-ITX': 1,
-    };
+    const latencies = distinct(specs.map((spec) => spec.memoryLatency));
+    if (latencies.length > 1) {
+      return createResult('ram-mixed-kits', 'warn', createMessage('MEMORY_MIXED_LATENCIES', { latencies }), ['ram']);
+    }
 
-    const moboLevel = formFactorHierarchy[moboFF] ?? 0;
-    
-    for (const supportedFF of caseFF) {
-      const caseLevel = formFactorHierarchy[supportedFF] ?? 0;
-      if (caseLevel >= moboLevel) {
-        return createResult(
-          'case-mobo-formfactor',
-          'pass',
-          `Gabinete soporta motherboard ${moboFF}`,
-          ['case', 'motherboard']
-        );
-      }
+    const capacities = distinct(specs.map((spec) => spec.memoryCapacity));
+    if (capacities.length > 1) {
+      return createResult('ram-mixed-kits', 'warn', createMessage('MEMORY_MIXED_CAPACITIES', { capacities }), ['ram']);
     }
 
-    return createResult(
-      'case-mobo-formfactor',
-      'fail',
-      `Gabinete incompatible: Soporta ${caseFF.join('/')}, motherboard es ${moboFF}`,
-      ['case', 'motherboard']
-    );
+    return createResult('ram-mixed-kits', 'pass', createMessage('NOT_APPLICABLE'), ['ram']);
   },
 };
 
 /**
- * GPU ↔ Case Length Compatibility
+ * RAM Dual Channel
+ * Consumer boards run dual channel only with an even number of modules
  */
-const gpuCaseLengthRule: CompatibilityRule = {
-  id: 'gpu-case-length',
-  name: 'GPU/Case Length',
-  description: 'La GPU debe entrar en el gabinete',
-  sourceCategory: 'gpu',
-  targetCategories: ['case'],
+const ramDualChannelRule: CompatibilityRule = {
+  id: 'ram-dual-channel',
+  name: 'RAM Dual Channel',
+  description: 'Se recomienda una cantidad par de módulos de RAM para dual channel',
+  sourceCategory: 'ram',
+  targetCategories: ['ram'],
   evaluate: (candidate, build) => {
-    const pcCase = build.get('case');
-    if (!pcCase) {
-      return createResult(
-        'gpu-case-length',
-        'pass',
-        'No hay gabinete seleccionado',
-        ['gpu', 'case']
-      );
-    }
+    const modules = getTotalModules(getRamItems(build, candidate));
 
-    const gpuLength = candidate.spec.gpuLength;
-    const maxGpuLength = pcCase.spec.maxGpuLength;
-
-    // If we can't determine dimensions, mark as unknown
-    if (!gpuLength || !maxGpuLength) {
-      return createResult(
-        'gpu-case-length',
-        'unknown',
-        'No se pudieron verificar dimensiones',
-        ['gpu', 'case']
-      );
+    if (modules === 1) {
+      return createResult('ram-dual-channel', 'warn', createMessage('MEMORY_SINGLE_CHANNEL'), ['ram']);
     }
 
-    if (gpuLength <= maxGpuLength) {
-      return createResult(
-        'gpu-case-length',
-        'pass',
-        `GPU (${gpuLength}mm) entra en gabinete (max ${maxGpuLength}mm)`,
-        ['gpu', 'case']
-      );
+    if (modules % 2 === 1) {
+      return createResult('ram-dual-channel', 'warn', createMessage('MEMORY_ODD_MODULES', { modules }), ['ram']);
     }
 
-    return createResult(
-      'gpu-case-length',
-      'fail',
-      `GPU demasiado larga: GPU es ${gpuLength}mm, gabinete soporta hasta ${maxGpuLength}mm`,
-      ['gpu', 'case']
-    );
+    return createResult('ram-dual-channel', 'pass', createMessage('MEMORY_DUAL_CHANNEL', { modules }), ['ram']);
   },
 };
 
@@ -414,7 +644,7 @@ const caseIncludedPsuGpuRule: CompatibilityRule = {
       return createResult(
         'case-included-psu-gpu',
         'pass',
-        '', // No message - most cases don't include PSU
+        createMessage('NOT_APPLICABLE'), // Most cases don't include PSU
         ['case', 'gpu']
       );
     }
@@ -424,7 +654,7 @@ const caseIncludedPsuGpuRule: CompatibilityRule = {
       return createResult(
         'case-included-psu-gpu',
         'pass',
-        '', // No message needed when there's no GPU
+        createMessage('NOT_APPLICABLE'), // No message needed when there's no GPU
         ['case', 'gpu']
       );
     }
@@ -438,7 +668,7 @@ const caseIncludedPsuGpuRule: CompatibilityRule = {
       return createResult(
         'case-included-psu-gpu',
         'pass',
-        '', // No message - can't validate without GPU requirements
+        createMessage('NOT_APPLICABLE'), // Can't validate without GPU requirements
         ['case', 'gpu']
       );
     }
@@ -451,14 +681,14 @@ const caseIncludedPsuGpuRule: CompatibilityRule = {
         return createResult(
           'case-included-psu-gpu',
           'warn',
-          `Fuente incluida de ${includedPsuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos, pero está justa. Se recomienda una fuente mayor.`,
+          createMessage('INCLUDED_PSU_TIGHT', { psuWattage: includedPsuWattage, requiredWattage: gpuRecommendedPsu }),
           ['case', 'gpu']
         );
       }
       return createResult(
         'case-included-psu-gpu',
         'pass',
-        `Fuente incluida de ${includedPsuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos por la GPU`,
+        createMessage('INCLUDED_PSU_SUFFICIENT', { psuWattage: includedPsuWattage, requiredWattage: gpuRecommendedPsu }),
         ['case', 'gpu']
       );
     }
@@ -467,103 +697,52 @@ const caseIncludedPsuGpuRule: CompatibilityRule = {
     return createResult(
       'case-included-psu-gpu',
       'fail',
-      `Fuente incluida insuficiente: ${includedPsuWattage}W. La GPU requiere mínimo ${gpuRecommendedPsu}W`,
+      createMessage('INCLUDED_PSU_INSUFFICIENT', { psuWattage: includedPsuWattage, requiredWattage: gpuRecommendedPsu }),
       ['case', 'gpu']
     );
   },
 };
 
 /**
- * Case ↔ GPU Length Compatibility
+ * PSU ↔ GPU Minimum Power Requirement
+ * Checks if PSU meets the minimum wattage specified by the GPU
  */
-const caseGpuLengthRule: CompatibilityRule = {
-  id: 'case-gpu-length',
-  name: 'Case/GPU Length',
-  description: 'El gabinete debe soportar el largo de la GPU',
-  sourceCategory: 'case',
+const psuGpuMinimumPowerRule: CompatibilityRule = {
+  id: 'psu-gpu-minimum',
+  name: 'PSU/GPU Minimum Power',
+  description: 'La fuente debe cumplir con la potencia mínima requerida por la GPU',
+  sourceCategory: 'psu',
   targetCategories: ['gpu'],
   evaluate: (candidate, build) => {
     const gpu = build.get('gpu');
+
     if (!gpu) {
       return createResult(
-        'case-gpu-length',
+        'psu-gpu-minimum',
         'pass',
-        'No hay GPU seleccionada',
-        ['case', 'gpu']
+        createMessage('PART_NOT_SELECTED', { category: 'gpu' }),
+        ['psu', 'gpu']
       );
     }
 
-    const maxGpuLength = candidate.spec.maxGpuLength;
-    const gpuLength = gpu.spec.gpuLength;
+    const psuWattage = candidate.spec.psuWattage;
+    const gpuRecommendedPsu = gpu.spec.gpuRecommendedPsu;
 
-    // If we can't determine dimensions, mark as unknown
-    if (!maxGpuLength || !gpuLength) {
+    if (!psuWattage) {
       return createResult(
-        'case-gpu-length',
-        'unknown',
-        'No se pudieron verificar dimensiones',
-        ['case', 'gpu']
+        'psu-gpu-minimum',
+        'warn',
+        createMessage('PSU_WATTAGE_UNKNOWN'),
+        ['psu', 'gpu']
       );
     }
 
-    if (gpuLength <= maxGpuLength) {
-      return createResult(
-        'case-gpu-length',
-        'pass',
-        `Gabinete soporta GPU de ${gpuLength}mm (max ${maxGpuLength}mm)`,
-        ['case', 'gpu']
-      );
-    }
-
-    return createResult(
-      'case-gpu-length',
-      'fail',
-      `Gabinete muy chico para GPU: GPU es ${gpuLength}mm, gabinete soporta hasta ${maxGpuLength}mm`,
-      ['case', 'gpu']
-    );
-  },
-};
-
-/**
- * PSU ↔ GPU Minimum Power Requirement
- * Checks if PSU meets the minimum wattage specified by the GPU
- */
-const psuGpuMinimumPowerRule: CompatibilityRule = {
-  id: 'psu-gpu-minimum',
-  name: 'PSU/GPU Minimum Power',
-  description: 'La fuente debe cumplir con la potencia mínima requerida por la GPU',
-  sourceCategory: 'psu',
-  targetCategories: ['gpu'],
-  evaluate: (candidate, build) => {
-    const gpu = build.get('gpu');
-
-    if (!gpu) {
-      return createResult(
-        'psu-gpu-minimum',
-        'pass',
-        'No hay GPU seleccionada',
-        ['psu', 'gpu']
-      );
-    }
-
-    const psuWattage = candidate.spec.psuWattage;
-    const gpuRecommendedPsu = gpu.spec.gpuRecommendedPsu;
-
-    if (!psuWattage) {
-      return createResult(
-        'psu-gpu-minimum',
-        'warn',
-        'No se pudo determinar el wattage de la fuente. Verificá manualmente.',
-        ['psu', 'gpu']
-      );
-    }
-
-    // If GPU doesn't specify a minimum PSU, perform basic estimate
-    if (!gpuRecommendedPsu) {
+    // If GPU doesn't specify a minimum PSU, perform basic estimate
+    if (!gpuRecommendedPsu) {
       return createResult(
         'psu-gpu-minimum',
         'warn',
-        'La GPU no especifica potencia mínima requerida. Verificá manualmente.',
+        createMessage('GPU_PSU_REQUIREMENT_UNKNOWN'),
         ['psu', 'gpu']
       );
     }
@@ -576,14 +755,14 @@ const psuGpuMinimumPowerRule: CompatibilityRule = {
         return createResult(
           'psu-gpu-minimum',
           'warn',
-          `Fuente de ${psuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos, pero está justa. Se recomienda mayor potencia para mayor margen.`,
+          createMessage('PSU_GPU_TIGHT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
           ['psu', 'gpu']
         );
       }
       return createResult(
         'psu-gpu-minimum',
         'pass',
-        `Fuente de ${psuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos por la GPU`,
+        createMessage('PSU_GPU_SUFFICIENT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
         ['psu', 'gpu']
       );
     }
@@ -592,7 +771,7 @@ const psuGpuMinimumPowerRule: CompatibilityRule = {
     return createResult(
       'psu-gpu-minimum',
       'fail',
-      `Fuente insuficiente: ${psuWattage}W. La GPU requiere mínimo ${gpuRecommendedPsu}W`,
+      createMessage('PSU_GPU_INSUFFICIENT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
       ['psu', 'gpu']
     );
   },
@@ -615,7 +794,7 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
       return createResult(
         'gpu-psu-minimum',
         'pass',
-        'No hay fuente seleccionada',
+        createMessage('PART_NOT_SELECTED', { category: 'psu' }),
         ['gpu', 'psu']
       );
     }
@@ -627,7 +806,7 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
       return createResult(
         'gpu-psu-minimum',
         'warn',
-        'La GPU no especifica potencia mínima requerida. Verificá manualmente.',
+        createMessage('GPU_PSU_REQUIREMENT_UNKNOWN'),
         ['gpu', 'psu']
       );
     }
@@ -636,7 +815,7 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
       return createResult(
         'gpu-psu-minimum',
         'warn',
-        'No se pudo determinar el wattage de la fuente. Verificá manualmente.',
+        createMessage('PSU_WATTAGE_UNKNOWN'),
         ['gpu', 'psu']
       );
     }
@@ -649,14 +828,14 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
         return createResult(
           'gpu-psu-minimum',
           'warn',
-          `Fuente de ${psuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos, pero está justa. Se recomienda mayor potencia para mayor margen.`,
+          createMessage('PSU_GPU_TIGHT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
           ['gpu', 'psu']
         );
       }
       return createResult(
         'gpu-psu-minimum',
         'pass',
-        `Fuente de ${psuWattage}W cumple con los ${gpuRecommendedPsu}W requeridos por la GPU`,
+        createMessage('PSU_GPU_SUFFICIENT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
         ['gpu', 'psu']
       );
     }
@@ -665,7 +844,7 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
     return createResult(
       'gpu-psu-minimum',
       'fail',
-      `Fuente insuficiente: ${psuWattage}W. La GPU requiere mínimo ${gpuRecommendedPsu}W`,
+      createMessage('PSU_GPU_INSUFFICIENT', { psuWattage, requiredWattage: gpuRecommendedPsu }),
       ['gpu', 'psu']
     );
   },
@@ -673,15 +852,20 @@ const gpuPsuMinimumPowerRule: CompatibilityRule = {
 
 /**
  * PSU ↔ Build Power Requirements
- * Estimates total power and checks against PSU wattage
+ * Compares PSU wattage against the build's power budget (see power.ts),
+ * with the headroom from the evaluation options
  */
 const psuPowerRule: CompatibilityRule = {
   id: 'psu-power',
   name: 'PSU Wattage',
   description: 'La fuente debe proveer suficiente potencia para el build',
   sourceCategory: 'psu',
-  targetCategories: ['cpu', 'gpu'],
-  evaluate: (candidate, build) => {
+  targetCategories: [
+    'cpu', 'gpu', 'ram', 'storage', 'cooler', 'fans',
+    'mouse', 'keyboard', 'headphones', 'peripherals', // USB power
+  ],
+  usesContext: true,
+  evaluate: (candidate, build, context) => {
     const cpu = build.get('cpu');
     const gpu = build.get('gpu');
 
@@ -689,7 +873,7 @@ const psuPowerRule: CompatibilityRule = {
       return createResult(
         'psu-power',
         'pass',
-        'No hay CPU ni GPU para evaluar',
+        createMessage('NO_CPU_OR_GPU'),
         ['psu', 'cpu', 'gpu']
       );
     }
@@ -699,208 +883,62 @@ const psuPowerRule: CompatibilityRule = {
       return createResult(
         'psu-power',
         'warn',
-        'No se pudo determinar el wattage de la fuente. Verificá manualmente.',
+        createMessage('PSU_WATTAGE_UNKNOWN'),
         ['psu', 'cpu', 'gpu']
       );
     }
 
-    // IMPORTANT: If GPU specifies a recommended PSU, that value ALREADY INCLUDES
-    // the entire system (CPU, motherboard, RAM, storage, etc.)
-    // We should use that value directly, NOT sum it with CPU power
-    if (gpu?.spec.gpuRecommendedPsu) {
-      // GPU manufacturer's recommended PSU already accounts for the full system
-      const gpuRecommendedPsu = gpu.spec.gpuRecommendedPsu;
-      
-      if (psuWattage >= gpuRecommendedPsu) {
-        return createResult(
-          'psu-power',
-          'pass',
-          `Fuente de ${psuWattage}W cumple con el sistema completo según GPU (${gpuRecommendedPsu}W)`,
-          ['psu', 'cpu', 'gpu']
-        );
-      }
-      
-      // PSU is below GPU recommendation - this is already handled by other rules
-      // Just pass here to avoid duplicate failures
+    // PSU below the GPU manufacturer's recommendation is already reported
+    // by psuGpuMinimumPowerRule; pass here to avoid duplicate failures
+    const gpuRecommendedPsu = gpu?.spec.gpuRecommendedPsu;
+    if (gpuRecommendedPsu && psuWattage < gpuRecommendedPsu) {
       return createResult(
         'psu-power',
         'pass',
-        '', // Other rules (psuGpuMinimumPowerRule) will handle this
+        createMessage('NOT_APPLICABLE'),
         ['psu', 'cpu', 'gpu']
       );
     }
-    
-    // Only estimate if GPU doesn't specify recommended PSU
-    let estimatedPower = 100; // Base system power (mobo, ram, storage, fans)
-    
-    if (cpu?.spec.tdp) {
-      estimatedPower += cpu.spec.tdp;
-    } else if (cpu) {
-      estimatedPower += 125; // Default estimate
-    }
-
-    if (gpu) {
-      estimatedPower += 200; // Default GPU estimate (only when GPU doesn't specify)
-    }
 
-    // Add 20% headroom
-    const recommendedPsu = Math.ceil(estimatedPower * 1.2);
+    const power = context?.power ?? DEFAULT_POWER_OPTIONS;
+    const budget = computePowerBudget(build, power);
+    const estimatedPower = budget.peak;
+    const recommendedPsu = budget.recommendedPsu;
 
-    if (psuWattage >= recommendedPsu) {
+    if (psuWattage < estimatedPower) {
       return createResult(
         'psu-power',
-        'pass',
-        `Fuente de ${psuWattage}W suficiente (estimado: ${estimatedPower}W, recomendado: ${recommendedPsu}W)`,
+        'fail',
+        createMessage('PSU_INSUFFICIENT', { psuWattage, estimatedPower, recommendedPsu }),
         ['psu', 'cpu', 'gpu']
       );
     }
 
-    if (psuWattage >= estimatedPower) {
+    // Enough for peak draw, but not for the configured headroom
+    if (psuWattage < Math.ceil(estimatedPower * (1 + power.headroom))) {
       return createResult(
         'psu-power',
         'warn',
-        `Fuente de ${psuWattage}W puede ser justa. Estimado: ${estimatedPower}W, recomendado: ${recommendedPsu}W`,
+        createMessage('PSU_TIGHT', { psuWattage, estimatedPower, recommendedPsu }),
         ['psu', 'cpu', 'gpu']
       );
     }
 
-    return createResult(
-      'psu-power',
-      'fail',
-      `Fuente insuficiente: ${psuWattage}W. Estimado: ${estimatedPower}W, recomendado: ${recommendedPsu}W`,
-      ['psu', 'cpu', 'gpu']
-    );
-  },
-};
-
-/**
- * Cooler ↔ CPU Socket Compatibility
- */
-const coolerCpuSocketRule: CompatibilityRule = {
-  id: 'cooler-cpu-socket',
-  name: 'Cooler/CPU Socket',
-  description: 'El cooler debe soportar el socket del CPU',
-  sourceCategory: 'cooler',
-  targetCategories: ['cpu'],
-  evaluate: (candidate, build) => {
-    const cpu = build.get('cpu');
-    if (!cpu) {
-      return createResult(
-        'cooler-cpu-socket',
-        'pass',
-        'No hay CPU seleccionado',
-        ['cooler', 'cpu']
-      );
-    }
-
-    // Special case: If this is the "use included cooler" option, it's automatically compatible
-    if (candidate.product.id === '__use_included_cooler__') {
-      return createResult(
-        'cooler-cpu-socket',
-        'pass',
-        'Cooler incluido con CPU (compatible)',
-        ['cooler', 'cpu']
-      );
-    }
-
-    const coolerSockets = candidate.spec.coolerSockets;
-    const cpuSocket = cpu.spec.socket;
-
-    if (!coolerSockets || coolerSockets.length === 0 || !cpuSocket) {
+    // Enough headroom for sustained load, but not for high-end GPU transient spikes
+    if (psuWattage < budget.transientPeak) {
       return createResult(
-        'cooler-cpu-socket',
+        'psu-power',
         'warn',
-        'No se pudo verificar compatibilidad de socket del cooler. Verificá manualmente.',
-        ['cooler', 'cpu']
-      );
-    }
-
-    if (coolerSockets.includes(cpuSocket)) {
-      return createResult(
-        'cooler-cpu-socket',
-        'pass',
-        `Cooler soporta socket ${cpuSocket}`,
-        ['cooler', 'cpu']
-      );
-    }
-
-    return createResult(
-      'cooler-cpu-socket',
-      'fail',
-      `Cooler incompatible: Soporta ${coolerSockets.join('/')}, CPU usa ${cpuSocket}`,
-      ['cooler', 'cpu']
-    );
-  },
-};
-
-/**
- * Cooler ↔ Case Clearance
- */
-const coolerCaseClearanceRule: CompatibilityRule = {
-  id: 'cooler-case-clearance',
-  name: 'Cooler/Case Clearance',
-  description: 'El cooler debe entrar en el gabinete',
-  sourceCategory: 'cooler',
-  targetCategories: ['case'],
-  evaluate: (candidate, build) => {
-    const pcCase = build.get('case');
-    if (!pcCase) {
-      return createResult(
-        'cooler-case-clearance',
-        'pass',
-        'No hay gabinete seleccionado',
-        ['cooler', 'case']
-      );
-    }
-
-    // Special case: If this is the "use included cooler" option, it's automatically compatible
-    // CPU included coolers are designed to fit in standard cases
-    if (candidate.product.id === '__use_included_cooler__') {
-      return createResult(
-        'cooler-case-clearance',
-        'pass',
-        'Cooler incluido con CPU (compatible)',
-        ['cooler', 'case']
-      );
-    }
-
-    const coolerHeight = candidate.spec.coolerHeight;
-    const maxCoolerHeight = pcCase.spec.maxCpuCoolerHeight;
-
-    // Only check for air coolers (AIO compatibility is handled by coolerCaseWaterCoolingRule)
-    if (candidate.spec.coolerType === 'aio') {
-      return createResult(
-        'cooler-case-clearance',
-        'pass',
-        '', // AIO compatibility is checked by water cooling rule
-        ['cooler', 'case']
-      );
-    }
-
-    // If we can't determine dimensions, mark as unknown
-    if (!coolerHeight || !maxCoolerHeight) {
-      return createResult(
-        'cooler-case-clearance',
-        'unknown',
-        'No se pudieron verificar dimensiones',
-        ['cooler', 'case']
-      );
-    }
-
-    if (coolerHeight <= maxCoolerHeight) {
-      return createResult(
-        'cooler-case-clearance',
-        'pass',
-        `Cooler (${coolerHeight}mm) entra en gabinete (max ${maxCoolerHeight}mm)`,
-        ['cooler', 'case']
+        createMessage('PSU_TRANSIENT_TIGHT', { psuWattage, transientPower: budget.transientPeak }),
+        ['psu', 'gpu']
       );
     }
 
     return createResult(
-      'cooler-case-clearance',
-      'fail',
-      `Cooler muy alto: ${coolerHeight}mm, gabinete soporta hasta ${maxCoolerHeight}mm`,
-      ['cooler', 'case']
+      'psu-power',
+      'pass',
+      createMessage('PSU_SUFFICIENT', { psuWattage, estimatedPower, recommendedPsu }),
+      ['psu', 'cpu', 'gpu']
     );
   },
 };
@@ -917,11 +955,11 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
   targetCategories: ['case'],
   evaluate: (candidate, build) => {
     // Special case: If this is the "use included cooler" option, it's automatically compatible
-    if (candidate.product.id === '__use_included_cooler__') {
+    if (candidate.product.id === USE_INCLUDED_COOLER_ID) {
       return createResult(
         'cooler-case-watercooling',
         'pass',
-        '', // Included coolers are not AIO, so this rule doesn't apply
+        createMessage('NOT_APPLICABLE'), // Included coolers are not AIO, so this rule doesn't apply
         ['cooler', 'case']
       );
     }
@@ -931,7 +969,7 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'cooler-case-watercooling',
         'pass',
-        '', // Not an AIO, so this rule doesn't apply
+        createMessage('NOT_APPLICABLE'), // Not an AIO, so this rule doesn't apply
         ['cooler', 'case']
       );
     }
@@ -941,21 +979,21 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'cooler-case-watercooling',
         'pass',
-        'No hay gabinete seleccionado',
+        createMessage('PART_NOT_SELECTED', { category: 'case' }),
         ['cooler', 'case']
       );
     }
 
     const aioSize = candidate.spec.aioSize;
     const supportsWaterCooling = pcCase.spec.supportsWaterCooling;
-    const supportedRadiatorSizes = pcCase.spec.supportedRadiatorSizes;
+    const supportedRadiatorSizes = getSupportedRadiatorSizes(pcCase.spec);
 
     // If we can't determine AIO size, warn user
     if (!aioSize) {
       return createResult(
         'cooler-case-watercooling',
         'warn',
-        'No se pudo determinar el tamaño del radiador del AIO. Verificá manualmente la compatibilidad con el gabinete.',
+        createMessage('AIO_SIZE_UNKNOWN'),
         ['cooler', 'case']
       );
     }
@@ -971,7 +1009,7 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
         return createResult(
           'cooler-case-watercooling',
           'pass',
-          `Gabinete soporta radiador de ${aioSize}mm (máximo: ${maxSupportedSize}mm)`,
+          createMessage('RADIATOR_SUPPORTED', { aioSize, maxRadiatorSize: maxSupportedSize }),
           ['cooler', 'case']
         );
       }
@@ -979,7 +1017,7 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'cooler-case-watercooling',
         'fail',
-        `Radiador de ${aioSize}mm no compatible. Gabinete soporta hasta ${maxSupportedSize}mm`,
+        createMessage('RADIATOR_TOO_LARGE', { aioSize, maxRadiatorSize: maxSupportedSize }),
         ['cooler', 'case']
       );
     }
@@ -989,7 +1027,7 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'cooler-case-watercooling',
         'warn',
-        `Gabinete soporta water cooling, pero no se pudo verificar el tamaño del radiador (${aioSize}mm). Verificá manualmente.`,
+        createMessage('RADIATOR_SIZE_UNVERIFIED', { aioSize }),
         ['cooler', 'case']
       );
     }
@@ -998,7 +1036,7 @@ const coolerCaseWaterCoolingRule: CompatibilityRule = {
     return createResult(
       'cooler-case-watercooling',
       'fail',
-      `Gabinete no indica soporte para water cooling/AIO. El radiador de ${aioSize}mm podría no ser compatible.`,
+      createMessage('WATERCOOLING_NOT_SUPPORTED', { aioSize }),
       ['cooler', 'case']
     );
   },
@@ -1019,17 +1057,17 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'case-cooler-watercooling',
         'pass',
-        'No hay cooler seleccionado',
+        createMessage('PART_NOT_SELECTED', { category: 'cooler' }),
         ['case', 'cooler']
       );
     }
 
     // Special case: If this is the "use included cooler" option, it's automatically compatible
-    if (cooler.product.id === '__use_included_cooler__') {
+    if (cooler.product.id === USE_INCLUDED_COOLER_ID) {
       return createResult(
         'case-cooler-watercooling',
         'pass',
-        '', // Included coolers are not AIO, so this rule doesn't apply
+        createMessage('NOT_APPLICABLE'), // Included coolers are not AIO, so this rule doesn't apply
         ['case', 'cooler']
       );
     }
@@ -1039,21 +1077,21 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'case-cooler-watercooling',
         'pass',
-        '', // Not an AIO, so this rule doesn't apply
+        createMessage('NOT_APPLICABLE'), // Not an AIO, so this rule doesn't apply
         ['case', 'cooler']
       );
     }
 
     const aioSize = cooler.spec.aioSize;
     const supportsWaterCooling = candidate.spec.supportsWaterCooling;
-    const supportedRadiatorSizes = candidate.spec.supportedRadiatorSizes;
+    const supportedRadiatorSizes = getSupportedRadiatorSizes(candidate.spec);
 
     // If we can't determine AIO size, warn user
     if (!aioSize) {
       return createResult(
         'case-cooler-watercooling',
         'warn',
-        'No se pudo determinar el tamaño del radiador del AIO. Verificá manualmente.',
+        createMessage('AIO_SIZE_UNKNOWN'),
         ['case', 'cooler']
       );
     }
@@ -1069,7 +1107,7 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
         return createResult(
           'case-cooler-watercooling',
           'pass',
-          `Gabinete soporta radiador de ${aioSize}mm (máximo: ${maxSupportedSize}mm)`,
+          createMessage('RADIATOR_SUPPORTED', { aioSize, maxRadiatorSize: maxSupportedSize }),
           ['case', 'cooler']
         );
       }
@@ -1077,7 +1115,7 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'case-cooler-watercooling',
         'fail',
-        `Gabinete no soporta radiador de ${aioSize}mm. Soporta hasta ${maxSupportedSize}mm`,
+        createMessage('RADIATOR_TOO_LARGE', { aioSize, maxRadiatorSize: maxSupportedSize }),
         ['case', 'cooler']
       );
     }
@@ -1087,7 +1125,7 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
       return createResult(
         'case-cooler-watercooling',
         'warn',
-        `Gabinete soporta water cooling, pero no se pudo verificar compatibilidad con radiador de ${aioSize}mm. Verificá manualmente.`,
+        createMessage('RADIATOR_SIZE_UNVERIFIED', { aioSize }),
         ['case', 'cooler']
       );
     }
@@ -1096,138 +1134,948 @@ const caseCoolerWaterCoolingRule: CompatibilityRule = {
     return createResult(
       'case-cooler-watercooling',
       'fail',
-      `Gabinete no indica soporte para water cooling/AIO. El radiador de ${aioSize}mm podría no ser compatible.`,
+      createMessage('WATERCOOLING_NOT_SUPPORTED', { aioSize }),
       ['case', 'cooler']
     );
   },
 };
 
 /**
- * Storage ↔ Motherboard M.2 Slots Compatibility
- * Checks if the storage device uses M.2 and if the motherboard has M.2 slots
+ * Shared evaluator for the GPU's PCIe link vs the motherboard's slot generation
+ * x16 cards barely notice an older slot; x8/x4 cards lose real bandwidth
  */
-const storageMotherboardM2Rule: CompatibilityRule = {
-  id: 'storage-mobo-m2',
-  name: 'Storage/Motherboard M.2',
-  description: 'Los dispositivos M.2 requieren slots M.2 en la motherboard',
-  sourceCategory: 'storage',
+function evaluatePcieLink(
+  ruleId: string,
+  gpu: ProductWithSpec,
+  mobo: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const link = getGpuPcieLink(gpu.spec);
+  const boardGeneration = getMotherboardPcieGeneration(mobo.spec);
+
+  if (!link || !boardGeneration) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const params = { gpuInterface: formatPcieLink(link), pciExpressVersion: `${boardGeneration}.0` };
+
+  if (boardGeneration < link.generation && link.lanes <= 8) {
+    return createResult(ruleId, 'warn', createMessage('PCIE_BANDWIDTH_LIMITED', params), affectedCategories);
+  }
+
+  return createResult(ruleId, 'pass', createMessage('PCIE_LINK_OK', params), affectedCategories);
+}
+
+/**
+ * GPU ↔ Motherboard PCIe Generation
+ */
+const gpuMotherboardPcieRule: CompatibilityRule = {
+  id: 'gpu-mobo-pcie',
+  name: 'GPU/Motherboard PCIe',
+  description: 'Las GPUs x8 pierden rendimiento en motherboards de una generación PCIe anterior',
+  sourceCategory: 'gpu',
   targetCategories: ['motherboard'],
   evaluate: (candidate, build) => {
     const mobo = build.get('motherboard');
     if (!mobo) {
       return createResult(
-        'storage-mobo-m2',
-        'pass',
-        'No hay motherboard seleccionada',
-        ['storage', 'motherboard']
-      );
-    }
-
-    const storageConnectionType = candidate.spec.storageConnectionType;
-    
-    // Only check if storage is M.2
-    if (storageConnectionType !== 'M.2') {
-      return createResult(
-        'storage-mobo-m2',
+        'gpu-mobo-pcie',
         'pass',
-        '', // Not M.2, so this rule doesn't apply
-        ['storage', 'motherboard']
-      );
-    }
-
-    const m2Slots = mobo.spec.m2Slots;
-
-    if (!m2Slots || m2Slots === 0) {
-      return createResult(
-        'storage-mobo-m2',
-        'fail',
-        'La motherboard no tiene slots M.2 disponibles. Este disco M.2 no es compatible.',
-        ['storage', 'motherboard']
+        createMessage('PART_NOT_SELECTED', { category: 'motherboard' }),
+        ['gpu', 'motherboard']
       );
     }
 
-    return createResult(
-      'storage-mobo-m2',
-      'pass',
-      `Motherboard tiene ${m2Slots} slot(s) M.2`,
-      ['storage', 'motherboard']
-    );
+    return evaluatePcieLink('gpu-mobo-pcie', candidate, mobo, ['gpu', 'motherboard']);
   },
 };
 
 /**
- * Motherboard ↔ Storage M.2 Compatibility
- * Checks if the motherboard has M.2 slots for M.2 storage devices
+ * Motherboard ↔ GPU PCIe Generation (reverse direction)
  */
-const motherboardStorageM2Rule: CompatibilityRule = {
-  id: 'mobo-storage-m2',
-  name: 'Motherboard/Storage M.2',
-  description: 'La motherboard debe tener slots M.2 para dispositivos M.2',
+const motherboardGpuPcieRule: CompatibilityRule = {
+  id: 'mobo-gpu-pcie',
+  name: 'Motherboard/GPU PCIe',
+  description: 'Las GPUs x8 pierden rendimiento en motherboards de una generación PCIe anterior',
   sourceCategory: 'motherboard',
-  targetCategories: ['storage'],
+  targetCategories: ['gpu'],
   evaluate: (candidate, build) => {
-    const storage = build.get('storage');
-    if (!storage) {
+    const gpu = build.get('gpu');
+    if (!gpu) {
       return createResult(
-        'mobo-storage-m2',
+        'mobo-gpu-pcie',
         'pass',
-        'No hay almacenamiento seleccionado',
-        ['motherboard', 'storage']
+        createMessage('PART_NOT_SELECTED', { category: 'gpu' }),
+        ['motherboard', 'gpu']
       );
     }
 
-    const storageConnectionType = storage.spec.storageConnectionType;
-    
-    // Only check if storage is M.2
-    if (storageConnectionType !== 'M.2') {
-      return createResult(
-        'mobo-storage-m2',
-        'pass',
-        '', // Not M.2, so this rule doesn't apply
-        ['motherboard', 'storage']
-      );
-    }
+    return evaluatePcieLink('mobo-gpu-pcie', gpu, candidate, ['motherboard', 'gpu']);
+  },
+};
 
-    const m2Slots = candidate.spec.m2Slots;
+/**
+ * Shared evaluator for GPU power connectors vs the PSU's cables
+ * Without a native 16-pin cable the GPU's adapter takes at least two PCIe 8-pin cables
+ */
+function evaluatePowerConnectors(
+  ruleId: string,
+  gpu: ProductWithSpec,
+  psu: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const gpuPowerConnectors = gpu.spec.gpuPowerConnectors;
+  if (!gpuPowerConnectors || gpuPowerConnectors.length === 0) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  // 6-pin inputs are fed by 6+2 cables, so they count as 8-pin
+  const required16Pin = gpuPowerConnectors.filter((connector) => connector === '12VHPWR').length;
+  const missing16Pin = Math.max(0, required16Pin - (psu.spec.psu12vhpwr ?? 0));
+  const requiredConnectors = gpuPowerConnectors.length - required16Pin + missing16Pin * 2;
+
+  const availableConnectors = psu.spec.psuPcie8Pin;
+  if (availableConnectors !== undefined && availableConnectors < requiredConnectors) {
+    return createResult(
+      ruleId,
+      'fail',
+      createMessage('GPU_POWER_CONNECTORS_INSUFFICIENT', { requiredConnectors, availableConnectors }),
+      affectedCategories
+    );
+  }
 
-    if (!m2Slots || m2Slots === 0) {
+  if (missing16Pin > 0) {
+    return createResult(ruleId, 'warn', createMessage('GPU_12VHPWR_ADAPTER'), affectedCategories);
+  }
+
+  return createResult(ruleId, 'pass', createMessage('GPU_POWER_CONNECTORS_OK', { gpuPowerConnectors }), affectedCategories);
+}
+
+/**
+ * GPU ↔ PSU Power Connectors
+ * Wattage isn't enough: the PSU needs the right cables (8-pin count, 12VHPWR/12V-2x6)
+ */
+const gpuPsuConnectorsRule: CompatibilityRule = {
+  id: 'gpu-psu-connectors',
+  name: 'GPU/PSU Connectors',
+  description: 'La fuente debe tener los conectores de alimentación que usa la GPU',
+  sourceCategory: 'gpu',
+  targetCategories: ['psu'],
+  evaluate: (candidate, build) => {
+    const psu = build.get('psu');
+    if (!psu) {
       return createResult(
-        'mobo-storage-m2',
-        'fail',
-        'La motherboard no tiene slots M.2. El almacenamiento M.2 seleccionado no es compatible.',
-        ['motherboard', 'storage']
+        'gpu-psu-connectors',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'psu' }),
+        ['gpu', 'psu']
       );
     }
 
-    return createResult(
-      'mobo-storage-m2',
-      'pass',
-      `Motherboard soporta ${m2Slots} disco(s) M.2`,
-      ['motherboard', 'storage']
-    );
+    return evaluatePowerConnectors('gpu-psu-connectors', candidate, psu, ['gpu', 'psu']);
   },
 };
 
 /**
- * All compatibility rules
+ * PSU ↔ GPU Power Connectors (reverse direction)
+ */
+const psuGpuConnectorsRule: CompatibilityRule = {
+  id: 'psu-gpu-connectors',
+  name: 'PSU/GPU Connectors',
+  description: 'La fuente debe tener los conectores de alimentación que usa la GPU',
+  sourceCategory: 'psu',
+  targetCategories: ['gpu'],
+  evaluate: (candidate, build) => {
+    const gpu = build.get('gpu');
+    if (!gpu) {
+      return createResult(
+        'psu-gpu-connectors',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'gpu' }),
+        ['psu', 'gpu']
+      );
+    }
+
+    return evaluatePowerConnectors('psu-gpu-connectors', gpu, candidate, ['psu', 'gpu']);
+  },
+};
+
+/**
+ * Shared evaluator for the motherboard's CPU power inputs vs the PSU's EPS cables
+ * Listed requirements fail; requirements guessed from the chipset only warn
+ */
+function evaluateEpsConnectors(
+  ruleId: string,
+  mobo: ProductWithSpec,
+  psu: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const requirement = getEpsRequirement(mobo.spec);
+  const availableConnectors = psu.spec.psuEps8Pin;
+
+  if (!requirement || availableConnectors === undefined) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const requiredConnectors = requirement.connectors;
+  if (availableConnectors >= requiredConnectors) {
+    return createResult(
+      ruleId,
+      'pass',
+      createMessage('EPS_CONNECTORS_OK', { requiredConnectors, availableConnectors }),
+      affectedCategories
+    );
+  }
+
+  if (requirement.inferred && mobo.spec.chipset) {
+    return createResult(
+      ruleId,
+      'warn',
+      createMessage('EPS_CONNECTORS_LIKELY_INSUFFICIENT', { chipset: mobo.spec.chipset, availableConnectors }),
+      affectedCategories
+    );
+  }
+
+  return createResult(
+    ruleId,
+    'fail',
+    createMessage('EPS_CONNECTORS_INSUFFICIENT', { requiredConnectors, availableConnectors }),
+    affectedCategories
+  );
+}
+
+/**
+ * PSU ↔ Motherboard CPU Power (EPS)
+ */
+const psuMotherboardEpsRule: CompatibilityRule = {
+  id: 'psu-mobo-eps',
+  name: 'PSU/Motherboard EPS',
+  description: 'La fuente debe tener los conectores EPS que usa el motherboard',
+  sourceCategory: 'psu',
+  targetCategories: ['motherboard'],
+  evaluate: (candidate, build) => {
+    const mobo = build.get('motherboard');
+    if (!mobo) {
+      return createResult(
+        'psu-mobo-eps',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'motherboard' }),
+        ['psu', 'motherboard']
+      );
+    }
+
+    return evaluateEpsConnectors('psu-mobo-eps', mobo, candidate, ['psu', 'motherboard']);
+  },
+};
+
+/**
+ * Motherboard ↔ PSU CPU Power (reverse direction)
+ */
+const motherboardPsuEpsRule: CompatibilityRule = {
+  id: 'mobo-psu-eps',
+  name: 'Motherboard/PSU EPS',
+  description: 'La fuente debe tener los conectores EPS que usa el motherboard',
+  sourceCategory: 'motherboard',
+  targetCategories: ['psu'],
+  evaluate: (candidate, build) => {
+    const psu = build.get('psu');
+    if (!psu) {
+      return createResult(
+        'mobo-psu-eps',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'psu' }),
+        ['motherboard', 'psu']
+      );
+    }
+
+    return evaluateEpsConnectors('mobo-psu-eps', candidate, psu, ['motherboard', 'psu']);
+  },
+};
+
+/**
+ * Shared evaluator for SATA drives vs the PSU's SATA power connectors
+ * Adapters exist, so running short is only a warning
+ */
+function evaluateSataPower(
+  ruleId: string,
+  storageItems: ProductWithQuantity[],
+  psu: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const sataDrives = getSataDriveCount(storageItems);
+  const sataConnectors = psu.spec.psuSata;
+
+  if (sataDrives === 0 || sataConnectors === undefined) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  if (sataDrives > sataConnectors) {
+    return createResult(
+      ruleId,
+      'warn',
+      createMessage('SATA_POWER_INSUFFICIENT', { sataDrives, sataConnectors }),
+      affectedCategories
+    );
+  }
+
+  return createResult(ruleId, 'pass', createMessage('SATA_POWER_OK', { sataDrives, sataConnectors }), affectedCategories);
+}
+
+/**
+ * Storage ↔ PSU SATA Power
+ * Counts every SATA drive in the multi-select storage part
+ */
+const storagePsuSataRule: CompatibilityRule = {
+  id: 'storage-psu-sata',
+  name: 'Storage/PSU SATA Power',
+  description: 'La fuente debe tener conectores SATA para todos los discos',
+  sourceCategory: 'storage',
+  targetCategories: ['psu'],
+  evaluate: (candidate, build) => {
+    const psu = build.get('psu');
+    if (!psu) {
+      return createResult(
+        'storage-psu-sata',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'psu' }),
+        ['storage', 'psu']
+      );
+    }
+
+    const storageItems = getBuildItemsWithCandidate(build, 'storage', candidate);
+    return evaluateSataPower('storage-psu-sata', storageItems, psu, ['storage', 'psu']);
+  },
+};
+
+/**
+ * PSU ↔ Storage SATA Power (reverse direction)
+ */
+const psuStorageSataRule: CompatibilityRule = {
+  id: 'psu-storage-sata',
+  name: 'PSU/Storage SATA Power',
+  description: 'La fuente debe tener conectores SATA para todos los discos',
+  sourceCategory: 'psu',
+  targetCategories: ['storage'],
+  evaluate: (candidate, build) => {
+    const storageItems = getBuildItems(build, 'storage');
+    if (storageItems.length === 0) {
+      return createResult(
+        'psu-storage-sata',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'storage' }),
+        ['psu', 'storage']
+      );
+    }
+
+    return evaluateSataPower('psu-storage-sata', storageItems, candidate, ['psu', 'storage']);
+  },
+};
+
+/**
+ * Shared evaluator for the PSU form factor vs the PSU form factors a case accepts
+ * SFX units fit ATX mounts with an adapter bracket; ATX units never fit SFX-only cases
+ */
+function evaluatePsuFormFactor(
+  ruleId: string,
+  psu: ProductWithSpec,
+  pcCase: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const psuFormFactor = psu.spec.psuFormFactor;
+  const casePsuFormFactors = pcCase.spec.supportedPsuFormFactors;
+
+  // The case's own PSU always fits
+  if (psu.product.id === USE_INCLUDED_PSU_ID || !psuFormFactor || !casePsuFormFactors) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  if (casePsuFormFactors.includes(psuFormFactor)) {
+    return createResult(
+      ruleId,
+      'pass',
+      createMessage('PSU_FORM_FACTOR_COMPATIBLE', { psuFormFactor, casePsuFormFactors }),
+      affectedCategories
+    );
+  }
+
+  if (psuFormFactor.startsWith('SFX') && casePsuFormFactors.includes('ATX')) {
+    return createResult(ruleId, 'warn', createMessage('PSU_SFX_BRACKET', { psuFormFactor }), affectedCategories);
+  }
+
+  return createResult(
+    ruleId,
+    'fail',
+    createMessage('PSU_FORM_FACTOR_MISMATCH', { psuFormFactor, casePsuFormFactors }),
+    affectedCategories
+  );
+}
+
+/**
+ * PSU ↔ Case Form Factor
+ */
+const psuCaseFormFactorRule: CompatibilityRule = {
+  id: 'psu-case-form-factor',
+  name: 'PSU/Case Form Factor',
+  description: 'El formato de la fuente debe ser compatible con el gabinete',
+  sourceCategory: 'psu',
+  targetCategories: ['case'],
+  evaluate: (candidate, build) => {
+    const pcCase = build.get('case');
+    if (!pcCase) {
+      return createResult(
+        'psu-case-form-factor',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'case' }),
+        ['psu', 'case']
+      );
+    }
+
+    return evaluatePsuFormFactor('psu-case-form-factor', candidate, pcCase, ['psu', 'case']);
+  },
+};
+
+/**
+ * Case ↔ PSU Form Factor (reverse direction)
+ */
+const casePsuFormFactorRule: CompatibilityRule = {
+  id: 'case-psu-form-factor',
+  name: 'Case/PSU Form Factor',
+  description: 'El formato de la fuente debe ser compatible con el gabinete',
+  sourceCategory: 'case',
+  targetCategories: ['psu'],
+  evaluate: (candidate, build) => {
+    const psu = build.get('psu');
+    if (!psu) {
+      return createResult(
+        'case-psu-form-factor',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'psu' }),
+        ['case', 'psu']
+      );
+    }
+
+    return evaluatePsuFormFactor('case-psu-form-factor', psu, candidate, ['case', 'psu']);
+  },
+};
+
+/**
+ * Shared evaluator for the cooler's rated TDP vs the CPU's power
+ * Below the CPU's TDP fails; below its sustained boost power (PL2/PPT) warns
+ */
+function evaluateCoolerTdp(
+  ruleId: string,
+  cpu: ProductWithSpec,
+  cooler: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const coolerTdp = cooler.spec.coolerTdp;
+
+  // The stock cooler is sized for its CPU
+  if (cooler.product.id === USE_INCLUDED_COOLER_ID || !coolerTdp || (!cpu.spec.tdp && !cpu.spec.cpuFamily)) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const { typical: cpuTdp, peak: cpuPower } = getCpuPower(cpu.spec);
+
+  if (coolerTdp < cpuTdp) {
+    return createResult(ruleId, 'fail', createMessage('COOLER_TDP_INSUFFICIENT', { coolerTdp, cpuTdp }), affectedCategories);
+  }
+
+  if (coolerTdp < cpuPower) {
+    return createResult(ruleId, 'warn', createMessage('COOLER_TDP_TIGHT', { coolerTdp, cpuPower }), affectedCategories);
+  }
+
+  return createResult(ruleId, 'pass', createMessage('COOLER_TDP_SUFFICIENT', { coolerTdp, cpuPower }), affectedCategories);
+}
+
+/**
+ * Cooler ↔ CPU TDP Headroom
+ */
+const coolerCpuTdpRule: CompatibilityRule = {
+  id: 'cooler-cpu-tdp',
+  name: 'Cooler/CPU TDP',
+  description: 'El cooler debe disipar el consumo del CPU',
+  sourceCategory: 'cooler',
+  targetCategories: ['cpu'],
+  evaluate: (candidate, build) => {
+    const cpu = build.get('cpu');
+    if (!cpu) {
+      return createResult(
+        'cooler-cpu-tdp',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'cpu' }),
+        ['cooler', 'cpu']
+      );
+    }
+
+    return evaluateCoolerTdp('cooler-cpu-tdp', cpu, candidate, ['cooler', 'cpu']);
+  },
+};
+
+/**
+ * CPU ↔ Cooler TDP Headroom (reverse direction)
+ */
+const cpuCoolerTdpRule: CompatibilityRule = {
+  id: 'cpu-cooler-tdp',
+  name: 'CPU/Cooler TDP',
+  description: 'El cooler debe disipar el consumo del CPU',
+  sourceCategory: 'cpu',
+  targetCategories: ['cooler'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    if (!cooler) {
+      return createResult(
+        'cpu-cooler-tdp',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'cooler' }),
+        ['cpu', 'cooler']
+      );
+    }
+
+    return evaluateCoolerTdp('cpu-cooler-tdp', candidate, cooler, ['cpu', 'cooler']);
+  },
+};
+
+/**
+ * Shared evaluator for RAM height vs the space under an air cooler
+ * Only checked when the cooler lists its clearance or is a dual-tower design
+ */
+function evaluateRamClearance(
+  ruleId: string,
+  ramItems: ProductWithQuantity[],
+  cooler: ProductWithSpec,
+  affectedCategories: CategoryKey[]
+): RuleResult {
+  const heights = ramItems
+    .map((item) => item.product.spec.memoryHeight)
+    .filter((height): height is number => height !== undefined);
+
+  if (cooler.spec.coolerType === 'aio' || heights.length === 0) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const memoryHeight = Math.max(...heights);
+  const ramClearance = cooler.spec.coolerRamClearance;
+
+  if (ramClearance) {
+    if (memoryHeight > ramClearance) {
+      return createResult(
+        ruleId,
+        'warn',
+        createMessage('RAM_CLEARANCE_EXCEEDED', { memoryHeight, ramClearance }),
+        affectedCategories
+      );
+    }
+    return createResult(ruleId, 'pass', createMessage('RAM_CLEARANCE_OK', { memoryHeight, ramClearance }), affectedCategories);
+  }
+
+  // Dual towers overhang the first DIMM slots; standard-height modules still fit
+  if (cooler.spec.coolerDualTower && memoryHeight > DUAL_TOWER_RAM_CLEARANCE) {
+    return createResult(ruleId, 'warn', createMessage('RAM_CLEARANCE_DUAL_TOWER', { memoryHeight }), affectedCategories);
+  }
+
+  return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+}
+
+/**
+ * RAM ↔ Cooler Clearance
+ */
+const ramCoolerClearanceRule: CompatibilityRule = {
+  id: 'ram-cooler-clearance',
+  name: 'RAM/Cooler Clearance',
+  description: 'La RAM alta debe entrar debajo de coolers de aire grandes',
+  sourceCategory: 'ram',
+  targetCategories: ['cooler'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    if (!cooler) {
+      return createResult(
+        'ram-cooler-clearance',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'cooler' }),
+        ['ram', 'cooler']
+      );
+    }
+
+    return evaluateRamClearance('ram-cooler-clearance', getRamItems(build, candidate), cooler, ['ram', 'cooler']);
+  },
+};
+
+/**
+ * Cooler ↔ RAM Clearance (reverse direction)
+ */
+const coolerRamClearanceRule: CompatibilityRule = {
+  id: 'cooler-ram-clearance',
+  name: 'Cooler/RAM Clearance',
+  description: 'La RAM alta debe entrar debajo de coolers de aire grandes',
+  sourceCategory: 'cooler',
+  targetCategories: ['ram'],
+  evaluate: (candidate, build) => {
+    const ramItems = getRamItems(build);
+    if (ramItems.length === 0) {
+      return createResult(
+        'cooler-ram-clearance',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'ram' }),
+        ['cooler', 'ram']
+      );
+    }
+
+    return evaluateRamClearance('cooler-ram-clearance', ramItems, candidate, ['cooler', 'ram']);
+  },
+};
+
+/**
+ * Shared evaluator for AIO radiator placement
+ * Tries each case position that fits the radiator (top first) and reports the
+ * first one without interference; otherwise the mildest conflict found, with
+ * the part that causes it (GPU, RAM or motherboard) among the affected categories.
+ * Only checked when the case lists its radiator positions.
+ */
+function evaluateRadiatorPlacement(
+  ruleId: string,
+  cooler: ProductWithSpec,
+  pcCase: ProductWithSpec,
+  build: PCBuild,
+  candidate: ProductWithSpec
+): RuleResult {
+  const aioSize = cooler.spec.aioSize;
+  const positions = aioSize ? getRadiatorPositions(pcCase.spec, aioSize) : [];
+  const affectedCategories = [...new Set<CategoryKey>([candidate.category, 'cooler', 'case'])];
+
+  // Size mismatches are reported by the water cooling rule
+  if (cooler.spec.coolerType !== 'aio' || !aioSize || positions.length === 0) {
+    return createResult(ruleId, 'pass', createMessage('NOT_APPLICABLE'), affectedCategories);
+  }
+
+  const gpu = candidate.category === 'gpu' ? candidate : build.get('gpu');
+  const mobo = candidate.category === 'motherboard' ? candidate : build.get('motherboard');
+  const heights = getRamItems(build, candidate)
+    .map((item) => item.product.spec.memoryHeight)
+    .filter((height): height is number => height !== undefined);
+  const memoryHeight = heights.length > 0 ? Math.max(...heights) : undefined;
+
+  const conflicts: { status: 'warn' | 'fail'; message: RuleMessage; category: CategoryKey }[] = [];
+
+  for (const position of positions) {
+    if (position === 'front') {
+      const maxGpuLength = getGpuClearanceWithRadiator(pcCase.spec, position);
+      const gpuLength = gpu?.spec.gpuLength;
+      if (maxGpuLength && gpuLength && gpuLength > maxGpuLength) {
+        conflicts.push({
+          status: 'fail',
+          message: createMessage('RADIATOR_FRONT_GPU_CONFLICT', { aioSize, gpuLength, maxGpuLength }),
+          category: 'gpu',
+        });
+        continue;
+      }
+    }
+
+    if (position === 'top') {
+      if (memoryHeight && memoryHeight > TOP_RADIATOR_RAM_CLEARANCE) {
+        conflicts.push({
+          status: 'warn',
+          message: createMessage('RADIATOR_TOP_RAM_CONFLICT', { aioSize, memoryHeight }),
+          category: 'ram',
+        });
+        continue;
+      }
+      if (mobo?.spec.chipset && hasTallVrmHeatsinks(mobo.spec)) {
+        conflicts.push({
+          status: 'warn',
+          message: createMessage('RADIATOR_TOP_VRM_CONFLICT', { aioSize, chipset: mobo.spec.chipset }),
+          category: 'motherboard',
+        });
+        continue;
+      }
+    }
+
+    return createResult(
+      ruleId,
+      'pass',
+      createMessage('RADIATOR_PLACEMENT_OK', { aioSize, radiatorPosition: position }),
+      affectedCategories
+    );
+  }
+
+  const conflict = conflicts.find((c) => c.status === 'warn') ?? conflicts[0];
+  return createResult(ruleId, conflict.status, conflict.message, [
+    ...new Set<CategoryKey>([...affectedCategories, conflict.category]),
+  ]);
+}
+
+/**
+ * Cooler (AIO) ↔ Case Radiator Placement
+ */
+const coolerCaseRadiatorPlacementRule: CompatibilityRule = {
+  id: 'cooler-case-radiator-placement',
+  name: 'Cooler/Case Radiator Placement',
+  description: 'El radiador del AIO debe tener una posición libre en el gabinete sin chocar con la GPU, la RAM o el VRM',
+  sourceCategory: 'cooler',
+  targetCategories: ['case', 'gpu', 'ram', 'motherboard'],
+  evaluate: (candidate, build) => {
+    const pcCase = build.get('case');
+    if (!pcCase) {
+      return createResult(
+        'cooler-case-radiator-placement',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'case' }),
+        ['cooler', 'case']
+      );
+    }
+
+    return evaluateRadiatorPlacement('cooler-case-radiator-placement', candidate, pcCase, build, candidate);
+  },
+};
+
+/**
+ * Case ↔ Cooler (AIO) Radiator Placement (reverse direction)
+ */
+const caseCoolerRadiatorPlacementRule: CompatibilityRule = {
+  id: 'case-cooler-radiator-placement',
+  name: 'Case/Cooler Radiator Placement',
+  description: 'El radiador del AIO debe tener una posición libre en el gabinete sin chocar con la GPU, la RAM o el VRM',
+  sourceCategory: 'case',
+  targetCategories: ['cooler', 'gpu', 'ram', 'motherboard'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    if (!cooler) {
+      return createResult(
+        'case-cooler-radiator-placement',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'cooler' }),
+        ['case', 'cooler']
+      );
+    }
+
+    return evaluateRadiatorPlacement('case-cooler-radiator-placement', cooler, candidate, build, candidate);
+  },
+};
+
+/**
+ * GPU ↔ Front Radiator Clearance
+ * A GPU that fits the bare case can still hit a front-mounted radiator
+ */
+const gpuRadiatorPlacementRule: CompatibilityRule = {
+  id: 'gpu-radiator-placement',
+  name: 'GPU/Radiator Placement',
+  description: 'La GPU debe entrar en el gabinete con el radiador del AIO montado',
+  sourceCategory: 'gpu',
+  targetCategories: ['cooler', 'case', 'ram', 'motherboard'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    const pcCase = build.get('case');
+    if (!cooler || !pcCase) {
+      return createResult(
+        'gpu-radiator-placement',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: !cooler ? 'cooler' : 'case' }),
+        ['gpu', 'cooler', 'case']
+      );
+    }
+
+    return evaluateRadiatorPlacement('gpu-radiator-placement', cooler, pcCase, build, candidate);
+  },
+};
+
+/**
+ * RAM ↔ Top Radiator Clearance
+ */
+const ramRadiatorPlacementRule: CompatibilityRule = {
+  id: 'ram-radiator-placement',
+  name: 'RAM/Radiator Placement',
+  description: 'La RAM alta puede chocar con un radiador montado arriba',
+  sourceCategory: 'ram',
+  targetCategories: ['cooler', 'case', 'gpu', 'motherboard'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    const pcCase = build.get('case');
+    if (!cooler || !pcCase) {
+      return createResult(
+        'ram-radiator-placement',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: !cooler ? 'cooler' : 'case' }),
+        ['ram', 'cooler', 'case']
+      );
+    }
+
+    return evaluateRadiatorPlacement('ram-radiator-placement', cooler, pcCase, build, candidate);
+  },
+};
+
+/**
+ * Motherboard ↔ Top Radiator Clearance
+ * Tall VRM heatsinks can block a radiator mounted on top
+ */
+const motherboardRadiatorPlacementRule: CompatibilityRule = {
+  id: 'motherboard-radiator-placement',
+  name: 'Motherboard/Radiator Placement',
+  description: 'Los disipadores de VRM altos pueden chocar con un radiador montado arriba',
+  sourceCategory: 'motherboard',
+  targetCategories: ['cooler', 'case', 'gpu', 'ram'],
+  evaluate: (candidate, build) => {
+    const cooler = build.get('cooler');
+    const pcCase = build.get('case');
+    if (!cooler || !pcCase) {
+      return createResult(
+        'motherboard-radiator-placement',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: !cooler ? 'cooler' : 'case' }),
+        ['motherboard', 'cooler', 'case']
+      );
+    }
+
+    return evaluateRadiatorPlacement('motherboard-radiator-placement', cooler, pcCase, build, candidate);
+  },
+};
+
+/**
+ * Storage ↔ Motherboard M.2 Slots Compatibility
+ * Checks if the storage device uses M.2 and if the motherboard has M.2 slots
+ */
+const storageMotherboardM2Rule: CompatibilityRule = {
+  id: 'storage-mobo-m2',
+  name: 'Storage/Motherboard M.2',
+  description: 'Los dispositivos M.2 requieren slots M.2 en la motherboard',
+  sourceCategory: 'storage',
+  targetCategories: ['motherboard'],
+  evaluate: (candidate, build) => {
+    const mobo = build.get('motherboard');
+    if (!mobo) {
+      return createResult(
+        'storage-mobo-m2',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'motherboard' }),
+        ['storage', 'motherboard']
+      );
+    }
+
+    const storageConnectionType = candidate.spec.storageConnectionType;
+    
+    // Only check if storage is M.2
+    if (storageConnectionType !== 'M.2') {
+      return createResult(
+        'storage-mobo-m2',
+        'pass',
+        createMessage('NOT_APPLICABLE'), // Not M.2, so this rule doesn't apply
+        ['storage', 'motherboard']
+      );
+    }
+
+    const m2Slots = mobo.spec.m2Slots;
+
+    if (!m2Slots || m2Slots === 0) {
+      return createResult(
+        'storage-mobo-m2',
+        'fail',
+        createMessage('M2_NO_SLOTS'),
+        ['storage', 'motherboard']
+      );
+    }
+
+    return createResult(
+      'storage-mobo-m2',
+      'pass',
+      createMessage('M2_SLOTS_AVAILABLE', { m2Slots }),
+      ['storage', 'motherboard']
+    );
+  },
+};
+
+/**
+ * Motherboard ↔ Storage M.2 Compatibility
+ * Checks if the motherboard has M.2 slots for M.2 storage devices
+ */
+const motherboardStorageM2Rule: CompatibilityRule = {
+  id: 'mobo-storage-m2',
+  name: 'Motherboard/Storage M.2',
+  description: 'La motherboard debe tener slots M.2 para dispositivos M.2',
+  sourceCategory: 'motherboard',
+  targetCategories: ['storage'],
+  evaluate: (candidate, build) => {
+    const storage = build.get('storage');
+    if (!storage) {
+      return createResult(
+        'mobo-storage-m2',
+        'pass',
+        createMessage('PART_NOT_SELECTED', { category: 'storage' }),
+        ['motherboard', 'storage']
+      );
+    }
+
+    const storageConnectionType = storage.spec.storageConnectionType;
+    
+    // Only check if storage is M.2
+    if (storageConnectionType !== 'M.2') {
+      return createResult(
+        'mobo-storage-m2',
+        'pass',
+        createMessage('NOT_APPLICABLE'), // Not M.2, so this rule doesn't apply
+        ['motherboard', 'storage']
+      );
+    }
+
+    const m2Slots = candidate.spec.m2Slots;
+
+    if (!m2Slots || m2Slots === 0) {
+      return createResult(
+        'mobo-storage-m2',
+        'fail',
+        createMessage('M2_NO_SLOTS'),
+        ['motherboard', 'storage']
+      );
+    }
+
+    return createResult(
+      'mobo-storage-m2',
+      'pass',
+      createMessage('M2_SLOTS_AVAILABLE', { m2Slots }),
+      ['motherboard', 'storage']
+    );
+  },
+};
+
+/**
+ * All compatibility rules
  */
 export const COMPATIBILITY_RULES: CompatibilityRule[] = [
-  cpuMotherboardSocketRule,
-  motherboardCpuSocketRule,
-  motherboardRamTypeRule,
-  ramMotherboardTypeRule,
-  motherboardCaseFormFactorRule,
-  caseMotherboardFormFactorRule,
-  gpuCaseLengthRule,
-  caseGpuLengthRule,
+  ...DECLARATIVE_RULES.flatMap(compileDeclarativeRule),
+  cpuMotherboardChipsetRule, // Validate CPU generation against chipset/BIOS support
+  motherboardCpuChipsetRule,
+  cpuDisplayOutputRule, // Warn when, without a graphics card, the build has no video output
+  motherboardDisplayOutputRule,
+  ramMotherboardCapacityRule, // Validate total RAM against motherboard max capacity
+  motherboardRamCapacityRule,
+  ramCpuSpeedRule, // Validate RAM speed against CPU generation and locked chipsets
+  cpuRamSpeedRule,
+  motherboardRamSpeedRule,
+  ramMixedKitsRule, // Warn when mixing different RAM kits
+  ramDualChannelRule, // Warn when the module count breaks dual channel
   caseIncludedPsuGpuRule, // Validate case's included PSU against GPU
   psuGpuMinimumPowerRule,
   gpuPsuMinimumPowerRule, // Inverse rule: validate GPU against PSU
+  gpuPsuConnectorsRule, // Validate GPU power connectors against PSU cables
+  psuGpuConnectorsRule,
+  gpuMotherboardPcieRule, // Warn for x8 GPUs in older PCIe generation boards
+  motherboardGpuPcieRule,
+  psuMotherboardEpsRule, // Validate PSU CPU power cables against motherboard EPS inputs
+  motherboardPsuEpsRule,
+  storagePsuSataRule, // Warn when SATA drives outnumber PSU SATA connectors
+  psuStorageSataRule,
+  psuCaseFormFactorRule, // Validate PSU form factor (ATX/SFX) against case
+  casePsuFormFactorRule,
+  coolerCpuTdpRule, // Validate cooler rated TDP against CPU power
+  cpuCoolerTdpRule,
+  ramCoolerClearanceRule, // Warn when tall RAM may hit a large air cooler
+  coolerRamClearanceRule,
   psuPowerRule,
-  coolerCpuSocketRule,
-  coolerCaseClearanceRule,
   coolerCaseWaterCoolingRule, // Validate AIO cooler radiator size against case
   caseCoolerWaterCoolingRule, // Validate case water cooling support against AIO cooler
+  coolerCaseRadiatorPlacementRule, // Pick a radiator position that does not hit the GPU, RAM or VRM
+  caseCoolerRadiatorPlacementRule,
+  gpuRadiatorPlacementRule,
+  ramRadiatorPlacementRule,
+  motherboardRadiatorPlacementRule,
   storageMotherboardM2Rule, // Validate M.2 storage against motherboard
   motherboardStorageM2Rule, // Validate motherboard M.2 slots against storage
 ];
@@ -1240,4 +2088,3 @@ export function getRulesForCategory(category: CategoryKey): CompatibilityRule[]
     (rule) => rule.sourceCategory === category
   );
 }
-
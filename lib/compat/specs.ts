@@ -3,12 +3,27 @@
  * Extracts ProductSpec from product title, description, and attributes
  * 
  * NOTE: This is a best-effort extraction from unstructured data.
- * For production, you'd want a curated product_specs table.
+ * Known mis-parsed products belong in the curated table (./curated), not in new regex tweaks.
  */
 
 import type { Product } from '../mallweb/normalize';
-import type { ProductSpec } from './types';
+import type {
+  ExtractedSpec,
+  FanConnector,
+  FanLighting,
+  FanMount,
+  M2SataSharing,
+  M2SlotSpec,
+  ProductSpec,
+  RadiatorPosition,
+  SpecConfidence,
+  SpecProvenanceMap,
+  SpecSource,
+  VideoOutput,
+  VideoPort,
+} from './types';
 import type { CategoryKey } from '../catalog/categories';
+import { formatPcieLink, parsePcieInterface } from './pcie';
 
 // Socket patterns
 const SOCKET_PATTERNS: Record<string, RegExp[]> = {
@@ -48,40 +63,49 @@ const SOCKET_PATTERNS: Record<string, RegExp[]> = {
 
 // Chipset patterns
 const CHIPSET_PATTERNS: Record<string, RegExp[]> = {
+  // Optional M/I suffix for Micro-ATX/Mini-ITX names (e.g., "B660M", "B650I")
+  // AMD AM5 (800 series)
+  'X870E': [/\bX870E(?:M|I)?\b/i],
+  'X870': [/\bX870(?:M|I)?\b/i],
+  'B850': [/\bB850(?:M|I)?\b/i],
+  'B840': [/\bB840(?:M|I)?\b/i],
   // AMD AM5
-  'X670E': [/\bX670E\b/i],
-  'X670': [/\bX670\b/i],
-  'B650E': [/\bB650E\b/i],
-  'B650': [/\bB650\b/i],
-  'A620': [/\bA620\b/i],
+  'X670E': [/\bX670E(?:M|I)?\b/i],
+  'X670': [/\bX670(?:M|I)?\b/i],
+  'B650E': [/\bB650E(?:M|I)?\b/i],
+  'B650': [/\bB650(?:M|I)?\b/i],
+  'A620': [/\bA620(?:M|I)?\b/i],
   // AMD AM4
-  'X570': [/\bX570\b/i],
-  'B550': [/\bB550\b/i],
-  'A520': [/\bA520\b/i],
-  'X470': [/\bX470\b/i],
-  'B450': [/\bB450\b/i],
+  'X570': [/\bX570(?:M|I)?\b/i],
+  'B550': [/\bB550(?:M|I)?\b/i],
+  'A520': [/\bA520(?:M|I)?\b/i],
+  'X470': [/\bX470(?:M|I)?\b/i],
+  'B450': [/\bB450(?:M|I)?\b/i],
+  'X370': [/\bX370(?:M|I)?\b/i],
+  'B350': [/\bB350(?:M|I)?\b/i],
+  'A320': [/\bA320(?:M|I)?\b/i],
   // Intel 800 series (LGA1851 - Arrow Lake)
-  'Z890': [/\bZ890\b/i],
-  'B860': [/\bB860\b/i],
-  'H810': [/\bH810\b/i],
+  'Z890': [/\bZ890(?:M|I)?\b/i],
+  'B860': [/\bB860(?:M|I)?\b/i],
+  'H810': [/\bH810(?:M|I)?\b/i],
   // Intel 600/700 series (LGA1700 - Alder Lake, Raptor Lake)
-  'Z790': [/\bZ790\b/i],
-  'Z690': [/\bZ690\b/i],
-  'B760': [/\bB760\b/i],
-  'B660': [/\bB660\b/i],
-  'H770': [/\bH770\b/i],
-  'H670': [/\bH670\b/i],
-  'H610': [/\bH610\b/i],
+  'Z790': [/\bZ790(?:M|I)?\b/i],
+  'Z690': [/\bZ690(?:M|I)?\b/i],
+  'B760': [/\bB760(?:M|I)?\b/i],
+  'B660': [/\bB660(?:M|I)?\b/i],
+  'H770': [/\bH770(?:M|I)?\b/i],
+  'H670': [/\bH670(?:M|I)?\b/i],
+  'H610': [/\bH610(?:M|I)?\b/i],
   // Intel 400/500 series (LGA1200 - Comet Lake, Rocket Lake)
-  'Z590': [/\bZ590\b/i],
-  'Z490': [/\bZ490\b/i],
-  'B560': [/\bB560\b/i],
-  'B460': [/\bB460\b/i],
-  'H510': [/\bH510\b/i],
-  'H470': [/\bH470\b/i],
-  'H410': [/\bH410\b/i],
-  'W480': [/\bW480\b/i],  // Workstation chipset
-  'Q470': [/\bQ470\b/i],  // Business chipset
+  'Z590': [/\bZ590(?:M|I)?\b/i],
+  'Z490': [/\bZ490(?:M|I)?\b/i],
+  'B560': [/\bB560(?:M|I)?\b/i],
+  'B460': [/\bB460(?:M|I)?\b/i],
+  'H510': [/\bH510(?:M|I)?\b/i],
+  'H470': [/\bH470(?:M|I)?\b/i],
+  'H410': [/\bH410(?:M|I)?\b/i],
+  'W480': [/\bW480(?:M|I)?\b/i],  // Workstation chipset
+  'Q470': [/\bQ470(?:M|I)?\b/i],  // Business chipset
 };
 
 // Form factor patterns
@@ -99,18 +123,44 @@ const MEMORY_TYPE_PATTERNS: Record<string, RegExp[]> = {
   'DDR3': [/\bDDR3\b/i],
 };
 
+// PSU form factor patterns (most specific first)
+const PSU_FORM_FACTOR_PATTERNS: Record<string, RegExp[]> = {
+  'SFX-L': [/\bSFX-?L\b/i],
+  'SFX': [/\bSFX\b/i],
+  'TFX': [/\bTFX\b/i],
+  'ATX': [/\bATX\b/i],
+};
+
+// Radiator mount position words (Spanish and English)
+const RADIATOR_POSITION_PATTERNS: Record<RadiatorPosition, string> = {
+  front: 'frontal(?:es)?|front|delantero',
+  top: 'superior|top|techo',
+  side: 'lateral|side',
+  rear: 'trasero|rear|back|posterior',
+  bottom: 'inferior|bottom',
+};
+
 // CPU generation/family patterns
 const CPU_PATTERNS = {
   // AMD Ryzen
+  amdRyzen9_9000: [/Ryzen\s*9\s*9\d{3}/i],
+  amdRyzen7_9000: [/Ryzen\s*7\s*9\d{3}/i],
+  amdRyzen5_9000: [/Ryzen\s*5\s*9\d{3}/i],
+  amdRyzen7_8000: [/Ryzen\s*7\s*8\d{3}/i],
+  amdRyzen5_8000: [/Ryzen\s*5\s*8\d{3}/i],
   amdRyzen9_7000: [/Ryzen\s*9\s*7\d{3}/i],
   amdRyzen7_7000: [/Ryzen\s*7\s*7\d{3}/i],
   amdRyzen5_7000: [/Ryzen\s*5\s*7\d{3}/i],
   amdRyzen9_5000: [/Ryzen\s*9\s*5\d{3}/i],
   amdRyzen7_5000: [/Ryzen\s*7\s*5\d{3}/i],
   amdRyzen5_5000: [/Ryzen\s*5\s*5\d{3}/i],
+  amdRyzen7_4000: [/Ryzen\s*7\s*4\d{3}/i],
+  amdRyzen5_4000: [/Ryzen\s*5\s*4\d{3}/i],
   amdRyzen9_3000: [/Ryzen\s*9\s*3\d{3}/i],
   amdRyzen7_3000: [/Ryzen\s*7\s*3\d{3}/i],
   amdRyzen5_3000: [/Ryzen\s*5\s*3\d{3}/i],
+  amdRyzen7_2000: [/Ryzen\s*7\s*2\d{3}/i],
+  amdRyzen5_2000: [/Ryzen\s*5\s*2\d{3}/i],
   // Intel Core Ultra (15th Gen - Arrow Lake)
   intelCoreUltra_15th: [/Core\s*Ultra\s*[35579]/i, /15th\s*Gen/i],
   // Intel Core (traditional naming)
@@ -191,7 +241,7 @@ function extractNumber(text: string, pattern: RegExp): number | undefined {
  * Infer socket from chipset
  */
 function inferSocketFromChipset(chipset: string): string | undefined {
-  const am5Chipsets = ['X670E', 'X670', 'B650E', 'B650', 'A620'];
+  const am5Chipsets = ['X870E', 'X870', 'B850', 'B840', 'X670E', 'X670', 'B650E', 'B650', 'A620'];
   const am4Chipsets = ['X570', 'B550', 'A520', 'X470', 'B450', 'X370', 'B350', 'A320'];
   const lga1851Chipsets = ['Z890', 'B860', 'H810'];
   const lga1700Chipsets = ['Z790', 'Z690', 'B760', 'B660', 'H770', 'H670', 'H610'];
@@ -210,10 +260,10 @@ function inferSocketFromChipset(chipset: string): string | undefined {
  * Infer socket from CPU name
  */
 function inferSocketFromCpu(text: string): string | undefined {
-  // AMD Ryzen 7000 series = AM5
-  if (/Ryzen\s*[3579]\s*7\d{3}/i.test(text)) return 'AM5';
-  // AMD Ryzen 5000/3000 series = AM4
-  if (/Ryzen\s*[3579]\s*[35]\d{3}/i.test(text)) return 'AM4';
+  // AMD Ryzen 7000/8000/9000 series = AM5
+  if (/Ryzen\s*[3579]\s*[789]\d{3}/i.test(text)) return 'AM5';
+  // AMD Ryzen 5000/4000/3000/2000 series = AM4
+  if (/Ryzen\s*[3579]\s*[2345]\d{3}/i.test(text)) return 'AM4';
   
   // Intel Core Ultra (Arrow Lake, 15th Gen) = LGA1851
   // Examples: "Core Ultra 5 225F", "Core Ultra 5 245K", "Core Ultra 7 265K"
@@ -230,6 +280,34 @@ function inferSocketFromCpu(text: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Whether a CPU has integrated graphics
+ * Listings that say so win; otherwise the model number decides:
+ * - Intel Core / Core Ultra: every model but F and KF (i5-12400F, Ultra 5 245KF)
+ * - Ryzen 7000/9000 (AM5): basic RDNA2 iGPU, except F models (7500F)
+ * - Other Ryzen and Athlon: only G, GE and GT APUs (5600G, 8600G, 3400GE, 5600GT)
+ */
+function detectIntegratedGraphics(text: string): boolean {
+  if (/\b(?:sin|no\s+(?:tiene|incluye|posee))\s+(?:gr[aá]ficos|video)\s+integrad|requiere\s+(?:placa|tarjeta)\s+de\s+video|\b(?:without|no)\s+integrated\s+graphics/i.test(text)) {
+    return false;
+  }
+
+  const intel = text.match(/\bCore\s*(?:i[3579]|Ultra\s*[3579])[\s-]*\d{3,5}([A-Z]{0,2})\d?\b/i);
+  if (intel) return !/^K?F$/i.test(intel[1]);
+  if (/\b(?:Pentium|Celeron)\b/i.test(text)) return true;
+
+  const ryzen = text.match(/\bRyzen\s*(?:[3579]\s*)?(?:PRO\s*)?(\d)\d{3}(X3D|XT|GT|GE|G|X|F|E)?\b/i);
+  if (ryzen) {
+    const suffix = (ryzen[2] ?? '').toUpperCase();
+    if (suffix.startsWith('G')) return true;
+    if (suffix === 'F') return false;
+    return ryzen[1] === '7' || ryzen[1] === '9';
+  }
+  if (/\bAthlon\s*(?:Gold\s*|Silver\s*)?\d{3,4}G[ET]?\b/i.test(text)) return true;
+
+  return /\b(?:APU|Vega|UHD|Iris|Radeon\s+(?:Graphics|\d{3}M))\b|gr[aá]ficos\s+(?:\w+\s+)?integrados|integrated\s+graphics|con\s+gr[aá]ficos/i.test(text);
+}
+
 /**
  * Extract CPU specs from product
  */
@@ -254,9 +332,8 @@ function extractCpuSpecs(product: Product): ProductSpec {
     for (const pattern of patterns) {
       if (pattern.test(text)) {
         if (key.startsWith('amd')) {
-          cpuGeneration = key.includes('7000') ? 'Ryzen 7000' 
-            : key.includes('5000') ? 'Ryzen 5000' 
-            : 'Ryzen 3000';
+          // Key suffix is the series, e.g. amdRyzen5_7000 => "Ryzen 7000"
+          cpuGeneration = `Ryzen ${key.split('_')[1]}`;
           cpuFamily = key.includes('Ryzen9') ? 'Ryzen 9'
             : key.includes('Ryzen7') ? 'Ryzen 7'
             : key.includes('Ryzen5') ? 'Ryzen 5'
@@ -283,33 +360,7 @@ function extractCpuSpecs(product: Product): ProductSpec {
     }
   }
 
-  // Detect integrated graphics
-  // AMD: APU, Vega, models ending in 'G' (e.g., 5600G, 5700G, Athlon 3000G)
-  // Intel: UHD, Iris, models NOT ending in 'F' or 'KF' (F = no graphics)
-  let integratedGraphics = false;
-  
-  // AMD APU indicators
-  if (/\b(APU|Vega)\b/i.test(text)) {
-    integratedGraphics = true;
-  }
-  // AMD with 'G' or 'GT' suffix (e.g., Ryzen 5 5600G, Athlon 3000G, Ryzen 5 5600GT)
-  // Pattern matches: "Ryzen 5 5600G", "Athlon 3000G", "Ryzen 7 5700GT"
-  else if (/\b(Ryzen|Athlon)\s*(?:[3579]\s*)?\d{4}G[T]?\b/i.test(text)) {
-    integratedGraphics = true;
-  }
-  // Intel with UHD or Iris graphics
-  else if (/\b(UHD|Iris)\b/i.test(text)) {
-    integratedGraphics = true;
-  }
-  // Intel processors WITHOUT 'F' or 'KF' suffix typically have integrated graphics
-  // (F suffix means no graphics: i5-12400F, i7-13700KF)
-  else if (/Core\s*i[3579]-\d{4,5}(?!F|KF)\b/i.test(text) && !/\b(F|KF)\b/i.test(text)) {
-    integratedGraphics = true;
-  }
-  // Explicit mentions
-  else if (/\b(con gráficos|integrated graphics|with graphics)\b/i.test(text)) {
-    integratedGraphics = true;
-  }
+  const integratedGraphics = detectIntegratedGraphics(text);
 
   // Detect if CPU includes a cooler
   const includesCooler = extractIncludesCooler(product);
@@ -499,6 +550,15 @@ function extractMotherboardSpecs(product: Product): ProductSpec {
     ?? extractNumber(text, /SATA[:\s]*(\d+)/i)
     ?? extractNumber(text, /(\d+)\s*(?:puertos?\s*)?SATA\s*(?:6Gb\/s|III)?/i);
 
+  // CPU power inputs: "8+8 pin", "8+4 pines" => 2, "EPS 8-pin" => 1
+  let epsConnectors: number | undefined;
+  if (/\b8\s*\+\s*[48][\s-]*pin/i.test(text)) epsConnectors = 2;
+  else if (/(?:EPS|CPU)\s*(?:de\s*)?\(?\s*8[\s-]*pin/i.test(text)) epsConnectors = 1;
+
+  // Highest PCIe generation listed ("PCIe 4.0 x16", "PCI Express 5.0")
+  const pcieGenerations = [...text.matchAll(/PCI[-\s]?E(?:xpress)?\s*(\d)\.0/gi)].map((m) => parseInt(m[1]));
+  const pciExpressVersion = pcieGenerations.length > 0 ? `${Math.max(...pcieGenerations)}.0` : undefined;
+
   return {
     socket,
     chipset,
@@ -508,9 +568,147 @@ function extractMotherboardSpecs(product: Product): ProductSpec {
     memorySlots,
     m2Slots,
     sataPorts,
+    pciExpressVersion,
+    epsConnectors,
+    m2SataSharing: extractM2SataSharing(product),
+    m2SlotDetails: extractM2SlotDetails(product),
+    videoOutputs: extractVideoOutputs(text),
+    ...extractBoardFanHeaders(text),
   };
 }
 
+/**
+ * Extract the motherboard's fan and lighting headers
+ * "6x conectores de ventilador 4 pines, 3x ARGB (5V), 1x RGB (12V)"
+ */
+function extractBoardFanHeaders(text: string): Pick<ProductSpec, 'fanHeaders' | 'argbHeaders' | 'rgbHeaders'> {
+  const fanHeaders = extractNumber(text, /(\d+)\s*x?\s*(?:conectores?|cabezales?|headers?)\s*(?:de\s*|para\s*)?(?:4[\s-]*pin(?:es)?\s*(?:de\s*|para\s*)?)?(?:ventilador(?:es)?|fans?)\b/i)
+    ?? extractNumber(text, /(\d+)\s*x?\s*(?:4[\s-]*pin(?:es)?\s*)?(?:fan|ventilador(?:es)?)\s*(?:headers?|conectores?)/i)
+    ?? extractNumber(text, /(?:conectores?|headers?)\s*(?:de\s*)?(?:ventilador(?:es)?|fan)\s*:\s*(\d+)/i);
+
+  const argbHeaders = extractNumber(text, /(\d+)\s*x?\s*(?:conectores?|cabezales?|headers?)?\s*(?:de\s*)?(?:A-?RGB|addressable\s*RGB|RGB\s*direccionable|5\s*V\s*A?RGB)\b/i)
+    ?? extractNumber(text, /\bA-?RGB\s*(?:\(?\s*5\s*V\s*\)?\s*)?(?:headers?|conectores?)?\s*:\s*(\d+)/i);
+
+  // Plain "RGB" headers on boards are the 12V kind; addressable ones are named as such
+  const rgbHeaders = extractNumber(text, /(\d+)\s*x?\s*(?:conectores?|cabezales?|headers?)?\s*(?:de\s*)?(?:12\s*V\s*)?(?<![A-Z]-?)RGB\b(?!\s*(?:direccionable|\(?\s*5\s*V))/i)
+    ?? extractNumber(text, /(?<![A-Z]-?)\bRGB\s*\(?\s*12\s*V\s*\)?\s*(?:headers?|conectores?)?\s*:\s*(\d+)/i);
+
+  return { fanHeaders, argbHeaders, rgbHeaders };
+}
+
+// Video connectors as written in listings
+const VIDEO_OUTPUT_PATTERNS: Record<VideoOutput, RegExp> = {
+  HDMI: /\bHDMI\b/i,
+  DisplayPort: /\b(?:DisplayPort|DP)\b/i,
+  DVI: /\bDVI(?:-[DI])?\b/i,
+  VGA: /\b(?:VGA|D-Sub)\b/i,
+};
+
+/**
+ * Extract the rear video outputs of a motherboard
+ * "HDMI, DisplayPort" => ["HDMI", "DisplayPort"]; "sin salidas de video" => []
+ */
+function extractVideoOutputs(text: string): VideoOutput[] | undefined {
+  if (/\bsin\s+salidas?\s+de\s+video|\bno\s+(?:tiene\s+|posee\s+)?salidas?\s+de\s+video|\bno\s+(?:onboard\s+)?video\s+outputs?/i.test(text)) {
+    return [];
+  }
+
+  const outputs = (Object.keys(VIDEO_OUTPUT_PATTERNS) as VideoOutput[]).filter((output) =>
+    VIDEO_OUTPUT_PATTERNS[output].test(text)
+  );
+  return outputs.length > 0 ? outputs : undefined;
+}
+
+// Version written after the connector name: "HDMI 2.1", "DP1.4a", "DisplayPort v1.4"
+const VIDEO_PORT_VERSION_PATTERNS: Partial<Record<VideoOutput, RegExp>> = {
+  HDMI: /\bHDMI\s*v?(\d\.\d)/gi,
+  DisplayPort: /\b(?:DisplayPort|DP)\s*v?(\d\.\d)/gi,
+};
+
+/**
+ * Extract video connectors with their highest listed version (GPU outputs, monitor inputs)
+ * "1x HDMI 2.1, 3x DisplayPort 1.4a" => [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }]
+ */
+function extractVideoPorts(text: string): VideoPort[] | undefined {
+  const ports = (extractVideoOutputs(text) ?? []).map((type): VideoPort => {
+    const pattern = VIDEO_PORT_VERSION_PATTERNS[type];
+    const versions = pattern ? [...text.matchAll(pattern)].map((match) => match[1]) : [];
+    const version = versions.sort((a, b) => parseFloat(b) - parseFloat(a))[0];
+    return version ? { type, version } : { type };
+  });
+  return ports.length > 0 ? ports : undefined;
+}
+
+// M.2 length codes (width 22mm + length in mm)
+const M2_LENGTH_PATTERN = /\b(2230|2242|2260|2280|22110)\b/;
+
+// "PCIe 4.0", "PCIe Gen4", "PCI Express 5.0", or a bare "Gen4"
+function extractPcieGen(text: string): number | undefined {
+  return extractNumber(text, /PCI[-\s]?E(?:xpress)?\s*(?:Gen\s*)?([3-5])(?:\.0)?\b/i)
+    ?? extractNumber(text, /\bGen\s*([3-5])\b/i);
+}
+
+/**
+ * Extract per-slot M.2 details from a motherboard description
+ * "M.2_1 (CPU): PCIe 5.0 x4, M key, 2242/2260/2280", "M.2_2: PCIe 4.0 x4 (chipset), hasta 22110"
+ */
+function extractM2SlotDetails(product: Product): M2SlotSpec[] | undefined {
+  const slots: M2SlotSpec[] = [];
+
+  for (const sentence of product.description.split(/\.(?=\s|$)|[;\n]/)) {
+    // Each "M.2_N" opens a segment that runs until the next one
+    for (const segment of sentence.split(/(?=\bM\.?2[_\s]?\d\b)/i)) {
+      const slot = extractNumber(segment, /^M\.?2[_\s]?(\d)\b/i);
+      if (!slot || slots.some((entry) => entry.slot === slot)) continue;
+
+      const pcieGen = extractPcieGen(segment);
+      const keyMatch = segment.match(/\b([MBE])[\s-]?key\b/i) ?? segment.match(/\bkey\s*([MBE])\b/i);
+      const key = keyMatch ? (keyMatch[1].toUpperCase() as M2SlotSpec['key']) : undefined;
+      const lengths = [...new Set([...segment.matchAll(new RegExp(M2_LENGTH_PATTERN, 'g'))].map((match) => parseInt(match[1])))]
+        .sort((a, b) => a - b);
+      const fromCpu = /\b(?:CPU|procesador)\b/i.test(segment);
+      const fromChipset = /\b(?:chipset|PCH)\b/i.test(segment);
+      const attachedTo = fromCpu !== fromChipset ? (fromCpu ? 'cpu' : 'chipset') : undefined;
+
+      // Mentions without capabilities (e.g., lane sharing notes) don't describe the slot
+      if (!pcieGen && !key && lengths.length === 0 && !attachedTo) continue;
+
+      slots.push({
+        slot,
+        pcieGen,
+        key,
+        lengths: lengths.length > 0 ? lengths : undefined,
+        attachedTo,
+      });
+    }
+  }
+
+  return slots.length > 0 ? slots.sort((a, b) => a.slot - b.slot) : undefined;
+}
+
+/**
+ * Extract M.2/SATA lane sharing from a motherboard description
+ * "M.2_2 comparte ancho de banda con SATA5/6", "SATA6G_5/6 will be disabled when M.2_2 is populated"
+ */
+function extractM2SataSharing(product: Product): M2SataSharing[] | undefined {
+  const sharing: M2SataSharing[] = [];
+
+  for (const sentence of product.description.split(/\.(?=\s|$)|[;\n]/)) {
+    if (!/compart|shar|deshabilit|desactiv|disabl|unavailable|no\s+disponible/i.test(sentence)) continue;
+
+    const m2Slot = extractNumber(sentence, /M\.?2[_\s]?(\d)\b/i);
+    const ports = sentence.match(/SATA(?:6G|3)?[_\s]?(\d(?:\s*(?:\/|,|-|&|y|and)\s*(?:SATA(?:6G|3)?[_\s]?)?\d)*)/i);
+    if (!m2Slot || !ports) continue;
+
+    const sataPorts = [...ports[1].matchAll(/\d/g)].map((match) => parseInt(match[0]));
+    if (!sharing.some((entry) => entry.m2Slot === m2Slot)) {
+      sharing.push({ m2Slot, sataPorts });
+    }
+  }
+
+  return sharing.length > 0 ? sharing : undefined;
+}
+
 /**
  * Extract RAM specs from product
  */
@@ -518,7 +716,9 @@ function extractRamSpecs(product: Product): ProductSpec {
   const text = `${product.title} ${product.description}`;
 
   const memoryType = extractPattern(text, MEMORY_TYPE_PATTERNS);
-  const memorySpeed = extractNumber(text, /(\d{4,5})\s*MHz/i);
+  // "3200MHz", "6000 MT/s", or the speed right after the type ("DDR5-6000", "DDR4 3200")
+  const memorySpeed = extractNumber(text, /(\d{4,5})\s*(?:MHz|MT\/s)/i)
+    ?? extractNumber(text, /\bDDR[345][\s-]*(\d{4,5})\b/i);
   
   // Try to extract capacity (e.g., "16GB", "2x8GB", "32GB (2x16GB)")
   let memoryCapacity: number | undefined;
@@ -539,12 +739,19 @@ function extractRamSpecs(product: Product): ProductSpec {
   const latencyMatch = text.match(/C[L]?(\d+)/i);
   const memoryLatency = latencyMatch ? `CL${latencyMatch[1]}` : undefined;
 
+  // Module height: "Altura: 44mm", "35 mm de alto"; low-profile kits are ~32mm
+  let memoryHeight = extractNumber(text, /(?:altura|height|alto)[:\s]*(\d{2}(?:[.,]\d+)?)\s*mm/i)
+    ?? extractNumber(text, /(\d{2}(?:[.,]\d+)?)\s*mm\s*(?:de\s*)?(?:altura|alto|height)/i);
+  if (memoryHeight && (memoryHeight < 28 || memoryHeight > 70)) memoryHeight = undefined;
+  if (!memoryHeight && /low[\s-]*profile|perfil\s*bajo/i.test(text)) memoryHeight = 32;
+
   return {
     memoryType,
     memorySpeed,
     memoryCapacity,
     memoryModules,
     memoryLatency,
+    memoryHeight,
   };
 }
 
@@ -649,6 +856,111 @@ function extractGpuRecommendedPsu(product: Product): number | undefined {
   return undefined;
 }
 
+/**
+ * Extract the GPU chip name, normalized (e.g., "RTX 4070 Ti SUPER", "RX 7800 XT", "Arc A750")
+ */
+function extractGpuChip(product: Product): string | undefined {
+  const text = `${product.title} ${product.description}`;
+
+  // NVIDIA: "RTX 4070 Ti SUPER", "RTX4060Ti", "GTX 1650", "GT 1030"
+  const nvidia = text.match(/\b(RTX|GTX|GT)\s*-?\s*(\d{3,4})(?:\s*(Ti))?(?:\s*(SUPER))?\b/i);
+  if (nvidia) {
+    const suffix = [nvidia[3] && 'Ti', nvidia[4] && 'SUPER'].filter(Boolean).join(' ');
+    return `${nvidia[1].toUpperCase()} ${nvidia[2]}${suffix ? ` ${suffix}` : ''}`;
+  }
+
+  // AMD: "RX 7900 XTX", "RX 7800 XT", "RX 7900 GRE", "RX 6600"
+  const amd = text.match(/\bRX\s*-?\s*(\d{3,4})(?:\s*(XTX|XT|GRE))?\b/i);
+  if (amd) {
+    return `RX ${amd[1]}${amd[2] ? ` ${amd[2].toUpperCase()}` : ''}`;
+  }
+
+  // Intel: "Arc A750", "Arc B580"
+  const intel = text.match(/\bArc\s*([AB]\d{3})\b/i);
+  if (intel) {
+    return `Arc ${intel[1].toUpperCase()}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract GPU board power (TBP/TGP) in watts, when the listing states it
+ */
+function extractGpuBoardPower(product: Product): number | undefined {
+  const text = `${product.title} ${product.description}`;
+
+  // "TBP: 263W", "TGP 200 W", "Consumo: 220W", "Board Power 285W"
+  const power = extractNumber(text, /(?:TBP|TGP|TDP|board\s*power|consumo(?:\s*m[aá]ximo)?)[:\s]*(\d{2,3})\s*W/i);
+  if (power && power >= 25 && power <= 600) {
+    return power;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract GPU thickness in expansion slots (e.g., 2, 2.5, 3)
+ */
+function extractGpuSlots(product: Product): number | undefined {
+  const text = `${product.title} ${product.description}`;
+
+  // "2.5 slots", "2,5-slot", "3 ranuras"
+  const match = text.match(/\b(\d(?:[.,]\d{1,2})?)\s*-?\s*(?:slots?|ranuras?)\b/i);
+  if (match) {
+    const slots = parseFloat(match[1].replace(',', '.'));
+    if (slots >= 1 && slots <= 4) return slots;
+  }
+
+  // "Dual slot", "doble ranura", "triple slot"
+  if (/\b(?:dual|doble)[\s-]*(?:slot|ranura)/i.test(text)) return 2;
+  if (/\btriple[\s-]*(?:slot|ranura)/i.test(text)) return 3;
+
+  return undefined;
+}
+
+/**
+ * Extract the GPU's PCIe interface, normalized (e.g., "PCIe 4.0 x8")
+ */
+function extractGpuInterface(product: Product): string | undefined {
+  const text = `${product.title} ${product.description}`;
+  const link = parsePcieInterface(text);
+  return link ? formatPcieLink(link) : undefined;
+}
+
+/**
+ * Extract GPU power connectors, one entry per connector
+ * e.g., "2x 8-pin" => ["8-pin", "8-pin"], "12VHPWR" => ["12VHPWR"]
+ */
+function extractGpuPowerConnectors(product: Product): string[] | undefined {
+  // "6+2 pin" is how PCIe 8-pin connectors are usually sold
+  const text = `${product.title} ${product.description}`.replace(/6\s*\+\s*2/g, '8');
+  const connectors: string[] = [];
+
+  // 16-pin: "12VHPWR", "12V-2x6", "1x 16-pin"
+  const highPower = text.match(/(?:(\d)\s*x\s*)?(?:12VHPWR|12V-?2x6|16[\s-]*pin)/i);
+  if (highPower) {
+    connectors.push(...Array<string>(highPower[1] ? parseInt(highPower[1]) : 1).fill('12VHPWR'));
+  }
+
+  // "8+8 pin", "6+8 pines"
+  const combined = text.match(/\b([68](?:\s*\+\s*[68])+)[\s-]*pin/i);
+  // "2x 8-pin", "1 x 6 pines"
+  const counted = text.match(/(\d)\s*x\s*([68])[\s-]*pin/i);
+  // "8-pin"
+  const single = text.match(/\b([68])[\s-]*pin/i);
+
+  if (combined) {
+    connectors.push(...combined[1].split('+').map((pins) => `${pins.trim()}-pin`));
+  } else if (counted) {
+    connectors.push(...Array<string>(parseInt(counted[1])).fill(`${counted[2]}-pin`));
+  } else if (single) {
+    connectors.push(`${single[1]}-pin`);
+  }
+
+  return connectors.length > 0 ? connectors : undefined;
+}
+
 /**
  * Extract GPU specs from product
  */
@@ -659,9 +971,25 @@ function extractGpuSpecs(product: Product): ProductSpec {
   // Recommended PSU with improved extraction
   const gpuRecommendedPsu = extractGpuRecommendedPsu(product);
 
+  // Chip and board power (used by the power budget)
+  const gpuChip = extractGpuChip(product);
+  const gpuBoardPower = extractGpuBoardPower(product);
+
+  // Physical fit, PCIe link and power connectors
+  const gpuSlots = extractGpuSlots(product);
+  const gpuInterface = extractGpuInterface(product);
+  const gpuPowerConnectors = extractGpuPowerConnectors(product);
+  const gpuOutputs = extractVideoPorts(`${product.title} ${product.description}`);
+
   return {
     gpuLength,
     gpuRecommendedPsu,
+    gpuChip,
+    gpuBoardPower,
+    gpuSlots,
+    gpuInterface,
+    gpuPowerConnectors,
+    gpuOutputs,
   };
 }
 
@@ -765,6 +1093,90 @@ function extractMaxCpuCoolerHeight(product: Product): number | undefined {
   return undefined;
 }
 
+/**
+ * Extract the PSU form factors a case accepts
+ * Looks at text around "fuente"/"PSU"; ATX motherboard cases take ATX PSUs when not stated
+ */
+function extractCasePsuFormFactors(product: Product, supportedFormFactors: string[]): string[] {
+  const text = `${product.title} ${product.description}`;
+
+  // "Fuente: SFX / SFX-L", "Soporte PSU ATX", "fuente de poder SFX (no incluida)"
+  const snippets: string[] = [...(text.match(/(?:PSU|fuente)[^.\n]{0,40}/gi) ?? [])];
+  if (product.attributeGroups) {
+    for (const group of product.attributeGroups) {
+      for (const attr of group.attributes) {
+        if (/fuente|PSU|power\s*supply/i.test(attr.name)) {
+          snippets.push(`${attr.name} ${attr.value}`);
+        }
+      }
+    }
+  }
+
+  const formFactors = extractPatterns(snippets.join(' | '), PSU_FORM_FACTOR_PATTERNS);
+  if (formFactors.length > 0) {
+    return formFactors;
+  }
+
+  return supportedFormFactors.some((ff) => ff === 'ATX' || ff === 'E-ATX') ? ['ATX'] : [];
+}
+
+/**
+ * Extract the maximum PSU length supported by a case (in mm)
+ */
+function extractMaxPsuLength(product: Product): number | undefined {
+  const text = `${product.title} ${product.description}`;
+  const isValid = (length?: number) => length !== undefined && length >= 100 && length <= 300;
+
+  // "Fuente hasta 180mm", "PSU max 200 mm"
+  let length = extractNumber(text, /(?:PSU|fuente)[^\d.\n]{0,40}?(?:hasta|max\.?|m[aá]xim[oa]|up\s*to)[^\d\n]{0,10}(\d{3})\s*mm/i);
+  if (isValid(length)) return length;
+
+  // "Longitud máxima de fuente: 160mm"
+  length = extractNumber(text, /(?:longitud|largo|length)\s*(?:m[aá]xim[oa]\s*)?(?:de\s*(?:la\s*)?)?(?:PSU|fuente)[:\s]*(?:hasta\s*)?(\d{3})\s*mm/i);
+  if (isValid(length)) return length;
+
+  // "180mm de fuente"
+  length = extractNumber(text, /(\d{3})\s*mm\s*(?:de\s*)?(?:PSU|fuente)/i);
+  if (isValid(length)) return length;
+
+  return undefined;
+}
+
+/**
+ * Extract the number of rear expansion slots of a case
+ */
+function extractExpansionSlots(product: Product): number | undefined {
+  const text = `${product.title} ${product.description}`;
+
+  // "7 slots de expansión", "4 ranuras PCI", "Expansion slots: 7", "Ranuras de expansión: 2"
+  const slots = extractNumber(text, /(\d{1,2})\s*(?:slots?|ranuras?)\s*(?:de\s*)?(?:expansi[oó]n|PCI)/i)
+    ?? extractNumber(text, /(?:expansion\s*slots?|(?:slots?|ranuras?)\s*de\s*expansi[oó]n)[:\s]*(\d{1,2})/i);
+  if (slots && slots >= 1 && slots <= 10) {
+    return slots;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract the number of 2.5" or 3.5" drive bays of a case
+ * "2 x 3.5\"", "2 bahías de 3.5\"", "Bahías 3.5\": 2", "3.5\" HDD x2"
+ */
+function extractDriveBays(product: Product, size: '2.5' | '3.5'): number | undefined {
+  const text = `${product.title} ${product.description}`;
+  const inches = size.replace('.', '[.,]');
+
+  const bays = extractNumber(text, new RegExp(`(\\d{1,2})\\s*x\\s*(?:bah[ií]as?\\s*(?:de\\s*)?)?${inches}(?!\\d|\\s*mm)`, 'i'))
+    ?? extractNumber(text, new RegExp(`(\\d{1,2})\\s*(?:bah[ií]as?|bays?|discos?|HDDs?|SSDs?)\\s*(?:de\\s*)?${inches}(?!\\d|\\s*mm)`, 'i'))
+    ?? extractNumber(text, new RegExp(`(?:bah[ií]as?|bays?)\\s*(?:de\\s*)?${inches}["'”]?\\s*:\\s*(\\d{1,2})`, 'i'))
+    ?? extractNumber(text, new RegExp(`${inches}["'”]?\\s*(?:HDD|SSD|drive)?\\s*(?:bays?|bah[ií]as?)?\\s*x\\s*(\\d{1,2})`, 'i'));
+  if (bays && bays >= 1 && bays <= 12) {
+    return bays;
+  }
+
+  return undefined;
+}
+
 /**
  * Extract water cooling / radiator support from case
  * Returns whether the case supports water cooling and which radiator sizes
@@ -868,6 +1280,100 @@ function extractWaterCoolingSupport(product: Product): { supportsWaterCooling: b
   };
 }
 
+/**
+ * Extract the largest radiator each case position takes
+ * Reads "Frontal: Hasta 360mm" / "Top: 120/240mm" after the first radiator mention,
+ * then attributes like "Radiador superior: 240mm"
+ */
+function extractRadiatorMounts(product: Product): Partial<Record<RadiatorPosition, number>> | undefined {
+  const radiatorSizes = [120, 140, 240, 280, 360, 420];
+  const mounts: Partial<Record<RadiatorPosition, number>> = {};
+
+  const addSizes = (position: RadiatorPosition, sizesText: string) => {
+    const sizes = (sizesText.match(/\d{3}/g) ?? []).map(Number).filter((size) => radiatorSizes.includes(size));
+    if (sizes.length === 0) return;
+    mounts[position] = Math.max(mounts[position] ?? 0, ...sizes);
+  };
+
+  // Only look after the radiator section starts, so fan mounts ("Frontal: 3x120mm") are not read as radiators
+  const text = `${product.title} ${product.description}`;
+  const start = text.search(/water\s*cool(?:ing|er)?|watercool(?:ing|er)?|refrigeraci[oó]n\s*l[ií]quida|radiador|radiator/i);
+  if (start >= 0) {
+    const section = text.slice(start, start + 400);
+    for (const [position, words] of Object.entries(RADIATOR_POSITION_PATTERNS) as [RadiatorPosition, string][]) {
+      const pattern = new RegExp(`\\b(?:${words})\\b\\s*:?\\s*(?:hasta|up\\s*to)?\\s*((?:\\d{3}\\s*(?:mm)?\\s*[/,]\\s*)*\\d{3})\\s*mm`, 'gi');
+      for (const match of section.matchAll(pattern)) {
+        addSizes(position, match[1]);
+      }
+    }
+  }
+
+  if (product.attributeGroups) {
+    for (const group of product.attributeGroups) {
+      for (const attr of group.attributes) {
+        if (!/radiador|radiator|water\s*cool|refrigeraci[oó]n\s*l[ií]quida/i.test(`${group.name} ${attr.name}`)) continue;
+        for (const [position, words] of Object.entries(RADIATOR_POSITION_PATTERNS) as [RadiatorPosition, string][]) {
+          if (new RegExp(`\\b(?:${words})\\b`, 'i').test(attr.name)) {
+            addSizes(position, attr.value);
+          }
+        }
+      }
+    }
+  }
+
+  return Object.keys(mounts).length > 0 ? mounts : undefined;
+}
+
+// Case fan sizes, in mm
+const FAN_SIZES = [80, 92, 120, 140, 200];
+
+/**
+ * Extract how many fans of each size every case position takes
+ * "Frontal: 3x120mm / 2x140mm, Trasero: 1x120mm" => front 3x120 or 2x140, rear 1x120;
+ * radiator mentions ("Radiador superior: 2x120mm") are skipped
+ */
+function extractFanMounts(product: Product): FanMount[] | undefined {
+  const mounts: FanMount[] = [];
+
+  const addMounts = (position: RadiatorPosition, mountsText: string) => {
+    for (const match of mountsText.matchAll(/(\d)\s*x\s*(\d{2,3})\s*mm/gi)) {
+      const count = parseInt(match[1]);
+      const size = parseInt(match[2]);
+      if (!FAN_SIZES.includes(size)) continue;
+
+      const existing = mounts.find((mount) => mount.position === position && mount.size === size);
+      if (existing) existing.count = Math.max(existing.count, count);
+      else mounts.push({ position, size, count });
+    }
+  };
+
+  const text = `${product.title} ${product.description}`;
+  for (const [position, words] of Object.entries(RADIATOR_POSITION_PATTERNS) as [RadiatorPosition, string][]) {
+    const pattern = new RegExp(`\\b(?:${words})\\b\\s*:?\\s*((?:\\d\\s*x\\s*\\d{2,3}\\s*mm\\s*(?:[/,]|\\bo\\b|\\bor\\b)?\\s*)+)`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      const before = text.slice(Math.max(0, match.index - 20), match.index);
+      if (/radiador|radiator/i.test(before)) continue;
+      addMounts(position, match[1]);
+    }
+  }
+
+  if (product.attributeGroups) {
+    for (const group of product.attributeGroups) {
+      for (const attr of group.attributes) {
+        const name = `${group.name} ${attr.name}`;
+        if (!/ventilador|fan/i.test(name) || /radiador|radiator/i.test(name)) continue;
+        for (const [position, words] of Object.entries(RADIATOR_POSITION_PATTERNS) as [RadiatorPosition, string][]) {
+          if (new RegExp(`\\b(?:${words})\\b`, 'i').test(attr.name)) {
+            addMounts(position, attr.value);
+          }
+        }
+      }
+    }
+  }
+
+  return mounts.length > 0 ? mounts : undefined;
+}
+
 /**
  * Extract if case includes a PSU and its wattage from product data
  * IMPORTANT: Only considers PSU included if wattage is explicitly mentioned (e.g., "600w", "500W")
@@ -968,6 +1474,21 @@ function extractCaseSpecs(product: Product): ProductSpec {
 
   // Detect water cooling / radiator support
   const waterCoolingInfo = extractWaterCoolingSupport(product);
+  const radiatorMounts = waterCoolingInfo.supportsWaterCooling ? extractRadiatorMounts(product) : undefined;
+
+  // Fan mounts per position and size
+  const fanMounts = extractFanMounts(product);
+
+  // Rear expansion slots (limits GPU thickness)
+  const expansionSlots = extractExpansionSlots(product);
+
+  // Drive bays (2.5" drives also fit in free 3.5" bays)
+  const drivesBays25 = extractDriveBays(product, '2.5');
+  const drivesBays35 = extractDriveBays(product, '3.5');
+
+  // PSU form factor and clearance
+  const supportedPsuFormFactors = extractCasePsuFormFactors(product, supportedFormFactors);
+  const maxPsuLength = extractMaxPsuLength(product);
 
   return {
     supportedFormFactors: supportedFormFactors.length > 0 ? supportedFormFactors : undefined,
@@ -979,9 +1500,81 @@ function extractCaseSpecs(product: Product): ProductSpec {
     supportedRadiatorSizes: waterCoolingInfo.supportedRadiatorSizes.length > 0 
       ? waterCoolingInfo.supportedRadiatorSizes 
       : undefined,
+    radiatorMounts,
+    fanMounts,
+    expansionSlots,
+    drivesBays25,
+    drivesBays35,
+    supportedPsuFormFactors: supportedPsuFormFactors.length > 0 ? supportedPsuFormFactors : undefined,
+    maxPsuLength,
   };
 }
 
+/**
+ * Extract the PSU form factor from title/description, then attribute groups
+ * Defaults to ATX, the form factor of almost every desktop PSU
+ */
+function extractPsuFormFactor(product: Product): string {
+  const text = `${product.title} ${product.description}`;
+
+  const formFactor = extractPattern(text, PSU_FORM_FACTOR_PATTERNS);
+  if (formFactor) return formFactor;
+
+  if (product.attributeGroups) {
+    for (const group of product.attributeGroups) {
+      for (const attr of group.attributes) {
+        if (/form.?factor|formato|tipo/i.test(attr.name)) {
+          const attrFormFactor = extractPattern(attr.value, PSU_FORM_FACTOR_PATTERNS);
+          if (attrFormFactor) return attrFormFactor;
+        }
+      }
+    }
+  }
+
+  return 'ATX';
+}
+
+/**
+ * Extract PSU length (depth) in mm
+ */
+function extractPsuLength(product: Product): number | undefined {
+  const text = `${product.title} ${product.description}`;
+  const isValid = (length?: number) => length !== undefined && length >= 90 && length <= 250;
+
+  // "Longitud: 140mm", "Profundidad 160 mm", "Length: 150mm"
+  const length = extractNumber(text, /(?:longitud|length|largo|profundidad|depth)[:\s]*(\d{2,3})\s*mm/i);
+  if (isValid(length)) return length;
+
+  // "150 x 86 x 140 mm": drop the standard ATX (150x86) or SFX (125x63.5) face, keep the depth
+  const dimensions = text.match(/(\d{2,3}(?:[.,]\d)?)\s*x\s*(\d{2,3}(?:[.,]\d)?)\s*x\s*(\d{2,3}(?:[.,]\d)?)\s*mm/i);
+  if (dimensions) {
+    const values = dimensions.slice(1, 4).map((value) => parseFloat(value.replace(',', '.')));
+    for (const face of [[150, 86], [125, 63.5], [125, 64], [125, 63]]) {
+      const rest = [...values];
+      const hasFace = face.every((size) => {
+        const index = rest.indexOf(size);
+        if (index === -1) return false;
+        rest.splice(index, 1);
+        return true;
+      });
+      if (hasFace && isValid(rest[0])) return rest[0];
+    }
+  }
+
+  if (product.attributeGroups) {
+    for (const group of product.attributeGroups) {
+      for (const attr of group.attributes) {
+        if (/longitud|length|largo|profundidad|depth/i.test(attr.name)) {
+          const attrLength = extractNumber(attr.value, /(\d{2,3})\s*mm/i);
+          if (isValid(attrLength)) return attrLength;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Extract PSU specs from product
  */
@@ -1003,13 +1596,37 @@ function extractPsuSpecs(product: Product): ProductSpec {
   else if (/semi\s*modular/i.test(text)) psuModular = 'semi';
   else if (/modular/i.test(text)) psuModular = 'full';
 
-  const psuFormFactor = /\bSFX\b/i.test(text) ? 'SFX' : 'ATX';
+  const psuFormFactor = extractPsuFormFactor(product);
+  const psuLength = extractPsuLength(product);
+
+  // Native 16-pin GPU cable: "12VHPWR", "2x 12V-2x6"
+  // ATX 3.x / PCIe 5.x units ship with one even when the listing doesn't say
+  const highPower = text.match(/(?:(\d)\s*x\s*)?(?:12VHPWR|12V-?2x6|16[\s-]*pin)/i);
+  let psu12vhpwr: number | undefined;
+  if (highPower) psu12vhpwr = highPower[1] ? parseInt(highPower[1]) : 1;
+  else if (/ATX\s*3\.[01]|PCIe\s*5\.[01]/i.test(text)) psu12vhpwr = 1;
+
+  // Connector inventory: "4x PCIe 6+2 pin", "PCI-E (8 pin): 4", "2 x EPS 4+4", "SATA x6"
+  // "PCIe 5.0" is the 12VHPWR standard, not a connector count
+  const psuPcie8Pin = extractNumber(text, /(\d)\s*x\s*PCI[-\s]?E(?:xpress)?(?!\s*5\.)/i)
+    ?? extractNumber(text, /PCI[-\s]?E(?:xpress)?\s*\(?\s*(?:6\s*\+\s*2|8)[\s-]*pin(?:es)?\s*\)?\s*[:x]\s*(\d)/i)
+    ?? extractNumber(text, /(\d)\s*x\s*(?:6\s*\+\s*2|8)[\s-]*pin(?:es)?\s*(?:\(\s*)?PCI/i);
+  const psuEps8Pin = extractNumber(text, /(\d)\s*x\s*(?:EPS|CPU)/i)
+    ?? extractNumber(text, /(?:EPS|CPU)\s*\(?\s*(?:4\s*\+\s*4|8)[\s-]*pin(?:es)?\s*\)?\s*[:x]\s*(\d)/i)
+    ?? extractNumber(text, /(\d)\s*x\s*(?:4\s*\+\s*4|8)[\s-]*pin(?:es)?\s*(?:\(\s*)?(?:EPS|CPU)/i);
+  const psuSata = extractNumber(text, /(\d{1,2})\s*x\s*SATA/i)
+    ?? extractNumber(text, /SATA\s*[:x]\s*(\d{1,2})/i);
 
   return {
     psuWattage,
     psuEfficiency,
     psuModular,
     psuFormFactor,
+    psuLength,
+    psu12vhpwr,
+    psuPcie8Pin,
+    psuEps8Pin,
+    psuSata,
   };
 }
 
@@ -1135,12 +1752,18 @@ function extractStorageSpecs(product: Product): ProductSpec {
   // If it's M.2, it uses M.2 slots; otherwise it uses SATA ports
   const storageConnectionType: 'M.2' | 'SATA' = storageIsM2 ? 'M.2' : 'SATA';
 
+  // PCIe generation and length only describe M.2 drives
+  const storagePcieGen = storageIsM2 ? extractPcieGen(text) : undefined;
+  const storageLength = storageIsM2 ? extractNumber(text, M2_LENGTH_PATTERN) : undefined;
+
   return {
     storageInterface,
     storageCapacity,
     storageFormFactor,
     storageType,
     storageConnectionType,
+    storagePcieGen,
+    storageLength,
     readSpeed,
     writeSpeed,
   };
@@ -1202,7 +1825,16 @@ function extractCoolerSpecs(product: Product): ProductSpec {
     coolerType = 'air';
   }
 
-  const coolerTdp = extractNumber(text, /(\d{2,3})\s*W\s*TDP/i);
+  // "220W TDP", "TDP: 250W", "TDP de hasta 200 W"
+  const coolerTdp = extractNumber(text, /(\d{2,3})\s*W\s*TDP/i)
+    ?? extractNumber(text, /TDP[:\s]*(?:de\s*)?(?:hasta\s*)?(\d{2,3})\s*W/i);
+
+  // RAM clearance: "RAM clearance: 40mm", "espacio para RAM hasta 45mm"
+  let coolerRamClearance = extractNumber(text, /(?:RAM|memoria)[^.\n\d]{0,30}?(?:clearance|espacio|altura|hasta)[^\d\n]{0,15}(\d{2}(?:[.,]\d+)?)\s*mm/i)
+    ?? extractNumber(text, /(?:clearance|espacio\s*libre)\s*(?:de\s*|para\s*)?(?:la\s*)?(?:RAM|memoria)[:\s]*(?:hasta\s*)?(\d{2}(?:[.,]\d+)?)\s*mm/i);
+  if (coolerRamClearance && (coolerRamClearance < 25 || coolerRamClearance > 80)) coolerRamClearance = undefined;
+
+  const coolerDualTower = coolerType === 'air' && /\b(?:dual|twin|doble)[\s-]*(?:tower|torre)\b/i.test(text);
 
   return {
     coolerSockets: coolerSockets.length > 0 ? coolerSockets : undefined,
@@ -1210,6 +1842,106 @@ function extractCoolerSpecs(product: Product): ProductSpec {
     coolerType,
     aioSize,
     coolerTdp,
+    coolerRamClearance,
+    coolerDualTower: coolerDualTower || undefined,
+  };
+}
+
+/**
+ * Extract fan specs from product
+ */
+function extractFanSpecs(product: Product): ProductSpec {
+  const text = `${product.title} ${product.description}`;
+
+  // Packs: "x3", "3x", "Pack de 3", "3 Pack", "Kit 3", "3 en 1", "Triple"
+  // "3x120mm" counts as three fans; "120x25mm" does not match
+  const fanCount = extractNumber(text, /\bx\s*([2-9])\b/i)
+    ?? extractNumber(text, /\b([2-9])\s*x\b/i)
+    ?? extractNumber(text, /\b([2-9])\s*x\s*1[24]0\s*mm/i)
+    ?? extractNumber(text, /\b(?:pack|kit)\s*(?:de\s*)?([2-9])\b/i)
+    ?? extractNumber(text, /\b([2-9])\s*(?:pack|pcs|unidades|en\s*1)\b/i)
+    ?? (/\btriple\b/i.test(text) ? 3 : undefined);
+
+  // "120mm", "3x120mm", "120x120x25mm"
+  const fanSize = extractNumber(text, /(?<!\d)(80|92|120|140|200)(?:\s*x\s*\d{2,3})*\s*mm/i);
+
+  // Power connector; clauses about the lighting cable ("ARGB 5V 3 pines") don't count
+  const clauses = text.split(/[.,;\n]|\s-\s/);
+  const isPowerClause = (clause: string) => !/\bA?RGB\b|\b(?:5|12)\s*V\b|\bLED/i.test(clause);
+  let fanConnector: FanConnector | undefined;
+  if (/\bPWM\b/i.test(text) || clauses.some((c) => /\b4[\s-]*pin(?:es)?\b/i.test(c) && isPowerClause(c))) {
+    fanConnector = '4-pin PWM';
+  } else if (/\bDC\b/.test(text) || clauses.some((c) => /\b3[\s-]*pin(?:es)?\b/i.test(c) && isPowerClause(c))) {
+    fanConnector = '3-pin';
+  }
+
+  // Plain "RGB" is used for both kinds in fan listings, so 12V RGB needs the voltage stated
+  let fanLighting: FanLighting | undefined;
+  if (/\bA-?RGB\b|\bD-?RGB\b|direccionable|addressable|\b5\s*V\b/i.test(text)) {
+    fanLighting = 'ARGB';
+  } else if (/\bRGB\b/i.test(text) && /\b12\s*V\b/i.test(text)) {
+    fanLighting = 'RGB';
+  }
+
+  const fanHubIncluded = /\b(?:hub|controladora|controlador|controller|control\s*remoto|remote)\b/i.test(text);
+
+  return {
+    fanCount: fanCount ?? 1,
+    fanSize,
+    fanConnector,
+    fanLighting,
+    fanHubIncluded: fanHubIncluded || undefined,
+  };
+}
+
+// Resolution names, for listings that don't give the pixel count
+const RESOLUTION_NAMES: [RegExp, string][] = [
+  [/\b(?:4K|UHD)\b/i, '3840x2160'],
+  [/\bUWQHD\b/i, '3440x1440'],
+  [/\b(?:W?QHD|2K|1440p)\b/i, '2560x1440'],
+  [/\b(?:FHD|Full\s*HD|1080p)\b/i, '1920x1080'],
+];
+
+/**
+ * Extract adaptive sync support, normalized ("FreeSync Premium", "G-Sync Compatible", "Adaptive-Sync")
+ */
+function extractAdaptiveSync(text: string): string[] | undefined {
+  const found: string[] = [];
+
+  const freeSync = text.match(/\bFreeSync(\s*Premium)?(\s*Pro)?\b/i);
+  if (freeSync) found.push(`FreeSync${freeSync[1] ? ' Premium' : ''}${freeSync[1] && freeSync[2] ? ' Pro' : ''}`);
+  const gSync = text.match(/\bG-?Sync(\s*Compatible)?\b/i);
+  if (gSync) found.push(gSync[1] ? 'G-Sync Compatible' : 'G-Sync');
+  if (/\bAdaptive[-\s]?Sync\b/i.test(text)) found.push('Adaptive-Sync');
+
+  return found.length > 0 ? found : undefined;
+}
+
+/**
+ * Extract monitor specs from product
+ */
+function extractMonitorSpecs(product: Product): ProductSpec {
+  const text = `${product.title} ${product.description}`;
+
+  // "2560x1440", "3840 x 2160", else the resolution name ("4K", "QHD", "Full HD")
+  const pixels = text.match(/\b([1-7]\d{3})\s*[x×]\s*(\d{3,4})\b/);
+  const monitorResolution = pixels
+    ? `${pixels[1]}x${pixels[2]}`
+    : RESOLUTION_NAMES.find(([pattern]) => pattern.test(text))?.[1];
+
+  // Highest refresh rate listed ("144Hz", "165 Hz (OC)")
+  const refreshRates = [...text.matchAll(/\b(\d{2,3})\s*Hz\b/gi)].map((match) => parseInt(match[1]));
+  const monitorRefreshRate = refreshRates.length > 0 ? Math.max(...refreshRates) : undefined;
+
+  // Case-sensitive: "va" is also a Spanish word
+  const monitorPanel = text.match(/\b(OLED|IPS|VA|TN)\b/)?.[1];
+
+  return {
+    monitorResolution,
+    monitorRefreshRate,
+    monitorPanel,
+    monitorInputs: extractVideoPorts(text),
+    monitorAdaptiveSync: extractAdaptiveSync(text),
   };
 }
 
@@ -1234,8 +1966,103 @@ export function extractSpecs(product: Product, category: CategoryKey): ProductSp
       return extractStorageSpecs(product);
     case 'cooler':
       return extractCoolerSpecs(product);
+    case 'fans':
+      return extractFanSpecs(product);
+    case 'monitor':
+      return extractMonitorSpecs(product);
     default:
       return {};
   }
 }
 
+
+// Specs extracted from a product with no title, description or attributes, per category
+const emptySpecCache = new Map<CategoryKey, ProductSpec>();
+
+function getEmptySpec(product: Product, category: CategoryKey): ProductSpec {
+  let spec = emptySpecCache.get(category);
+  if (!spec) {
+    spec = extractSpecs({ ...product, title: '', description: '', attributeGroups: undefined, dimensions: undefined }, category);
+    emptySpecCache.set(category, spec);
+  }
+  return spec;
+}
+
+function isSameSpecValue(a: unknown, b: unknown): boolean {
+  return a !== undefined && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Whether a value is written out in some text (e.g., "ATX" or "SATA")
+ */
+function isValueStated(value: unknown, text: string): boolean {
+  const values = Array.isArray(value) ? value : [value];
+  return values.every(
+    (item) => typeof item === 'string' && new RegExp(`\\b${item.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text)
+  );
+}
+
+/**
+ * Extract specs plus where each field came from
+ * Fields are attributed by re-running the extractor on each source alone (title, attributes,
+ * description). Values an empty product also gets are defaults unless the text states them;
+ * values no single source yields were combined or derived.
+ */
+export function extractSpecsWithProvenance(product: Product, category: CategoryKey): ExtractedSpec {
+  const spec = extractSpecs(product, category);
+  const emptySpec = getEmptySpec(product, category);
+
+  const attributesText = (product.attributeGroups ?? [])
+    .flatMap((group) => group.attributes.map((attr) => `${attr.name} ${attr.value}`))
+    .join(' | ');
+  const sources: { source: SpecSource; text: string; spec: ProductSpec; confidence: SpecConfidence }[] = [
+    {
+      source: 'title',
+      text: product.title,
+      spec: extractSpecs({ ...product, description: '', attributeGroups: undefined }, category),
+      confidence: 'high',
+    },
+    {
+      source: 'attributes',
+      text: attributesText,
+      spec: extractSpecs({ ...product, title: '', description: '' }, category),
+      confidence: 'high',
+    },
+    {
+      source: 'description',
+      text: product.description,
+      spec: extractSpecs({ ...product, title: '', attributeGroups: undefined }, category),
+      confidence: 'medium',
+    },
+  ];
+
+  const provenance: SpecProvenanceMap = {};
+
+  for (const field of Object.keys(spec) as (keyof ProductSpec)[]) {
+    const value = spec[field];
+    if (value === undefined) continue;
+
+    if (isSameSpecValue(emptySpec[field], value)) {
+      const stated = sources.find((s) => isValueStated(value, s.text));
+      provenance[field] = stated
+        ? { source: stated.source, confidence: stated.confidence }
+        : { source: 'inferred', confidence: 'low', detail: 'default' };
+      continue;
+    }
+
+    const found = sources.find((s) => isSameSpecValue(s.spec[field], value));
+    provenance[field] = found
+      ? { source: found.source, confidence: found.confidence }
+      : { source: 'inferred', confidence: 'medium', detail: 'combined' };
+  }
+
+  // Sockets looked up from the chipset or CPU model are not written in the listing
+  if (spec.socket && (category === 'cpu' || category === 'motherboard')) {
+    const text = `${product.title} ${product.description}`;
+    if (!extractPattern(text, SOCKET_PATTERNS)) {
+      provenance.socket = { source: 'inferred', confidence: 'medium', detail: category === 'cpu' ? 'model' : 'chipset' };
+    }
+  }
+
+  return { spec, provenance };
+}
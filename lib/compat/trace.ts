@@ -0,0 +1,145 @@
+/**
+ * Rule Evaluation Trace
+ * Runs a rule for a candidate while recording the spec values it reads, and explains
+ * why it had nothing to check. Used by the debug panel in ProductModal.
+ */
+
+import type {
+  BuildRule,
+  CompatibilityRule,
+  PCBuild,
+  ProductSpec,
+  ProductWithSpec,
+  RuleContext,
+  RuleResult,
+  RuleSkipReason,
+  RuleTrace,
+  SpecReading,
+} from './types';
+import { withCandidate } from './build';
+import { downgradeAssumedPass, isLowConfidenceSpec } from './provenance';
+
+/**
+ * Wraps parts so that every spec field read is recorded once per part
+ * Each part is wrapped once, so a part in both the map and the items stays the same object
+ */
+function createSpecRecorder() {
+  const readings = new Map<string, SpecReading>();
+  const assumed: SpecReading[] = [];
+  const wrapped = new WeakMap<ProductWithSpec, ProductWithSpec>();
+
+  function wrap(part: ProductWithSpec): ProductWithSpec {
+    let recorded = wrapped.get(part);
+    if (!recorded) {
+      const spec = new Proxy(part.spec, {
+        get(target, field, receiver) {
+          const value = Reflect.get(target, field, receiver);
+          const key = `${part.category}:${part.product.id}:${String(field)}`;
+          if (typeof field === 'string' && !readings.has(key)) {
+            const reading: SpecReading = {
+              category: part.category,
+              productId: part.product.id,
+              field: field as keyof ProductSpec,
+              value,
+            };
+            readings.set(key, reading);
+            if (isLowConfidenceSpec(part, reading.field)) assumed.push(reading);
+          }
+          return value;
+        },
+      });
+      recorded = { ...part, spec };
+      wrapped.set(part, recorded);
+    }
+    return recorded;
+  }
+
+  function wrapBuild(build: PCBuild): PCBuild {
+    const recorded: PCBuild = new Map([...build].map(([category, part]) => [category, wrap(part)]));
+    if (build.items) {
+      recorded.items = Object.fromEntries(
+        Object.entries(build.items).map(([category, items]) => [
+          category,
+          items?.map((item) => ({ ...item, product: wrap(item.product) })),
+        ])
+      );
+    }
+    return recorded;
+  }
+
+  return { wrap, wrapBuild, getReadings: () => [...readings.values()], getAssumedReadings: () => assumed };
+}
+
+/**
+ * Why a rule had nothing to check, from its result, the parts selected and the specs it read
+ */
+function getSkipReason(
+  result: RuleResult,
+  hasComparedParts: boolean,
+  specs: SpecReading[]
+): RuleSkipReason | undefined {
+  const code = result.message.code;
+  const isUnchecked = result.status === 'unknown' || code.endsWith('_UNKNOWN');
+
+  if (code === 'PART_NOT_SELECTED' || (code === 'NOT_APPLICABLE' && !hasComparedParts)) {
+    return 'category-not-in-build';
+  }
+  if (isUnchecked || (code === 'NOT_APPLICABLE' && specs.some((reading) => reading.value === undefined))) {
+    return 'spec-missing';
+  }
+  if (code === 'NOT_APPLICABLE') {
+    return 'not-applicable';
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a rule on recorded parts
+ * Build rules see the build with the candidate added, as in evaluateCompatibility, or the
+ * build alone without a candidate. Passes that rest on an assumed spec value come back as
+ * SPEC_ASSUMED warnings (see ./provenance).
+ */
+export function evaluateRecorded(
+  rule: CompatibilityRule | BuildRule,
+  candidate: ProductWithSpec | undefined,
+  build: PCBuild,
+  context?: RuleContext
+): { result: RuleResult; specs: SpecReading[] } {
+  const recorder = createSpecRecorder();
+  const recordedCandidate = candidate && recorder.wrap(candidate);
+  const recordedBuild = recorder.wrapBuild(build);
+
+  let result: RuleResult;
+  if ('sourceCategory' in rule) {
+    result = rule.evaluate(recordedCandidate!, recordedBuild, context);
+  } else {
+    result = rule.evaluate(recordedCandidate ? withCandidate(recordedBuild, recordedCandidate) : recordedBuild);
+  }
+
+  return { result: downgradeAssumedPass(result, recorder.getAssumedReadings()), specs: recorder.getReadings() };
+}
+
+/**
+ * Evaluate a candidate rule or build constraint and record how it got its result
+ */
+export function traceRule(
+  rule: CompatibilityRule | BuildRule,
+  candidate: ProductWithSpec,
+  build: PCBuild,
+  context?: RuleContext
+): RuleTrace {
+  const { result, specs } = evaluateRecorded(rule, candidate, build, context);
+  const hasComparedParts =
+    'sourceCategory' in rule
+      ? rule.targetCategories.some((category) => build.has(category))
+      : rule.categories.some((category) => category !== candidate.category && build.has(category));
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    kind: 'sourceCategory' in rule ? 'pair' : rule.kind,
+    result,
+    skipped: getSkipReason(result, hasComparedParts, specs),
+    specs,
+  };
+}
@@ -5,6 +5,8 @@
 
 import type { CategoryKey } from '../catalog/categories';
 import type { Product } from '../mallweb/normalize';
+import type { MessageCode, RuleMessage } from './messages';
+import type { PowerBudgetOptions } from './power';
 
 /**
  * ProductSpec - Normalized technical specifications for compatibility checking
@@ -30,6 +32,13 @@ export interface ProductSpec {
   m2Slots?: number;
   sataPorts?: number;        // Number of SATA ports for storage
   pciExpressVersion?: string; // e.g., "4.0", "5.0"
+  epsConnectors?: number;    // CPU power (EPS) inputs, e.g., 2 for "8+8 pin"
+  m2SataSharing?: M2SataSharing[]; // SATA ports disabled by populated M.2 slots
+  m2SlotDetails?: M2SlotSpec[]; // Per-slot M.2 capabilities, when the listing describes them
+  videoOutputs?: VideoOutput[]; // Rear video outputs for the iGPU; [] when the board has none
+  fanHeaders?: number;       // 4-pin fan headers, CPU_FAN included
+  argbHeaders?: number;      // 3-pin 5V addressable RGB headers
+  rgbHeaders?: number;       // 4-pin 12V RGB headers
 
   // RAM specs
   memoryType?: string;       // e.g., "DDR4", "DDR5"
@@ -37,32 +46,44 @@ export interface ProductSpec {
   memoryCapacity?: number;   // GB per module
   memoryModules?: number;    // Number of modules in kit
   memoryLatency?: string;    // e.g., "CL16", "CL36"
+  memoryHeight?: number;     // mm, module height including heatspreader
 
   // GPU specs
   gpuLength?: number;        // mm
   gpuSlots?: number;         // e.g., 2, 2.5, 3
-  gpuPowerConnectors?: string[];
+  gpuPowerConnectors?: string[]; // One entry per connector: "8-pin", "6-pin", "12VHPWR"
   gpuRecommendedPsu?: number; // Watts
   gpuInterface?: string;     // e.g., "PCIe 4.0 x16"
+  gpuChip?: string;          // e.g., "RTX 4070 SUPER", "RX 7800 XT"
+  gpuBoardPower?: number;    // Watts (TBP/TGP, when listed)
+  gpuOutputs?: VideoPort[];  // e.g., [{ type: 'HDMI', version: '2.1' }, { type: 'DisplayPort', version: '1.4' }]
 
   // Case specs
   supportedFormFactors?: string[]; // e.g., ["ATX", "Micro-ATX", "Mini-ITX"]
   maxGpuLength?: number;     // mm
   maxCpuCoolerHeight?: number; // mm
   maxPsuLength?: number;     // mm
+  supportedPsuFormFactors?: string[]; // e.g., ["ATX"], ["SFX", "SFX-L"]
+  expansionSlots?: number;   // Rear expansion (PCI) slots
   drivesBays25?: number;     // 2.5" drive bays
   drivesBays35?: number;     // 3.5" drive bays
   includesPsu?: boolean;     // Whether case includes a PSU
   includedPsuWattage?: number; // Wattage of included PSU (if any)
   supportsWaterCooling?: boolean; // Whether case supports water cooling/AIO radiators
   supportedRadiatorSizes?: number[]; // Supported radiator sizes in mm (e.g., [120, 240, 280, 360])
+  radiatorMounts?: Partial<Record<RadiatorPosition, number>>; // Max radiator size per position in mm (e.g., { front: 360, top: 240 })
+  fanMounts?: FanMount[];    // e.g., front "3x120mm / 2x140mm" => two entries for 'front'
 
   // PSU specs
   psuWattage?: number;       // Watts
   psuEfficiency?: string;    // e.g., "80+ Bronze", "80+ Gold", "80+ Platinum"
   psuModular?: 'full' | 'semi' | 'no';
-  psuFormFactor?: string;    // e.g., "ATX", "SFX"
+  psuFormFactor?: string;    // e.g., "ATX", "SFX", "SFX-L"
   psuLength?: number;        // mm
+  psuPcie8Pin?: number;      // PCIe 8-pin (6+2) GPU connectors
+  psu12vhpwr?: number;       // Native 12VHPWR / 12V-2x6 connectors
+  psuEps8Pin?: number;       // CPU EPS 8-pin (4+4) connectors
+  psuSata?: number;          // SATA power connectors
 
   // Storage specs
   storageInterface?: string; // "SATA", "NVMe", "PCIe"
@@ -70,6 +91,8 @@ export interface ProductSpec {
   storageFormFactor?: string; // "2.5", "3.5", "M.2"
   storageType?: string;      // "SSD", "HDD"
   storageConnectionType?: 'M.2' | 'SATA'; // Connection type for motherboard compatibility
+  storagePcieGen?: number;   // NVMe PCIe generation, e.g., 4 for "PCIe 4.0"
+  storageLength?: number;    // M.2 length code, e.g., 2280, 22110
   readSpeed?: number;        // MB/s
   writeSpeed?: number;       // MB/s
 
@@ -79,6 +102,106 @@ export interface ProductSpec {
   coolerType?: 'air' | 'aio';
   aioSize?: number;          // mm (e.g., 240, 280, 360)
   coolerTdp?: number;        // Max TDP supported
+  coolerRamClearance?: number; // mm, max RAM height under the heatsink/fan
+  coolerDualTower?: boolean; // Dual-tower air cooler (overhangs the RAM slots)
+
+  // Monitor specs
+  monitorResolution?: string; // Native resolution, e.g., "2560x1440"
+  monitorRefreshRate?: number; // Hz
+  monitorPanel?: string;     // "IPS", "VA", "TN", "OLED"
+  monitorInputs?: VideoPort[];
+  monitorAdaptiveSync?: string[]; // e.g., ["FreeSync Premium", "G-Sync Compatible"]
+
+  // Fan specs
+  fanCount?: number;         // Fans in the pack (e.g., 3 for a "x3" kit)
+  fanSize?: number;          // mm, e.g., 120, 140
+  fanConnector?: FanConnector;
+  fanLighting?: FanLighting; // Undefined for fans without lighting (or when the listing doesn't say which kind)
+  fanHubIncluded?: boolean;  // Pack ships with a hub/controller for power and lighting
+}
+
+/**
+ * M.2/SATA lane sharing: populating M.2 slot `m2Slot` disables `sataPorts`
+ * e.g., { m2Slot: 2, sataPorts: [5, 6] } for "M.2_2 shares bandwidth with SATA5/6"
+ */
+export interface M2SataSharing {
+  m2Slot: number;
+  sataPorts: number[];
+}
+
+/**
+ * Video output connector type
+ */
+export type VideoOutput = 'HDMI' | 'DisplayPort' | 'DVI' | 'VGA';
+
+/**
+ * A video connector and its version, when listed (e.g., HDMI "2.1", DisplayPort "1.4")
+ */
+export interface VideoPort {
+  type: VideoOutput;
+  version?: string;
+}
+
+/**
+ * One M.2 slot of a motherboard, numbered as in the manual ("M.2_1")
+ * Unlisted capabilities stay undefined and are not checked
+ */
+export interface M2SlotSpec {
+  slot: number;
+  pcieGen?: number;          // e.g., 4 for "PCIe 4.0 x4"
+  key?: 'M' | 'B' | 'E';     // E-key slots are for Wi-Fi cards, not drives
+  lengths?: number[];        // e.g., [2242, 2260, 2280, 22110]
+  attachedTo?: 'cpu' | 'chipset';
+}
+
+/**
+ * Case position where an AIO radiator can be mounted
+ */
+export type RadiatorPosition = 'front' | 'top' | 'side' | 'rear' | 'bottom';
+
+/**
+ * Fans of one size a case position takes
+ * Entries for the same position are alternatives (3x120mm or 2x140mm), not additive
+ */
+export interface FanMount {
+  position: RadiatorPosition;
+  size: number;              // mm
+  count: number;
+}
+
+/**
+ * Fan power connector: 3-pin (voltage controlled) or 4-pin PWM
+ */
+export type FanConnector = '3-pin' | '4-pin PWM';
+
+/**
+ * Fan lighting: ARGB (3-pin 5V, addressable) or RGB (4-pin 12V)
+ * The headers are not interchangeable; a 5V strip on a 12V header burns out
+ */
+export type FanLighting = 'ARGB' | 'RGB';
+
+/**
+ * Where a spec value came from
+ * 'inferred' covers lookups (socket from chipset) and defaults (ATX when unstated)
+ */
+export type SpecSource = 'title' | 'description' | 'attributes' | 'inferred' | 'curated';
+
+export type SpecConfidence = 'high' | 'medium' | 'low';
+
+export interface SpecProvenance {
+  source: SpecSource;
+  confidence: SpecConfidence;
+  detail?: string;           // e.g., "chipset", "model", "default"
+}
+
+export type SpecProvenanceMap = Partial<Record<keyof ProductSpec, SpecProvenance>>;
+
+/**
+ * Extracted spec plus the provenance of each field
+ */
+export interface ExtractedSpec {
+  spec: ProductSpec;
+  provenance: SpecProvenanceMap;
 }
 
 /**
@@ -88,6 +211,8 @@ export interface ProductWithSpec {
   product: Product;
   spec: ProductSpec;
   category: CategoryKey;
+  provenance?: SpecProvenanceMap; // Missing for hand-built parts, which count as high confidence
+  owned?: boolean;                // Already in the customer's PC: checked for compatibility, not bought
 }
 
 /**
@@ -101,7 +226,7 @@ export type CompatStatus = 'pass' | 'fail' | 'warn' | 'unknown';
 export interface RuleResult {
   ruleId: string;
   status: CompatStatus;
-  reason: string;
+  message: RuleMessage;      // Rendered per locale with formatMessage
   affectedCategories: CategoryKey[];
 }
 
@@ -112,9 +237,17 @@ export interface CompatibilityResult {
   productId: string;
   allowed: boolean;
   results: RuleResult[];
-  warnings: string[];
+  warnings: string[];        // Rendered in the locale passed to the engine
   failures: string[];
   hasUnknownChecks: boolean; // True if some compatibility checks couldn't be performed
+  trace?: RuleTrace[];       // Only when evaluated with { trace: true }
+}
+
+/**
+ * Settings a rule reads besides the parts, from the engine's evaluation options
+ */
+export interface RuleContext {
+  power: PowerBudgetOptions; // Headroom the PSU is sized against
 }
 
 /**
@@ -126,14 +259,140 @@ export interface CompatibilityRule {
   description: string;
   sourceCategory: CategoryKey;
   targetCategories: CategoryKey[];
+  usesContext?: boolean;  // Reads the RuleContext, so its results depend on the evaluation settings too
   evaluate: (
     candidate: ProductWithSpec,
-    build: Map<CategoryKey, ProductWithSpec>
+    build: Map<CategoryKey, ProductWithSpec>,
+    context?: RuleContext
   ) => RuleResult;
 }
 
+/**
+ * How a build rule's failure counts in the summary
+ * - requirement: a part is missing, so the build is incomplete (not incompatible)
+ * - constraint: the selected parts conflict as a whole
+ */
+export type BuildRuleKind = 'requirement' | 'constraint';
+
+/**
+ * A rule evaluated over the whole build instead of a single candidate
+ * Constraint rules also run for candidates of `categories`, with the candidate added to the build,
+ * unless `checksCandidates` is false (pair rules cover the candidates instead)
+ */
+export interface BuildRule {
+  id: string;
+  name: string;
+  description: string;
+  kind: BuildRuleKind;
+  categories: CategoryKey[];   // Parts the rule looks at
+  checksCandidates?: boolean;  // Defaults to true for constraints
+  evaluate: (build: PCBuild) => RuleResult;
+}
+
+/**
+ * Why a rule had nothing to check
+ * - category-not-in-build: none of the parts it compares against are selected
+ * - spec-missing: a spec it needs is missing from the candidate or a selected part
+ * - not-applicable: the rule does not apply to these parts (e.g. radiator rules for an air cooler)
+ */
+export type RuleSkipReason = 'category-not-in-build' | 'spec-missing' | 'not-applicable';
+
+/**
+ * A spec value read by a rule; undefined when the part doesn't have it
+ */
+export interface SpecReading {
+  category: CategoryKey;
+  productId: string;
+  field: keyof ProductSpec;
+  value: ProductSpec[keyof ProductSpec];
+}
+
+/**
+ * How one rule evaluated a candidate, for debugging
+ */
+export interface RuleTrace {
+  ruleId: string;
+  name: string;
+  kind: 'pair' | BuildRuleKind; // Candidate rules compare pairs of parts; build rules are requirements or constraints
+  result: RuleResult;
+  skipped?: RuleSkipReason;     // Set when the rule ran but had nothing to check
+  specs: SpecReading[];         // In the order the rule read them
+}
+
+/**
+ * A part and how many units of it are in the build
+ */
+export interface ProductWithQuantity {
+  product: ProductWithSpec;
+  quantity: number;
+}
+
+/**
+ * Every selected part per category, with quantities
+ */
+export type BuildItems = Partial<Record<CategoryKey, ProductWithQuantity[]>>;
+
 /**
  * The current PC build state
+ * The map holds one part per category (the first one for RAM/storage);
+ * `items`, when present, lists every selected part with its quantity
+ */
+export type PCBuild = Map<CategoryKey, ProductWithSpec> & { items?: BuildItems };
+
+/**
+ * Comparison applied by a declarative rule between side A and side B
+ * - equals: A must be the same value as B
+ * - includedIn: A must be one of the values listed in B
+ * - atMost / atLeast: numeric comparison of A against B
+ * - rankAtMost: A's rank must not exceed the highest rank found in B (uses `ranking`)
+ */
+export type DeclarativeOperator = 'equals' | 'includedIn' | 'atMost' | 'atLeast' | 'rankAtMost';
+
+/**
+ * Condition on a spec field; the rule only applies when it holds
+ */
+export interface SpecCondition {
+  field: keyof ProductSpec;
+  equals?: string | number | boolean;
+  notEquals?: string | number | boolean;
+}
+
+/**
+ * One side of a declarative rule: a spec field of a category
+ * `param` is the message parameter that receives the field's value
+ */
+export interface DeclarativeSide {
+  category: CategoryKey;
+  field: keyof ProductSpec;
+  param: string;
+  when?: SpecCondition;
+}
+
+/**
+ * Message codes emitted by a declarative rule
+ * Both directions emit the same message, so the summary can dedupe them
  */
-export type PCBuild = Map<CategoryKey, ProductWithSpec>;
+export interface DeclarativeRuleMessages {
+  pass: MessageCode;
+  fail: MessageCode;
+  missing: MessageCode;
+}
+
+/**
+ * A compatibility rule described as data instead of an evaluate closure.
+ * The engine compiles it into two CompatibilityRules: `forward` evaluates
+ * a candidate from side A's category, `reverse` one from side B's category.
+ */
+export interface DeclarativeRule {
+  forward: { id: string; name: string };
+  reverse: { id: string; name: string };
+  description: string;
+  a: DeclarativeSide;
+  b: DeclarativeSide;
+  operator: DeclarativeOperator;
+  ranking?: Record<string, number>; // Required by 'rankAtMost'
+  onMissing: 'pass' | 'warn' | 'unknown'; // Status when either spec value is missing
+  messages: DeclarativeRuleMessages;
+  ignoreProductIds?: string[];      // Virtual products the rule never applies to
+}
 
@@ -0,0 +1,113 @@
+/**
+ * Upgrade Planner
+ * Suggests what to buy for a PC the customer already owns. Each upgrade path swaps a set
+ * of categories that change together (a GPU with the PSU it needs, a platform change with
+ * CPU, motherboard and RAM) and the rest of the owned parts stay as they are.
+ */
+
+import type { CategoryKey } from '../catalog/categories';
+import type { Product } from '../mallweb/normalize';
+import type { PCBuild } from './types';
+import { withoutCategory } from './build';
+import { generateBuild, scoreBuild, type UseCase } from './generator';
+
+export type UpgradeKind = 'gpu' | 'cpu' | 'platform' | 'ram';
+
+export const UPGRADE_LABELS: Record<UpgradeKind, string> = {
+  gpu: 'Placa de video',
+  cpu: 'Procesador',
+  platform: 'Cambio de plataforma',
+  ram: 'Memoria RAM',
+};
+
+interface UpgradePath {
+  kind: UpgradeKind;
+  categories: CategoryKey[];
+}
+
+// Each kind is tried alone and with the part that most often has to follow it
+const UPGRADE_PATHS: UpgradePath[] = [
+  { kind: 'gpu', categories: ['gpu'] },
+  { kind: 'gpu', categories: ['gpu', 'psu'] },
+  { kind: 'cpu', categories: ['cpu'] },
+  { kind: 'cpu', categories: ['cpu', 'cooler'] },
+  { kind: 'platform', categories: ['cpu', 'motherboard', 'ram'] },
+  { kind: 'platform', categories: ['cpu', 'motherboard', 'ram', 'cooler'] },
+  { kind: 'ram', categories: ['ram'] },
+];
+
+export interface UpgradeSuggestion {
+  kind: UpgradeKind;
+  parts: Partial<Record<CategoryKey, Product>>;  // Parts to buy in the upgrade's categories; they replace the owned ones
+  price: number;                                 // Of the upgrade parts only
+  missingParts: Partial<Record<CategoryKey, Product>>; // Parts the owned PC lacks, needed to complete it
+  gain: number;                                  // Score increase for the use case (see scoreBuild)
+  warnings: string[];
+}
+
+/**
+ * Copy of the build with only the parts marked as owned
+ */
+export function getOwnedBuild(build: PCBuild): PCBuild {
+  const owned: PCBuild = new Map();
+  owned.items = {};
+
+  for (const [category, part] of build) {
+    const items = build.items?.[category]?.filter((item) => item.product.owned);
+    if (items && items.length > 0) {
+      owned.set(category, items[0].product);
+      owned.items[category] = items;
+    } else if (!build.items?.[category] && part.owned) {
+      owned.set(category, part);
+    }
+  }
+
+  return owned;
+}
+
+/**
+ * Best upgrade of each kind that fits the budget, most impactful first
+ * Upgrades that would buy back an owned part, or don't raise the score, are left out.
+ * When the owned PC is incomplete, the parts that complete it come apart in missingParts
+ * and share the budget with the upgrade.
+ */
+export function planUpgrades(
+  owned: PCBuild,
+  catalog: Partial<Record<CategoryKey, Product[]>>,
+  budget: number,
+  useCase: UseCase
+): UpgradeSuggestion[] {
+  const currentScore = scoreBuild(owned, useCase);
+  const best = new Map<UpgradeKind, UpgradeSuggestion>();
+
+  for (const { kind, categories } of UPGRADE_PATHS) {
+    const rest = categories.reduce(withoutCategory, owned);
+    const generated = generateBuild(catalog, { budget, useCase, owned: rest });
+    if (!generated) continue;
+
+    const parts: Partial<Record<CategoryKey, Product>> = {};
+    const missingParts: Partial<Record<CategoryKey, Product>> = {};
+    for (const [category, product] of Object.entries(generated.parts) as [CategoryKey, Product][]) {
+      if (owned.get(category)?.product.id === product.id) continue;
+      if (categories.includes(category)) parts[category] = product;
+      else missingParts[category] = product;
+    }
+
+    const suggestion: UpgradeSuggestion = {
+      kind,
+      parts,
+      price: Object.values(parts).reduce((sum, product) => sum + product!.price, 0),
+      missingParts,
+      gain: generated.score - currentScore,
+      warnings: generated.warnings,
+    };
+    if (Object.keys(parts).length === 0 || suggestion.gain <= 0) continue;
+
+    const current = best.get(kind);
+    if (!current || suggestion.gain > current.gain || (suggestion.gain === current.gain && suggestion.price < current.price)) {
+      best.set(kind, suggestion);
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.gain - a.gain || a.price - b.price);
+}
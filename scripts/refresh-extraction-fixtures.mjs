@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Refresh Extraction Fixtures
+ * Merges items from a saved MallWeb search dump into the golden corpus at
+ * lib/compat/__tests__/fixtures/extraction/<category>.json.
+ *
+ * Usage: node scripts/refresh-extraction-fixtures.mjs <category> <dump.json>
+ *        node scripts/refresh-extraction-fixtures.mjs <category> --search "<keywords>" [pages]
+ *
+ * The dump can be a full search response or a bare array of items. With --search
+ * the items come straight from the catalog search API (CHECKOUT_API_KEY, and
+ * GITECOMMERCEMCP_API_BASE_URL to point elsewhere), 50 per page. Items are
+ * anonymised (stable fixture id, no images, prices, stock or sellers) and merged
+ * by id: reviewed `expected` specs are kept, new items get `expected: null` until
+ * `UPDATE_EXTRACTION_FIXTURES=1 npm run test:extraction` fills them for review.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  'lib',
+  'compat',
+  '__tests__',
+  'fixtures',
+  'extraction'
+);
+
+const CATEGORIES = ['cpu', 'motherboard', 'ram', 'gpu', 'storage', 'psu', 'case', 'cooler'];
+
+const API_BASE_URL = process.env.GITECOMMERCEMCP_API_BASE_URL || 'https://checkout.gestionresellers.com.ar/api';
+const RESULTS_PER_PAGE = 50;
+
+function anonymise(item) {
+  const hash = createHash('sha1').update(item.title).digest('hex').slice(0, 10);
+  return {
+    source_id: `fx-${hash}`,
+    title: item.title,
+    description: item.description ?? '',
+    brand: item.brand ?? '',
+    category: (item.category ?? []).map(({ name }) => ({ id: '0', name })),
+    ids: item.ids ?? [],
+    images: [],
+    offers: [{ price: { amount: '0', currency: 'ARS' }, stock: 0 }],
+    ...(item.unit_dimensions && { unit_dimensions: item.unit_dimensions }),
+    ...(item.attribute_groups && { attribute_groups: item.attribute_groups }),
+  };
+}
+
+async function searchItems(keywords, pages) {
+  const apiKey = process.env.CHECKOUT_API_KEY;
+  if (!apiKey) {
+    console.error('CHECKOUT_API_KEY is required for --search');
+    process.exit(1);
+  }
+
+  const items = [];
+  for (let page = 1; page <= pages; page++) {
+    let response;
+    try {
+      response = await fetch(`${API_BASE_URL}/viarapida/item/search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept-Language': 'es', 'X-API-Key': apiKey },
+        body: JSON.stringify({ keywords, page, results_per_page: RESULTS_PER_PAGE }),
+      });
+    } catch (err) {
+      // Nothing is written, so the corpus and the baseline stay as they were
+      console.error(`Could not reach ${API_BASE_URL}: ${err.cause?.message ?? err.message}`);
+      process.exit(1);
+    }
+    if (!response.ok) {
+      console.error(`Search failed on page ${page}: ${response.status} ${response.statusText}`);
+      process.exit(1);
+    }
+    const result = await response.json();
+    items.push(...(result.items ?? []));
+    if (page >= (result.total_pages ?? 1)) break;
+  }
+  return items;
+}
+
+function readDump(dumpPath) {
+  const dump = JSON.parse(readFileSync(dumpPath, 'utf8'));
+  const items = Array.isArray(dump) ? dump : dump.items;
+  if (!Array.isArray(items)) {
+    console.error(`${dumpPath}: expected a search response or an array of items`);
+    process.exit(1);
+  }
+  return items;
+}
+
+async function main() {
+  const [category, source, keywords, pages = '4'] = process.argv.slice(2);
+  const searching = source === '--search';
+
+  if (!CATEGORIES.includes(category) || !source || (searching && !keywords)) {
+    console.error(
+      `Usage: node scripts/refresh-extraction-fixtures.mjs <${CATEGORIES.join('|')}> <dump.json | --search "<keywords>" [pages]>`
+    );
+    process.exit(1);
+  }
+
+  const items = searching ? await searchItems(keywords, Number(pages)) : readDump(source);
+
+  const fixturePath = join(FIXTURES_DIR, `${category}.json`);
+  const fixture = existsSync(fixturePath)
+    ? JSON.parse(readFileSync(fixturePath, 'utf8'))
+    : { category, items: [] };
+
+  const byId = new Map(fixture.items.map((entry) => [entry.item.source_id, entry]));
+  let added = 0;
+  let updated = 0;
+
+  for (const raw of items) {
+    const item = anonymise(raw);
+    const existing = byId.get(item.source_id);
+    if (existing) {
+      existing.item = item;
+      updated++;
+    } else {
+      byId.set(item.source_id, { item, expected: null });
+      added++;
+    }
+  }
+
+  fixture.items = [...byId.values()];
+  writeFileSync(fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  console.log(`${category}: ${added} added, ${updated} refreshed, ${fixture.items.length} total`);
+}
+
+await main();
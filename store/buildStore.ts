@@ -3,15 +3,19 @@
  * Zustand store for managing the PC build state
  */
 
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { CategoryKey } from '../lib/catalog/categories';
+import { MULTI_SELECT_CATEGORIES, type CategoryKey } from '../lib/catalog/categories';
 import type { Product } from '../lib/mallweb/normalize';
-import type { ProductWithSpec, PCBuild } from '../lib/compat/types';
+import type { ProductWithSpec, ProductWithQuantity, PCBuild } from '../lib/compat/types';
 import { createProductWithSpec, getBuildCompatibilitySummary } from '../lib/compat/engine';
-
-// Categories that allow multiple selections
-const MULTI_SELECT_CATEGORIES: CategoryKey[] = ['ram', 'storage'];
+import { DEFAULT_LOCALE, formatMessage, type Locale } from '../lib/compat/messages';
+import { getAddUnitFailure, getAvailableSataPorts, getM2DriveCount, getSlotLimits } from '../lib/compat/buildRules';
+import { getSataDriveCount } from '../lib/compat/connectors';
+import { getTotalModules } from '../lib/compat/memory';
+import { GENERATION_ORDER } from '../lib/compat/generator';
+import { DEFAULT_POWER_OPTIONS, type PowerBudgetOptions } from '../lib/compat/power';
 
 // Special ID for "use included cooler" option
 export const USE_INCLUDED_COOLER_ID = '__use_included_cooler__';
@@ -19,11 +23,11 @@ export const USE_INCLUDED_COOLER_ID = '__use_included_cooler__';
 // Special ID for "use included PSU" option
 export const USE_INCLUDED_PSU_ID = '__use_included_psu__';
 
-// Helper type for items with quantity (used in multi-select categories)
-export interface ProductWithQuantity {
-  product: ProductWithSpec;
-  quantity: number;
-}
+// Prefix of the IDs of owned parts declared by description
+export const OWNED_PRODUCT_ID_PREFIX = '__owned__';
+
+// Items with quantity (used in multi-select categories)
+export type { ProductWithQuantity };
 
 // Helper type for parts that can be single or multiple
 type PartValue = ProductWithSpec | ProductWithQuantity[] | null;
@@ -31,20 +35,32 @@ type PartsRecord = Record<CategoryKey, PartValue>;
 
 interface BuildState {
   // The current build (parts selected)
-  // RAM and Storage can have multiple items (arrays), others are single
+  // RAM, Storage and Fans can have multiple items (arrays), others are single
   parts: PartsRecord;
   
   // Currently active category in the builder
   activeCategory: CategoryKey;
+
+  // Language used to render compatibility messages
+  locale: Locale;
+
+  // Headroom the PSU is sized against (the power rule and the power budget)
+  powerOptions: PowerBudgetOptions;
   
   // Actions
   setPart: (category: CategoryKey, product: Product) => void;
   addPart: (category: CategoryKey, product: Product) => void;
-  removePart: (category: CategoryKey, productId?: string) => void;
-  incrementQuantity: (category: CategoryKey, productId: string) => void;
-  decrementQuantity: (category: CategoryKey, productId: string) => void;
+  replaceItem: (category: CategoryKey, productId: string, product: Product) => void;
+  removePart: (category: CategoryKey, productId?: string, owned?: boolean) => void;
+  addOwnedPart: (category: CategoryKey, product: Product) => void;
+  setPartOwned: (category: CategoryKey, owned: boolean, productId?: string) => void;
+  incrementQuantity: (category: CategoryKey, productId: string, owned?: boolean) => void;
+  decrementQuantity: (category: CategoryKey, productId: string, owned?: boolean) => void;
   clearBuild: () => void;
+  loadBuild: (products: Partial<Record<CategoryKey, Product>>) => void;
   setActiveCategory: (category: CategoryKey) => void;
+  setLocale: (locale: Locale) => void;
+  setPsuHeadroom: (headroom: number) => void;
   
   // Computed helpers (accessed as functions to avoid stale closures)
   getBuild: () => PCBuild;
@@ -54,6 +70,40 @@ interface BuildState {
   getCompatibilitySummary: () => ReturnType<typeof getBuildCompatibilitySummary>;
 }
 
+/**
+ * PCBuild for the compatibility engine from the selected parts
+ */
+function createBuild(parts: PartsRecord): PCBuild {
+  const build: PCBuild = new Map();
+  build.items = {};
+  
+  for (const [key, value] of Object.entries(parts)) {
+    const categoryKey = key as CategoryKey;
+    
+    if (MULTI_SELECT_CATEGORIES.includes(categoryKey)) {
+      // For multi-select categories, only add if array has items
+      if (Array.isArray(value) && value.length > 0) {
+        // For compatibility checks, use the first item's product
+        build.set(categoryKey, value[0].product);
+        // Keep every item with its quantity (power budget, slot counts)
+        build.items[categoryKey] = value;
+      }
+    } else if (value !== null && !Array.isArray(value)) {
+      build.set(categoryKey, value);
+    }
+  }
+  
+  return build;
+}
+
+/**
+ * Whether an item of a multi-select category is the given product, owned or to buy
+ * Owned and purchased units of the same product are kept as separate items
+ */
+function isItem(item: ProductWithQuantity, productId: string, owned = false): boolean {
+  return item.product.product.id === productId && !!item.product.owned === owned;
+}
+
 const INITIAL_PARTS: PartsRecord = {
   cpu: null,
   motherboard: null,
@@ -67,7 +117,7 @@ const INITIAL_PARTS: PartsRecord = {
   mouse: null,
   headphones: null,
   keyboard: null,
-  fans: null,
+  fans: [], // Array for multiple fan packs
   peripherals: null,
 };
 
@@ -76,6 +126,8 @@ export const useBuildStore = create<BuildState>()(
     (set, get) => ({
       parts: { ...INITIAL_PARTS },
       activeCategory: 'cpu',
+      locale: DEFAULT_LOCALE,
+      powerOptions: DEFAULT_POWER_OPTIONS,
 
       setPart: (category, product) => {
         const productWithSpec = createProductWithSpec(product, category);
@@ -180,7 +232,8 @@ export const useBuildStore = create<BuildState>()(
         
         // Special handling for Motherboard: adjust RAM if it exceeds new slot count
         if (category === 'motherboard') {
-          const newMotherboardSlots = productWithSpec.spec.memorySlots ?? 4; // Default to 4 if not specified
+          const limits = getSlotLimits(productWithSpec.spec);
+          const newMotherboardSlots = limits.memorySlots;
           const currentRam = get().parts.ram;
           
           let ramAdjusted = false;
@@ -188,10 +241,7 @@ export const useBuildStore = create<BuildState>()(
           
           if (Array.isArray(currentRam) && currentRam.length > 0) {
             // Count total RAM sticks (considering kits)
-            const totalRamSticks = currentRam.reduce((sum, item) => {
-              const modulesInKit = item.product.spec.memoryModules ?? 1;
-              return sum + (item.quantity * modulesInKit);
-            }, 0);
+            const totalRamSticks = getTotalModules(currentRam);
             
             // If current RAM exceeds new motherboard's slots
             if (totalRamSticks > newMotherboardSlots) {
@@ -226,8 +276,8 @@ export const useBuildStore = create<BuildState>()(
           }
           
           // Also adjust Storage if it exceeds new slot/port count
-          const newM2Slots = productWithSpec.spec.m2Slots ?? 1;
-          const newSataPorts = productWithSpec.spec.sataPorts ?? 4;
+          const newM2Slots = limits.m2Slots;
+          const newSataPorts = limits.sataPorts;
           const currentStorage = get().parts.storage;
           
           let storageAdjusted = false;
@@ -239,8 +289,8 @@ export const useBuildStore = create<BuildState>()(
             const sataStorage = currentStorage.filter(item => item.product.spec.storageConnectionType === 'SATA');
             
             // Count totals
-            const totalM2 = m2Storage.reduce((sum, item) => sum + item.quantity, 0);
-            const totalSata = sataStorage.reduce((sum, item) => sum + item.quantity, 0);
+            const totalM2 = getM2DriveCount(m2Storage);
+            const totalSata = getSataDriveCount(sataStorage);
             
             // Check if adjustment is needed
             const m2NeedsAdjustment = totalM2 > newM2Slots;
@@ -337,8 +387,8 @@ export const useBuildStore = create<BuildState>()(
             const currentParts = state.parts[category];
             const partsArray = Array.isArray(currentParts) ? currentParts : [];
             
-            // Check if product already exists
-            const existingIndex = partsArray.findIndex(p => p.product.product.id === product.id);
+            // Check if product already exists (owned units of it stay apart)
+            const existingIndex = partsArray.findIndex(p => isItem(p, product.id));
             
             if (existingIndex !== -1) {
               // Product exists, increment quantity
@@ -375,13 +425,77 @@ export const useBuildStore = create<BuildState>()(
         }
       },
 
-      removePart: (category, productId) => {
+      // Swap one item of a multi-select category for another product, keeping its quantity
+      replaceItem: (category, productId, product) => {
+        const productWithSpec = createProductWithSpec(product, category);
+        
+        set((state) => {
+          const currentParts = state.parts[category];
+          if (!Array.isArray(currentParts)) return state;
+          
+          const replaced = currentParts.find(p => isItem(p, productId));
+          if (!replaced) return state;
+          
+          const remaining = currentParts.filter(p => p !== replaced);
+          const existing = remaining.find(p => isItem(p, product.id));
+          const updatedParts = existing
+            ? remaining.map(p => p === existing ? { ...p, quantity: p.quantity + replaced.quantity } : p)
+            : currentParts.map(p => p === replaced ? { product: productWithSpec, quantity: replaced.quantity } : p);
+          
+          return { parts: { ...state.parts, [category]: updatedParts } };
+        });
+      },
+
+      // Owned parts count toward compatibility but not toward the price or the checkout
+      addOwnedPart: (category, product) => {
+        const productWithSpec = { ...createProductWithSpec(product, category), owned: true };
+        
+        set((state) => {
+          if (!MULTI_SELECT_CATEGORIES.includes(category)) {
+            return { parts: { ...state.parts, [category]: productWithSpec } };
+          }
+          
+          const currentParts = state.parts[category];
+          const partsArray = Array.isArray(currentParts) ? currentParts : [];
+          // Units already picked to buy stay as they are
+          const existing = partsArray.find(p => isItem(p, product.id, true));
+          const updatedParts = existing
+            ? partsArray.map(p => p === existing ? { ...p, quantity: p.quantity + 1 } : p)
+            : [...partsArray, { product: productWithSpec, quantity: 1 }];
+          
+          return { parts: { ...state.parts, [category]: updatedParts } };
+        });
+      },
+
+      setPartOwned: (category, owned, productId) => {
+        set((state) => {
+          const currentParts = state.parts[category];
+          
+          if (Array.isArray(currentParts)) {
+            // The item joins the units of the product that already have the new status, if any
+            const changed = currentParts.find(item => productId !== undefined && isItem(item, productId, !owned));
+            if (!changed) return state;
+            const target = currentParts.find(item => isItem(item, changed.product.product.id, owned));
+            const updatedParts = target
+              ? currentParts
+                  .filter(item => item !== changed)
+                  .map(item => item === target ? { ...item, quantity: item.quantity + changed.quantity } : item)
+              : currentParts.map(item => item === changed ? { ...item, product: { ...item.product, owned } } : item);
+            return { parts: { ...state.parts, [category]: updatedParts } };
+          }
+          
+          if (!currentParts) return state;
+          return { parts: { ...state.parts, [category]: { ...currentParts, owned } } };
+        });
+      },
+
+      removePart: (category, productId, owned) => {
         if (MULTI_SELECT_CATEGORIES.includes(category) && productId) {
           // Remove specific item from array
           set((state) => {
             const currentParts = state.parts[category];
             if (Array.isArray(currentParts)) {
-              const filtered = currentParts.filter(p => p.product.product.id !== productId);
+              const filtered = currentParts.filter(p => !isItem(p, productId, owned));
               return {
                 parts: {
                   ...state.parts,
@@ -443,7 +557,7 @@ export const useBuildStore = create<BuildState>()(
         }
       },
 
-      incrementQuantity: (category, productId) => {
+      incrementQuantity: (category, productId, owned) => {
         if (!MULTI_SELECT_CATEGORIES.includes(category)) return;
         
         set((state) => {
@@ -451,7 +565,7 @@ export const useBuildStore = create<BuildState>()(
           if (!Array.isArray(currentParts)) return state;
           
           const updatedParts = currentParts.map(item => 
-            item.product.product.id === productId
+            isItem(item, productId, owned)
               ? { ...item, quantity: item.quantity + 1 }
               : item
           );
@@ -465,7 +579,7 @@ export const useBuildStore = create<BuildState>()(
         });
       },
 
-      decrementQuantity: (category, productId) => {
+      decrementQuantity: (category, productId, owned) => {
         if (!MULTI_SELECT_CATEGORIES.includes(category)) return;
         
         set((state) => {
@@ -474,7 +588,7 @@ export const useBuildStore = create<BuildState>()(
           
           const updatedParts = currentParts
             .map(item => 
-              item.product.product.id === productId
+              isItem(item, productId, owned)
                 ? { ...item, quantity: item.quantity - 1 }
                 : item
             )
@@ -493,31 +607,49 @@ export const useBuildStore = create<BuildState>()(
         set({ parts: { ...INITIAL_PARTS } });
       },
 
-      setActiveCategory: (category) => {
-        set({ activeCategory: category });
-      },
-
-      getBuild: () => {
-        const { parts } = get();
-        const build: PCBuild = new Map();
+      // Replace the generator's categories with a generated build; multi-select categories get one unit.
+      // Owned parts stay: they are the customer's PC, not part of the purchase. So do the
+      // categories the generator doesn't pick (monitor, peripherals, fans)
+      loadBuild: (products) => {
+        const parts: PartsRecord = { ...get().parts };
         
-        for (const [key, value] of Object.entries(parts)) {
-          const categoryKey = key as CategoryKey;
-          
-          if (MULTI_SELECT_CATEGORIES.includes(categoryKey)) {
-            // For multi-select categories, only add if array has items
-            if (Array.isArray(value) && value.length > 0) {
-              // For compatibility checks, use the first item's product
-              build.set(categoryKey, value[0].product);
-            }
-          } else if (value !== null && !Array.isArray(value)) {
-            build.set(categoryKey, value);
+        for (const categoryKey of GENERATION_ORDER) {
+          const value = parts[categoryKey];
+          if (Array.isArray(value)) {
+            parts[categoryKey] = value.filter(item => item.product.owned);
+          } else if (!value?.owned) {
+            parts[categoryKey] = INITIAL_PARTS[categoryKey];
           }
         }
         
-        return build;
+        for (const [key, product] of Object.entries(products)) {
+          if (!product) continue;
+          const categoryKey = key as CategoryKey;
+          const productWithSpec = createProductWithSpec(product, categoryKey);
+          const current = parts[categoryKey];
+          parts[categoryKey] = Array.isArray(current)
+            ? [...current, { product: productWithSpec, quantity: 1 }]
+            : productWithSpec;
+        }
+        
+        set({ parts });
+      },
+
+      setActiveCategory: (category) => {
+        set({ activeCategory: category });
       },
 
+      setLocale: (locale) => {
+        set({ locale });
+      },
+
+      // A new options object, so that rule results cached against the old headroom are not reused
+      setPsuHeadroom: (headroom) => {
+        set({ powerOptions: { ...get().powerOptions, headroom } });
+      },
+
+      getBuild: () => createBuild(get().parts),
+
       getTotalPrice: () => {
         const { parts } = get();
         let total = 0;
@@ -525,8 +657,10 @@ export const useBuildStore = create<BuildState>()(
         for (const part of Object.values(parts)) {
           if (Array.isArray(part)) {
             // Sum all items in array, multiplied by quantity
-            total += part.reduce((sum, item) => sum + (item.product.product.price * item.quantity), 0);
-          } else if (part !== null) {
+            total += part
+              .filter(item => !item.product.owned)
+              .reduce((sum, item) => sum + (item.product.product.price * item.quantity), 0);
+          } else if (part !== null && !part.owned) {
             total += part.product.price;
           }
         }
@@ -563,14 +697,26 @@ export const useBuildStore = create<BuildState>()(
 
       getCompatibilitySummary: () => {
         const build = get().getBuild();
-        return getBuildCompatibilitySummary(build);
+        return getBuildCompatibilitySummary(build, get().locale, { power: get().powerOptions });
       },
     }),
     {
       name: 'pc-build-storage',
+      version: 1,
+      // Version 0 stored fans as a single part; they are now a list of packs with quantities
+      migrate: (persistedState, version) => {
+        const state = persistedState as { parts?: Partial<PartsRecord> };
+        if (version < 1 && state.parts) {
+          const fans = state.parts.fans;
+          state.parts.fans = fans && !Array.isArray(fans) ? [{ product: fans, quantity: 1 }] : [];
+        }
+        return state as BuildState;
+      },
       partialize: (state) => ({
         parts: state.parts,
         activeCategory: state.activeCategory,
+        locale: state.locale,
+        powerOptions: state.powerOptions,
       }),
     }
   )
@@ -583,6 +729,24 @@ export function usePart(category: CategoryKey) {
   return useBuildStore((state) => state.parts[category]);
 }
 
+/**
+ * Hook to get the build, kept while the selected parts stay the same
+ */
+export function useBuild(): PCBuild {
+  const parts = useBuildStore((state) => state.parts);
+  return useMemo(() => createBuild(parts), [parts]);
+}
+
+/**
+ * Hook to get the compatibility summary, recomputed only when the build, language or PSU headroom changes
+ */
+export function useCompatibilitySummary(): ReturnType<typeof getBuildCompatibilitySummary> {
+  const build = useBuild();
+  const locale = useBuildStore((state) => state.locale);
+  const power = useBuildStore((state) => state.powerOptions);
+  return useMemo(() => getBuildCompatibilitySummary(build, locale, { power }), [build, locale, power]);
+}
+
 /**
  * Hook to check if a category has a part selected
  */
@@ -610,13 +774,13 @@ export function useIsProductSelected(category: CategoryKey, productId: string) {
 }
 
 /**
- * Hook to get the quantity of a specific product in a category
+ * Hook to get the quantity of a specific product in a category, owned units aside
  */
 export function useProductQuantity(category: CategoryKey, productId: string): number {
   return useBuildStore((state) => {
     const part = state.parts[category];
     if (Array.isArray(part)) {
-      const item = part.find(p => p.product.product.id === productId);
+      const item = part.find(p => isItem(p, productId));
       return item?.quantity ?? 0;
     }
     return 0;
@@ -645,42 +809,41 @@ export function useTotalQuantity(category: CategoryKey): number {
   });
 }
 
+/**
+ * Slot limits of the selected motherboard (defaults when none is selected or it doesn't say)
+ */
+function getMotherboardSlotLimits(parts: PartsRecord) {
+  const motherboard = parts.motherboard;
+  return getSlotLimits(motherboard && !Array.isArray(motherboard) ? motherboard.spec : undefined);
+}
+
 /**
  * Hook to get the maximum RAM slots available from the selected motherboard
  */
 export function useMaxRamSlots(): number {
-  return useBuildStore((state) => {
-    const motherboard = state.parts.motherboard;
-    if (motherboard && !Array.isArray(motherboard)) {
-      return motherboard.spec.memorySlots ?? 4; // Default to 4 if not specified
-    }
-    return 4; // Default to 4 slots if no motherboard selected
-  });
+  return useBuildStore((state) => getMotherboardSlotLimits(state.parts).memorySlots);
 }
 
 /**
  * Hook to get the maximum M.2 slots available from the selected motherboard
  */
 export function useMaxM2Slots(): number {
-  return useBuildStore((state) => {
-    const motherboard = state.parts.motherboard;
-    if (motherboard && !Array.isArray(motherboard)) {
-      return motherboard.spec.m2Slots ?? 1; // Default to 1 if not specified
-    }
-    return 1; // Default to 1 slot if no motherboard selected
-  });
+  return useBuildStore((state) => getMotherboardSlotLimits(state.parts).m2Slots);
 }
 
 /**
  * Hook to get the maximum SATA ports available from the selected motherboard
+ * Ports that share lanes with populated M.2 slots don't count
  */
 export function useMaxSataPorts(): number {
   return useBuildStore((state) => {
     const motherboard = state.parts.motherboard;
-    if (motherboard && !Array.isArray(motherboard)) {
-      return motherboard.spec.sataPorts ?? 4; // Default to 4 if not specified
-    }
-    return 4; // Default to 4 ports if no motherboard selected
+    const storage = state.parts.storage;
+    const sataPorts =
+      motherboard && !Array.isArray(motherboard)
+        ? getAvailableSataPorts(motherboard.spec, Array.isArray(storage) ? storage : [])
+        : undefined;
+    return sataPorts ?? getMotherboardSlotLimits(state.parts).sataPorts;
   });
 }
 
@@ -689,13 +852,8 @@ export function useMaxSataPorts(): number {
  */
 export function useMaxStorageSlots(): number {
   return useBuildStore((state) => {
-    const motherboard = state.parts.motherboard;
-    if (motherboard && !Array.isArray(motherboard)) {
-      const m2Slots = motherboard.spec.m2Slots ?? 1;
-      const sataPorts = motherboard.spec.sataPorts ?? 4;
-      return m2Slots + sataPorts; // Total storage slots
-    }
-    return 5; // Default to 5 slots (1 M.2 + 4 SATA) if no motherboard selected
+    const { m2Slots, sataPorts } = getMotherboardSlotLimits(state.parts);
+    return m2Slots + sataPorts;
   });
 }
 
@@ -705,12 +863,7 @@ export function useMaxStorageSlots(): number {
 export function useTotalM2Storage(): number {
   return useBuildStore((state) => {
     const storage = state.parts.storage;
-    if (Array.isArray(storage)) {
-      return storage
-        .filter(item => item.product.spec.storageConnectionType === 'M.2')
-        .reduce((sum, item) => sum + item.quantity, 0);
-    }
-    return 0;
+    return Array.isArray(storage) ? getM2DriveCount(storage) : 0;
   });
 }
 
@@ -720,12 +873,19 @@ export function useTotalM2Storage(): number {
 export function useTotalSataStorage(): number {
   return useBuildStore((state) => {
     const storage = state.parts.storage;
-    if (Array.isArray(storage)) {
-      return storage
-        .filter(item => item.product.spec.storageConnectionType === 'SATA')
-        .reduce((sum, item) => sum + item.quantity, 0);
-    }
-    return 0;
+    return Array.isArray(storage) ? getSataDriveCount(storage) : 0;
+  });
+}
+
+/**
+ * Hook to get why one more unit of a product can't be added (rendered message), if it can't
+ * Checks the whole-build constraints (slots, ports, bays) with the extra unit
+ */
+export function useAddUnitFailure(part: ProductWithSpec | undefined): string | undefined {
+  return useBuildStore((state) => {
+    if (!part) return undefined;
+    const failure = getAddUnitFailure(state.getBuild(), part);
+    return failure ? formatMessage(failure.message, state.locale) : undefined;
   });
 }
 
@@ -831,3 +991,32 @@ export function createIncludedPsuProduct(wattage?: number): Product {
     attributeGroups: [],
   };
 }
+
+/**
+ * Create a product for an owned part the customer describes in free text
+ * Specs are extracted from the description like from any listing title
+ */
+export function createOwnedProduct(category: CategoryKey, description: string): Product {
+  const title = description.trim();
+  const id = `${OWNED_PRODUCT_ID_PREFIX}${category}:${title.toLowerCase()}`;
+  return {
+    id,
+    title,
+    description: '',
+    brand: '',
+    price: 0,
+    currency: 'ARS',
+    stock: 999,
+    imageUrl: '',
+    images: [],
+    categories: [],
+    identifiers: {
+      sku: id,
+    },
+    rating: {
+      votes: 0,
+      value: 0,
+    },
+    attributeGroups: [],
+  };
+}